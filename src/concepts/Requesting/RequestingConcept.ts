@@ -132,6 +132,18 @@ export default class RequestingConcept {
     return { request };
   }
 
+  /**
+   * _getRequestInput (request: Request): (input: unknown)
+   *
+   * **effects** returns the full input of the given request, including optional parameters that syncs cannot match on
+   */
+  async _getRequestInput(
+    { request }: { request: Request },
+  ): Promise<{ input: RequestDoc["input"] }[]> {
+    const requestDoc = await this.requests.findOne({ _id: request });
+    return requestDoc ? [{ input: requestDoc.input }] : [];
+  }
+
   /**
    * _awaitResponse (request: Request): (response: unknown)
    *
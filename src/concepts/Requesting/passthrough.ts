@@ -28,6 +28,10 @@ export const inclusions: Record<string, string> = {
   // Feel free to delete these example inclusions
   "/api/PasswordAuth/register": "allow anyone to register a user",
   "/api/PasswordAuth/authenticate": "allow anyone to authenticate a user",
+  "/api/PasswordAuth/refresh":
+    "the refresh token is the credential, and is rotated on every use",
+  "/api/PasswordAuth/logout":
+    "the refresh token is the credential for the session it ends",
 };
 
 /**
@@ -45,6 +49,12 @@ export const exclusions: Array<string> = [
   "/api/Notes/createNote",
   "/api/Folder/createFolder",
   "/api/Folder/moveFolder",
+  "/api/Folder/renameFolder",
+  "/api/Folder/reorderChildren",
+  "/api/Folder/reorderItems",
+  "/api/SmartFolders/createSmartFolder",
+  "/api/SmartFolders/updateSmartFolder",
+  "/api/SmartFolders/deleteSmartFolder",
   "/api/Folder/deleteFolder", // Use Requesting syncs for authentication
   "/api/Notes/deleteNote", // Use Requesting syncs for authentication
   "/api/Notes/setTitle", // Use Requesting syncs for authentication
@@ -53,9 +63,26 @@ export const exclusions: Array<string> = [
   "/api/Summaries/deleteSummary",
   "/api/Notes/updateContent",
   "/api/Tags/addTag",
+  "/api/Tags/renameTag",
+  "/api/Tags/mergeTags",
+  "/api/Tags/deleteTag",
+  "/api/Tags/setTagColor",
+  "/api/Tags/setTagPriority",
+  "/api/Tags/setDueDate",
+  "/api/Tags/markReviewed",
   "/api/Summaries/setSummary",
   "/api/Summaries/setSummaryWithAI",
   "/api/Summaries/generateSummary", // System sync that chains getNoteDetails + setSummaryWithAI + getSummary
+  "/api/Notes/restoreRevision",
+  "/api/Notes/trashNote", // Reached through /Notes/deleteNote
+  "/api/Notes/restoreNote", // Reached through /Trash/restore
+  "/api/Folder/trashFolder", // Reached through /Folder/deleteFolder
+  "/api/Folder/restoreFolder", // Reached through /Trash/restore
+  "/api/Folder/reattachItem", // Reached through /Trash/restore
+  "/api/Trash/trash", // Reached through /Notes/deleteNote and /Folder/deleteFolder
+  "/api/Trash/restore",
+  "/api/Trash/emptyTrash",
+  "/api/SummaryJobs/enqueue", // Reached through /Summaries/generateSummary
 
   // Queries that use auth
   "/api/Notes/getUserNotes", // System sync that gets notes with folder mapping and filtering
@@ -64,27 +91,128 @@ export const exclusions: Array<string> = [
   "/api/Notes/getNotesByUser", // Use Requesting syncs for authentication
   "/api/Tags/getTagsForItem", // Use Requesting syncs for authentication
   "/api/Tags/getAllUserTags", // Use Requesting syncs for authentication
+  "/api/Tags/getPrioritizedNotes", // System sync that joins prioritized tags with note titles and edit times
+  "/api/Tags/getPrioritizedItems", // Reached through /Tags/getPrioritizedNotes
+  "/api/Notes/query", // System sync that evaluates a note query, also used to open smart folders
   "/api/Folder/getRootFolderId", // Use Requesting syncs for authentication
   "/api/Folder/getAllFolders",
+  "/api/Folder/getFolderTree",
+  "/api/Folder/getBreadcrumbs",
+  "/api/Notes/getNoteRevisions",
+  "/api/Notes/diffRevisions",
+  "/api/Trash/getTrash",
+  "/api/SummaryJobs/getJobStatus",
+  "/api/Usage/getUsage",
+  "/api/Sharing/share",
+  "/api/Sharing/unshare",
+  "/api/Sharing/getSharedWithMe",
+  "/api/Sharing/getGrants",
+  "/api/ShareLinks/createLink",
+  "/api/ShareLinks/revokeLink",
+  "/api/ShareLinks/getLinks",
+  "/api/ShareLinks/resolveLink", // Public, but answered by syncs that gather the linked content
+  "/api/Review/getDueToday",
+  "/api/Review/recordReview",
+  "/api/Review/unenroll",
+  "/api/Review/setEnrollLabel",
+  "/api/Flashcards/generateCards", // Checks the AI quota and reads the note before calling the LLM
+  "/api/Flashcards/getCards",
+  "/api/Flashcards/editCard",
+  "/api/Flashcards/deleteCard",
+  "/api/Notes/search", // System sync that ranks notes, summaries and tags for the user
 
   // passthrough routes that are not public
   "/api/Notes/_getNoteDetails",
+  "/api/Notes/_getRevisionDetails",
+  "/api/Notes/recordRevision",
+  "/api/Notes/applyEdit", // Helper behind setTitle and updateContent, with no ownership check of its own
+  "/api/Notes/recordBaselineRevision",
+  "/api/Notes/deleteRevisions", // Only called by the deleteNote cascade sync
+  "/api/Notes/_getLatestRevision",
+  "/api/Notes/_getAllNoteIds", // Only called by the account deletion sync
+  "/api/Notes/_getNoteTitles", // Only called by the folder tree and breadcrumb syncs
+  "/api/Notes/_countForUser",
+  "/api/Notes/_listReferences", // Only called by the integrity checker
+  "/api/Notes/_getOwner", // Only called by the sharing syncs
+  "/api/Notes/_getRevisionNote",
+  "/api/Notes/_getNoteContents", // Only called by the share link syncs
+  "/api/Notes/_getNoteHeaders", // Only called by the prioritized notes sync
+  "/api/Notes/_findByTermPrefix", // Only called by the search sync
+  "/api/Notes/_getSearchableNotes",
+  "/api/Trash/purgeExpired", // Only called by the purge timer
+  "/api/SummaryJobs/claim", // Only called by the job worker
+  "/api/SummaryJobs/complete", // Only called by the job syncs
+  "/api/SummaryJobs/fail", // Only called by the job syncs
+  "/api/SummaryJobs/requeueStalled", // Only called by the job worker
+  "/api/SummaryJobs/cancelForItem", // Only called by the deleteNote cascade sync
+  "/api/SummaryJobs/deleteAllForUser", // Only called by the account deletion sync
+  "/api/SummaryJobs/_countForUser",
+  "/api/Usage/checkQuota", // Only called by the AI summary syncs
+  "/api/Usage/recordCall", // Only called by the AI summary syncs
+  "/api/Usage/windowUsage",
+  "/api/Usage/deleteAllForUser", // Only called by the account deletion sync
+  "/api/Usage/_countForUser",
+  "/api/Sharing/forgetResource", // Only called by the deletion cascade syncs
+  "/api/Sharing/deleteAllForUser", // Only called by the account deletion sync
+  "/api/Sharing/_getAccessLevel", // Only called by the sharing syncs
+  "/api/Sharing/_countForUser",
+  "/api/ShareLinks/forgetResource", // Only called by the deletion cascade syncs
+  "/api/ShareLinks/deleteAllForUser", // Only called by the account deletion sync
+  "/api/ShareLinks/_countForUser",
+  "/api/Review/enroll", // Only called by the sync that enrolls tagged notes
+  "/api/Review/forgetNote", // Only called by the deleteNote cascade sync
+  "/api/Review/deleteAllForUser", // Only called by the account deletion sync
+  "/api/Review/_getEnrollLabel",
+  "/api/Review/_countForUser",
+  "/api/Flashcards/deleteCardsForNote", // Only called by the deleteNote cascade sync
+  "/api/Flashcards/deleteAllForUser", // Only called by the account deletion sync
+  "/api/Flashcards/_countForUser",
+  "/api/SmartFolders/deleteAllForUser", // Only called by the account deletion sync
+  "/api/SmartFolders/_getSmartFolders", // Only called by the folder tree sync
+  "/api/SmartFolders/_countForUser",
+  "/api/Trash/forgetItem", // Only called by the deletion cascade syncs
+  "/api/Trash/removeEntries",
+  "/api/Trash/_getEntryForItem",
+  "/api/Trash/_countForUser",
+  "/api/Trash/_listReferences",
   "/api/Folder/initializeFolder",
+  "/api/Folder/applyOrder",
+  "/api/Folder/relocate",
+  "/api/Folder/findSubtree",
+  "/api/Folder/backfillPaths", // Only run by the folder path migration
+  "/api/Folder/_listReferences",
   "/api/Folder/isDescendant",
   "/api/Folder/collectDescendants",
   "/api/Folder/deleteItem",
   "/api/Folder/_getFolderChildren",
   "/api/Folder/_getFolderItems",
   "/api/Folder/_getFolderDetails",
-  "/api/PasswordAuth/refresh",
+  "/api/Folder/_getRootFolder",
+  "/api/Folder/_countForUser",
+  "/api/Folder/_getFolderPath", // Only called by the sharing syncs
+  "/api/Folder/_getItemPath",
+  "/api/Folder/_getSubtreeItems", // Only called by the share link syncs
+  "/api/PasswordAuth/logoutEverywhere",
+  "/api/PasswordAuth/deleteAccount",
+  "/api/PasswordAuth/_countForUser", // Only used to check account deletion
+  "/api/PasswordAuth/_getUserByUsername", // Only called by the sharing syncs
+  "/api/PasswordAuth/_getUsernames",
+  "/api/PasswordAuth/isActiveSession",
   "/api/PasswordAuth/_getUserFromToken",
   "/api/PasswordAuth/_generateNewAccessToken",
+  "/api/Summaries/_getSummariesForItems", // Only called by the search sync
+  "/api/Summaries/_findByTermPrefix", // Only called by the search sync
+  "/api/Summaries/_countForItems",
+  "/api/Summaries/_listReferences",
+  "/api/Summaries/checkStaleness", // Only called by the content update syncs
+  "/api/Summaries/buildDocument",
   "/api/Summaries/validateSummary",
   "/api/Summaries/validateSummaryLength",
-  "/api/Summaries/validateContentRelevance",
-  "/api/Summaries/validateNoMetaLanguage",
   "/api/Tags/updateTags",
   "/api/Tags/_getItemsByTag",
   "/api/Tags/_getTagDetails",
+  "/api/Tags/deleteAllForUser", // Only called by the account deletion sync
+  "/api/Tags/_countForUser",
+  "/api/Tags/_listReferences",
   "/api/Folder/_getFolderDetails",
 ];
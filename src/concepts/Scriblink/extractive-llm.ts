@@ -0,0 +1,133 @@
+import type { LLMProvider } from "./llm-provider.ts";
+
+// Common words that carry no meaning on their own and are ignored when scoring sentences
+const STOP_WORDS = new Set([
+  "about",
+  "after",
+  "also",
+  "because",
+  "been",
+  "before",
+  "being",
+  "between",
+  "both",
+  "could",
+  "does",
+  "each",
+  "from",
+  "have",
+  "into",
+  "more",
+  "most",
+  "much",
+  "only",
+  "other",
+  "over",
+  "same",
+  "should",
+  "some",
+  "such",
+  "than",
+  "that",
+  "their",
+  "them",
+  "then",
+  "there",
+  "these",
+  "they",
+  "this",
+  "those",
+  "through",
+  "very",
+  "were",
+  "what",
+  "when",
+  "where",
+  "which",
+  "while",
+  "will",
+  "with",
+  "would",
+  "your",
+]);
+
+const MAX_BULLETS = 5;
+const MAX_LENGTH_RATIO = 0.4;
+const MAX_BULLET_WORDS = 30;
+
+/**
+ * A local, deterministic summarizer that needs no network access or API key.
+ * It picks the sentences whose meaningful words occur most often in the text
+ * and returns them as bullet points, in their original order.
+ */
+export class ExtractiveLLM implements LLMProvider {
+  executeLLM(prompt: string, source?: string): Promise<string> {
+    return Promise.resolve(summarize(source ?? prompt));
+  }
+}
+
+/**
+ * Extracts the meaningful words (4+ letters, not stop words) of a text.
+ */
+function meaningfulWords(text: string): string[] {
+  return (text.toLowerCase().match(/\b[a-z0-9]{4,}\b/g) ?? [])
+    .filter((word) => !STOP_WORDS.has(word));
+}
+
+/**
+ * Builds an extractive summary of at most MAX_BULLETS sentences,
+ * keeping the summary under MAX_LENGTH_RATIO of the text's length.
+ */
+function summarize(text: string): string {
+  const sentences = text
+    .replace(/\s+/g, " ")
+    .split(/(?<=[.!?])\s+|\s*[•\-*]\s+/)
+    .map((s) => s.trim())
+    .filter((s) => meaningfulWords(s).length > 0);
+  if (sentences.length === 0) {
+    return text.trim();
+  }
+
+  const frequencies = new Map<string, number>();
+  for (const word of meaningfulWords(text)) {
+    frequencies.set(word, (frequencies.get(word) ?? 0) + 1);
+  }
+
+  // Score each sentence by the average frequency of its distinct meaningful words;
+  // ties keep the earlier sentence so the output is stable
+  const ranked = sentences
+    .map((sentence, index) => {
+      const words = [...new Set(meaningfulWords(sentence))];
+      const score = words.reduce((sum, w) => sum + frequencies.get(w)!, 0) /
+        words.length;
+      return { sentence: truncate(sentence), index, score };
+    })
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+
+  const totalWords = text.split(/\s+/).filter(Boolean).length;
+  const budget = totalWords * MAX_LENGTH_RATIO;
+  const chosen: typeof ranked = [];
+  let used = 0;
+  for (const candidate of ranked) {
+    if (chosen.length === MAX_BULLETS) break;
+    const words = candidate.sentence.split(" ").length;
+    if (chosen.length > 0 && used + words > budget) continue;
+    chosen.push(candidate);
+    used += words;
+  }
+
+  return chosen
+    .sort((a, b) => a.index - b.index)
+    .map((c) => `• ${c.sentence}`)
+    .join("\n");
+}
+
+/**
+ * Shortens a sentence to MAX_BULLET_WORDS words.
+ */
+function truncate(sentence: string): string {
+  const words = sentence.split(" ");
+  return words.length > MAX_BULLET_WORDS
+    ? words.slice(0, MAX_BULLET_WORDS).join(" ") + "…"
+    : sentence;
+}
@@ -0,0 +1,435 @@
+import { Collection, Db } from "npm:mongodb";
+import { ID } from "@utils/types.ts";
+import { freshID, IndexDeclarations } from "@utils/database.ts";
+import { LLMProvider, loadLLMProvider } from "./llm-provider.ts";
+import {
+  validateContentRelevance,
+  validateNoMetaLanguage,
+} from "./llm-validation.ts";
+
+// Collection prefix to ensure namespace separation
+const PREFIX = "Flashcard" + ".";
+
+// Generic types for the concept's external dependencies
+type User = ID;
+type Note = ID;
+
+// Internal entity types, represented as IDs
+type Card = ID;
+
+/**
+ * A card is either a question with a free answer, or a question with choices, one of which is the answer.
+ */
+export type CardKind = "flashcard" | "multiple_choice";
+
+// How many cards of each kind the LLM is asked for
+const FLASHCARDS_PER_NOTE = 5;
+const QUESTIONS_PER_NOTE = 3;
+const CHOICES_PER_QUESTION = 4;
+const MIN_CHOICES = 2;
+const MAX_CHOICES = 6;
+
+// An answer counts as grounded when at least this share of its meaningful words occur in the note
+const MIN_ANSWER_OVERLAP = 0.5;
+
+/**
+ * State: A set of Cards with
+ *   - _id: Card
+ *   - owner: User
+ *   - note: Note (the note the card was made from)
+ *   - kind: "flashcard" | "multiple_choice"
+ *   - question: String
+ *   - answer: String
+ *   - choices: String[] | null (the possible answers of a multiple-choice card, including the answer)
+ *   - createdAt: Date
+ *   - editedAt: Date | null (null until the user edits the card)
+ *
+ * Invariants:
+ * - question and answer are not empty
+ * - a multiple-choice card has 2 to 6 distinct choices, and its answer is one of them
+ * - a flashcard has no choices
+ */
+export interface CardDocument {
+  _id: Card;
+  owner: User;
+  note: Note;
+  kind: CardKind;
+  question: string;
+  answer: string;
+  choices: string[] | null;
+  createdAt: Date;
+  editedAt: Date | null;
+}
+
+/**
+ * A card as the LLM is asked to write it, before it is checked.
+ */
+type DraftCard = Pick<CardDocument, "kind" | "question" | "answer" | "choices">;
+
+/**
+ * Reads the cards out of the LLM's reply, which should be a JSON object,
+ * possibly wrapped in a Markdown code fence.
+ * @throws FormatError if the reply isn't the expected JSON.
+ */
+function parseDrafts(reply: string): DraftCard[] {
+  const json = reply.trim().replace(/^```(?:json)?\s*/i, "").replace(
+    /\s*```$/,
+    "",
+  );
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("FormatError: The reply is not valid JSON.");
+  }
+  const { flashcards, quiz } = (parsed ?? {}) as {
+    flashcards?: unknown;
+    quiz?: unknown;
+  };
+  if (!Array.isArray(flashcards) && !Array.isArray(quiz)) {
+    throw new Error(
+      'FormatError: The reply has neither "flashcards" nor "quiz".',
+    );
+  }
+
+  const drafts: DraftCard[] = [];
+  for (const card of Array.isArray(flashcards) ? flashcards : []) {
+    const { question, answer } = card ?? {};
+    drafts.push({
+      kind: "flashcard",
+      question: String(question ?? "").trim(),
+      answer: String(answer ?? "").trim(),
+      choices: null,
+    });
+  }
+  for (const card of Array.isArray(quiz) ? quiz : []) {
+    const { question, answer, choices } = card ?? {};
+    drafts.push({
+      kind: "multiple_choice",
+      question: String(question ?? "").trim(),
+      answer: String(answer ?? "").trim(),
+      choices: Array.isArray(choices)
+        ? choices.map((choice) => String(choice).trim())
+        : [],
+    });
+  }
+  return drafts;
+}
+
+/**
+ * Checks the invariants every card must meet, whoever wrote it.
+ * @returns A description of the first violated invariant, or null if the card is valid.
+ */
+function checkCard(card: DraftCard): string | null {
+  if (card.question.trim() === "") {
+    return "Question cannot be empty.";
+  }
+  if (card.answer.trim() === "") {
+    return "Answer cannot be empty.";
+  }
+  if (card.kind === "flashcard") {
+    return card.choices === null ? null : "Flashcards don't have choices.";
+  }
+  const choices = card.choices ?? [];
+  if (choices.length < MIN_CHOICES || choices.length > MAX_CHOICES) {
+    return `A question needs ${MIN_CHOICES} to ${MAX_CHOICES} choices.`;
+  }
+  if (choices.some((choice) => choice === "")) {
+    return "Choices cannot be empty.";
+  }
+  if (new Set(choices).size !== choices.length) {
+    return "Choices must be different from each other.";
+  }
+  if (!choices.includes(card.answer)) {
+    return "The answer must be one of the choices.";
+  }
+  return null;
+}
+
+/**
+ * Validates that a generated card is grounded in the note it was made from.
+ * Short answers such as names and numbers are grounded when they appear in the note as written;
+ * longer ones when most of their meaningful words do.
+ * @throws MetaLanguageError or ContentRelevanceError if the card is not usable.
+ */
+function validateGrounding(card: DraftCard, text: string): void {
+  validateNoMetaLanguage(
+    [card.question, card.answer, ...(card.choices ?? [])].join("\n"),
+  );
+  const normalize = (s: string) => s.toLowerCase().replace(/\s+/g, " ").trim();
+  if (normalize(text).includes(normalize(card.answer))) {
+    return;
+  }
+  validateContentRelevance(card.answer, text, MIN_ANSWER_OVERLAP, "Answer");
+}
+
+/**
+ * @concept Flashcards
+ * @purpose helps users test themselves on what their notes say
+ * @principle The owner of a note asks for cards to be made from it; an LLM writes flashcards and
+ *            multiple-choice questions, and only the ones whose answers can be found in the note are kept.
+ *            The user studies the cards, fixes or deletes the ones they don't like,
+ *            and can make a fresh set at any time without losing the cards they edited.
+ */
+export default class FlashcardsConcept {
+  cards: Collection<CardDocument>;
+  private readonly cardPromptTemplate: string;
+
+  /**
+   * Indexes for listing a note's cards and dropping a deleted note's cards, created at startup.
+   */
+  static readonly indexes: IndexDeclarations = {
+    [PREFIX + "cards"]: [
+      { keys: { owner: 1, note: 1, createdAt: 1 } },
+      { keys: { note: 1 } },
+    ],
+  };
+
+  /**
+   * @param db The database holding the concept's state.
+   * @param llm The backend used by `generateCards`; defaults to the one selected by LLM_PROVIDER.
+   */
+  constructor(
+    private readonly db: Db,
+    private readonly llm: LLMProvider = loadLLMProvider(),
+  ) {
+    this.cards = this.db.collection(PREFIX + "cards");
+
+    this.cardPromptTemplate =
+      `Write study questions about the following notes to help a student check their understanding.
+Write up to ${FLASHCARDS_PER_NOTE} flashcards, each a question with a short answer,
+and up to ${QUESTIONS_PER_NOTE} multiple-choice questions, each with ${CHOICES_PER_QUESTION} choices of which exactly one is correct.
+Every answer must be stated in the notes; use the notes' own wording for answers where possible.
+Do not ask about anything the notes don't cover, and do not add any commentary.
+Reply with JSON only, in this form:
+{"flashcards": [{"question": "...", "answer": "..."}],
+ "quiz": [{"question": "...", "choices": ["...", "...", "...", "..."], "answer": "..."}]}`;
+  }
+
+  /**
+   * Action: Makes flashcards and multiple-choice questions from a note with an LLM.
+   * @param owner The user asking for the cards.
+   * @param noteOwner The owner of the note, or null if it doesn't exist.
+   * @param note The note to make cards from.
+   * @param text The note's content.
+   * @requires The note exists and belongs to the owner, and text is not empty.
+   * @effects Asks the LLM for cards, drops the ones that break an invariant or whose answer isn't
+   *          grounded in text, and replaces the note's generated cards with the rest.
+   *          Cards the user edited are kept.
+   * @returns The new cards and how many generated cards were dropped, or an error if none are usable.
+   */
+  async generateCards(
+    { owner, noteOwner, note, text }: {
+      owner: User;
+      noteOwner: User | null;
+      note: Note;
+      text: string;
+    },
+  ): Promise<{ cards: CardDocument[]; rejected: number } | { error: string }> {
+    if (!noteOwner) {
+      return { error: `Note with ID ${note} not found.` };
+    }
+    if (noteOwner !== owner) {
+      return { error: `Note with ID ${note} does not belong to you.` };
+    }
+    if (!text || text.trim().length === 0) {
+      return { error: "Text to make cards from cannot be empty." };
+    }
+
+    let drafts: DraftCard[];
+    try {
+      const reply = await this.llm.executeLLM(
+        `${this.cardPromptTemplate}\n\n${text}`,
+        text,
+      );
+      drafts = parseDrafts(reply);
+    } catch (e) {
+      console.error(`Error generating cards for note ${note}:`, e);
+      return {
+        error: `Failed to generate cards: ${(e as Error).message}`,
+      };
+    }
+
+    const now = new Date();
+    const cards: CardDocument[] = [];
+    for (const draft of drafts) {
+      const invalid = checkCard(draft);
+      if (invalid) {
+        console.warn(`Dropped a generated card for note ${note}: ${invalid}`);
+        continue;
+      }
+      try {
+        validateGrounding(draft, text);
+      } catch (e) {
+        console.warn(
+          `Dropped a generated card for note ${note}: ${(e as Error).message}`,
+        );
+        continue;
+      }
+      cards.push({
+        _id: freshID() as Card,
+        owner,
+        note,
+        ...draft,
+        createdAt: now,
+        editedAt: null,
+      });
+    }
+    if (cards.length === 0) {
+      return {
+        error:
+          "Failed to generate cards: none of the generated cards could be verified against the note.",
+      };
+    }
+
+    try {
+      await this.cards.deleteMany({ owner, note, editedAt: null });
+      await this.cards.insertMany(cards);
+      return { cards, rejected: drafts.length - cards.length };
+    } catch (e) {
+      console.error(`Error saving cards for note ${note}:`, e);
+      return { error: `Failed to save cards: ${(e as Error).message}` };
+    }
+  }
+
+  /**
+   * Action: Changes the question, answer or choices of a card.
+   * @param owner The user who owns the card.
+   * @param card The card to edit.
+   * @param question The new question, or null/omitted to keep it.
+   * @param answer The new answer, or null/omitted to keep it.
+   * @param choices The new choices of a multiple-choice card, or null/omitted to keep them.
+   * @requires The card exists and belongs to the owner, and the edited card meets the card invariants.
+   *           Edited answers don't need to be found in the note.
+   * @effects Updates the card and marks it as edited, so making a fresh set of cards keeps it.
+   * @returns The ID of the card, or an error.
+   */
+  async editCard(
+    { owner, card, question, answer, choices }: {
+      owner: User;
+      card: Card;
+      question?: string | null;
+      answer?: string | null;
+      choices?: string[] | null;
+    },
+  ): Promise<{ card: Card } | { error: string }> {
+    const existing = await this.cards.findOne({ _id: card, owner });
+    if (!existing) {
+      return { error: `Card ${card} not found.` };
+    }
+    if (choices != null && !Array.isArray(choices)) {
+      return { error: "Choices must be a list." };
+    }
+
+    const edited: DraftCard = {
+      kind: existing.kind,
+      question: (question ?? existing.question).trim(),
+      answer: (answer ?? existing.answer).trim(),
+      choices: choices != null
+        ? choices.map((choice) => String(choice).trim())
+        : existing.choices,
+    };
+    const invalid = checkCard(edited);
+    if (invalid) {
+      return { error: invalid };
+    }
+
+    await this.cards.updateOne(
+      { _id: card },
+      {
+        $set: {
+          question: edited.question,
+          answer: edited.answer,
+          choices: edited.choices,
+          editedAt: new Date(),
+        },
+      },
+    );
+    return { card };
+  }
+
+  /**
+   * Action: Deletes a card.
+   * @param owner The user who owns the card.
+   * @param card The card to delete.
+   * @requires The card exists and belongs to the owner.
+   * @effects Removes the card.
+   * @returns The ID of the deleted card, or an error.
+   */
+  async deleteCard(
+    { owner, card }: { owner: User; card: Card },
+  ): Promise<{ card: Card } | { error: string }> {
+    const result = await this.cards.deleteOne({ _id: card, owner });
+    if (result.deletedCount === 0) {
+      return { error: `Card ${card} not found.` };
+    }
+    return { card };
+  }
+
+  /**
+   * Action: Drops the cards made from a note that no longer exists.
+   * @param note The deleted note.
+   * @effects Removes every card of the note.
+   * @returns The number of removed cards.
+   */
+  async deleteCardsForNote(
+    { note }: { note: Note },
+  ): Promise<{ deleted: number } | { error: string }> {
+    const result = await this.cards.deleteMany({ note });
+    return { deleted: result.deletedCount };
+  }
+
+  /**
+   * Action: Deletes every card a user has.
+   * @param user The user whose cards should be deleted.
+   * @effects Removes the cards. Used when the user's account is deleted.
+   * @returns The number of deleted cards, or an error.
+   */
+  async deleteAllForUser(
+    { user }: { user: User },
+  ): Promise<{ deleted: number } | { error: string }> {
+    try {
+      const result = await this.cards.deleteMany({ owner: user });
+      return { deleted: result.deletedCount };
+    } catch (e) {
+      console.error(`Error deleting cards for user ${user}:`, e);
+      return { error: `Failed to delete cards: ${(e as Error).message}` };
+    }
+  }
+
+  /**
+   * Query: Lists the cards of a note, flashcards first, in the order they were made.
+   * @param owner The user who owns the cards.
+   * @param note The note the cards were made from.
+   * @returns The cards, or an error.
+   */
+  async getCards(
+    { owner, note }: { owner: User; note: Note },
+  ): Promise<{ cards: CardDocument[] } | { error: string }> {
+    try {
+      const cards = await this.cards.find({ owner, note })
+        .sort({ createdAt: 1 })
+        .toArray();
+      // Keep the order of each kind, with flashcards before the quiz
+      cards.sort((a, b) =>
+        Number(a.kind === "multiple_choice") -
+        Number(b.kind === "multiple_choice")
+      );
+      return { cards };
+    } catch (e) {
+      console.error(`Error getting cards for note ${note}:`, e);
+      return { error: `Failed to retrieve cards: ${(e as Error).message}` };
+    }
+  }
+
+  /**
+   * Query: Counts the cards a user has, to check that account deletion left nothing behind.
+   * @param user The user to count cards for.
+   * @returns An array with the number of cards.
+   */
+  async _countForUser(
+    { user }: { user: User },
+  ): Promise<{ flashcards: number }[]> {
+    return [{ flashcards: await this.cards.countDocuments({ owner: user }) }];
+  }
+}
@@ -1,6 +1,10 @@
-import { Collection, Db } from "npm:mongodb";
+import { ClientSession, Collection, Db } from "npm:mongodb";
 import { Empty, ID } from "@utils/types.ts";
-import { freshID } from "@utils/database.ts";
+import {
+  freshID,
+  IndexDeclarations,
+  withTransaction,
+} from "@utils/database.ts";
 
 // Collection prefix to ensure namespace separation
 const PREFIX = "Folder" + ".";
@@ -14,13 +18,40 @@ export type Folder = ID;
 
 /**
  * State: A set of Folders with an owner, title, contained set of Folders, and elements set of Items.
+ * Each folder also stores its parent (null for the root folder) and its ancestors, root first,
+ * so descendant checks and subtree queries need a single indexed query.
+ * A folder in the trash (together with its subtree) carries the time it was trashed.
  */
 export interface FolderStructure {
   _id: Folder;
   title: string;
   owner: User;
+  parent: Folder | null;
+  ancestors: Folder[];
   folders: Folder[];
   elements: Item[];
+  trashed_at?: Date;
+}
+
+/**
+ * A folder in a nested folder tree, with its subfolders in the order the user chose.
+ * `hasMore` is set when the folder has subfolders that were left out by a depth limit.
+ */
+export interface FolderTreeNode {
+  _id: Folder;
+  title: string;
+  noteCount: number;
+  elements: Item[];
+  folders: FolderTreeNode[];
+  hasMore: boolean;
+}
+
+/**
+ * One step of a breadcrumb trail.
+ */
+export interface Breadcrumb {
+  _id: Folder;
+  title: string;
 }
 
 /**
@@ -30,6 +61,17 @@ export interface FolderStructure {
 export default class FolderConcept {
   folders: Collection<FolderStructure>;
 
+  /**
+   * Indexes for subtree, root folder and item lookups, created at startup.
+   */
+  static readonly indexes: IndexDeclarations = {
+    [PREFIX + "folders"]: [
+      { keys: { ancestors: 1 } },
+      { keys: { owner: 1, parent: 1 } },
+      { keys: { elements: 1 } },
+    ],
+  };
+
   constructor(private readonly db: Db) {
     this.folders = this.db.collection(PREFIX + "folders");
   }
@@ -53,6 +95,8 @@ export default class FolderConcept {
       _id: folderId,
       owner: user,
       title: "Root",
+      parent: null,
+      ancestors: [],
       folders: [],
       elements: [],
     });
@@ -78,20 +122,25 @@ export default class FolderConcept {
     }
     const folderId = freshID() as Folder;
 
-    // Create the new folder document itself with no children or elements initially
-    await this.folders.insertOne({
-      _id: folderId,
-      owner: user,
-      title,
-      folders: [],
-      elements: [],
-    });
+    await withTransaction(this.db, async (session) => {
+      // Create the new folder document itself with no children or elements initially
+      await this.folders.insertOne({
+        _id: folderId,
+        owner: user,
+        title,
+        parent,
+        ancestors: [...existingParent.ancestors, parent],
+        folders: [],
+        elements: [],
+      }, { session });
 
-    // Link the new folder to its parent by adding its ID to the parent's 'folders' array
-    await this.folders.updateOne(
-      { _id: parent },
-      { $push: { folders: folderId } }, // Use $push to add the child ID to the parent's list
-    );
+      // Link the new folder to its parent by adding its ID to the parent's 'folders' array
+      await this.folders.updateOne(
+        { _id: parent },
+        { $push: { folders: folderId } }, // Use $push to add the child ID to the parent's list
+        { session },
+      );
+    });
 
     return { folder: folderId };
   }
@@ -117,46 +166,54 @@ export default class FolderConcept {
     targetId: Folder,
     ancestorId: Folder,
   ): Promise<boolean> {
-    const queue: Folder[] = [ancestorId];
-    const visited: Set<Folder> = new Set(); // Track visited folders to prevent infinite loops in cycles
-    let iterationCount = 0;
-
-    while (queue.length > 0) {
-      iterationCount++;
-      const currentId = queue.shift()!;
-
-      // Skip if already visited or if current is the target itself (handled by earlier checks)
-      if (visited.has(currentId) || currentId === targetId) {
-        continue;
-      }
-      visited.add(currentId);
-
-      const folderDoc = await this.folders.findOne({ _id: currentId });
-      if (!folderDoc) {
-        // Data inconsistency: A folder ID in a parent's 'folders' array doesn't exist as a document.
-        console.warn(
-          `Folder ID ${currentId} found in hierarchy but document missing.`,
-        );
-        continue;
-      }
-
-      // If targetId is a direct child of currentId, then it is a descendant of ancestorId
-      const isDirectChild = folderDoc.folders.includes(targetId);
+    const descendant = await this.folders.findOne(
+      { _id: targetId, ancestors: ancestorId },
+      { projection: { _id: 1 } },
+    );
+    return descendant !== null;
+  }
 
-      if (isDirectChild) {
-        return true;
-      }
+  /**
+   * Helper function to move a folder under a new parent.
+   * Unlinks the folder from every folder that lists it, so it never has two parents,
+   * and rewrites the ancestor paths of the folder and its whole subtree.
+   * Pass a session to make the writes part of a transaction.
+   */
+  private async relocate(
+    folder: FolderStructure,
+    newParent: FolderStructure,
+    session?: ClientSession,
+  ): Promise<void> {
+    const oldDepth = folder.ancestors.length;
+    const ancestors = [...newParent.ancestors, newParent._id];
 
-      // Add all children of currentId to the queue to check their descendants
-      const newChildren = folderDoc.folders.filter((childId) =>
-        !visited.has(childId)
-      );
+    await this.folders.updateMany(
+      { folders: folder._id, _id: { $ne: newParent._id } },
+      { $pull: { folders: folder._id } },
+      { session },
+    );
+    await this.folders.updateOne(
+      { _id: newParent._id },
+      { $addToSet: { folders: folder._id } },
+      { session },
+    );
+    await this.folders.updateOne(
+      { _id: folder._id },
+      { $set: { parent: newParent._id, ancestors } },
+      { session },
+    );
 
-      for (const childId of newChildren) {
-        queue.push(childId);
-      }
-    }
-    return false;
+    // Every descendant's path starts with the folder's old path; swap it for the new one
+    await this.folders.updateMany({ ancestors: folder._id }, [{
+      $set: {
+        ancestors: {
+          $concatArrays: [
+            ancestors,
+            { $slice: ["$ancestors", oldDepth, { $size: "$ancestors" }] },
+          ],
+        },
+      },
+    }], { session });
   }
 
   /**
@@ -215,79 +272,153 @@ export default class FolderConcept {
       };
     }
 
-    // CRITICAL: Ensure single-parent invariant
+    await withTransaction(this.db, (session) => this.relocate(f1, f2, session));
+
     console.log(
-      "🔄 [FolderConcept.moveFolder] Starting move operation - Step 1: Remove from all current parents",
-    );
-    // Step 1: Remove f1 from ALL current parents (including any duplicates)
-    const removeResult = await this.folders.updateMany(
-      { folders: folderId },
-      { $pull: { folders: folderId } },
+      "✅ [FolderConcept.moveFolder] Move operation completed successfully",
     );
+    return { success: true };
+  }
 
-    console.log("✅ [FolderConcept.moveFolder] Step 1 complete:", {
-      removedFromParents: removeResult.modifiedCount,
-      matchedParents: removeResult.matchedCount,
-    });
+  /**
+   * Action: Renames a folder.
+   * @param folder The ID of the folder to rename.
+   * @param user The user attempting to rename the folder.
+   * @param title The new title.
+   * @requires The folder exists, is owned by the user, and is not the root folder. The title is not empty.
+   * @effects Sets the folder's title.
+   * @returns The ID of the renamed folder, or an error.
+   */
+  async renameFolder(
+    { folder, user, title }: { folder: Folder; user: User; title: string },
+  ): Promise<{ folder: Folder } | { error: string }> {
+    const trimmed = title?.trim() ?? "";
+    if (trimmed === "") {
+      return { error: "Folder title cannot be empty." };
+    }
 
-    // Step 2: Add f1 to the new parent ONLY
-    console.log("🔄 [FolderConcept.moveFolder] Step 2: Adding to new parent");
-    const addResult = await this.folders.updateOne(
-      { _id: newParentId },
-      { $addToSet: { folders: folderId } },
+    const targetFolder = await this.folders.findOne({ _id: folder });
+    if (!targetFolder) {
+      return { error: `Folder with ID ${folder} not found.` };
+    }
+    if (targetFolder.owner !== user) {
+      return { error: `Folder with ID ${folder} is not owned by the user.` };
+    }
+    if (!targetFolder.parent) {
+      return { error: "The root folder cannot be renamed." };
+    }
+
+    await this.folders.updateOne(
+      { _id: folder },
+      { $set: { title: trimmed } },
     );
+    return { folder };
+  }
 
-    console.log("✅ [FolderConcept.moveFolder] Step 2 complete:", {
-      addedToParent: addResult.modifiedCount,
-      matchedParent: addResult.matchedCount,
-    });
+  /**
+   * Action: Puts a folder's subfolders in the order the user chose.
+   * @param folder The ID of the parent folder.
+   * @param user The user attempting to reorder the subfolders.
+   * @param order The IDs of the folder's subfolders in their new order.
+   * @requires The folder exists and is owned by the user. `order` lists every subfolder
+   *           that is not in the trash exactly once, and nothing else.
+   * @effects Stores the subfolders in the given order; subfolders in the trash keep their place after them.
+   * @returns The ID of the reordered folder, or an error.
+   */
+  async reorderChildren(
+    { folder, user, order }: { folder: Folder; user: User; order: Folder[] },
+  ): Promise<{ folder: Folder } | { error: string }> {
+    const targetFolder = await this.folders.findOne({ _id: folder });
+    if (!targetFolder) {
+      return { error: `Folder with ID ${folder} not found.` };
+    }
+    if (targetFolder.owner !== user) {
+      return { error: `Folder with ID ${folder} is not owned by the user.` };
+    }
 
-    // Step 3: Final safety check - remove from any remaining parents
-    console.log(
-      "🔄 [FolderConcept.moveFolder] Step 3: Safety check - removing from any remaining parents",
+    const trashed = new Set(
+      (await this.folders.find({
+        _id: { $in: targetFolder.folders },
+        trashed_at: { $exists: true },
+      }).toArray()).map((child) => child._id),
     );
-    const safetyResult = await this.folders.updateMany(
-      { folders: folderId, _id: { $ne: newParentId } },
-      { $pull: { folders: folderId } },
+    const reordered = this.applyOrder(targetFolder.folders, order, trashed);
+    if (!reordered) {
+      return {
+        error:
+          `The new order must list every subfolder of folder ${folder} exactly once.`,
+      };
+    }
+
+    await this.folders.updateOne(
+      { _id: folder },
+      { $set: { folders: reordered } },
     );
+    return { folder };
+  }
 
-    if (safetyResult.modifiedCount > 0) {
-      console.log("⚠️ [FolderConcept.moveFolder] Safety cleanup performed:", {
-        additionalParentsRemoved: safetyResult.modifiedCount,
-      });
+  /**
+   * Action: Puts a folder's items in the order the user chose.
+   * @param folder The ID of the folder.
+   * @param user The user attempting to reorder the items.
+   * @param order The IDs of the folder's items in their new order.
+   * @param hidden The IDs of items the user can't see, such as notes in the trash.
+   * @requires The folder exists and is owned by the user. `order` lists every item of the folder
+   *           that is not hidden exactly once, and nothing else.
+   * @effects Stores the items in the given order; hidden items keep their place after them.
+   * @returns The ID of the reordered folder, or an error.
+   */
+  async reorderItems(
+    { folder, user, order, hidden }: {
+      folder: Folder;
+      user: User;
+      order: Item[];
+      hidden?: Item[] | null;
+    },
+  ): Promise<{ folder: Folder } | { error: string }> {
+    const targetFolder = await this.folders.findOne({ _id: folder });
+    if (!targetFolder) {
+      return { error: `Folder with ID ${folder} not found.` };
+    }
+    if (targetFolder.owner !== user) {
+      return { error: `Folder with ID ${folder} is not owned by the user.` };
     }
 
-    // Final verification: Check that the move was successful
-    console.log(
-      "🔍 [FolderConcept.moveFolder] Final verification - checking folder structure",
+    const reordered = this.applyOrder(
+      targetFolder.elements,
+      order,
+      new Set(hidden ?? []),
     );
-    const finalF1 = await this.folders.findOne({ _id: folderId });
-    const finalF2 = await this.folders.findOne({ _id: newParentId });
-
-    console.log("🔍 [FolderConcept.moveFolder] Final state:", {
-      movedFolder: finalF1
-        ? {
-          _id: finalF1._id,
-          title: finalF1.title,
-          folders: finalF1.folders,
-          elements: finalF1.elements,
-        }
-        : null,
-      parentFolder: finalF2
-        ? {
-          _id: finalF2._id,
-          title: finalF2.title,
-          folders: finalF2.folders,
-          elements: finalF2.elements,
-        }
-        : null,
-      isInParent: finalF2 ? finalF2.folders.includes(folderId) : false,
-    });
+    if (!reordered) {
+      return {
+        error:
+          `The new order must list every item of folder ${folder} exactly once.`,
+      };
+    }
 
-    console.log(
-      "✅ [FolderConcept.moveFolder] Move operation completed successfully",
+    await this.folders.updateOne(
+      { _id: folder },
+      { $set: { elements: reordered } },
     );
-    return { success: true };
+    return { folder };
+  }
+
+  /**
+   * Helper function to rearrange a list in a requested order.
+   * `order` must be a permutation of the list without the `hidden` entries, which are kept at the end.
+   * @returns The rearranged list, or null if `order` doesn't match the list.
+   */
+  private applyOrder<T>(current: T[], order: T[], hidden: Set<T>): T[] | null {
+    const visible = current.filter((id) => !hidden.has(id));
+    if (
+      !Array.isArray(order) ||
+      order.length !== visible.length ||
+      new Set(order).size !== order.length ||
+      !order.every((id) => visible.includes(id))
+    ) {
+      return null;
+    }
+    return [...order, ...current.filter((id) => hidden.has(id))];
   }
 
   async insertItem(
@@ -298,43 +429,48 @@ export default class FolderConcept {
       return { error: `Target folder with ID ${folder} not found.` };
     }
 
-    // 1. Find the current folder containing the item, if any.
-    // We query for any folder whose 'elements' array contains the 'item' ID.
-    const oldParentFolder = await this.folders.findOne({ elements: item });
+    try {
+      return await withTransaction(this.db, async (session) => {
+        // 1. Find the current folder containing the item, if any.
+        // We query for any folder whose 'elements' array contains the 'item' ID.
+        const oldParentFolder = await this.folders.findOne(
+          { elements: item },
+          { session },
+        );
 
-    // 2. If the item is already in a folder, remove it from there.
-    if (oldParentFolder) {
-      // If the item is already in the target folder, no action is needed, return success.
-      if (oldParentFolder._id === folder) {
-        return {};
-      }
+        // 2. If the item is already in a folder, remove it from there.
+        if (oldParentFolder) {
+          // If the item is already in the target folder, no action is needed, return success.
+          if (oldParentFolder._id === folder) {
+            return {};
+          }
 
-      // Remove the item from its old parent's 'elements' array.
-      await this.folders.updateOne(
-        { _id: oldParentFolder._id },
-        { $pull: { elements: item } },
-      );
-    }
+          // Remove the item from its old parent's 'elements' array.
+          await this.folders.updateOne(
+            { _id: oldParentFolder._id },
+            { $pull: { elements: item } },
+            { session },
+          );
+        }
 
-    // 3. Insert the item into the target folder.
-    // Using $addToSet ensures that the item ID is unique within the folder's elements array.
-    const insertResult = await this.folders.updateOne(
-      { _id: folder },
-      { $addToSet: { elements: item } },
-    );
+        // 3. Insert the item into the target folder.
+        // Using $addToSet ensures that the item ID is unique within the folder's elements array.
+        const insertResult = await this.folders.updateOne(
+          { _id: folder },
+          { $addToSet: { elements: item } },
+          { session },
+        );
 
-    if (insertResult.modifiedCount === 1) {
-      return {};
-    } else {
-      // This implies either the folder was not found (already checked) or $addToSet did nothing
-      // because the item was already present (which would have been caught by oldParentFolder check
-      // unless concurrency issues, or if the item was already in the target folder without being removed from an old one
-      // which the $addToSet handles by doing nothing).
-      // Given the prior checks, a modifiedCount of 0 here is unlikely unless another operation interfered.
-      return {
-        error:
-          `Failed to insert item ${item} into folder ${folder}. Item might already be present.`,
-      };
+        if (insertResult.modifiedCount !== 1) {
+          // Another operation interfered since the checks above; throwing rolls back the removal
+          throw new Error(
+            `Failed to insert item ${item} into folder ${folder}. Item might already be present.`,
+          );
+        }
+        return {};
+      });
+    } catch (e) {
+      return { error: (e as Error).message };
     }
   }
 
@@ -342,22 +478,31 @@ export default class FolderConcept {
    * Helper function to collect all descendants of a given folder.
    * @param f The ID of the folder to collect descendants from.
    * @param folderIdsToDelete The set of folder IDs to collect descendants into.
-   * @effects Collects all descendants of the given folder and adds them to the set.
+   * @effects Adds the folder and all of its descendants to the set, if the folder exists.
    */
   async collectDescendants(
     f: Folder,
     folderIdsToDelete: Set<Folder>,
   ): Promise<void> {
-    const folderDoc = await this.folders.findOne({ _id: f });
-    if (!folderDoc) {
-      return;
-    }
-    folderIdsToDelete.add(f);
-    for (const childId of folderDoc.folders) {
-      await this.collectDescendants(childId, folderIdsToDelete);
+    for (const folder of await this.findSubtree(f)) {
+      folderIdsToDelete.add(folder._id);
     }
   }
 
+  /**
+   * Helper function to fetch a folder and all of its descendants in one query.
+   * @returns The folders of the subtree, or an empty array if the folder doesn't exist.
+   */
+  private async findSubtree(
+    f: Folder,
+    session?: ClientSession,
+  ): Promise<FolderStructure[]> {
+    const subtree = await this.folders.find({
+      $or: [{ _id: f }, { ancestors: f }],
+    }, { session }).toArray();
+    return subtree.some((folder) => folder._id === f) ? subtree : [];
+  }
+
   /**
    * Action: Deletes a folder and all its contents (subfolders and their contents).
    * @param f The ID of the folder to delete.
@@ -375,41 +520,173 @@ export default class FolderConcept {
       return { error: `Folder with ID ${f} not found.` };
     }
 
-    // Collect all items (notes) from the folder and its descendants before deletion
-    const allItems = new Set<Item>();
-    const folderIdsToDelete = new Set<Folder>();
-    await this.collectDescendants(f, folderIdsToDelete); // Collect f and all its children/descendants
+    try {
+      return await withTransaction(this.db, async (session) => {
+        // Collect the subtree and all items (notes) in it before deletion
+        const subtree = await this.findSubtree(f, session);
+        const folderIdsToDelete = subtree.map((folder) => folder._id);
+        const allItems = new Set<Item>(
+          subtree.flatMap((folder) => folder.elements ?? []),
+        );
 
-    // Collect items from all folders that will be deleted
-    for (const folderId of folderIdsToDelete) {
-      const folder = await this.folders.findOne({ _id: folderId });
-      if (folder && folder.elements) {
-        for (const item of folder.elements) {
-          allItems.add(item);
+        // Before deleting the folder itself, remove its ID from its parent's 'folders' array
+        if (targetFolder.parent) {
+          await this.folders.updateOne(
+            { _id: targetFolder.parent },
+            { $pull: { folders: f } },
+            { session },
+          );
         }
-      }
+
+        // Delete the folder and its descendants in one go
+        const deleteResult = await this.folders.deleteMany({
+          _id: { $in: folderIdsToDelete },
+        }, { session });
+
+        if (deleteResult.deletedCount === 0) {
+          // Throwing rolls back the removal from the parent
+          throw new Error(`Failed to delete folder ${f} or its contents.`);
+        }
+        return {
+          deletedFolders: folderIdsToDelete.map((id) => id as Item),
+          deletedItems: Array.from(allItems),
+          owner: targetFolder.owner,
+        };
+      });
+    } catch (e) {
+      return { error: (e as Error).message };
     }
+  }
 
-    // Before deleting the folder itself, remove its ID from its parent's 'folders' array.
-    // This assumes a folder has at most one parent due to how `createFolder` and `moveFolder` link folders.
-    await this.folders.updateOne(
-      { folders: f }, // Find any folder that lists 'f' as a child
-      { $pull: { folders: f } }, // Remove 'f' from its parent's 'folders' array
+  /**
+   * Action: Moves a folder and its subtree to the trash without deleting anything.
+   * @param f The ID of the folder to trash.
+   * @param user The user attempting to trash the folder.
+   * @requires The folder exists, is owned by the user, is not the root folder, and is not already trashed.
+   * @effects Marks the folder and every descendant that is not already trashed with the same `trashed_at`.
+   *          The subtree keeps its position under its parent, so restoring it puts it back where it was.
+   * @returns The folder's title, the trashed folders, and the items they contain.
+   */
+  async trashFolder(
+    { f, user }: { f: Folder; user: User },
+  ): Promise<
+    | { title: string; trashedFolders: Folder[]; trashedItems: Item[] }
+    | { error: string }
+  > {
+    const targetFolder = await this.folders.findOne({ _id: f });
+    if (!targetFolder) {
+      return { error: `Folder with ID ${f} not found.` };
+    }
+    if (targetFolder.owner !== user) {
+      return { error: `Folder with ID ${f} is not owned by the user.` };
+    }
+    if (targetFolder.trashed_at) {
+      return { error: `Folder with ID ${f} is already in the trash.` };
+    }
+    if (!targetFolder.parent) {
+      return { error: "The root folder cannot be moved to the trash." };
+    }
+
+    const toTrash = (await this.findSubtree(f)).filter((folder) =>
+      !folder.trashed_at
     );
 
-    // Delete all collected folders (f and its descendants) in one go
-    const deleteResult = await this.folders.deleteMany({
-      _id: { $in: Array.from(folderIdsToDelete) },
-    });
+    await this.folders.updateMany(
+      { _id: { $in: toTrash.map((folder) => folder._id) } },
+      { $set: { trashed_at: new Date() } },
+    );
 
-    if (deleteResult.deletedCount > 0) {
-      return {
-        deletedFolders: Array.from(folderIdsToDelete).map((id) => id as Item),
-        deletedItems: Array.from(allItems),
-        owner: targetFolder.owner,
-      };
+    return {
+      title: targetFolder.title,
+      trashedFolders: toTrash.map((folder) => folder._id),
+      trashedItems: toTrash.flatMap((folder) => folder.elements ?? []),
+    };
+  }
+
+  /**
+   * Action: Takes a folder and its subtree back out of the trash.
+   * @param f The ID of the folder to restore.
+   * @param user The user attempting to restore the folder.
+   * @requires The folder exists, is owned by the user, and is trashed.
+   * @effects Clears `trashed_at` on the folder and on every descendant that was trashed together with it.
+   *          Descendants that were trashed on their own stay in the trash.
+   *          If the folder's parent is itself in the trash, the folder is moved into the user's root folder.
+   * @returns The restored folders and the items they contain.
+   */
+  async restoreFolder(
+    { f, user }: { f: Folder; user: User },
+  ): Promise<
+    { restoredFolders: Folder[]; restoredItems: Item[] } | { error: string }
+  > {
+    const targetFolder = await this.folders.findOne({ _id: f });
+    if (!targetFolder) {
+      return { error: `Folder with ID ${f} not found.` };
+    }
+    if (targetFolder.owner !== user) {
+      return { error: `Folder with ID ${f} is not owned by the user.` };
+    }
+    if (!targetFolder.trashed_at) {
+      return { error: `Folder with ID ${f} is not in the trash.` };
+    }
+
+    const trashedAt = targetFolder.trashed_at.getTime();
+    try {
+      return await withTransaction(this.db, async (session) => {
+        const subtree = await this.findSubtree(f, session);
+        const toRestore = subtree.filter((folder) =>
+          folder.trashed_at?.getTime() === trashedAt
+        );
+
+        await this.folders.updateMany(
+          { _id: { $in: toRestore.map((folder) => folder._id) } },
+          { $unset: { trashed_at: "" } },
+          { session },
+        );
+
+        const parent = targetFolder.parent
+          ? await this.folders.findOne({ _id: targetFolder.parent }, {
+            session,
+          })
+          : null;
+        if (parent?.trashed_at) {
+          const rootFolder = await this.folders.findOne(
+            { owner: user, parent: null },
+            { session },
+          );
+          if (rootFolder) {
+            await this.relocate(targetFolder, rootFolder, session);
+          }
+        }
+
+        return {
+          restoredFolders: toRestore.map((folder) => folder._id),
+          restoredItems: toRestore.flatMap((folder) => folder.elements ?? []),
+        };
+      });
+    } catch (e) {
+      return { error: (e as Error).message };
     }
-    return { error: `Failed to delete folder ${f} or its contents.` };
+  }
+
+  /**
+   * Action: Makes sure a restored item sits in a folder that is not in the trash.
+   * @param item The ID of the item.
+   * @param user The owner of the item.
+   * @effects If the item's folder is in the trash, or the item is in no folder at all,
+   *          moves the item into the user's root folder. Otherwise does nothing.
+   */
+  async reattachItem(
+    { item, user }: { item: Item; user: User },
+  ): Promise<Empty | { error: string }> {
+    const containingFolder = await this.folders.findOne({ elements: item });
+    if (containingFolder && !containingFolder.trashed_at) {
+      return {};
+    }
+    const root = await this.getRootFolderId({ user });
+    if ("error" in root) {
+      return root;
+    }
+    return await this.insertItem({ item, folder: root.rootFolder });
   }
 
   /**
@@ -446,19 +723,138 @@ export default class FolderConcept {
     }
   }
 
+  /**
+   * Query: Retrieves all folders owned by a user that are not in the trash.
+   * Trashed subfolders are also left out of their parents' `folders` lists.
+   * @param user The user whose folders are to be retrieved.
+   * @returns `FolderStructure[]` owned by the user, or an error.
+   */
   async getAllFolders(
     { user }: { user: User },
   ): Promise<{ folders: FolderStructure[] } | { error: string }> {
     try {
       const allFolders = await this.folders.find({ owner: user })
         .toArray();
-      return { folders: allFolders };
+      const trashed = new Set(
+        allFolders.filter((folder) => folder.trashed_at).map((folder) =>
+          folder._id
+        ),
+      );
+      const visibleFolders = allFolders
+        .filter((folder) => !trashed.has(folder._id))
+        .map((folder) => ({
+          ...folder,
+          folders: folder.folders.filter((child) => !trashed.has(child)),
+        }));
+      return { folders: visibleFolders };
     } catch (e: any) {
       console.error(`Error getting all folders for user ${user}:`, e);
       return { error: `Failed to retrieve folders: ${e.message}` };
     }
   }
 
+  /**
+   * Query: Retrieves a user's folders as a nested tree, leaving out folders in the trash.
+   * @param user The user whose folders are to be retrieved.
+   * @param depth How many levels below the root folder to include; all levels if null or omitted.
+   * @requires The user has a root folder, and depth is a non-negative integer if given.
+   * @returns The root folder with its subfolders nested inside it, each with its items and number of items.
+   */
+  async getFolderTree(
+    { user, depth }: { user: User; depth?: number | null },
+  ): Promise<{ tree: FolderTreeNode } | { error: string }> {
+    if (
+      depth !== undefined && depth !== null &&
+      !(Number.isInteger(depth) && depth >= 0)
+    ) {
+      return { error: "Depth must be a non-negative integer." };
+    }
+
+    try {
+      // Load one level more than requested, to know which cut-off folders have subfolders
+      const folders = await this.folders.find({
+        owner: user,
+        trashed_at: { $exists: false },
+        ...(depth === undefined || depth === null
+          ? {}
+          : { [`ancestors.${depth + 1}`]: { $exists: false } }),
+      }).toArray();
+      const root = folders.find((folder) => folder.parent === null);
+      if (!root) {
+        return { error: `No root folder found for user ${user}.` };
+      }
+
+      const byId = new Map(folders.map((folder) => [folder._id, folder]));
+      const build = (folder: FolderStructure): FolderTreeNode => {
+        const children = folder.folders
+          .map((child) => byId.get(child))
+          .filter((child): child is FolderStructure => child !== undefined);
+        const cutOff = depth !== undefined && depth !== null &&
+          folder.ancestors.length >= depth;
+        return {
+          _id: folder._id,
+          title: folder.title,
+          noteCount: folder.elements.length,
+          elements: folder.elements,
+          folders: cutOff ? [] : children.map(build),
+          hasMore: cutOff && children.length > 0,
+        };
+      };
+      return { tree: build(root) };
+    } catch (e) {
+      console.error(`Error building folder tree for user ${user}:`, e);
+      return {
+        error: `Failed to retrieve folder tree: ${(e as Error).message}`,
+      };
+    }
+  }
+
+  /**
+   * Query: Retrieves the path from the root folder to a folder, or to the folder containing an item.
+   * @param user The user requesting the breadcrumbs.
+   * @param folder The folder to find the path to.
+   * @param item The item to find the path to, if no folder is given.
+   * @requires Exactly one of folder and item is given. The folder, or the folder containing the item, is owned by the user.
+   * @returns The folders from the root down to and including the target folder.
+   */
+  async getBreadcrumbs(
+    { user, folder, item }: {
+      user: User;
+      folder?: Folder | null;
+      item?: Item | null;
+    },
+  ): Promise<{ breadcrumbs: Breadcrumb[] } | { error: string }> {
+    if (!folder === !item) {
+      return { error: "Specify either a folder or an item." };
+    }
+
+    const target = folder
+      ? await this.folders.findOne({ _id: folder })
+      : await this.folders.findOne({ elements: item!, owner: user });
+    if (!target) {
+      return {
+        error: folder
+          ? `Folder with ID ${folder} not found.`
+          : `Item with ID ${item} not found in any folder.`,
+      };
+    }
+    if (target.owner !== user) {
+      return { error: `Folder with ID ${folder} is not owned by the user.` };
+    }
+
+    const path = [...target.ancestors, target._id];
+    const folders = await this.folders.find(
+      { _id: { $in: path } },
+      { projection: { title: 1 } },
+    ).toArray();
+    const titles = new Map(folders.map((f) => [f._id, f.title]));
+    return {
+      breadcrumbs: path
+        .filter((id) => titles.has(id))
+        .map((id) => ({ _id: id, title: titles.get(id)! })),
+    };
+  }
+
   /**
    * Query: Retrieves all children of a given folder ID.
    * @param folderId The ID of the folder to retrieve.
@@ -489,6 +885,181 @@ export default class FolderConcept {
     return folder.elements ?? [];
   }
 
+  /**
+   * Action: Fills in the parent and ancestors of folders stored before folders recorded them.
+   * Parents are read from the `folders` lists; a folder listed by more than one parent
+   * keeps the first one and is unlinked from the others.
+   * @effects Sets `parent` and `ancestors` on every folder, and repairs duplicate parent links.
+   * @returns The number of folders updated, or an error.
+   */
+  async backfillPaths(
+    _: Empty,
+  ): Promise<{ updated: number } | { error: string }> {
+    try {
+      const all = await this.folders.find({}).toArray();
+      const byId = new Map(all.map((folder) => [folder._id, folder]));
+
+      const parentOf = new Map<Folder, Folder>();
+      const extraLinks: { parent: Folder; child: Folder }[] = [];
+      for (const folder of all) {
+        for (const child of folder.folders) {
+          if (!byId.has(child)) continue;
+          if (parentOf.has(child)) {
+            extraLinks.push({ parent: folder._id, child });
+          } else {
+            parentOf.set(child, folder._id);
+          }
+        }
+      }
+
+      const ancestorsOf = (f: Folder): Folder[] => {
+        const path: Folder[] = [];
+        let current = parentOf.get(f);
+        // A corrupted hierarchy could contain a cycle; stop walking when one is found
+        while (current && !path.includes(current) && current !== f) {
+          path.unshift(current);
+          current = parentOf.get(current);
+        }
+        return path;
+      };
+
+      for (const { parent, child } of extraLinks) {
+        console.warn(
+          `Folder ${child} has more than one parent; unlinking it from ${parent}.`,
+        );
+        await this.folders.updateOne(
+          { _id: parent },
+          { $pull: { folders: child } },
+        );
+      }
+
+      const updates = all.map((folder) => ({
+        updateOne: {
+          filter: { _id: folder._id },
+          update: {
+            $set: {
+              parent: parentOf.get(folder._id) ?? null,
+              ancestors: ancestorsOf(folder._id),
+            },
+          },
+        },
+      }));
+      if (updates.length > 0) {
+        await this.folders.bulkWrite(updates);
+      }
+      return { updated: updates.length };
+    } catch (e) {
+      console.error("Error backfilling folder paths:", e);
+      return {
+        error: `Failed to backfill folder paths: ${(e as Error).message}`,
+      };
+    }
+  }
+
+  /**
+   * Query: Finds a user's root folder without creating one.
+   * @param user The user whose root folder is requested.
+   * @returns An array with the root folder, or an empty array if the user has no folders.
+   */
+  async _getRootFolder(
+    { user }: { user: User },
+  ): Promise<{ folder: Folder }[]> {
+    const roots = await this.folders.find({ owner: user, parent: null })
+      .toArray();
+    return roots.map((folder) => ({ folder: folder._id }));
+  }
+
+  /**
+   * Query: Retrieves the owner of a folder and the path from the root folder down to it,
+   * so access granted on any folder along the path can be checked.
+   * @param folder The folder to look up.
+   * @returns An array with the owner, title, whether the folder is in the trash,
+   *          and the path including the folder itself; or an empty array if the folder doesn't exist.
+   */
+  async _getFolderPath(
+    { folder }: { folder: Folder },
+  ): Promise<
+    { owner: User; title: string; trashed: boolean; path: Folder[] }[]
+  > {
+    const found = await this.folders.findOne({ _id: folder });
+    return found
+      ? [{
+        owner: found.owner,
+        title: found.title,
+        trashed: !!found.trashed_at,
+        path: [...found.ancestors, found._id],
+      }]
+      : [];
+  }
+
+  /**
+   * Query: Retrieves the path from the root folder down to the folder containing an item.
+   * @param item The item to look up.
+   * @returns An array with the path, or an empty array if the item is in no folder.
+   */
+  async _getItemPath(
+    { item }: { item: Item },
+  ): Promise<{ path: Folder[] }[]> {
+    const container = await this.folders.findOne(
+      { elements: item },
+      { projection: { ancestors: 1 } },
+    );
+    return container ? [{ path: [...container.ancestors, container._id] }] : [];
+  }
+
+  /**
+   * Query: Lists the items in a folder and all of its subfolders, leaving out folders in the trash.
+   * @param folder The folder at the top of the subtree.
+   * @returns An array with the folder's title and the items, or an empty array
+   *          if the folder doesn't exist or is in the trash.
+   */
+  async _getSubtreeItems(
+    { folder }: { folder: Folder },
+  ): Promise<{ title: string; items: Item[] }[]> {
+    const subtree = await this.findSubtree(folder);
+    const top = subtree.find((f) => f._id === folder);
+    if (!top || top.trashed_at) {
+      return [];
+    }
+    return [{
+      title: top.title,
+      items: subtree.filter((f) => !f.trashed_at).flatMap((f) => f.elements),
+    }];
+  }
+
+  /**
+   * Query: Counts the folders a user owns, to check that account deletion left nothing behind.
+   * @param user The user to count folders for.
+   * @returns An array with the number of folders.
+   */
+  async _countForUser(
+    { user }: { user: User },
+  ): Promise<{ folders: number }[]> {
+    return [{ folders: await this.folders.countDocuments({ owner: user }) }];
+  }
+
+  /**
+   * Query: Lists how folders link to their parents and items, to check references across concepts.
+   * @param user The owner of the folders, or null for every folder.
+   * @returns An array with one entry per folder.
+   */
+  async _listReferences(
+    { user }: { user: User | null },
+  ): Promise<
+    { folder: Folder; owner: User; parent: Folder | null; elements: Item[] }[]
+  > {
+    const folders = await this.folders.find(
+      user ? { owner: user } : {},
+      { projection: { owner: 1, parent: 1, elements: 1 } },
+    ).toArray();
+    return folders.map((folder) => ({
+      folder: folder._id,
+      owner: folder.owner,
+      parent: folder.parent ?? null,
+      elements: folder.elements ?? [],
+    }));
+  }
+
   /**
    * Query: Retrieves the root folder ID for a given user.
    * @param user The user to get the root folder for.
@@ -1,4 +1,5 @@
 import { GoogleGenerativeAI } from "@google/generative-ai";
+import type { LLMProvider } from "./llm-provider.ts";
 
 /**
  * Configuration for API access
@@ -7,7 +8,7 @@ export interface Config {
   apiKey: string;
 }
 
-export class GeminiLLM {
+export class GeminiLLM implements LLMProvider {
   private apiKey: string;
 
   constructor(config: Config) {
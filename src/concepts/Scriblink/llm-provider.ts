@@ -0,0 +1,63 @@
+import { GeminiLLM } from "./gemini-llm.ts";
+import { OpenAICompatibleLLM } from "./openai-llm.ts";
+import { ExtractiveLLM } from "./extractive-llm.ts";
+
+/**
+ * A backend that turns a prompt into text.
+ * Concepts that need an LLM depend on this interface rather than on a specific vendor.
+ */
+export interface LLMProvider {
+  /**
+   * Runs a prompt and returns the generated text.
+   * @param prompt The full prompt, including instructions and the source text.
+   * @param source The source text on its own, for backends that work on the text directly.
+   */
+  executeLLM(prompt: string, source?: string): Promise<string>;
+}
+
+/**
+ * The backends that can be selected through configuration.
+ */
+export type LLMProviderName = "gemini" | "openai" | "extractive";
+
+/**
+ * # LLM provider configuration
+ * The following environment variables are available:
+ *
+ * - LLM_PROVIDER: "gemini" (default), "openai" or "extractive"
+ * - GEMINI_API_KEY: the API key used by the "gemini" provider
+ * - OPENAI_BASE_URL: base URL of an OpenAI-compatible API, default https://api.openai.com/v1
+ * - OPENAI_API_KEY: the bearer token sent to the OpenAI-compatible API, if any
+ * - OPENAI_MODEL: the model requested from the OpenAI-compatible API, default gpt-4o-mini
+ *
+ * The "extractive" provider runs locally and needs no configuration, which makes it
+ * suitable for CI and offline development.
+ */
+export function loadLLMProvider(
+  name: string = Deno.env.get("LLM_PROVIDER") ?? "gemini",
+): LLMProvider {
+  switch (name.trim().toLowerCase() as LLMProviderName) {
+    case "gemini": {
+      const apiKey = Deno.env.get("GEMINI_API_KEY");
+      if (apiKey && apiKey.trim()) {
+        return new GeminiLLM({ apiKey: apiKey.trim() });
+      }
+      console.warn(
+        "❌ Warning: GEMINI_API_KEY environment variable not set. LLM calls will use a MOCK_API_KEY.",
+      );
+      return new GeminiLLM({ apiKey: "GEMINI_API_KEY_NOT_SET" });
+    }
+    case "openai":
+      return new OpenAICompatibleLLM({
+        baseUrl: Deno.env.get("OPENAI_BASE_URL") ?? "https://api.openai.com/v1",
+        apiKey: Deno.env.get("OPENAI_API_KEY")?.trim() || undefined,
+        model: Deno.env.get("OPENAI_MODEL") ?? "gpt-4o-mini",
+      });
+    case "extractive":
+      return new ExtractiveLLM();
+    default:
+      throw new Error(
+        `Unknown LLM_PROVIDER "${name}". Expected "gemini", "openai" or "extractive".`,
+      );
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Checks shared by the concepts that store LLM output, so generated text is held to the same rules everywhere.
+ * Each check throws an Error whose message starts with the name of the violated rule.
+ */
+
+// Phrases that show the LLM talking about itself or its task instead of the content
+const META_PATTERNS = [
+  "as an ai",
+  "i am an ai",
+  "i'm an ai",
+  "as a language model",
+  "i cannot",
+  "i'm not able to",
+  "i don't have the ability",
+  "i'm sorry, but",
+  "unfortunately, i",
+  "i would need more information",
+  "here's a summary",
+  "in summary",
+  "this text discusses",
+  "overall, the passage talks about",
+  "the following is a summary",
+  "this is a summary",
+  "the summary of",
+  "to summarize",
+  "in conclusion",
+  "based on the provided text",
+  "the main points are",
+  "key takeaways include",
+  "this document summarizes",
+  "it is important to note",
+  "this summary covers",
+  "my purpose is to",
+  "I do not have personal opinions", // Added more robust patterns
+  "i do not have access to",
+  "as an artificial intelligence",
+  "i can't provide",
+  "I am designed to",
+  "the summary could not be generated because the content was unclear or unrelated.",
+];
+
+/**
+ * Extracts the meaningful words (4+ alphanumeric characters) of a text.
+ */
+export function extractMeaningfulWords(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/\b[a-z0-9]{4,}\b/g) || []);
+}
+
+/**
+ * Validates that generated text does not contain meta-language or AI disclaimers.
+ * @param text The generated text.
+ * @throws MetaLanguageError if any known pattern is found.
+ */
+export function validateNoMetaLanguage(text: string): void {
+  const textLower = text.toLowerCase();
+  const foundPatterns = META_PATTERNS.filter((pattern) =>
+    textLower.includes(pattern)
+  );
+
+  if (foundPatterns.length > 0) {
+    throw new Error(
+      `MetaLanguageError: Found AI meta-language or summary boilerplate: '${
+        foundPatterns.join("', '")
+      }'`,
+    );
+  }
+}
+
+/**
+ * Validates that generated text is about the content it was generated from.
+ * @param text The generated text.
+ * @param originalText The content the text was generated from.
+ * @param minOverlapRatio Minimum share of the text's meaningful words that must occur in the content.
+ * @param subject What the text is, e.g. "Summary", used in error messages.
+ * @throws ContentRelevanceError if too few of the text's words occur in the content.
+ */
+export function validateContentRelevance(
+  text: string,
+  originalText: string,
+  minOverlapRatio: number = 0.1, // A heuristic, can be adjusted
+  subject: string = "Summary",
+): void {
+  const originalWords = extractMeaningfulWords(originalText);
+  const textWords = extractMeaningfulWords(text);
+
+  if (textWords.size === 0) {
+    throw new Error(
+      `ContentRelevanceError: ${subject} contains no meaningful words for relevance check.`,
+    );
+  }
+  if (originalWords.size === 0) {
+    // If original text has no meaningful words, we cannot establish relevance.
+    // This might indicate an issue with the original content itself or the relevance check.
+    // For now, we'll allow it if there's no original content to compare against.
+    return;
+  }
+
+  // Find overlap between the generated text and the original text
+  const overlap = [...textWords].filter((word) => originalWords.has(word));
+  const overlapRatio = overlap.length / textWords.size;
+
+  if (overlapRatio < minOverlapRatio) {
+    throw new Error(
+      `ContentRelevanceError: ${subject} appears unrelated to source text. Only ${
+        (
+          overlapRatio * 100
+        ).toFixed(1)
+      }% of ${subject.toLowerCase()} words overlap with original content (min ${
+        minOverlapRatio * 100
+      }% required).`,
+    );
+  }
+}
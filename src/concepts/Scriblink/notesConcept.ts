@@ -1,6 +1,7 @@
 import { Collection, Db } from "npm:mongodb";
 import { Empty, ID } from "@utils/types.ts";
-import { freshID } from "@utils/database.ts";
+import { freshID, IndexDeclarations } from "@utils/database.ts";
+import { indexTerms, termPrefix } from "@utils/search.ts";
 
 // Collection prefix to ensure namespace separation
 const PREFIX = "Note" + ".";
@@ -10,6 +11,7 @@ type User = ID;
 
 // Internal entity types, represented as IDs
 type Note = ID;
+type Revision = ID;
 
 /**
  * State: A set of Notes with
@@ -19,10 +21,14 @@ type Note = ID;
  *   - owner: User
  *   - date_created: Date
  *   - last_modified: Date
+ *   - revision: Number (the number of the note's latest revision, compared on edits to detect conflicts)
+ *   - trashed_at: optional Date (set while the note is in the trash)
+ *   - searchTerms: String[] (the distinct words of the title and content, lowercased, for search)
  *
  * Invariants:
  * - each note has exactly one owner
  * - last_modified ≥ date_created
+ * - revision is the number of the note's latest revision
  * - only the owner can modify or delete the note
  */
 interface NoteStructure {
@@ -32,6 +38,130 @@ interface NoteStructure {
   owner: User;
   date_created: Date;
   last_modified: Date;
+  revision: number;
+  trashed_at?: Date;
+  searchTerms?: string[]; // Missing on notes stored before search terms were kept, until Note.005 runs
+}
+
+/**
+ * State: A set of Revisions with
+ *   - _id: Revision (unique identifier for the revision)
+ *   - note: Note (the note this revision is a snapshot of)
+ *   - owner: User (copied from the note so revisions can be owner-checked on their own)
+ *   - number: Number (1 for the note as created, incremented on every change)
+ *   - title: String
+ *   - content: String
+ *   - created: Date
+ *   - restoredFrom: optional Revision (set when the revision was produced by a restore)
+ *
+ * Invariants:
+ * - every title or content change to a note produces exactly one new revision
+ * - revision numbers of a note are unique and increasing
+ * - the latest revision of a note matches the note's current title and content
+ */
+export interface RevisionStructure {
+  _id: Revision;
+  note: Note;
+  owner: User;
+  number: number;
+  title: string;
+  content: string;
+  created: Date;
+  restoredFrom?: Revision;
+}
+
+/**
+ * The error returned when an edit was based on an older revision of a note than the current one,
+ * with the note as it is now so the editor can merge the two.
+ * The revision is named `currentRevision` so that a conflict never matches the `{ revision }` output of a successful edit.
+ */
+export interface RevisionConflict {
+  error: "revision_conflict";
+  currentRevision: number;
+  title: string;
+  content: string;
+}
+
+/**
+ * A single line of a line-based diff between two revisions.
+ */
+export interface DiffLine {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+// Largest table of line pairs the diff compares (about 16 MB); larger changes are shown as a block replacement
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Computes a line-based diff between two texts using the longest common subsequence.
+ * Lines only in `before` are "removed", lines only in `after` are "added".
+ * Common leading and trailing lines are matched first, and if what remains is still too large to compare
+ * line by line (see MAX_DIFF_CELLS), it is reported as removed and then added instead.
+ */
+function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix && suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const diff: DiffLine[] = a.slice(0, prefix).map((text) => ({
+    type: "equal",
+    text,
+  }));
+  const oldLines = a.slice(prefix, a.length - suffix);
+  const newLines = b.slice(prefix, b.length - suffix);
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+    for (const text of oldLines) diff.push({ type: "removed", text });
+    for (const text of newLines) diff.push({ type: "added", text });
+  } else {
+    // lcs[i * (m + 1) + j] = length of the LCS of oldLines[i..] and newLines[j..]
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] = oldLines[i] === newLines[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (oldLines[i] === newLines[j]) {
+        diff.push({ type: "equal", text: oldLines[i] });
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        diff.push({ type: "removed", text: oldLines[i] });
+        i++;
+      } else {
+        diff.push({ type: "added", text: newLines[j] });
+        j++;
+      }
+    }
+    for (; i < n; i++) diff.push({ type: "removed", text: oldLines[i] });
+    for (; j < m; j++) diff.push({ type: "added", text: newLines[j] });
+  }
+
+  for (const text of a.slice(a.length - suffix)) {
+    diff.push({ type: "equal", text });
+  }
+  return diff;
 }
 
 /**
@@ -43,9 +173,25 @@ interface NoteStructure {
  */
 export default class NotesConcept {
   notes: Collection<NoteStructure>;
+  revisions: Collection<RevisionStructure>;
+
+  /**
+   * Indexes for listing a user's notes and finding a note's revisions, created at startup.
+   */
+  static readonly indexes: IndexDeclarations = {
+    [PREFIX + "notes"]: [
+      { keys: { owner: 1 } },
+      { keys: { owner: 1, searchTerms: 1 } },
+    ],
+    [PREFIX + "revisions"]: [
+      { keys: { note: 1, number: -1 } },
+      { keys: { owner: 1 } },
+    ],
+  };
 
   constructor(private readonly db: Db) {
     this.notes = this.db.collection(PREFIX + "notes");
+    this.revisions = this.db.collection(PREFIX + "revisions");
   }
 
   /**
@@ -60,7 +206,9 @@ export default class NotesConcept {
     user: User, // Optional user for ownership check, passed for modification/deletion actions
   ): Promise<NoteStructure | { error: string }> {
     try {
-      const note = await this.notes.findOne({ _id: noteId });
+      const note = await this.notes.findOne({ _id: noteId }, {
+        projection: { searchTerms: 0 },
+      });
       if (!note) {
         return { error: `Note with ID ${noteId} not found.` };
       }
@@ -80,6 +228,124 @@ export default class NotesConcept {
     }
   }
 
+  /**
+   * Helper method to find a revision and check that the user owns it.
+   * Mirrors `_getNoteDetails` so revisions can never be read by anyone but the note's owner.
+   * @param revisionId The ID of the revision to retrieve.
+   * @param user The user attempting to access the revision.
+   * @returns The RevisionStructure if found and owned, or an error object.
+   */
+  public async _getRevisionDetails(
+    revisionId: Revision,
+    user: User,
+  ): Promise<RevisionStructure | { error: string }> {
+    try {
+      const revision = await this.revisions.findOne({ _id: revisionId });
+      if (!revision) {
+        return { error: `Revision with ID ${revisionId} not found.` };
+      }
+      if (user && revision.owner !== user) {
+        return {
+          error:
+            `User ${user} is not authorized to access revision ${revisionId}.`,
+        };
+      }
+      return revision;
+    } catch (e) {
+      console.error(`Error getting revision details for ${revisionId}:`, e);
+      return {
+        error: `Error getting revision details for ${revisionId}: ${
+          (e as Error).message
+        }`,
+      };
+    }
+  }
+
+  /**
+   * Helper method to snapshot a note's current title and content as its revision.
+   * @param note The note to snapshot (as it is after the change being recorded, with its new revision number).
+   * @param restoredFrom The revision this snapshot was restored from, if any.
+   * @returns The ID of the new revision.
+   */
+  private async recordRevision(
+    note: NoteStructure,
+    restoredFrom?: Revision,
+  ): Promise<Revision> {
+    const revisionId = freshID() as Revision;
+    await this.revisions.insertOne({
+      _id: revisionId,
+      note: note._id,
+      owner: note.owner,
+      number: note.revision,
+      title: note.title,
+      content: note.content,
+      created: new Date(),
+      ...(restoredFrom ? { restoredFrom } : {}),
+    });
+    return revisionId;
+  }
+
+  /**
+   * Helper method to snapshot a note as it is before its first recorded change.
+   * Notes stored before revisions were kept have none, and without this their original
+   * title and content would be lost on the first edit.
+   * @param note The note, before the change.
+   */
+  private async recordBaselineRevision(note: NoteStructure): Promise<void> {
+    if (await this.revisions.findOne({ note: note._id })) {
+      return;
+    }
+    await this.recordRevision({ ...note, revision: note.revision ?? 0 });
+  }
+
+  /**
+   * Helper method to apply an edit to a note and move it to its next revision in one atomic update.
+   * If an expected revision is given, the edit only applies while the note is still at that revision.
+   * @param noteId The ID of the note to edit.
+   * @param changes The fields to set.
+   * @param expectedRevision The revision the edit was based on, if the caller wants conflicts detected.
+   * @returns The note after the edit, or a conflict carrying the note as it is now.
+   */
+  private async applyEdit(
+    noteId: Note,
+    changes: Partial<NoteStructure>,
+    expectedRevision?: number | null,
+  ): Promise<NoteStructure | RevisionConflict | { error: string }> {
+    const hasExpectation = expectedRevision !== undefined &&
+      expectedRevision !== null;
+    // The expectation goes into the update filter, so only plain revision numbers are accepted
+    if (
+      hasExpectation &&
+      !(Number.isInteger(expectedRevision) && expectedRevision >= 0)
+    ) {
+      return { error: "Expected revision must be a non-negative integer." };
+    }
+    const updated = await this.notes.findOneAndUpdate(
+      hasExpectation
+        ? { _id: noteId, revision: expectedRevision }
+        : { _id: noteId },
+      { $set: changes, $inc: { revision: 1 } },
+      { returnDocument: "after" },
+    );
+    if (updated) {
+      // Unless a later edit got there first, store the words of the edited title and content for search
+      await this.notes.updateOne({ _id: noteId, revision: updated.revision }, {
+        $set: { searchTerms: indexTerms(updated.title, updated.content) },
+      });
+      return updated;
+    }
+    const current = await this.notes.findOne({ _id: noteId });
+    if (!current) {
+      return { error: `Note with ID ${noteId} not found.` };
+    }
+    return {
+      error: "revision_conflict",
+      currentRevision: current.revision,
+      title: current.title,
+      content: current.content,
+    };
+  }
+
   /**
    * Action: Creates a new note.
    * @param title An optional title for the new note. If not provided, defaults to "Untitled".
@@ -104,10 +370,15 @@ export default class NotesConcept {
       owner: user,
       date_created: now,
       last_modified: now,
+      revision: 1,
     };
 
     try {
-      await this.notes.insertOne(newNote);
+      await this.notes.insertOne({
+        ...newNote,
+        searchTerms: indexTerms(newNote.title),
+      });
+      await this.recordRevision(newNote);
       return { note: noteId };
     } catch (e: any) {
       console.error(`Error creating note for user ${user}:`, e);
@@ -150,18 +421,88 @@ export default class NotesConcept {
     }
   }
 
+  /**
+   * Action: Moves a note to the trash without deleting it.
+   * @param noteId The ID of the note to trash.
+   * @param user The user attempting to trash the note. Used for ownership verification.
+   * @requires The note must exist, must not already be trashed, and the provided user must be its owner.
+   * @effects Sets `trashed_at` to the current time. Trashed notes are hidden from `getNotesByUser`
+   *          but keep their content, revisions and everything linked to them.
+   * @returns The title of the trashed note, or an error.
+   */
+  async trashNote(
+    { noteId, user }: { noteId: Note; user: User },
+  ): Promise<{ title: string } | { error: string }> {
+    const existingNote = await this._getNoteDetails(noteId, user);
+    if ("error" in existingNote) {
+      return existingNote;
+    }
+    if (existingNote.trashed_at) {
+      return { error: `Note ${noteId} is already in the trash.` };
+    }
+
+    try {
+      await this.notes.updateOne(
+        { _id: noteId },
+        { $set: { trashed_at: new Date() } },
+      );
+      return { title: existingNote.title };
+    } catch (e) {
+      console.error(`Error trashing note ${noteId}:`, e);
+      return { error: `Failed to trash note: ${(e as Error).message}` };
+    }
+  }
+
+  /**
+   * Action: Takes a note back out of the trash.
+   * @param noteId The ID of the note to restore.
+   * @param user The user attempting to restore the note. Used for ownership verification.
+   * @requires The note must exist, must be trashed, and the provided user must be its owner.
+   * @effects Clears `trashed_at`, making the note visible again.
+   * @returns The ID of the restored note, or an error.
+   */
+  async restoreNote(
+    { noteId, user }: { noteId: Note; user: User },
+  ): Promise<{ note: Note } | { error: string }> {
+    const existingNote = await this._getNoteDetails(noteId, user);
+    if ("error" in existingNote) {
+      return existingNote;
+    }
+    if (!existingNote.trashed_at) {
+      return { error: `Note ${noteId} is not in the trash.` };
+    }
+
+    try {
+      await this.notes.updateOne(
+        { _id: noteId },
+        { $unset: { trashed_at: "" } },
+      );
+      return { note: noteId };
+    } catch (e) {
+      console.error(`Error restoring note ${noteId}:`, e);
+      return { error: `Failed to restore note: ${(e as Error).message}` };
+    }
+  }
+
   /**
    * Action: Renames the title of a note.
    * @param newTitle The new title for the note.
    * @param noteId The ID of the note to rename.
    * @param user The user attempting to rename the note. Used for ownership verification.
+   * @param expectedRevision The revision the new title was based on; conflicts are not checked if omitted.
    * @requires The note must exist and the provided user must be its owner.
-   * @effects Updates the title of the specified note. Note: `last_modified` is NOT updated as per prompt.
-   * @returns An empty object on successful renaming, or an error.
+   *           If an expected revision is given, the note must still be at that revision.
+   * @effects Updates the title and `last_modified` of the specified note and records the change as a new revision.
+   * @returns The note's revision after the rename, a `revision_conflict` error with the note as it is now, or an error.
    */
   async setTitle(
-    { newTitle, noteId, user }: { newTitle: string; noteId: Note; user: User },
-  ): Promise<Empty | { error: string }> {
+    { newTitle, noteId, user, expectedRevision }: {
+      newTitle: string;
+      noteId: Note;
+      user: User;
+      expectedRevision?: number | null;
+    },
+  ): Promise<{ revision: number } | RevisionConflict | { error: string }> {
     // First, verify the note exists and the user is the owner.
     const existingNote = await this._getNoteDetails(noteId, user);
     if ("error" in existingNote) {
@@ -170,21 +511,21 @@ export default class NotesConcept {
 
     // Check if the title is actually changing to avoid unnecessary database writes
     if (existingNote.title === newTitle) {
-      return {}; // No change needed, consider it a successful no-op.
+      return { revision: existingNote.revision }; // No change needed, consider it a successful no-op.
     }
 
     try {
-      // Update only the title. The prompt specifically excludes updating last_modified here.
-      const updateResult = await this.notes.updateOne(
-        { _id: noteId },
-        { $set: { title: newTitle } },
+      await this.recordBaselineRevision(existingNote);
+      const edited = await this.applyEdit(
+        noteId,
+        { title: newTitle, last_modified: new Date() },
+        expectedRevision,
       );
-
-      if (updateResult.modifiedCount === 1) {
-        return {}; // Success
-      } else {
-        return { error: `Failed to update title for note ${noteId}.` };
+      if ("error" in edited) {
+        return edited;
       }
+      await this.recordRevision(edited);
+      return { revision: edited.revision };
     } catch (e: any) {
       console.error(`Error setting title for note ${noteId}:`, e);
       return { error: `Failed to set title: ${e.message}` };
@@ -196,17 +537,21 @@ export default class NotesConcept {
    * @param newContent The new body text for the note.
    * @param noteId The ID of the note to update.
    * @param user The user attempting to update the content. Used for ownership verification.
+   * @param expectedRevision The revision the new content was based on; conflicts are not checked if omitted.
    * @requires The note must exist and the provided user must be its owner.
-   * @effects Replaces the `content` field and updates `last_modified` to the current time.
-   * @returns An empty object on successful content update, or an error.
+   *           If an expected revision is given, the note must still be at that revision.
+   * @effects Replaces the `content` field, updates `last_modified` to the current time,
+   *          and records the change as a new revision.
+   * @returns The note's revision after the update, a `revision_conflict` error with the note as it is now, or an error.
    */
   async updateContent(
-    { newContent, noteId, user }: {
+    { newContent, noteId, user, expectedRevision }: {
       newContent: string;
       noteId: Note;
       user: User;
+      expectedRevision?: number | null;
     },
-  ): Promise<Empty | { error: string }> {
+  ): Promise<{ revision: number } | RevisionConflict | { error: string }> {
     // First, verify the note exists and the user is the owner.
     const existingNote = await this._getNoteDetails(noteId, user);
     if ("error" in existingNote) {
@@ -215,27 +560,98 @@ export default class NotesConcept {
 
     // Check if the content is actually changing to avoid unnecessary database writes
     if (existingNote.content === newContent) {
-      return {}; // No change needed, consider it a successful no-op.
+      return { revision: existingNote.revision }; // No change needed, consider it a successful no-op.
     }
 
-    const now = new Date();
     try {
-      const updateResult = await this.notes.updateOne(
-        { _id: noteId },
-        { $set: { content: newContent, last_modified: now } }, // Update content and last_modified date
+      await this.recordBaselineRevision(existingNote);
+      const edited = await this.applyEdit(
+        noteId,
+        { content: newContent, last_modified: new Date() },
+        expectedRevision,
       );
-
-      if (updateResult.modifiedCount === 1) {
-        return {}; // Success
-      } else {
-        return { error: `Failed to update content for note ${noteId}.` };
+      if ("error" in edited) {
+        return edited;
       }
+      await this.recordRevision(edited);
+      return { revision: edited.revision };
     } catch (e: any) {
       console.error(`Error updating content for note ${noteId}:`, e);
       return { error: `Failed to update content: ${e.message}` };
     }
   }
 
+  /**
+   * Action: Restores a note to the title and content of an earlier revision.
+   * @param noteId The ID of the note to restore.
+   * @param revisionId The ID of the revision to restore.
+   * @param user The user attempting the restore. Used for ownership verification.
+   * @requires The note and revision must exist, the revision must belong to the note,
+   *           and the provided user must own both.
+   * @effects Sets the note's title and content to those of the revision, updates `last_modified`,
+   *          and records the result as a new revision (older revisions are never rewritten).
+   * @returns The ID of the new revision, or an error.
+   */
+  async restoreRevision(
+    { noteId, revisionId, user }: {
+      noteId: Note;
+      revisionId: Revision;
+      user: User;
+    },
+  ): Promise<{ revision: Revision } | { error: string }> {
+    const existingNote = await this._getNoteDetails(noteId, user);
+    if ("error" in existingNote) {
+      return existingNote;
+    }
+    const revision = await this._getRevisionDetails(revisionId, user);
+    if ("error" in revision) {
+      return revision;
+    }
+    if (revision.note !== noteId) {
+      return {
+        error: `Revision ${revisionId} does not belong to note ${noteId}.`,
+      };
+    }
+
+    try {
+      const edited = await this.applyEdit(noteId, {
+        title: revision.title,
+        content: revision.content,
+        last_modified: new Date(),
+      });
+      if ("error" in edited) {
+        return { error: edited.error };
+      }
+      const newRevision = await this.recordRevision(edited, revisionId);
+      return { revision: newRevision };
+    } catch (e) {
+      console.error(`Error restoring revision ${revisionId}:`, e);
+      return {
+        error: `Failed to restore revision: ${(e as Error).message}`,
+      };
+    }
+  }
+
+  /**
+   * Action: Deletes every revision of a note.
+   * @param noteId The ID of the note whose revisions should be deleted.
+   * @effects Removes all revisions recorded for the note. Used by the `deleteNote` cascade.
+   * @returns An empty object on success, or an error.
+   */
+  async deleteRevisions(
+    { noteId }: { noteId: Note },
+  ): Promise<Empty | { error: string }> {
+    try {
+      await this.revisions.deleteMany({ note: noteId });
+      return {};
+    } catch (e) {
+      console.error(`Error deleting revisions for note ${noteId}:`, e);
+      return {
+        error: `Failed to delete revisions: ${(e as Error).message}`,
+      };
+    }
+  }
+
   // --- Query methods (for viewing notes, adhering to "Users can view... their own notes") ---
 
   /**
@@ -253,7 +669,217 @@ export default class NotesConcept {
   }
 
   /**
-   * Query: Retrieves all notes owned by a specific user.
+   * Query: Retrieves the number, content and owner of a note's latest revision.
+   * Since every content change records a revision, this is the note's current content.
+   * @param noteId The ID of the note.
+   * @returns An array with the latest revision, or an empty array if the note has none.
+   */
+  async _getLatestRevision(
+    { noteId }: { noteId: Note },
+  ): Promise<{ revision: number; content: string; owner: User }[]> {
+    const latest = await this.revisions.findOne(
+      { note: noteId },
+      { sort: { number: -1 } },
+    );
+    return latest
+      ? [{
+        revision: latest.number,
+        content: latest.content,
+        owner: latest.owner,
+      }]
+      : [];
+  }
+
+  /**
+   * Query: Retrieves the owner and title of a note, so other users' access to it can be checked.
+   * @param noteId The ID of the note.
+   * @returns An array with the note's owner, title and whether it is in the trash,
+   *          or an empty array if the note doesn't exist.
+   */
+  async _getOwner(
+    { noteId }: { noteId: Note },
+  ): Promise<{ owner: User; title: string; trashed: boolean }[]> {
+    const note = await this.notes.findOne(
+      { _id: noteId },
+      { projection: { owner: 1, title: 1, trashed_at: 1 } },
+    );
+    return note
+      ? [{ owner: note.owner, title: note.title, trashed: !!note.trashed_at }]
+      : [];
+  }
+
+  /**
+   * Query: Retrieves the title and content of a set of notes, leaving out notes in the trash.
+   * @param noteIds The IDs of the notes.
+   * @returns An array with one entry per note found.
+   */
+  async _getNoteContents(
+    { noteIds }: { noteIds: Note[] },
+  ): Promise<{ noteId: Note; title: string; content: string }[]> {
+    const notes = await this.notes.find(
+      { _id: { $in: noteIds }, trashed_at: { $exists: false } },
+      { projection: { title: 1, content: 1 } },
+    ).toArray();
+    return notes.map((note) => ({
+      noteId: note._id,
+      title: note.title,
+      content: note.content,
+    }));
+  }
+
+  /**
+   * Query: Finds the note a revision belongs to.
+   * @param revisionId The ID of the revision.
+   * @returns An array with the note's ID, or an empty array if the revision doesn't exist.
+   */
+  async _getRevisionNote(
+    { revisionId }: { revisionId: Revision },
+  ): Promise<{ noteId: Note }[]> {
+    const revision = await this.revisions.findOne(
+      { _id: revisionId },
+      { projection: { note: 1 } },
+    );
+    return revision ? [{ noteId: revision.note }] : [];
+  }
+
+  /**
+   * Query: Lists the IDs of every note a user owns, including notes in the trash.
+   * @param user The owner of the notes.
+   * @returns An array with one entry per note.
+   */
+  async _getAllNoteIds(
+    { user }: { user: User },
+  ): Promise<{ noteId: Note }[]> {
+    const notes = await this.notes.find(
+      { owner: user },
+      { projection: { _id: 1 } },
+    ).toArray();
+    return notes.map((note) => ({ noteId: note._id }));
+  }
+
+  /**
+   * Query: Lists the ID and title of every note a user owns that is not in the trash.
+   * @param user The owner of the notes.
+   * @returns An array with one entry per note.
+   */
+  async _getNoteTitles(
+    { user }: { user: User },
+  ): Promise<{ noteId: Note; title: string }[]> {
+    const notes = await this.notes.find(
+      { owner: user, trashed_at: { $exists: false } },
+      { projection: { title: 1 } },
+    ).toArray();
+    return notes.map((note) => ({ noteId: note._id, title: note.title }));
+  }
+
+  /**
+   * Query: Retrieves the title and last edit time of a user's notes among a set of IDs, leaving out notes in the trash.
+   * @param user The owner of the notes.
+   * @param noteIds The IDs of the notes.
+   * @returns An array with one entry per note found.
+   */
+  async _getNoteHeaders(
+    { user, noteIds }: { user: User; noteIds: Note[] },
+  ): Promise<{ noteId: Note; title: string; last_modified: Date }[]> {
+    const notes = await this.notes.find(
+      { _id: { $in: noteIds }, owner: user, trashed_at: { $exists: false } },
+      { projection: { title: 1, last_modified: 1 } },
+    ).toArray();
+    return notes.map((note) => ({
+      noteId: note._id,
+      title: note.title,
+      last_modified: note.last_modified,
+    }));
+  }
+
+  /**
+   * Query: Finds a user's notes that are not in the trash and have a word in their title or content
+   * starting with a term.
+   * @param user The owner of the notes.
+   * @param term A lowercase search term, as produced by `tokenize`.
+   * @returns An array with one entry per note found.
+   */
+  async _findByTermPrefix(
+    { user, term }: { user: User; term: string },
+  ): Promise<{ noteId: Note }[]> {
+    const notes = await this.notes.find(
+      {
+        owner: user,
+        trashed_at: { $exists: false },
+        searchTerms: termPrefix(term),
+      },
+      { projection: { _id: 1 } },
+    ).toArray();
+    return notes.map((note) => ({ noteId: note._id }));
+  }
+
+  /**
+   * Query: Retrieves the searchable fields of a user's notes among a set of IDs, leaving out notes in the trash.
+   * @param user The owner of the notes.
+   * @param noteIds The IDs of the notes.
+   * @returns An array with one entry per note found.
+   */
+  async _getSearchableNotes(
+    { user, noteIds }: { user: User; noteIds: Note[] },
+  ): Promise<
+    {
+      noteId: Note;
+      title: string;
+      content: string;
+      date_created: Date;
+      last_modified: Date;
+    }[]
+  > {
+    const notes = await this.notes.find(
+      { _id: { $in: noteIds }, owner: user, trashed_at: { $exists: false } },
+      {
+        projection: { title: 1, content: 1, date_created: 1, last_modified: 1 },
+      },
+    ).toArray();
+    return notes.map((note) => ({
+      noteId: note._id,
+      title: note.title,
+      content: note.content,
+      date_created: note.date_created,
+      last_modified: note.last_modified,
+    }));
+  }
+
+  /**
+   * Query: Counts the notes and revisions a user owns, to check that account deletion left nothing behind.
+   * @param user The user to count notes for.
+   * @returns An array with the number of notes, the number of revisions,
+   *          and the IDs of every note referenced by either.
+   */
+  async _countForUser(
+    { user }: { user: User },
+  ): Promise<{ notes: number; revisions: number; items: Note[] }[]> {
+    const notes = await this.notes.find({ owner: user }).toArray();
+    const revisedNotes = await this.revisions.distinct("note", { owner: user });
+    return [{
+      notes: notes.length,
+      revisions: await this.revisions.countDocuments({ owner: user }),
+      items: [...new Set([...notes.map((note) => note._id), ...revisedNotes])],
+    }];
+  }
+
+  /**
+   * Query: Lists every note and its owner, including notes in the trash, to check references across concepts.
+   * @param user The owner of the notes, or null for every note.
+   * @returns An array with one entry per note.
+   */
+  async _listReferences(
+    { user }: { user: User | null },
+  ): Promise<{ note: Note; owner: User }[]> {
+    const notes = await this.notes.find(
+      user ? { owner: user } : {},
+      { projection: { owner: 1 } },
+    ).toArray();
+    return notes.map((note) => ({ note: note._id, owner: note.owner }));
+  }
+
+  /**
+   * Query: Retrieves all notes owned by a specific user that are not in the trash.
    * @param ownerId The ID of the user whose notes are to be retrieved.
    * @returns An array of `NoteStructure` objects owned by the user, or an error.
    */
@@ -261,11 +887,74 @@ export default class NotesConcept {
     { ownerId }: { ownerId: User },
   ): Promise<{ notes: NoteStructure[] } | { error: string }> {
     try {
-      const notes = await this.notes.find({ owner: ownerId }).toArray();
+      const notes = await this.notes.find({
+        owner: ownerId,
+        trashed_at: { $exists: false },
+      }, { projection: { searchTerms: 0 } }).toArray();
       return { notes };
     } catch (e: any) {
       console.error(`Error getting notes for user ${ownerId}:`, e);
       return { error: `Failed to retrieve notes for user: ${e.message}` };
     }
   }
+
+  /**
+   * Query: Lists every revision of a note, oldest first, ensuring ownership.
+   * @param noteId The ID of the note whose history is requested.
+   * @param user The user attempting to view the history.
+   * @returns An array of `RevisionStructure` objects, or an error.
+   */
+  async getNoteRevisions(
+    { noteId, user }: { noteId: Note; user: User },
+  ): Promise<{ revisions: RevisionStructure[] } | { error: string }> {
+    const existingNote = await this._getNoteDetails(noteId, user);
+    if ("error" in existingNote) {
+      return existingNote;
+    }
+    try {
+      const revisions = await this.revisions.find({ note: noteId })
+        .sort({ number: 1 })
+        .toArray();
+      return { revisions };
+    } catch (e) {
+      console.error(`Error getting revisions for note ${noteId}:`, e);
+      return {
+        error: `Failed to retrieve revisions: ${(e as Error).message}`,
+      };
+    }
+  }
+
+  /**
+   * Query: Computes a line-based diff between two revisions of the same note.
+   * @param from The ID of the older revision (the "before" side).
+   * @param to The ID of the newer revision (the "after" side).
+   * @param user The user requesting the diff. Must own both revisions.
+   * @returns The titles of both revisions and the content diff, or an error.
+   */
+  async diffRevisions(
+    { from, to, user }: { from: Revision; to: Revision; user: User },
+  ): Promise<
+    { fromTitle: string; toTitle: string; diff: DiffLine[] } | {
+      error: string;
+    }
+  > {
+    const fromRevision = await this._getRevisionDetails(from, user);
+    if ("error" in fromRevision) {
+      return fromRevision;
+    }
+    const toRevision = await this._getRevisionDetails(to, user);
+    if ("error" in toRevision) {
+      return toRevision;
+    }
+    if (fromRevision.note !== toRevision.note) {
+      return {
+        error: `Revisions ${from} and ${to} belong to different notes.`,
+      };
+    }
+    return {
+      fromTitle: fromRevision.title,
+      toTitle: toRevision.title,
+      diff: diffLines(fromRevision.content, toRevision.content),
+    };
+  }
 }
@@ -0,0 +1,65 @@
+import type { LLMProvider } from "./llm-provider.ts";
+
+/**
+ * Configuration for an OpenAI-compatible chat completions endpoint
+ */
+export interface OpenAIConfig {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}
+
+/**
+ * Calls any server that implements the OpenAI chat completions API
+ * (OpenAI itself, or self-hosted servers such as Ollama, vLLM or LM Studio).
+ */
+export class OpenAICompatibleLLM implements LLMProvider {
+  private config: OpenAIConfig;
+
+  constructor(config: OpenAIConfig) {
+    this.config = config;
+  }
+
+  async executeLLM(prompt: string): Promise<string> {
+    try {
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+      };
+      if (this.config.apiKey) {
+        headers["Authorization"] = `Bearer ${this.config.apiKey}`;
+      }
+
+      const response = await fetch(
+        `${this.config.baseUrl.replace(/\/+$/, "")}/chat/completions`,
+        {
+          method: "POST",
+          headers,
+          body: JSON.stringify({
+            model: this.config.model,
+            messages: [{ role: "user", content: prompt }],
+            max_tokens: 1000,
+          }),
+        },
+      );
+      if (!response.ok) {
+        throw new Error(
+          `OpenAI-compatible API responded with ${response.status}: ${await response
+            .text()}`,
+        );
+      }
+
+      const body = await response.json();
+      const text = body?.choices?.[0]?.message?.content;
+      if (typeof text !== "string") {
+        throw new Error("OpenAI-compatible API returned no message content.");
+      }
+      return text;
+    } catch (error) {
+      console.error(
+        "❌ Error calling OpenAI-compatible API:",
+        (error as Error).message,
+      );
+      throw error;
+    }
+  }
+}
@@ -2,62 +2,241 @@ import { Collection, Db } from "npm:mongodb";
 import jwt from "npm:jsonwebtoken";
 import "jsr:@std/dotenv/load";
 import { ID } from "@utils/types.ts";
-import { freshID } from "@utils/database.ts";
+import {
+  freshID,
+  IndexDeclarations,
+  isDuplicateKeyError,
+} from "@utils/database.ts";
 
 const PREFIX = "PasswordAuth" + ".";
 type User = ID;
+type Session = ID;
 
 const JWT_SECRET = Deno.env.get("JWT_SECRET") ||
   "test";
 const ACCESS_TOKEN_EXPIRES_IN = "2m"; // 30 seconds for debugging
 
+/**
+ * # PasswordAuth concept configuration
+ * The following environment variables are available:
+ *
+ * - PASSWORD_HASH_ITERATIONS: the number of PBKDF2 iterations used to hash new passwords, default 600000
+ * - REFRESH_TOKEN_TTL_DAYS: how long a session lasts without being refreshed, default 30 days
+ */
+const PASSWORD_HASH_ITERATIONS = parseInt(
+  Deno.env.get("PASSWORD_HASH_ITERATIONS") ?? "600000",
+  10,
+);
+const REFRESH_TOKEN_TTL_DAYS = parseInt(
+  Deno.env.get("REFRESH_TOKEN_TTL_DAYS") ?? "30",
+  10,
+);
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+/**
+ * State: A set of Users with
+ *   - _id: User
+ *   - username: String
+ *   - passwordHash: String (hex PBKDF2-SHA-256 hash of the password)
+ *   - passwordSalt: String (hex per-user salt)
+ *   - passwordIterations: Number (the PBKDF2 iteration count the hash was made with)
+ *
+ * Users registered before passwords were salted have only an unsalted SHA-256 `passwordHash`;
+ * they are rehashed the next time they authenticate.
+ */
 interface AuthUserDocument {
   _id: User;
   username: string;
   passwordHash: string;
+  passwordSalt?: string;
+  passwordIterations?: number;
+}
+
+/**
+ * State: A set of Sessions with
+ *   - _id: Session
+ *   - user: User
+ *   - refreshTokenHash: String (SHA-256 of the only refresh token that may currently be used)
+ *   - expiresAt: Date (when the current refresh token expires)
+ *   - revokedAt: Date | null
+ *   - revokedReason: String | null ("logout", "logout_everywhere" or "reuse")
+ *   - createdAt: Date
+ *   - lastRefreshedAt: Date | null
+ *
+ * Invariants:
+ * - access tokens are only accepted while their session is not revoked
+ */
+interface SessionDocument {
+  _id: Session;
+  user: User;
+  refreshTokenHash: string;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  revokedReason: string | null;
+  createdAt: Date;
+  lastRefreshedAt: Date | null;
+}
+
+type PasswordHash = Pick<
+  AuthUserDocument,
+  "passwordHash" | "passwordSalt" | "passwordIterations"
+>;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map((b) => b.toString(16).padStart(2, "0")).join(
+    "",
+  );
+}
+
+function fromHex(hex: string): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(
+    (hex.match(/../g) ?? []).map((byte) => parseInt(byte, 16)),
+  );
+}
+
+async function pbkdf2(
+  password: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number,
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    key,
+    HASH_BITS,
+  );
+  return toHex(new Uint8Array(bits));
 }
 
-async function hashPassword(password: string): Promise<string> {
-  const textEncoder = new TextEncoder();
-  const data = textEncoder.encode(password);
-  const hashBuffer = await crypto.subtle.digest("SHA-256", data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
+/**
+ * Unsalted SHA-256, used to verify passwords hashed before they were salted
+ * and to store refresh tokens, which are random enough not to need a salt.
+ */
+async function sha256Hex(password: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(password),
+  );
+  return toHex(new Uint8Array(hashBuffer));
+}
+
+async function hashPassword(password: string): Promise<PasswordHash> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  return {
+    passwordHash: await pbkdf2(password, salt, PASSWORD_HASH_ITERATIONS),
+    passwordSalt: toHex(salt),
+    passwordIterations: PASSWORD_HASH_ITERATIONS,
+  };
+}
+
+/**
+ * Compares two hex strings in time that depends only on their length,
+ * so a mismatch doesn't reveal how many leading characters were right.
+ */
+function constantTimeEquals(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
 }
 
 async function comparePassword(
   password: string,
-  storedHash: string,
+  stored: PasswordHash,
 ): Promise<boolean> {
-  const inputHash = await hashPassword(password);
-  return inputHash === storedHash;
+  const inputHash = stored.passwordSalt && stored.passwordIterations
+    ? await pbkdf2(
+      password,
+      fromHex(stored.passwordSalt),
+      stored.passwordIterations,
+    )
+    : await sha256Hex(password);
+  return constantTimeEquals(inputHash, stored.passwordHash);
 }
 
-function generateAccessToken(userId: User, username: string): string {
-  return jwt.sign({ userId, username, type: "access" }, JWT_SECRET, {
-    expiresIn: ACCESS_TOKEN_EXPIRES_IN,
-  });
+/**
+ * Whether a stored hash is unsalted or was made with a different iteration count than configured.
+ */
+function needsRehash(stored: PasswordHash): boolean {
+  return !stored.passwordSalt ||
+    stored.passwordIterations !== PASSWORD_HASH_ITERATIONS;
+}
+
+interface TokenPayload {
+  userId: User;
+  username: string;
+  sessionId: Session;
+  type: "access" | "refresh";
+}
+
+function generateAccessToken(
+  userId: User,
+  username: string,
+  sessionId: Session,
+): string {
+  return jwt.sign(
+    { userId, username, sessionId, type: "access" },
+    JWT_SECRET,
+    { expiresIn: ACCESS_TOKEN_EXPIRES_IN },
+  );
+}
+
+function generateRefreshToken(
+  userId: User,
+  username: string,
+  sessionId: Session,
+): string {
+  // The random jwtid makes every rotated token distinct, even within the same second
+  return jwt.sign(
+    { userId, username, sessionId, type: "refresh" },
+    JWT_SECRET,
+    { expiresIn: `${REFRESH_TOKEN_TTL_DAYS}d`, jwtid: freshID() },
+  );
 }
 
 function verifyToken(
   token: string,
-): { userId: User; username: string; type: string } | null {
+  { ignoreExpiration = false } = {},
+): TokenPayload | null {
   try {
-    return jwt.verify(token, JWT_SECRET) as {
-      userId: User;
-      username: string;
-      type: string;
-    };
+    return jwt.verify(token, JWT_SECRET, { ignoreExpiration }) as TokenPayload;
   } catch {
     return null;
   }
 }
 
+function refreshTokenExpiry(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
 export default class PasswordAuthConcept {
   users: Collection<AuthUserDocument>;
+  sessions: Collection<SessionDocument>;
+
+  /**
+   * Indexes created at startup. Usernames are unique, so two concurrent registrations can't both succeed.
+   */
+  static readonly indexes: IndexDeclarations = {
+    [PREFIX + "users"]: [
+      { keys: { username: 1 }, options: { unique: true } },
+    ],
+    [PREFIX + "sessions"]: [{ keys: { user: 1 } }],
+  };
 
   constructor(private readonly db: Db) {
     this.users = this.db.collection(PREFIX + "users");
+    this.sessions = this.db.collection(PREFIX + "sessions");
   }
 
   async register(
@@ -75,11 +254,19 @@ export default class PasswordAuthConcept {
     const userId = freshID() as User;
     const passwordHash = await hashPassword(password);
 
-    await this.users.insertOne({
-      _id: userId,
-      username,
-      passwordHash,
-    });
+    try {
+      await this.users.insertOne({
+        _id: userId,
+        username,
+        ...passwordHash,
+      });
+    } catch (e) {
+      // Another registration took the username since the check above
+      if (isDuplicateKeyError(e)) {
+        return { error: `Username '${username}' already exists.` };
+      }
+      throw e;
+    }
 
     return { user: userId };
   }
@@ -87,7 +274,7 @@ export default class PasswordAuthConcept {
   async authenticate(
     { username, password }: { username: string; password: string },
   ): Promise<
-    | { accessToken: string; user: User }
+    | { accessToken: string; refreshToken: string; user: User }
     | { error: string }
   > {
     const authUser = await this.users.findOne({ username });
@@ -96,33 +283,191 @@ export default class PasswordAuthConcept {
       return { error: "Invalid username or password." };
     }
 
-    const passwordMatches = await comparePassword(
-      password,
-      authUser.passwordHash,
-    );
+    const passwordMatches = await comparePassword(password, authUser);
     if (!passwordMatches) {
       return { error: "Invalid username or password." };
     }
 
-    const accessToken = generateAccessToken(authUser._id, authUser.username);
-    return { accessToken, user: authUser._id };
+    // Upgrade old hashes now that the plain password is known
+    if (needsRehash(authUser)) {
+      await this.users.updateOne(
+        { _id: authUser._id },
+        { $set: await hashPassword(password) },
+      );
+    }
+
+    const sessionId = freshID() as Session;
+    const refreshToken = generateRefreshToken(
+      authUser._id,
+      authUser.username,
+      sessionId,
+    );
+    await this.sessions.insertOne({
+      _id: sessionId,
+      user: authUser._id,
+      refreshTokenHash: await sha256Hex(refreshToken),
+      expiresAt: refreshTokenExpiry(),
+      revokedAt: null,
+      revokedReason: null,
+      createdAt: new Date(),
+      lastRefreshedAt: null,
+    });
+
+    const accessToken = generateAccessToken(
+      authUser._id,
+      authUser.username,
+      sessionId,
+    );
+    return { accessToken, refreshToken, user: authUser._id };
   }
 
+  /**
+   * Action: Exchanges a refresh token for a new access token and a new refresh token.
+   * @param refreshToken The session's current refresh token.
+   * @requires The token is valid and unexpired, and its session is not revoked.
+   * @effects Replaces the session's refresh token, so the old one can't be used again.
+   *          If an old refresh token is presented, it has been stolen or replayed,
+   *          so the whole session is revoked.
+   * @returns The new tokens and the user, or an error.
+   */
   async refresh(
     { refreshToken }: { refreshToken: string },
-  ): Promise<{ accessToken: string; user: User } | { error: string }> {
+  ): Promise<
+    | { accessToken: string; refreshToken: string; user: User }
+    | { error: string }
+  > {
     const decoded = verifyToken(refreshToken);
-    if (!decoded || decoded.type !== "refresh") {
+    if (!decoded || decoded.type !== "refresh" || !decoded.sessionId) {
       return { error: "Invalid or expired refresh token." };
     }
 
-    const authUser = await this.users.findOne({ _id: decoded.userId });
+    const session = await this.sessions.findOne({ _id: decoded.sessionId });
+    if (!session || session.revokedAt) {
+      return { error: "Session has been revoked." };
+    }
+
+    const presentedHash = await sha256Hex(refreshToken);
+    const newRefreshToken = generateRefreshToken(
+      decoded.userId,
+      decoded.username,
+      session._id,
+    );
+    const now = new Date();
+    // Matching on the current hash makes concurrent refreshes with the same token race safely:
+    // only one of them rotates the token, the others count as reuse
+    const rotated = await this.sessions.updateOne(
+      { _id: session._id, refreshTokenHash: presentedHash, revokedAt: null },
+      {
+        $set: {
+          refreshTokenHash: await sha256Hex(newRefreshToken),
+          expiresAt: refreshTokenExpiry(),
+          lastRefreshedAt: now,
+        },
+      },
+    );
+    if (rotated.modifiedCount === 0) {
+      console.warn(
+        `⚠️ Refresh token reuse detected for session ${session._id}, revoking it`,
+      );
+      await this.sessions.updateOne(
+        { _id: session._id, revokedAt: null },
+        { $set: { revokedAt: now, revokedReason: "reuse" } },
+      );
+      return { error: "Refresh token has already been used." };
+    }
+
+    const authUser = await this.users.findOne({ _id: session.user });
     if (!authUser) {
       return { error: "User not found." };
     }
 
-    const accessToken = generateAccessToken(authUser._id, authUser.username);
-    return { accessToken, user: authUser._id };
+    const accessToken = generateAccessToken(
+      authUser._id,
+      authUser.username,
+      session._id,
+    );
+    return { accessToken, refreshToken: newRefreshToken, user: authUser._id };
+  }
+
+  /**
+   * Action: Ends the session a refresh token belongs to.
+   * @param refreshToken A refresh token of the session, which need not be the current one.
+   * @requires The token was issued by this server.
+   * @effects Revokes the session, so its access and refresh tokens stop working.
+   * @returns The revoked session, or an error.
+   */
+  async logout(
+    { refreshToken }: { refreshToken: string },
+  ): Promise<{ session: Session } | { error: string }> {
+    const decoded = verifyToken(refreshToken, { ignoreExpiration: true });
+    if (!decoded || decoded.type !== "refresh" || !decoded.sessionId) {
+      return { error: "Invalid refresh token." };
+    }
+
+    await this.sessions.updateOne(
+      { _id: decoded.sessionId, revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: "logout" } },
+    );
+    return { session: decoded.sessionId };
+  }
+
+  /**
+   * Action: Ends every session of a user, e.g. after a lost device.
+   * @param user The user to log out.
+   * @effects Revokes all of the user's sessions.
+   * @returns The number of sessions revoked.
+   */
+  async logoutEverywhere(
+    { user }: { user: User },
+  ): Promise<{ revoked: number } | { error: string }> {
+    try {
+      const result = await this.sessions.updateMany(
+        { user, revokedAt: null },
+        {
+          $set: { revokedAt: new Date(), revokedReason: "logout_everywhere" },
+        },
+      );
+      return { revoked: result.modifiedCount };
+    } catch (e) {
+      console.error(`Error logging out user ${user} everywhere:`, e);
+      return { error: `Failed to log out: ${(e as Error).message}` };
+    }
+  }
+
+  /**
+   * Action: Deletes a user's account after they confirm their password.
+   * @param user The user to delete.
+   * @param password The user's current password.
+   * @requires The user exists and the password is theirs.
+   * @effects Removes the user and all of their sessions, so their tokens stop working;
+   *          syncs remove everything else the user owns.
+   * @returns The deleted user, or an error.
+   */
+  async deleteAccount(
+    { user, password }: { user: User; password: string },
+  ): Promise<{ user: User } | { error: string }> {
+    const authUser = await this.users.findOne({ _id: user });
+    if (!authUser || !(await comparePassword(password ?? "", authUser))) {
+      return { error: "Invalid password." };
+    }
+
+    await this.sessions.deleteMany({ user });
+    await this.users.deleteOne({ _id: user });
+    return { user };
+  }
+
+  /**
+   * Helper function to check that a session exists, belongs to the user and is not revoked.
+   */
+  private async isActiveSession(
+    sessionId: Session | undefined,
+    user: User,
+  ): Promise<boolean> {
+    if (!sessionId) {
+      return false;
+    }
+    const session = await this.sessions.findOne({ _id: sessionId });
+    return !!session && session.user === user && !session.revokedAt;
   }
 
   /**
@@ -168,17 +513,67 @@ export default class PasswordAuthConcept {
       return [];
     }
 
+    if (!(await this.isActiveSession(decoded.sessionId, decoded.userId))) {
+      console.log("❌ Session missing or revoked");
+      return [];
+    }
+
     console.log("✅ Token verified, user:", decoded.userId);
     return [{ user: decoded.userId }];
   }
 
   /**
-   * Query: Generates a new access token for a user
+   * Query: Looks up a user by username, e.g. to share a note with them.
+   * @param username The username to look up.
+   * @returns An array with the user's ID, or an empty array if no user has the username.
+   */
+  async _getUserByUsername(
+    { username }: { username: string },
+  ): Promise<{ user: User }[]> {
+    const authUser = await this.users.findOne({ username });
+    return authUser ? [{ user: authUser._id }] : [];
+  }
+
+  /**
+   * Query: Looks up the usernames of a set of users, to show who shared or was shared something.
+   * @param users The IDs of the users.
+   * @returns An array with the ID and username of each user that exists.
+   */
+  async _getUsernames(
+    { users }: { users: User[] },
+  ): Promise<{ user: User; username: string }[]> {
+    const found = await this.users.find(
+      { _id: { $in: users } },
+      { projection: { username: 1 } },
+    ).toArray();
+    return found.map((authUser) => ({
+      user: authUser._id,
+      username: authUser.username,
+    }));
+  }
+
+  /**
+   * Query: Counts a user's account and sessions, to check that account deletion left nothing behind.
+   * @param user The user to count for.
+   * @returns An array with the number of user records (0 or 1) and sessions.
+   */
+  async _countForUser(
+    { user }: { user: User },
+  ): Promise<{ users: number; sessions: number }[]> {
+    return [{
+      users: await this.users.countDocuments({ _id: user }),
+      sessions: await this.sessions.countDocuments({ user }),
+    }];
+  }
+
+  /**
+   * Query: Generates a new access token for a user, in the session of the token they made the request with
    * @param user The user ID to generate a token for
-   * @returns An array with a single object containing the new access token
+   * @param authToken The access token the request was made with; it may have expired since
+   * @returns An array with a single object containing the new access token, or an empty array if the session was revoked
    */
   async _generateNewAccessToken(
-    { user }: { user: User },
+    { user, authToken }: { user: User; authToken: string },
   ): Promise<{ accessToken: string }[]> {
     console.log("🔍 Generating new access token for user:", user);
     const authUser = await this.users.findOne({ _id: user });
@@ -187,7 +582,24 @@ export default class PasswordAuthConcept {
       return [];
     }
 
-    const accessToken = generateAccessToken(authUser._id, authUser.username);
+    const token = authToken?.startsWith("Bearer ")
+      ? authToken.substring(7)
+      : authToken;
+    const decoded = token
+      ? verifyToken(token, { ignoreExpiration: true })
+      : null;
+    if (
+      !decoded || !(await this.isActiveSession(decoded.sessionId, user))
+    ) {
+      console.log("❌ No active session for token generation");
+      return [];
+    }
+
+    const accessToken = generateAccessToken(
+      authUser._id,
+      authUser.username,
+      decoded.sessionId,
+    );
     console.log(
       "✅ Generated new access token:",
       accessToken.substring(0, 20) + "...",
@@ -0,0 +1,305 @@
+import { Collection, Db } from "npm:mongodb";
+import "jsr:@std/dotenv/load";
+import { ID } from "@utils/types.ts";
+import { freshID, IndexDeclarations } from "@utils/database.ts";
+
+/**
+ * # Review concept configuration
+ * The following environment variables are available:
+ *
+ * - REVIEW_TAG_LABEL: the tag that enrolls a note for review until a user chooses another one, default "review"
+ */
+const REVIEW_TAG_LABEL = Deno.env.get("REVIEW_TAG_LABEL") ?? "review";
+
+// Collection prefix to ensure namespace separation
+const PREFIX = "Review" + ".";
+
+// Generic types for the concept's external dependencies
+type User = ID;
+type Note = ID;
+
+// Internal entity types, represented as IDs
+type Card = ID;
+
+// SM-2 constants: every card starts at this ease, and ease never drops below the minimum
+const INITIAL_EASE = 2.5;
+const MINIMUM_EASE = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * State: A set of Cards with
+ *   - _id: Card
+ *   - owner: User
+ *   - note: Note (the note being reviewed)
+ *   - ease: Number (how quickly the interval grows, at least 1.3)
+ *   - interval: Number (days until the next review after the last one; 0 before the first review)
+ *   - repetitions: Number (successful reviews in a row)
+ *   - due: Date
+ *   - lastReviewedAt: Date | null
+ *   - createdAt: Date
+ *
+ * Invariants:
+ * - a user has at most one card per note
+ * - ease ≥ 1.3
+ */
+export interface CardDocument {
+  _id: Card;
+  owner: User;
+  note: Note;
+  ease: number;
+  interval: number;
+  repetitions: number;
+  due: Date;
+  lastReviewedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * State: A set of Settings with
+ *   - _id: User
+ *   - label: String (the tag label that enrolls the user's notes for review)
+ */
+interface SettingsDocument {
+  _id: User;
+  label: string;
+}
+
+/**
+ * Computes the next ease, interval and repetition count of a card with the SM-2 algorithm.
+ * Grades of 3 and up count as recalled; anything lower starts the card over with a one-day interval.
+ */
+function schedule(
+  card: Pick<CardDocument, "ease" | "interval" | "repetitions">,
+  grade: number,
+): Pick<CardDocument, "ease" | "interval" | "repetitions"> {
+  const ease = Math.max(
+    MINIMUM_EASE,
+    card.ease + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)),
+  );
+  if (grade < 3) {
+    return { ease, interval: 1, repetitions: 0 };
+  }
+  const interval = card.repetitions === 0
+    ? 1
+    : card.repetitions === 1
+    ? 6
+    : Math.round(card.interval * card.ease);
+  return { ease, interval, repetitions: card.repetitions + 1 };
+}
+
+/**
+ * @concept Review
+ * @purpose helps users come back to their notes at the moment they are about to forget them
+ * @principle A user chooses a tag, and every note they give that tag is scheduled for review.
+ *            Each day the user goes through the notes that are due and grades how well they recalled each one.
+ *            Notes that were recalled well come back after longer and longer intervals;
+ *            notes that were forgotten come back the next day.
+ */
+export default class ReviewConcept {
+  cards: Collection<CardDocument>;
+  settings: Collection<SettingsDocument>;
+
+  /**
+   * Indexes for the due-today listing and finding a note's card, created at startup.
+   * The unique index keeps a note from being scheduled twice for one user.
+   */
+  static readonly indexes: IndexDeclarations = {
+    [PREFIX + "cards"]: [
+      { keys: { owner: 1, note: 1 }, options: { unique: true } },
+      { keys: { owner: 1, due: 1 } },
+      { keys: { note: 1 } },
+    ],
+  };
+
+  constructor(private readonly db: Db) {
+    this.cards = this.db.collection(PREFIX + "cards");
+    this.settings = this.db.collection(PREFIX + "settings");
+  }
+
+  /**
+   * Action: Schedules a note for review, due right away.
+   * @param user The user who will review the note.
+   * @param note The note to review.
+   * @requires The user isn't reviewing the note yet.
+   * @effects Creates a card for the note with the initial ease.
+   * @returns The ID of the new card, or an error.
+   */
+  async enroll(
+    { user, note }: { user: User; note: Note },
+  ): Promise<{ card: Card } | { error: string }> {
+    const now = new Date();
+    const result = await this.cards.updateOne(
+      { owner: user, note },
+      {
+        $setOnInsert: {
+          _id: freshID() as Card,
+          ease: INITIAL_EASE,
+          interval: 0,
+          repetitions: 0,
+          due: now,
+          lastReviewedAt: null,
+          createdAt: now,
+        },
+      },
+      { upsert: true },
+    );
+    if (!result.upsertedId) {
+      return { error: `Note ${note} is already scheduled for review.` };
+    }
+    return { card: result.upsertedId as Card };
+  }
+
+  /**
+   * Action: Stops reviewing a note.
+   * @param user The user reviewing the note.
+   * @param note The note to stop reviewing.
+   * @requires The user is reviewing the note.
+   * @effects Deletes the note's card.
+   * @returns The ID of the deleted card, or an error.
+   */
+  async unenroll(
+    { user, note }: { user: User; note: Note },
+  ): Promise<{ card: Card } | { error: string }> {
+    const removed = await this.cards.findOneAndDelete({ owner: user, note });
+    if (!removed) {
+      return { error: `Note ${note} is not scheduled for review.` };
+    }
+    return { card: removed._id };
+  }
+
+  /**
+   * Action: Records how well the user recalled a note, and schedules its next review.
+   * @param user The user reviewing the note.
+   * @param note The reviewed note.
+   * @param grade How well the note was recalled, from 0 (not at all) to 5 (perfectly).
+   * @requires The user is reviewing the note, and grade is an integer from 0 to 5.
+   * @effects Updates the card's ease, interval and repetitions with SM-2 and moves its due date.
+   * @returns The card with its new schedule, or an error.
+   */
+  async recordReview(
+    { user, note, grade }: { user: User; note: Note; grade: number },
+  ): Promise<
+    | { card: Card; ease: number; interval: number; due: Date }
+    | { error: string }
+  > {
+    if (!Number.isInteger(grade) || grade < 0 || grade > 5) {
+      return { error: "Grade must be an integer from 0 to 5." };
+    }
+    const card = await this.cards.findOne({ owner: user, note });
+    if (!card) {
+      return { error: `Note ${note} is not scheduled for review.` };
+    }
+
+    const now = new Date();
+    const next = schedule(card, grade);
+    const due = new Date(now.getTime() + next.interval * DAY_MS);
+    await this.cards.updateOne(
+      { _id: card._id },
+      { $set: { ...next, due, lastReviewedAt: now } },
+    );
+    return { card: card._id, ease: next.ease, interval: next.interval, due };
+  }
+
+  /**
+   * Action: Chooses the tag that schedules a user's notes for review.
+   * @param user The user.
+   * @param label The tag label; notes tagged with it from now on are scheduled.
+   * @requires The label is not empty.
+   * @effects Stores the label. Notes that already have the tag are not scheduled by this.
+   * @returns The label, or an error.
+   */
+  async setEnrollLabel(
+    { user, label }: { user: User; label: string },
+  ): Promise<{ label: string } | { error: string }> {
+    if (typeof label !== "string" || label.trim() === "") {
+      return { error: "Tag cannot be empty or whitespace." };
+    }
+    await this.settings.updateOne(
+      { _id: user },
+      { $set: { label } },
+      { upsert: true },
+    );
+    return { label };
+  }
+
+  /**
+   * Action: Drops the cards of a note that no longer exists.
+   * @param note The deleted note.
+   * @effects Deletes every card for the note.
+   * @returns The number of deleted cards.
+   */
+  async forgetNote(
+    { note }: { note: Note },
+  ): Promise<{ deleted: number } | { error: string }> {
+    const result = await this.cards.deleteMany({ note });
+    return { deleted: result.deletedCount };
+  }
+
+  /**
+   * Action: Deletes a user's cards and review settings.
+   * @param user The user whose data should be deleted.
+   * @effects Removes the cards and settings. Used when the user's account is deleted.
+   * @returns The number of deleted cards, or an error.
+   */
+  async deleteAllForUser(
+    { user }: { user: User },
+  ): Promise<{ deleted: number } | { error: string }> {
+    try {
+      const result = await this.cards.deleteMany({ owner: user });
+      await this.settings.deleteOne({ _id: user });
+      return { deleted: result.deletedCount };
+    } catch (e) {
+      console.error(`Error deleting review cards for user ${user}:`, e);
+      return {
+        error: `Failed to delete review cards: ${(e as Error).message}`,
+      };
+    }
+  }
+
+  /**
+   * Query: Lists the notes due for review by the end of the current UTC day, most overdue first.
+   * @param user The user reviewing the notes.
+   * @returns The due cards, or an error.
+   */
+  async getDueToday(
+    { user }: { user: User },
+  ): Promise<{ cards: CardDocument[] } | { error: string }> {
+    const now = new Date();
+    const endOfDay = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1),
+    );
+    try {
+      const cards = await this.cards.find({
+        owner: user,
+        due: { $lt: endOfDay },
+      }).sort({ due: 1 }).toArray();
+      return { cards };
+    } catch (e) {
+      console.error(`Error getting due cards for user ${user}:`, e);
+      return { error: `Failed to retrieve due notes: ${(e as Error).message}` };
+    }
+  }
+
+  /**
+   * Query: Finds the tag label that schedules a user's notes for review.
+   * @param user The user.
+   * @returns An array with the user's chosen label, or the configured default.
+   */
+  async _getEnrollLabel(
+    { user }: { user: User },
+  ): Promise<{ label: string }[]> {
+    const settings = await this.settings.findOne({ _id: user });
+    return [{ label: settings?.label ?? REVIEW_TAG_LABEL }];
+  }
+
+  /**
+   * Query: Counts the cards a user has, to check that account deletion left nothing behind.
+   * @param user The user to count cards for.
+   * @returns An array with the number of cards.
+   */
+  async _countForUser(
+    { user }: { user: User },
+  ): Promise<{ reviewCards: number }[]> {
+    return [{ reviewCards: await this.cards.countDocuments({ owner: user }) }];
+  }
+}
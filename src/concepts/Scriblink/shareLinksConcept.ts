@@ -0,0 +1,278 @@
+import { Collection, Db } from "npm:mongodb";
+import { ID } from "@utils/types.ts";
+import { freshID, IndexDeclarations } from "@utils/database.ts";
+
+// Collection prefix to ensure namespace separation
+const PREFIX = "ShareLink" + ".";
+
+// Generic types for the concept's external dependencies
+type User = ID;
+type Resource = ID;
+
+// Internal entity types, represented as IDs
+type Link = ID;
+
+/**
+ * The kinds of resources a link can be made for.
+ * A folder link shows every note in the folder and its subfolders.
+ */
+export type LinkKind = "note" | "folder";
+
+const LINK_KINDS: LinkKind[] = ["note", "folder"];
+
+// 32 random bytes, so tokens can't be guessed or enumerated
+const TOKEN_BYTES = 32;
+
+/**
+ * State: A set of Links with
+ *   - _id: Link
+ *   - owner: User
+ *   - resource: Resource (the linked note or folder)
+ *   - kind: "note" | "folder"
+ *   - tokenHash: String (SHA-256 of the link's token; the token itself is only shown once)
+ *   - createdAt: Date
+ *   - expiresAt: Date | null (null for links that never expire)
+ *   - revokedAt: Date | null
+ *
+ * Invariants:
+ * - every token hash is unique
+ * - a revoked or expired link never resolves
+ */
+export interface LinkDocument {
+  _id: Link;
+  owner: User;
+  resource: Resource;
+  kind: LinkKind;
+  tokenHash: string;
+  createdAt: Date;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+}
+
+/**
+ * A link as shown to its owner, without its token hash.
+ */
+export type LinkSummary = Omit<LinkDocument, "tokenHash">;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map((b) => b.toString(16).padStart(2, "0")).join(
+    "",
+  );
+}
+
+/**
+ * Generates a URL-safe token with TOKEN_BYTES of randomness.
+ */
+function generateToken(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(TOKEN_BYTES)));
+}
+
+/**
+ * Tokens are random enough to be stored as a plain SHA-256, like refresh tokens.
+ */
+async function hashToken(token: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(token),
+  );
+  return toHex(new Uint8Array(hashBuffer));
+}
+
+/**
+ * @concept ShareLinks
+ * @purpose lets users show a note or folder to people without an account
+ * @principle The owner of a note or folder creates a link for it, optionally expiring after some days,
+ *            and sends the link's token to someone. Anyone with the token can then read the note or folder,
+ *            until the link expires or the owner revokes it.
+ */
+export default class ShareLinksConcept {
+  links: Collection<LinkDocument>;
+
+  /**
+   * Indexes for resolving tokens and listing an owner's links, created at startup.
+   */
+  static readonly indexes: IndexDeclarations = {
+    [PREFIX + "links"]: [
+      { keys: { tokenHash: 1 }, options: { unique: true } },
+      { keys: { owner: 1, createdAt: -1 } },
+      { keys: { resource: 1 } },
+    ],
+  };
+
+  constructor(private readonly db: Db) {
+    this.links = this.db.collection(PREFIX + "links");
+  }
+
+  /**
+   * Action: Creates a read-only link to a note or folder.
+   * @param owner The user creating the link.
+   * @param resourceOwner The owner of the resource, or null if it doesn't exist.
+   * @param resource The note or folder to link to.
+   * @param kind Whether the resource is a note or a folder.
+   * @param expiresInDays After how many days the link stops working; never if null or omitted.
+   * @requires The resource exists and belongs to the owner. expiresInDays is positive if given.
+   * @effects Creates a link with a new random token.
+   * @returns The ID of the link, its token and when it expires, or an error.
+   *          The token can't be retrieved again later.
+   */
+  async createLink(
+    { owner, resourceOwner, resource, kind, expiresInDays }: {
+      owner: User;
+      resourceOwner: User | null;
+      resource: Resource;
+      kind: LinkKind;
+      expiresInDays?: number | null;
+    },
+  ): Promise<
+    { link: Link; token: string; expiresAt: Date | null } | { error: string }
+  > {
+    if (!LINK_KINDS.includes(kind)) {
+      return { error: `Links can only be made for notes and folders.` };
+    }
+    if (!resourceOwner) {
+      return { error: `The ${kind} ${resource} was not found.` };
+    }
+    if (resourceOwner !== owner) {
+      return {
+        error: `Only the owner of the ${kind} can create a link to it.`,
+      };
+    }
+    if (
+      expiresInDays !== undefined && expiresInDays !== null &&
+      !(typeof expiresInDays === "number" && expiresInDays > 0)
+    ) {
+      return { error: "expiresInDays must be a positive number." };
+    }
+
+    const now = new Date();
+    const token = generateToken();
+    const link: LinkDocument = {
+      _id: freshID() as Link,
+      owner,
+      resource,
+      kind,
+      tokenHash: await hashToken(token),
+      createdAt: now,
+      expiresAt: expiresInDays
+        ? new Date(now.getTime() + expiresInDays * 24 * 60 * 60 * 1000)
+        : null,
+      revokedAt: null,
+    };
+    try {
+      await this.links.insertOne(link);
+      return { link: link._id, token, expiresAt: link.expiresAt };
+    } catch (e) {
+      console.error(`Error creating link to ${kind} ${resource}:`, e);
+      return { error: `Failed to create link: ${(e as Error).message}` };
+    }
+  }
+
+  /**
+   * Action: Revokes a link so its token stops working.
+   * @param owner The user who created the link.
+   * @param link The link to revoke.
+   * @requires The link exists, belongs to the owner and is not revoked yet.
+   * @effects Marks the link as revoked.
+   * @returns The ID of the revoked link, or an error.
+   */
+  async revokeLink(
+    { owner, link }: { owner: User; link: Link },
+  ): Promise<{ link: Link } | { error: string }> {
+    const result = await this.links.updateOne(
+      { _id: link, owner, revokedAt: null },
+      { $set: { revokedAt: new Date() } },
+    );
+    if (result.matchedCount === 0) {
+      return { error: `Link ${link} not found or already revoked.` };
+    }
+    return { link };
+  }
+
+  /**
+   * Action: Drops every link to a resource that no longer exists.
+   * @param resource The deleted note or folder.
+   * @effects Removes the resource's links.
+   * @returns The number of removed links.
+   */
+  async forgetResource(
+    { resource }: { resource: Resource },
+  ): Promise<{ deleted: number } | { error: string }> {
+    const result = await this.links.deleteMany({ resource });
+    return { deleted: result.deletedCount };
+  }
+
+  /**
+   * Action: Deletes every link a user created.
+   * @param user The user whose links should be deleted.
+   * @effects Removes the links. Used when the user's account is deleted.
+   * @returns The number of deleted links, or an error.
+   */
+  async deleteAllForUser(
+    { user }: { user: User },
+  ): Promise<{ deleted: number } | { error: string }> {
+    try {
+      const result = await this.links.deleteMany({ owner: user });
+      return { deleted: result.deletedCount };
+    } catch (e) {
+      console.error(`Error deleting links for user ${user}:`, e);
+      return { error: `Failed to delete links: ${(e as Error).message}` };
+    }
+  }
+
+  /**
+   * Query: Finds what a token links to.
+   * @param token The token of the link.
+   * @requires The token belongs to a link that is neither revoked nor expired.
+   * @returns The linked resource, its kind and its owner, or an error that doesn't say why the token failed.
+   */
+  async resolveLink(
+    { token }: { token: string },
+  ): Promise<
+    { resource: Resource; kind: LinkKind; owner: User } | { error: string }
+  > {
+    if (typeof token !== "string" || token === "") {
+      return { error: "This link is invalid or has expired." };
+    }
+    const link = await this.links.findOne({
+      tokenHash: await hashToken(token),
+      revokedAt: null,
+      $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }],
+    });
+    if (!link) {
+      return { error: "This link is invalid or has expired." };
+    }
+    return { resource: link.resource, kind: link.kind, owner: link.owner };
+  }
+
+  /**
+   * Query: Lists a user's links, newest first, including revoked and expired ones.
+   * @param owner The user who created the links.
+   * @param resource Only list links to this resource, if given.
+   * @returns The links without their tokens, or an error.
+   */
+  async getLinks(
+    { owner, resource }: { owner: User; resource?: Resource | null },
+  ): Promise<{ links: LinkSummary[] } | { error: string }> {
+    try {
+      const links = await this.links.find(
+        resource ? { owner, resource } : { owner },
+        { projection: { tokenHash: 0 } },
+      ).sort({ createdAt: -1 }).toArray();
+      return { links };
+    } catch (e) {
+      console.error(`Error getting links for user ${owner}:`, e);
+      return { error: `Failed to retrieve links: ${(e as Error).message}` };
+    }
+  }
+
+  /**
+   * Query: Counts the links a user created, to check that account deletion left nothing behind.
+   * @param user The user to count links for.
+   * @returns An array with the number of links.
+   */
+  async _countForUser(
+    { user }: { user: User },
+  ): Promise<{ shareLinks: number }[]> {
+    return [{ shareLinks: await this.links.countDocuments({ owner: user }) }];
+  }
+}
@@ -0,0 +1,286 @@
+import { Collection, Db } from "npm:mongodb";
+import { ID } from "@utils/types.ts";
+import {
+  freshID,
+  IndexDeclarations,
+  isDuplicateKeyError,
+} from "@utils/database.ts";
+
+// Collection prefix to ensure namespace separation
+const PREFIX = "Sharing" + ".";
+
+// Generic types for the concept's external dependencies
+type User = ID;
+type Resource = ID;
+
+// Internal entity types, represented as IDs
+type Grant = ID;
+
+/**
+ * The kinds of resources that can be shared.
+ * Sharing a folder shares everything below it too.
+ */
+export type ResourceKind = "note" | "folder";
+
+/**
+ * What a grantee may do: viewers can read, editors can also make changes.
+ */
+export type AccessLevel = "viewer" | "editor";
+
+const RESOURCE_KINDS: ResourceKind[] = ["note", "folder"];
+const ACCESS_LEVELS: AccessLevel[] = ["viewer", "editor"];
+
+/**
+ * State: A set of Grants with
+ *   - _id: Grant
+ *   - owner: User (who shared the resource)
+ *   - grantee: User (who it was shared with)
+ *   - resource: Resource (the shared note or folder)
+ *   - kind: "note" | "folder"
+ *   - level: "viewer" | "editor"
+ *   - createdAt: Date
+ *
+ * Invariants:
+ * - a resource is shared with each grantee at most once
+ * - nobody is granted access to their own resources
+ */
+export interface GrantDocument {
+  _id: Grant;
+  owner: User;
+  grantee: User;
+  resource: Resource;
+  kind: ResourceKind;
+  level: AccessLevel;
+  createdAt: Date;
+}
+
+/**
+ * @concept Sharing
+ * @purpose lets users give others access to some of their notes and folders
+ * @principle The owner of a note or folder shares it with another user as a viewer or an editor.
+ *            The other user then finds it among the resources shared with them, and may read it,
+ *            or also change it if they are an editor. The owner can change the level or stop sharing at any time.
+ */
+export default class SharingConcept {
+  grants: Collection<GrantDocument>;
+
+  /**
+   * Indexes for access checks and the "shared with me" listing, created at startup.
+   * The unique index keeps a resource from being shared twice with one user.
+   */
+  static readonly indexes: IndexDeclarations = {
+    [PREFIX + "grants"]: [
+      { keys: { resource: 1, grantee: 1 }, options: { unique: true } },
+      { keys: { grantee: 1 } },
+      { keys: { owner: 1 } },
+    ],
+  };
+
+  constructor(private readonly db: Db) {
+    this.grants = this.db.collection(PREFIX + "grants");
+  }
+
+  /**
+   * Action: Shares a resource with another user, or changes the level it is shared at.
+   * @param owner The user sharing the resource.
+   * @param resourceOwner The owner of the resource, or null if it doesn't exist.
+   * @param resource The note or folder to share.
+   * @param kind Whether the resource is a note or a folder.
+   * @param grantee The user to share with, or null if there is no such user.
+   * @param level The access to give.
+   * @requires The resource exists and belongs to the owner. The grantee exists and is not the owner.
+   * @effects Grants the grantee the level of access, replacing any level they had on the resource.
+   * @returns The ID of the grant, or an error.
+   */
+  async share(
+    { owner, resourceOwner, resource, kind, grantee, level }: {
+      owner: User;
+      resourceOwner: User | null;
+      resource: Resource;
+      kind: ResourceKind;
+      grantee: User | null;
+      level: AccessLevel;
+    },
+  ): Promise<{ grant: Grant } | { error: string }> {
+    if (!RESOURCE_KINDS.includes(kind)) {
+      return { error: `Only notes and folders can be shared.` };
+    }
+    if (!ACCESS_LEVELS.includes(level)) {
+      return { error: `Access level must be "viewer" or "editor".` };
+    }
+    if (!resourceOwner) {
+      return { error: `The ${kind} ${resource} was not found.` };
+    }
+    if (resourceOwner !== owner) {
+      return { error: `Only the owner of the ${kind} can share it.` };
+    }
+    if (!grantee) {
+      return { error: "No user with that username was found." };
+    }
+    if (grantee === owner) {
+      return { error: "You can't share with yourself." };
+    }
+
+    try {
+      const shared = await this.grants.findOneAndUpdate(
+        { resource, grantee },
+        {
+          $set: { level },
+          $setOnInsert: {
+            _id: freshID() as Grant,
+            owner,
+            kind,
+            createdAt: new Date(),
+          },
+        },
+        { upsert: true, returnDocument: "after" },
+      );
+      return { grant: shared!._id };
+    } catch (e) {
+      if (isDuplicateKeyError(e)) {
+        // Another request shared the same resource with the grantee at the same time
+        return { error: `The ${kind} is already being shared with the user.` };
+      }
+      console.error(`Error sharing ${kind} ${resource}:`, e);
+      return { error: `Failed to share: ${(e as Error).message}` };
+    }
+  }
+
+  /**
+   * Action: Stops sharing a resource with a user.
+   * @param owner The user who shared the resource.
+   * @param resource The shared note or folder.
+   * @param grantee The user it was shared with, or null if there is no such user.
+   * @requires The owner shared the resource with the grantee.
+   * @effects Removes the grant.
+   * @returns The ID of the removed grant, or an error.
+   */
+  async unshare(
+    { owner, resource, grantee }: {
+      owner: User;
+      resource: Resource;
+      grantee: User | null;
+    },
+  ): Promise<{ grant: Grant } | { error: string }> {
+    const removed = grantee
+      ? await this.grants.findOneAndDelete({ owner, resource, grantee })
+      : null;
+    if (!removed) {
+      return { error: "The resource is not shared with that user." };
+    }
+    return { grant: removed._id };
+  }
+
+  /**
+   * Action: Drops every grant on a resource that no longer exists.
+   * @param resource The deleted note or folder.
+   * @effects Removes the resource's grants.
+   * @returns The number of removed grants.
+   */
+  async forgetResource(
+    { resource }: { resource: Resource },
+  ): Promise<{ deleted: number } | { error: string }> {
+    const result = await this.grants.deleteMany({ resource });
+    return { deleted: result.deletedCount };
+  }
+
+  /**
+   * Action: Deletes every grant a user made or received.
+   * @param user The user whose grants should be deleted.
+   * @effects Removes the grants. Used when the user's account is deleted.
+   * @returns The number of deleted grants, or an error.
+   */
+  async deleteAllForUser(
+    { user }: { user: User },
+  ): Promise<{ deleted: number } | { error: string }> {
+    try {
+      const result = await this.grants.deleteMany({
+        $or: [{ owner: user }, { grantee: user }],
+      });
+      return { deleted: result.deletedCount };
+    } catch (e) {
+      console.error(`Error deleting grants for user ${user}:`, e);
+      return { error: `Failed to delete grants: ${(e as Error).message}` };
+    }
+  }
+
+  /**
+   * Query: Lists the resources shared with a user, most recently shared first.
+   * @param user The grantee.
+   * @returns The user's grants, or an error.
+   */
+  async getSharedWithMe(
+    { user }: { user: User },
+  ): Promise<{ grants: GrantDocument[] } | { error: string }> {
+    try {
+      const grants = await this.grants.find({ grantee: user })
+        .sort({ createdAt: -1 })
+        .toArray();
+      return { grants };
+    } catch (e) {
+      console.error(`Error getting grants for user ${user}:`, e);
+      return {
+        error: `Failed to retrieve shared items: ${(e as Error).message}`,
+      };
+    }
+  }
+
+  /**
+   * Query: Lists who a resource is shared with.
+   * @param owner The user who shared the resource.
+   * @param resource The note or folder.
+   * @returns The grants the owner made on the resource, or an error.
+   */
+  async getGrants(
+    { owner, resource }: { owner: User; resource: Resource },
+  ): Promise<{ grants: GrantDocument[] } | { error: string }> {
+    try {
+      const grants = await this.grants.find({ owner, resource })
+        .sort({ createdAt: 1 })
+        .toArray();
+      return { grants };
+    } catch (e) {
+      console.error(`Error getting grants on ${resource}:`, e);
+      return { error: `Failed to retrieve grants: ${(e as Error).message}` };
+    }
+  }
+
+  /**
+   * Query: Finds the highest access a user was granted on any of a set of resources,
+   * e.g. a note together with the folders above it.
+   * @param user The grantee.
+   * @param resources The resources to check.
+   * @returns An array with the access level, or an empty array if the user was granted none.
+   */
+  async _getAccessLevel(
+    { user, resources }: { user: User; resources: Resource[] },
+  ): Promise<{ level: AccessLevel }[]> {
+    const grants = await this.grants.find(
+      { grantee: user, resource: { $in: resources } },
+      { projection: { level: 1 } },
+    ).toArray();
+    if (grants.length === 0) {
+      return [];
+    }
+    return [{
+      level: grants.some((grant) => grant.level === "editor")
+        ? "editor"
+        : "viewer",
+    }];
+  }
+
+  /**
+   * Query: Counts the grants a user made or received, to check that account deletion left nothing behind.
+   * @param user The user to count grants for.
+   * @returns An array with the number of grants.
+   */
+  async _countForUser(
+    { user }: { user: User },
+  ): Promise<{ grants: number }[]> {
+    return [{
+      grants: await this.grants.countDocuments({
+        $or: [{ owner: user }, { grantee: user }],
+      }),
+    }];
+  }
+}
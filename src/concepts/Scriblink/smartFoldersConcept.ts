@@ -0,0 +1,253 @@
+import { Collection, Db } from "npm:mongodb";
+import { ID } from "@utils/types.ts";
+import {
+  freshID,
+  IndexDeclarations,
+  isDuplicateKeyError,
+} from "@utils/database.ts";
+import { parseNoteQuery } from "@utils/noteQuery.ts";
+
+// Collection prefix to ensure namespace separation
+const PREFIX = "SmartFolder" + ".";
+
+// Generic types for the concept's external dependencies
+type User = ID;
+
+// Internal entity types, represented as IDs
+type SmartFolder = ID;
+
+/**
+ * State: A set of SmartFolders with
+ *   - _id: SmartFolder
+ *   - owner: User
+ *   - name: String (shown next to the user's folders)
+ *   - query: String (a note query, see `@utils/noteQuery.ts`)
+ *   - createdAt: Date
+ *
+ * Invariants:
+ * - a user's smart folders have distinct names
+ * - every query parses
+ */
+export interface SmartFolderDocument {
+  _id: SmartFolder;
+  owner: User;
+  name: string;
+  query: string;
+  createdAt: Date;
+}
+
+/**
+ * @concept SmartFolders
+ * @purpose lets users keep a search they run often one click away
+ * @principle A user writes a query over tags, folders, dates and text, and saves it under a name.
+ *            The smart folder is listed next to their folders, and opening it shows the notes
+ *            that match the query at that moment, so it stays current as notes change.
+ */
+export default class SmartFoldersConcept {
+  smartFolders: Collection<SmartFolderDocument>;
+
+  /**
+   * Indexes created at startup. The unique index keeps two of a user's smart folders from sharing a name.
+   */
+  static readonly indexes: IndexDeclarations = {
+    [PREFIX + "smartFolders"]: [
+      { keys: { owner: 1, name: 1 }, options: { unique: true } },
+    ],
+  };
+
+  constructor(private readonly db: Db) {
+    this.smartFolders = this.db.collection(PREFIX + "smartFolders");
+  }
+
+  /**
+   * Action: Saves a query as a named smart folder.
+   * @param user The owner of the smart folder.
+   * @param name The name to show.
+   * @param query The note query.
+   * @requires The name is not empty or whitespace and not used by another of the user's smart folders.
+   *           The query parses.
+   * @effects Creates the smart folder.
+   * @returns The ID of the new smart folder, or an error.
+   */
+  async createSmartFolder(
+    { user, name, query }: { user: User; name: string; query: string },
+  ): Promise<{ smartFolder: SmartFolder } | { error: string }> {
+    const invalid = validate(name, query);
+    if (invalid) {
+      return invalid;
+    }
+
+    // Checked here as well as by the unique index, which is skipped when old duplicates exist
+    if (await this.smartFolders.findOne({ owner: user, name: name.trim() })) {
+      return {
+        error: `A smart folder named "${name.trim()}" already exists.`,
+      };
+    }
+
+    const smartFolder = freshID() as SmartFolder;
+    try {
+      await this.smartFolders.insertOne({
+        _id: smartFolder,
+        owner: user,
+        name: name.trim(),
+        query,
+        createdAt: new Date(),
+      });
+      return { smartFolder };
+    } catch (e) {
+      if (isDuplicateKeyError(e)) {
+        return {
+          error: `A smart folder named "${name.trim()}" already exists.`,
+        };
+      }
+      console.error(`Error creating smart folder for user ${user}:`, e);
+      return {
+        error: `Failed to create smart folder: ${(e as Error).message}`,
+      };
+    }
+  }
+
+  /**
+   * Action: Renames a smart folder or changes its query.
+   * @param user The owner of the smart folder.
+   * @param smartFolder The smart folder to change.
+   * @param name The new name, or null to keep it.
+   * @param query The new query, or null to keep it.
+   * @requires The smart folder belongs to the user. A new name and query meet the same rules as on creation.
+   * @effects Updates the given fields.
+   * @returns The ID of the smart folder, or an error.
+   */
+  async updateSmartFolder(
+    { user, smartFolder, name, query }: {
+      user: User;
+      smartFolder: SmartFolder;
+      name?: string | null;
+      query?: string | null;
+    },
+  ): Promise<{ smartFolder: SmartFolder } | { error: string }> {
+    const existing = await this.smartFolders.findOne({
+      _id: smartFolder,
+      owner: user,
+    });
+    if (!existing) {
+      return { error: `Smart folder ${smartFolder} not found.` };
+    }
+    const newName = name ?? existing.name;
+    const newQuery = query ?? existing.query;
+    const invalid = validate(newName, newQuery);
+    if (invalid) {
+      return invalid;
+    }
+    if (
+      await this.smartFolders.findOne({
+        owner: user,
+        name: newName.trim(),
+        _id: { $ne: smartFolder },
+      })
+    ) {
+      return {
+        error: `A smart folder named "${newName.trim()}" already exists.`,
+      };
+    }
+
+    try {
+      await this.smartFolders.updateOne({ _id: smartFolder }, {
+        $set: { name: newName.trim(), query: newQuery },
+      });
+      return { smartFolder };
+    } catch (e) {
+      if (isDuplicateKeyError(e)) {
+        return {
+          error: `A smart folder named "${newName.trim()}" already exists.`,
+        };
+      }
+      console.error(`Error updating smart folder ${smartFolder}:`, e);
+      return {
+        error: `Failed to update smart folder: ${(e as Error).message}`,
+      };
+    }
+  }
+
+  /**
+   * Action: Deletes a smart folder. The notes it lists are not affected.
+   * @param user The owner of the smart folder.
+   * @param smartFolder The smart folder to delete.
+   * @requires The smart folder belongs to the user.
+   * @effects Removes the smart folder.
+   * @returns The ID of the deleted smart folder, or an error.
+   */
+  async deleteSmartFolder(
+    { user, smartFolder }: { user: User; smartFolder: SmartFolder },
+  ): Promise<{ smartFolder: SmartFolder } | { error: string }> {
+    const result = await this.smartFolders.deleteOne({
+      _id: smartFolder,
+      owner: user,
+    });
+    if (result.deletedCount === 0) {
+      return { error: `Smart folder ${smartFolder} not found.` };
+    }
+    return { smartFolder };
+  }
+
+  /**
+   * Action: Deletes every smart folder of a user.
+   * @param user The user whose smart folders should be deleted.
+   * @effects Removes the smart folders. Used when the user's account is deleted.
+   * @returns The number of deleted smart folders, or an error.
+   */
+  async deleteAllForUser(
+    { user }: { user: User },
+  ): Promise<{ deleted: number } | { error: string }> {
+    try {
+      const result = await this.smartFolders.deleteMany({ owner: user });
+      return { deleted: result.deletedCount };
+    } catch (e) {
+      console.error(`Error deleting smart folders for user ${user}:`, e);
+      return {
+        error: `Failed to delete smart folders: ${(e as Error).message}`,
+      };
+    }
+  }
+
+  /**
+   * Query: Lists a user's smart folders by name.
+   * @param user The owner of the smart folders.
+   * @returns An array with one entry per smart folder.
+   */
+  async _getSmartFolders(
+    { user }: { user: User },
+  ): Promise<{ smartFolder: SmartFolder; name: string; query: string }[]> {
+    const smartFolders = await this.smartFolders.find({ owner: user })
+      .sort({ name: 1 }).toArray();
+    return smartFolders.map((folder) => ({
+      smartFolder: folder._id,
+      name: folder.name,
+      query: folder.query,
+    }));
+  }
+
+  /**
+   * Query: Counts the smart folders a user has, to check that account deletion left nothing behind.
+   * @param user The user to count smart folders for.
+   * @returns An array with the number of smart folders.
+   */
+  async _countForUser(
+    { user }: { user: User },
+  ): Promise<{ smartFolders: number }[]> {
+    return [{
+      smartFolders: await this.smartFolders.countDocuments({ owner: user }),
+    }];
+  }
+}
+
+/**
+ * Checks a smart folder's name and query.
+ * @returns An error, or null if both are valid.
+ */
+function validate(name: string, query: string): { error: string } | null {
+  if (typeof name !== "string" || name.trim() === "") {
+    return { error: "Smart folder name cannot be empty." };
+  }
+  const parsed = parseNoteQuery(query);
+  return "error" in parsed ? { error: parsed.error } : null;
+}
@@ -4,28 +4,21 @@ import { Collection, Db } from "npm:mongodb";
 // export type ID = string;
 // export type Empty = Record<string, never>;
 import { Empty, ID } from "@utils/types.ts";
-import { Config, GeminiLLM } from "./gemini-llm.ts";
-
-// --- START: External LLM and Config Utilities (adapted from provided Summarizer example) ---
-// These would typically reside in separate files (e.g., `gemini-llm.ts`, `config.ts`)
-// but are included here for a self-contained solution as per the prompt's context.
+import { IndexDeclarations } from "@utils/database.ts";
+import { indexTerms, termPrefix } from "@utils/search.ts";
+import { LLMProvider, loadLLMProvider } from "./llm-provider.ts";
+import {
+  validateContentRelevance,
+  validateNoMetaLanguage,
+} from "./llm-validation.ts";
 
 /**
- * Loads the API configuration, prioritizing environment variables.
- * Adapts `loadConfig` from the Summarizer example for a Deno environment.
+ * # Summaries concept configuration
+ * The following environment variables are available:
+ *
+ * - SUMMARY_AUTO_REFRESH: "true" to regenerate stale AI summaries when their item changes, default false
  */
-
-function loadConfig(): Config {
-  const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY");
-  if (GEMINI_API_KEY && GEMINI_API_KEY.trim()) {
-    return { apiKey: GEMINI_API_KEY.trim() } as Config;
-  }
-  console.warn(
-    "❌ Warning: GEMINI_API_KEY environment variable not set. LLM calls will use a MOCK_API_KEY.",
-  );
-  return { apiKey: "GEMINI_API_KEY_NOT_SET" };
-}
-// --- END: External LLM and Config Utilities ---
+const SUMMARY_AUTO_REFRESH = Deno.env.get("SUMMARY_AUTO_REFRESH") === "true";
 
 // Collection prefix to ensure namespace separation in MongoDB
 const PREFIX = "Summary" + ".";
@@ -33,13 +26,35 @@ const PREFIX = "Summary" + ".";
 // Re-using Item from the example's context
 type Item = ID;
 
+/**
+ * Who wrote a summary: the user ("manual") or the LLM ("ai").
+ */
+export type SummarySource = "manual" | "ai";
+
 /**
  * Internal entity type for a Summary document stored in MongoDB.
  * The `_id` of this document is the `Item` ID it summarizes.
+ * Summaries written before staleness tracking have no provenance fields.
  */
 interface SummaryDocument {
   _id: Item; // The ID of the Item being summarized
   summary: string; // The concise summary text
+  source?: SummarySource; // Whether the user or the LLM wrote the summary
+  contentHash?: string; // SHA-256 of the item content the summary was made from, if known
+  revision?: number; // The item revision the summary was made from, if known
+  updatedAt?: Date; // When the summary was written
+  stale?: boolean; // Whether the item's content has changed since the summary was written
+  searchTerms?: string[]; // The distinct words of the summary, lowercased, for search
+}
+
+/**
+ * Hashes item content so later versions can be compared without storing the content itself.
+ */
+async function hashContent(text: string): Promise<string> {
+  const data = new TextEncoder().encode(text);
+  const hashBuffer = await crypto.subtle.digest("SHA-256", data);
+  const hashArray = Array.from(new Uint8Array(hashBuffer));
+  return hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
 }
 
 /**
@@ -48,13 +63,24 @@ interface SummaryDocument {
  */
 export default class SummariesConcept {
   summariesCollection: Collection<SummaryDocument>;
-  private llm: GeminiLLM;
   private readonly summaryPromptTemplate: string;
 
-  constructor(private readonly db: Db) {
+  /**
+   * Indexes created at startup, for finding the summaries that contain a search term.
+   */
+  static readonly indexes: IndexDeclarations = {
+    [PREFIX + "summaries"]: [{ keys: { searchTerms: 1 } }],
+  };
+
+  /**
+   * @param db The database holding the concept's state.
+   * @param llm The backend used by `setSummaryWithAI`; defaults to the one selected by LLM_PROVIDER.
+   */
+  constructor(
+    private readonly db: Db,
+    private readonly llm: LLMProvider = loadLLMProvider(),
+  ) {
     this.summariesCollection = this.db.collection(PREFIX + "summaries");
-    const config = loadConfig();
-    this.llm = new GeminiLLM(config);
 
     // The core prompt from the Summarizer example, adjusted for direct integration.
     this.summaryPromptTemplate =
@@ -77,11 +103,19 @@ export default class SummariesConcept {
    *
    * @param summary The summary string provided by the user.
    * @param item The ID of the Item to summarize.
+   * @param text The item's current content, if known; recorded so later changes can be detected.
+   * @param revision The item's current revision, if known.
    * @effects If `item` already exists, change its summary. If not, create a new summary for `item`.
+   *          The summary is recorded as manual and fresh.
    * @returns The created/updated summary document, or an error.
    */
   async setSummary(
-    { summary, item }: { summary: string; item: Item },
+    { summary, item, text, revision }: {
+      summary: string;
+      item: Item;
+      text?: string | null;
+      revision?: number | null;
+    },
   ): Promise<SummaryDocument | { error: string }> {
     // Validate summary against invariants before saving.
     // For manual summaries, we cannot reliably check length ratio or content relevance
@@ -91,14 +125,21 @@ export default class SummariesConcept {
       return { error: "Summary cannot be empty." };
     }
 
-    const result = await this.summariesCollection.updateOne(
+    const doc = await this.buildDocument(
+      item,
+      summary,
+      "manual",
+      text,
+      revision,
+    );
+    const result = await this.summariesCollection.replaceOne(
       { _id: item },
-      { $set: { summary: summary } },
+      { ...doc, searchTerms: indexTerms(doc.summary) },
       { upsert: true }, // Create if not exists, update if exists
     );
 
     if (result.acknowledged) {
-      return { _id: item, summary: summary };
+      return doc;
     } else {
       return { error: `Failed to set manual summary for item ${item}.` };
     }
@@ -109,12 +150,18 @@ export default class SummariesConcept {
    *
    * @param text The full content of the Item to be summarized by the LLM.
    * @param item The ID of the Item to summarize.
+   * @param revision The item revision that `text` belongs to, if known.
    * @requires text is nonempty
-   * @effects Creates a summary of `text` with an LLM and associates it with the item.
+   * @effects Creates a summary of `text` with an LLM and associates it with the item,
+   *          recording it as an AI summary of `text`'s content hash.
    * @returns The generated summary document, or an error.
    */
   async setSummaryWithAI(
-    { text, item }: { text: string; item: Item },
+    { text, item, revision }: {
+      text: string;
+      item: Item;
+      revision?: number | null;
+    },
   ): Promise<SummaryDocument | { error: string }> {
     if (!text || text.trim().length === 0) {
       return { error: "Text to summarize cannot be empty." };
@@ -124,7 +171,7 @@ export default class SummariesConcept {
     let generatedSummary: string;
 
     try {
-      generatedSummary = (await this.llm.executeLLM(fullPrompt)).trim();
+      generatedSummary = (await this.llm.executeLLM(fullPrompt, text)).trim();
 
       // Validate the AI-generated summary against all invariants
       this.validateSummary(generatedSummary, text);
@@ -139,19 +186,90 @@ export default class SummariesConcept {
     }
 
     // Now, save the validated summary to the database
-    const result = await this.summariesCollection.updateOne(
+    const doc = await this.buildDocument(
+      item,
+      generatedSummary,
+      "ai",
+      text,
+      revision,
+    );
+    const result = await this.summariesCollection.replaceOne(
       { _id: item },
-      { $set: { summary: generatedSummary } },
+      { ...doc, searchTerms: indexTerms(doc.summary) },
       { upsert: true },
     );
 
     if (result.acknowledged) {
-      return { _id: item, summary: generatedSummary };
+      return doc;
     } else {
       return { error: `Failed to save AI-generated summary for item ${item}.` };
     }
   }
 
+  /**
+   * Action: Compares an item's current content with the content its summary was made from.
+   *
+   * @param item The ID of the item whose content changed.
+   * @param text The item's current content.
+   * @requires The item has a summary.
+   * @effects Marks the summary stale if `text` differs from the content it was made from
+   *          (or if that content is unknown), and fresh otherwise.
+   * @returns Whether the summary is stale, its source, and whether it should be regenerated:
+   *          only stale AI summaries are, and only when SUMMARY_AUTO_REFRESH is enabled.
+   */
+  async checkStaleness(
+    { item, text }: { item: Item; text: string },
+  ): Promise<
+    | { stale: boolean; source: SummarySource | null; regenerate: boolean }
+    | { error: string }
+  > {
+    const existing = await this.summariesCollection.findOne({ _id: item });
+    if (!existing) {
+      return { error: `No summary found for item ${item}.` };
+    }
+
+    const stale = existing.contentHash !== await hashContent(text);
+    try {
+      await this.summariesCollection.updateOne(
+        { _id: item },
+        { $set: { stale } },
+      );
+    } catch (e) {
+      console.error(`Error checking staleness for item ${item}:`, e);
+      return {
+        error: `Failed to check summary staleness: ${(e as Error).message}`,
+      };
+    }
+
+    const source = existing.source ?? null;
+    return {
+      stale,
+      source,
+      regenerate: stale && source === "ai" && SUMMARY_AUTO_REFRESH,
+    };
+  }
+
+  /**
+   * Helper function to build a fresh summary document with its provenance.
+   */
+  private async buildDocument(
+    item: Item,
+    summary: string,
+    source: SummarySource,
+    text?: string | null,
+    revision?: number | null,
+  ): Promise<SummaryDocument> {
+    return {
+      _id: item,
+      summary,
+      source,
+      ...(text != null ? { contentHash: await hashContent(text) } : {}),
+      ...(revision != null ? { revision } : {}),
+      updatedAt: new Date(),
+      stale: false,
+    };
+  }
+
   // --- Invariant validation methods (adapted from the Summarizer example) ---
   /**
    * Orchestrates the validation of a summary against all defined invariants.
@@ -164,13 +282,13 @@ export default class SummariesConcept {
     originalText: string,
   ): void {
     // Invariant: summary contains no meta-language or AI disclaimers
-    this.validateNoMetaLanguage(summary);
+    validateNoMetaLanguage(summary);
 
     // Invariant: summary is at most 50% the length of the item's content or under 150 words
     this.validateSummaryLength(summary, originalText, 0.5, 150);
 
     // Invariant: summary is a concise, relevant, and readable highlight of the item's content
-    this.validateContentRelevance(summary, originalText);
+    validateContentRelevance(summary, originalText);
   }
 
   /**
@@ -217,129 +335,58 @@ export default class SummariesConcept {
     }
   }
 
-  /**
-   * Validates the relevance of the summary to the original content.
-   * Invariant: summary is relevant to the item's content.
-   * @param summary The summary text.
-   * @param originalText The original content of the item.
-   * @param minOverlapRatio Minimum required overlap ratio of meaningful words.
-   */
-  private validateContentRelevance(
-    summary: string,
-    originalText: string,
-    minOverlapRatio: number = 0.1, // A heuristic, can be adjusted
-  ): void {
-    // Extract meaningful words (4+ alphanumeric characters) from both texts
-    const extractWords = (text: string) =>
-      new Set(text.toLowerCase().match(/\b[a-z0-9]{4,}\b/g) || []);
-
-    const originalWords = extractWords(originalText);
-    const summaryWords = extractWords(summary);
-
-    if (summaryWords.size === 0) {
-      throw new Error(
-        "ContentRelevanceError: Summary contains no meaningful words for relevance check.",
-      );
-    }
-    if (originalWords.size === 0) {
-      // If original text has no meaningful words, we cannot establish relevance.
-      // This might indicate an issue with the original content itself or the relevance check.
-      // For now, we'll allow it if there's no original content to compare against.
-      return;
-    }
-
-    // Find overlap between summary and original text
-    const overlap = [...summaryWords].filter((word) => originalWords.has(word));
-    const overlapRatio = overlap.length / summaryWords.size;
-
-    if (overlapRatio < minOverlapRatio) {
-      throw new Error(
-        `ContentRelevanceError: Summary appears unrelated to source text. Only ${
-          (
-            overlapRatio * 100
-          ).toFixed(1)
-        }% of summary words overlap with original content (min ${
-          minOverlapRatio * 100
-        }% required).`,
-      );
-    }
-  }
-
-  /**
-   * Validates that the summary does not contain meta-language or AI disclaimers.
-   * Invariant: summary contains no meta-language or AI disclaimers.
-   * @param summary The summary text.
-   */
-  private validateNoMetaLanguage(summary: string): void {
-    const metaPatterns = [
-      "as an ai",
-      "i am an ai",
-      "i'm an ai",
-      "as a language model",
-      "i cannot",
-      "i'm not able to",
-      "i don't have the ability",
-      "i'm sorry, but",
-      "unfortunately, i",
-      "i would need more information",
-      "here's a summary",
-      "in summary",
-      "this text discusses",
-      "overall, the passage talks about",
-      "the following is a summary",
-      "this is a summary",
-      "the summary of",
-      "to summarize",
-      "in conclusion",
-      "based on the provided text",
-      "the main points are",
-      "key takeaways include",
-      "this document summarizes",
-      "it is important to note",
-      "this summary covers",
-      "my purpose is to",
-      "I do not have personal opinions", // Added more robust patterns
-      "i do not have access to",
-      "as an artificial intelligence",
-      "i can't provide",
-      "I am designed to",
-      "the summary could not be generated because the content was unclear or unrelated.",
-    ];
-
-    const summaryLower = summary.toLowerCase();
-    const foundPatterns = metaPatterns.filter((pattern) =>
-      summaryLower.includes(pattern)
-    );
-
-    if (foundPatterns.length > 0) {
-      throw new Error(
-        `MetaLanguageError: Found AI meta-language or summary boilerplate: '${
-          foundPatterns.join("', '")
-        }'`,
-      );
-    }
-  }
-
   /**
    * Query: Retrieves a summary for a given item.
    * @param item The ID of the item whose summary is sought.
-   * @returns The summary document if found, otherwise `null` or an error.
+   * @returns The summary document if found, with a `stale` flag that is true when the item
+   *          has changed since the summary was written, otherwise an error.
    */
   async getSummary(
     { item }: { item: Item },
-  ): Promise<SummaryDocument | { error: string }> {
+  ): Promise<(SummaryDocument & { stale: boolean }) | { error: string }> {
     try {
-      const summaryDoc = await this.summariesCollection.findOne({ _id: item });
+      const summaryDoc = await this.summariesCollection.findOne({ _id: item }, {
+        projection: { searchTerms: 0 },
+      });
       if (!summaryDoc) {
         return { error: `No summary found for item ${item}.` };
       }
-      return summaryDoc;
+      return { ...summaryDoc, stale: summaryDoc.stale ?? false };
     } catch (e: any) {
       console.error(`Error getting summary for item ${item}:`, e);
       return { error: `Error getting summary for item ${item}: ${e.message}` };
     }
   }
 
+  /**
+   * Query: Retrieves the summaries for a set of items.
+   * @param items The IDs of the items whose summaries are sought.
+   * @returns The summary documents that exist; items without a summary are omitted.
+   */
+  async _getSummariesForItems(
+    { items }: { items: Item[] },
+  ): Promise<SummaryDocument[]> {
+    return await this.summariesCollection.find({ _id: { $in: items } }, {
+      projection: { searchTerms: 0 },
+    }).toArray();
+  }
+
+  /**
+   * Query: Finds the items among a set whose summary has a word starting with a term.
+   * @param items The IDs of the items to look at.
+   * @param term A lowercase search term, as produced by `tokenize`.
+   * @returns An array with one entry per item found.
+   */
+  async _findByTermPrefix(
+    { items, term }: { items: Item[]; term: string },
+  ): Promise<{ item: Item }[]> {
+    const summaries = await this.summariesCollection.find(
+      { _id: { $in: items }, searchTerms: termPrefix(term) },
+      { projection: { _id: 1 } },
+    ).toArray();
+    return summaries.map((summary) => ({ item: summary._id }));
+  }
+
   /**
    * Action: Deletes a summary for a given item.
    * @param item The ID of the item whose summary should be deleted.
@@ -365,4 +412,33 @@ export default class SummariesConcept {
       return { error: `Error deleting summary for item ${item}: ${e.message}` };
     }
   }
+
+  /**
+   * Query: Counts the summaries of a set of items, to check that account deletion left nothing behind.
+   * Summaries don't record who owns their item, so the caller names the items to check.
+   * @param items The IDs of the items to check.
+   * @returns An array with the number of summaries found.
+   */
+  async _countForItems(
+    { items }: { items: Item[] },
+  ): Promise<{ summaries: number }[]> {
+    return [{
+      summaries: await this.summariesCollection.countDocuments({
+        _id: { $in: items },
+      }),
+    }];
+  }
+
+  /**
+   * Query: Lists the item of every summary, to check references across concepts.
+   * Summaries don't record who owns their item, so every summary is listed.
+   * @returns An array with one entry per summary.
+   */
+  async _listReferences(_: Empty): Promise<{ item: Item }[]> {
+    const summaries = await this.summariesCollection.find(
+      {},
+      { projection: { _id: 1 } },
+    ).toArray();
+    return summaries.map((summary) => ({ item: summary._id }));
+  }
 }
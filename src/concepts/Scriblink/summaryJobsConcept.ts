@@ -0,0 +1,450 @@
+import { Collection, Db } from "npm:mongodb";
+import "jsr:@std/dotenv/load";
+import { Empty, ID } from "@utils/types.ts";
+import { freshID, IndexDeclarations } from "@utils/database.ts";
+
+/**
+ * # SummaryJobs concept configuration
+ * The following environment variables are available:
+ *
+ * - SUMMARY_JOB_CONCURRENCY: how many jobs may run at once, default 2
+ * - SUMMARY_JOB_MAX_ATTEMPTS: how many times a job is tried before it fails, default 3
+ * - SUMMARY_JOB_RETRY_DELAY: the delay before the first retry, doubled on each later one, default 5000ms
+ * - SUMMARY_JOB_LEASE: how long a job may run before it is considered stalled and requeued, default 300000ms
+ * - SUMMARY_JOB_POLL_INTERVAL: how often the worker looks for queued jobs, default 1000ms
+ */
+const SUMMARY_JOB_CONCURRENCY = parseInt(
+  Deno.env.get("SUMMARY_JOB_CONCURRENCY") ?? "2",
+  10,
+);
+const SUMMARY_JOB_MAX_ATTEMPTS = parseInt(
+  Deno.env.get("SUMMARY_JOB_MAX_ATTEMPTS") ?? "3",
+  10,
+);
+const SUMMARY_JOB_RETRY_DELAY = parseInt(
+  Deno.env.get("SUMMARY_JOB_RETRY_DELAY") ?? "5000",
+  10,
+);
+const SUMMARY_JOB_LEASE = parseInt(
+  Deno.env.get("SUMMARY_JOB_LEASE") ?? "300000",
+  10,
+);
+const SUMMARY_JOB_POLL_INTERVAL = parseInt(
+  Deno.env.get("SUMMARY_JOB_POLL_INTERVAL") ?? "1000",
+  10,
+);
+
+// Collection prefix to ensure namespace separation
+const PREFIX = "SummaryJob" + ".";
+
+// Generic types for the concept's external dependencies
+type User = ID;
+type Item = ID;
+
+// Internal entity types, represented as IDs
+type Job = ID;
+
+/**
+ * The lifecycle of a job: queued -> running -> succeeded,
+ * or back to queued for a retry, until it has failed too many times.
+ */
+export type JobStatus = "queued" | "running" | "succeeded" | "failed";
+
+/**
+ * State: A set of Jobs with
+ *   - _id: Job
+ *   - owner: User
+ *   - item: Item (the item to summarize)
+ *   - text: String (the content to summarize)
+ *   - revision: Number | null (the item revision `text` belongs to, if known)
+ *   - status: JobStatus
+ *   - attempts: Number (how many times the job has been started)
+ *   - runAfter: Date (the job is not started before this time)
+ *   - startedAt: Date | null (when the current attempt started)
+ *   - lastError: String | null
+ *   - createdAt: Date
+ *   - updatedAt: Date
+ *
+ * Invariants:
+ * - at most SUMMARY_JOB_CONCURRENCY jobs are running at once
+ * - attempts never exceeds the maximum number of attempts
+ * - every item has at most one queued job
+ */
+export interface JobDocument {
+  _id: Job;
+  owner: User;
+  item: Item;
+  text: string;
+  revision: number | null;
+  status: JobStatus;
+  attempts: number;
+  runAfter: Date;
+  startedAt: Date | null;
+  lastError: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * @concept SummaryJobs
+ * @purpose generates summaries in the background, so slow or failing LLM calls don't hold up requests
+ * @principle A user asks for a summary and immediately gets a job back.
+ *            The job is picked up when a slot is free and retried with growing delays if it fails.
+ *            The user polls the job until it has succeeded or failed for good.
+ */
+export default class SummaryJobsConcept {
+  jobs: Collection<JobDocument>;
+  private readonly concurrency: number;
+  private readonly maxAttempts: number;
+
+  /**
+   * Indexes for claiming due jobs and finding an item's queued job, created at startup.
+   */
+  static readonly indexes: IndexDeclarations = {
+    [PREFIX + "jobs"]: [
+      { keys: { status: 1, runAfter: 1 } },
+      { keys: { item: 1, status: 1 } },
+      { keys: { owner: 1 } },
+    ],
+  };
+
+  constructor(private readonly db: Db) {
+    this.jobs = this.db.collection(PREFIX + "jobs");
+    this.concurrency = SUMMARY_JOB_CONCURRENCY;
+    this.maxAttempts = SUMMARY_JOB_MAX_ATTEMPTS;
+  }
+
+  /**
+   * Action: Queues a summary job for an item.
+   * @param user The user requesting the summary.
+   * @param item The ID of the item to summarize.
+   * @param text The content to summarize.
+   * @param revision The item revision that `text` belongs to, if known.
+   * @requires text is nonempty.
+   * @effects If the item already has a queued job, replaces its content and keeps it;
+   *          otherwise creates a new queued job that may run immediately.
+   * @returns The ID of the queued job, or an error.
+   */
+  async enqueue(
+    { user, item, text, revision }: {
+      user: User;
+      item: Item;
+      text: string;
+      revision?: number | null;
+    },
+  ): Promise<{ job: Job } | { error: string }> {
+    if (!text || text.trim().length === 0) {
+      return { error: "Text to summarize cannot be empty." };
+    }
+
+    const now = new Date();
+    try {
+      const queued = await this.jobs.findOneAndUpdate(
+        { item, status: "queued" },
+        {
+          $set: {
+            owner: user,
+            text,
+            revision: revision ?? null,
+            updatedAt: now,
+          },
+        },
+      );
+      if (queued) {
+        return { job: queued._id };
+      }
+
+      const jobId = freshID() as Job;
+      await this.jobs.insertOne({
+        _id: jobId,
+        owner: user,
+        item,
+        text,
+        revision: revision ?? null,
+        status: "queued",
+        attempts: 0,
+        runAfter: now,
+        startedAt: null,
+        lastError: null,
+        createdAt: now,
+        updatedAt: now,
+      });
+      return { job: jobId };
+    } catch (e) {
+      console.error(`Error queueing summary job for item ${item}:`, e);
+      return { error: `Failed to queue summary job: ${(e as Error).message}` };
+    }
+  }
+
+  /**
+   * Action: Starts the oldest queued job that is due, if a slot is free.
+   * @requires Fewer than SUMMARY_JOB_CONCURRENCY jobs are running, and a queued job is due.
+   * @effects Marks the job running and counts the attempt.
+   * @returns The started job with its owner and the item and content to summarize,
+   *          or an error if none can start.
+   */
+  async claim(
+    _: Empty,
+  ): Promise<
+    | {
+      job: Job;
+      user: User;
+      item: Item;
+      text: string;
+      revision: number | null;
+    }
+    | { error: string }
+  > {
+    if (
+      await this.jobs.countDocuments({ status: "running" }) >= this.concurrency
+    ) {
+      return { error: "No free job slots." };
+    }
+
+    const now = new Date();
+    const claimed = await this.jobs.findOneAndUpdate(
+      { status: "queued", runAfter: { $lte: now } },
+      {
+        $set: { status: "running", startedAt: now, updatedAt: now },
+        $inc: { attempts: 1 },
+      },
+      { sort: { runAfter: 1 }, returnDocument: "after" },
+    );
+    if (!claimed) {
+      return { error: "No jobs are due." };
+    }
+
+    // Concurrent claims may have taken the last slot in the meantime; if so, give the job back
+    if (
+      await this.jobs.countDocuments({ status: "running" }) > this.concurrency
+    ) {
+      await this.jobs.updateOne(
+        { _id: claimed._id },
+        {
+          $set: { status: "queued", startedAt: null },
+          $inc: { attempts: -1 },
+        },
+      );
+      return { error: "No free job slots." };
+    }
+
+    return {
+      job: claimed._id,
+      user: claimed.owner,
+      item: claimed.item,
+      text: claimed.text,
+      revision: claimed.revision,
+    };
+  }
+
+  /**
+   * Action: Marks a running job as succeeded.
+   * @param job The ID of the job.
+   * @requires The job is running.
+   * @effects Sets the job's status to succeeded.
+   */
+  async complete(
+    { job }: { job: Job },
+  ): Promise<{ job: Job } | { error: string }> {
+    const result = await this.jobs.updateOne(
+      { _id: job, status: "running" },
+      {
+        $set: {
+          status: "succeeded",
+          startedAt: null,
+          lastError: null,
+          updatedAt: new Date(),
+        },
+      },
+    );
+    if (result.matchedCount === 0) {
+      return { error: `Job ${job} is not running.` };
+    }
+    return { job };
+  }
+
+  /**
+   * Action: Records a failed attempt of a running job.
+   * @param job The ID of the job.
+   * @param error Why the attempt failed.
+   * @requires The job is running.
+   * @effects If the job has attempts left, requeues it after SUMMARY_JOB_RETRY_DELAY,
+   *          doubled for every earlier attempt; otherwise marks it failed.
+   * @returns Whether the job will be retried, or an error.
+   */
+  async fail(
+    { job, error }: { job: Job; error: string },
+  ): Promise<{ job: Job; retrying: boolean } | { error: string }> {
+    const existing = await this.jobs.findOne({ _id: job, status: "running" });
+    if (!existing) {
+      return { error: `Job ${job} is not running.` };
+    }
+
+    const retrying = existing.attempts < this.maxAttempts;
+    const now = new Date();
+    await this.jobs.updateOne(
+      { _id: job },
+      {
+        $set: {
+          status: retrying ? "queued" : "failed",
+          runAfter: retrying
+            ? new Date(
+              now.getTime() +
+                SUMMARY_JOB_RETRY_DELAY * 2 ** (existing.attempts - 1),
+            )
+            : existing.runAfter,
+          startedAt: null,
+          lastError: error,
+          updatedAt: now,
+        },
+      },
+    );
+    return { job, retrying };
+  }
+
+  /**
+   * Action: Requeues jobs that have been running for longer than SUMMARY_JOB_LEASE,
+   * e.g. because the server restarted while they ran.
+   * @effects Sets stalled jobs back to queued, due immediately.
+   * @returns The IDs of the requeued jobs.
+   */
+  async requeueStalled(
+    _: Empty,
+  ): Promise<{ jobs: Job[] } | { error: string }> {
+    const now = new Date();
+    try {
+      const stalled = await this.jobs.find({
+        status: "running",
+        startedAt: { $lt: new Date(now.getTime() - SUMMARY_JOB_LEASE) },
+      }).toArray();
+      const ids = stalled.map((j) => j._id);
+      await this.jobs.updateMany(
+        { _id: { $in: ids } },
+        {
+          $set: {
+            status: "queued",
+            runAfter: now,
+            startedAt: null,
+            updatedAt: now,
+          },
+        },
+      );
+      return { jobs: ids };
+    } catch (e) {
+      console.error("Error requeueing stalled summary jobs:", e);
+      return {
+        error: `Failed to requeue stalled jobs: ${(e as Error).message}`,
+      };
+    }
+  }
+
+  /**
+   * Action: Drops the queued jobs of an item that no longer exists.
+   * @param item The ID of the deleted item.
+   * @effects Removes the item's queued jobs; running jobs are left to finish.
+   */
+  async cancelForItem(
+    { item }: { item: Item },
+  ): Promise<Empty | { error: string }> {
+    await this.jobs.deleteMany({ item, status: "queued" });
+    return {};
+  }
+
+  /**
+   * Action: Deletes every job of a user, whatever its status.
+   * @param user The user whose jobs should be deleted.
+   * @effects Removes all of the user's jobs. Used when the user's account is deleted;
+   *          a job that is running finishes, but can no longer be polled.
+   * @returns The number of deleted jobs.
+   */
+  async deleteAllForUser(
+    { user }: { user: User },
+  ): Promise<{ deleted: number } | { error: string }> {
+    try {
+      const result = await this.jobs.deleteMany({ owner: user });
+      return { deleted: result.deletedCount };
+    } catch (e) {
+      console.error(`Error deleting summary jobs for user ${user}:`, e);
+      return {
+        error: `Failed to delete summary jobs: ${(e as Error).message}`,
+      };
+    }
+  }
+
+  /**
+   * Query: Counts a user's jobs, to check that account deletion left nothing behind.
+   * @param user The user to count jobs for.
+   * @returns An array with the number of jobs and the IDs of their items.
+   */
+  async _countForUser(
+    { user }: { user: User },
+  ): Promise<{ summaryJobs: number; items: Item[] }[]> {
+    const jobs = await this.jobs.find({ owner: user }).toArray();
+    return [{ summaryJobs: jobs.length, items: jobs.map((job) => job.item) }];
+  }
+
+  /**
+   * Query: Retrieves the status of a job, so the user can poll it.
+   * @param job The ID of the job.
+   * @param user The user polling the job.
+   * @requires The job exists and is owned by the user.
+   * @returns The job's status, item, number of attempts and last error, or an error.
+   */
+  async getJobStatus(
+    { job, user }: { job: Job; user: User },
+  ): Promise<
+    | {
+      status: JobStatus;
+      item: Item;
+      attempts: number;
+      lastError: string | null;
+    }
+    | { error: string }
+  > {
+    const existing = await this.jobs.findOne({ _id: job });
+    if (!existing) {
+      return { error: `Job with ID ${job} not found.` };
+    }
+    if (existing.owner !== user) {
+      return { error: `User ${user} is not authorized to access job ${job}.` };
+    }
+    return {
+      status: existing.status,
+      item: existing.item,
+      attempts: existing.attempts,
+      lastError: existing.lastError,
+    };
+  }
+}
+
+/**
+ * Starts a worker that claims due jobs every SUMMARY_JOB_POLL_INTERVAL ms,
+ * keeping at most SUMMARY_JOB_CONCURRENCY of them in flight.
+ * @param jobs The instrumented SummaryJobs concept, so that claimed jobs run through syncs.
+ */
+export function startSummaryJobWorker(jobs: SummaryJobsConcept) {
+  let inFlight = 0;
+  const run = async () => {
+    inFlight++;
+    try {
+      await jobs.claim({});
+    } catch (e) {
+      console.error("[SummaryJobs] Error running job:", e);
+    } finally {
+      inFlight--;
+    }
+  };
+  const poll = () => {
+    while (inFlight < SUMMARY_JOB_CONCURRENCY) {
+      run();
+    }
+  };
+
+  jobs.requeueStalled({}).catch((e) =>
+    console.error("[SummaryJobs] Error requeueing stalled jobs:", e)
+  ).finally(poll);
+  setInterval(poll, SUMMARY_JOB_POLL_INTERVAL);
+  console.log(
+    `\n⚙️  Running up to ${SUMMARY_JOB_CONCURRENCY} summary jobs, polling every ${SUMMARY_JOB_POLL_INTERVAL}ms`,
+  );
+}
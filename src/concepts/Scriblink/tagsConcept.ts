@@ -1,6 +1,10 @@
 import { Collection, Db } from "npm:mongodb";
 import { Empty, ID } from "@utils/types.ts";
-import { freshID } from "@utils/database.ts";
+import {
+  freshID,
+  IndexDeclarations,
+  isDuplicateKeyError,
+} from "@utils/database.ts";
 
 // Collection prefix to ensure namespace separation
 const PREFIX = "Tag" + "."; // Using "Tag" prefix for this concept
@@ -12,15 +16,48 @@ type Item = ID;
 // Internal entity type for a Tag, consistent with Folder
 type Tag = ID;
 
+// Tag colors are stored as lowercase #rrggbb
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/;
+
+/**
+ * Priority levels a tag can carry, from most to least urgent.
+ */
+export const TAG_PRIORITIES = ["high", "medium", "low"] as const;
+export type TagPriority = typeof TAG_PRIORITIES[number];
+
+/**
+ * Per-item details of a tagged item: when it is due, and when the user last marked it reviewed.
+ */
+interface ItemState {
+  item: Item;
+  dueAt: Date | null;
+  reviewedAt: Date | null;
+}
+
+/**
+ * An item flagged by at least one prioritized tag, as listed for the dashboard.
+ */
+export interface PrioritizedItem {
+  item: Item;
+  priority: TagPriority; // The highest priority among the item's tags
+  labels: string[]; // Labels of the item's prioritized tags
+  dueAt: Date | null; // The earliest due date across those tags
+  reviewedAt: Date | null; // Null unless the item was reviewed under every one of those tags
+}
+
 /**
  * Interface representing the structure of a Tag document in the database.
- * @state A set of Tags, each with an owner, a label (string), and a set of associated Items.
+ * @state A set of Tags, each with an owner, a label (string), a set of associated Items, an optional color,
+ *        an optional priority, and per-item due and reviewed dates.
  */
 interface TagStructure {
   _id: Tag; // Unique ID for the tag itself
   owner: User; // The user who owns this tag (assuming tags are user-specific)
   label: string; // The human-readable label for the tag (e.g., "urgent", "todo")
   items: Item[]; // An array of Item IDs that are flagged by this tag
+  color?: string | null; // The tag's color as #rrggbb, if the user chose one
+  priority?: TagPriority | null; // Tags without a priority don't show on the dashboard
+  itemStates?: ItemState[]; // Only items with a due date or a review have an entry
 }
 
 /**
@@ -31,6 +68,16 @@ interface TagStructure {
 export default class TagConcept {
   tags: Collection<TagStructure>;
 
+  /**
+   * Indexes created at startup. The unique index on owner and label keeps `addTag` from creating two tags with one label.
+   */
+  static readonly indexes: IndexDeclarations = {
+    [PREFIX + "tags"]: [
+      { keys: { owner: 1, label: 1 }, options: { unique: true } },
+      { keys: { items: 1 } },
+    ],
+  };
+
   constructor(private readonly db: Db) {
     // Initialize the MongoDB collection for tags
     this.tags = this.db.collection(PREFIX + "tags");
@@ -106,6 +153,10 @@ export default class TagConcept {
         });
         return { tag: tagId };
       } catch (e: any) {
+        if (isDuplicateKeyError(e)) {
+          // Another request created the tag since the lookup above
+          return { error: `Tag "${label}" already exists for user ${user}.` };
+        }
         console.error(
           `Error creating new tag "${label}" for user ${user} with item ${item}:`,
           e,
@@ -126,8 +177,8 @@ export default class TagConcept {
    *
    * @requires The tag specified by `tagId` must exist, AND the `item` must currently be associated with this tag.
    *
-   * @effects Removes the `item` from the `items` list of the specified `tag`.
-   *          If the `items` list becomes empty after removal, the tag itself is not deleted (as per prompt, not specified).
+   * @effects Removes the `item` from the `items` list of the specified `tag`, along with its due date.
+   *          If the `items` list becomes empty after removal, the tag itself is kept; `deleteTag` removes it.
    *
    * @returns On success, an empty object (`{}`).
    *          On failure (e.g., tag not found, item not associated, database error), an object containing an `error` string.
@@ -141,7 +192,7 @@ export default class TagConcept {
     // 2. The `item` is present within that tag's `items` array.
     const updateResult = await this.tags.updateOne(
       { _id: tagId, items: item }, // Filter: Find the tag AND ensure the item is present
-      { $pull: { items: item } }, // Update: Remove the item from the array
+      { $pull: { items: item, itemStates: { item } } }, // Update: Remove the item and its due date from the arrays
     );
 
     if (updateResult.modifiedCount >= 1) {
@@ -171,6 +222,278 @@ export default class TagConcept {
     }
   }
 
+  /**
+   * Action: Changes the label of a tag.
+   *
+   * @param user The ID of the user who owns the tag.
+   * @param tag The ID of the tag to rename.
+   * @param label The new label.
+   *
+   * @requires The tag exists and belongs to the user. The label is not empty or whitespace,
+   *           and the user has no other tag with that label; `mergeTags` combines two tags instead.
+   *
+   * @effects Sets the tag's label. The tag keeps its items and color.
+   *
+   * @returns On success, the ID of the tag. Otherwise, an object containing an `error` string.
+   */
+  async renameTag(
+    { user, tag, label }: { user: User; tag: Tag; label: string },
+  ): Promise<{ tag: Tag } | { error: string }> {
+    if (typeof label !== "string" || label.trim() === "") {
+      return { error: "Tag cannot be empty or whitespace." };
+    }
+    const existing = await this.tags.findOne({ _id: tag, owner: user });
+    if (!existing) {
+      return { error: `Tag with ID ${tag} not found.` };
+    }
+    if (existing.label === label) {
+      return { tag };
+    }
+    const duplicateError = {
+      error:
+        `Tag "${label}" already exists for user ${user}. Merge the tags to combine them.`,
+    };
+    // The unique (owner, label) index isn't there when old duplicates kept it from being created,
+    // so check first; the index still catches a concurrent rename onto the same label
+    if (
+      await this.tags.findOne({ owner: user, label, _id: { $ne: tag } })
+    ) {
+      return duplicateError;
+    }
+
+    try {
+      await this.tags.updateOne({ _id: tag }, { $set: { label } });
+      return { tag };
+    } catch (e) {
+      if (isDuplicateKeyError(e)) {
+        return duplicateError;
+      }
+      console.error(`Error renaming tag ${tag} to "${label}":`, e);
+      return { error: `Error renaming tag: ${(e as Error).message}` };
+    }
+  }
+
+  /**
+   * Action: Combines two of a user's tags into one.
+   *
+   * @param user The ID of the user who owns both tags.
+   * @param source The ID of the tag to merge away.
+   * @param target The ID of the tag that remains.
+   *
+   * @requires Both tags exist, belong to the user, and are different tags.
+   *
+   * @effects Adds the source tag's items to the target tag, without duplicates, and deletes the source tag.
+   *          The target keeps its label, color and priority. Due dates of the added items come along.
+   *
+   * @returns On success, the ID of the target tag and the number of items it gained.
+   *          Otherwise, an object containing an `error` string.
+   */
+  async mergeTags(
+    { user, source, target }: { user: User; source: Tag; target: Tag },
+  ): Promise<{ tag: Tag; added: number } | { error: string }> {
+    if (source === target) {
+      return { error: "A tag cannot be merged into itself." };
+    }
+    const [sourceTag, targetTag] = await Promise.all([
+      this.tags.findOne({ _id: source, owner: user }),
+      this.tags.findOne({ _id: target, owner: user }),
+    ]);
+    if (!sourceTag) {
+      return { error: `Tag with ID ${source} not found.` };
+    }
+    if (!targetTag) {
+      return { error: `Tag with ID ${target} not found.` };
+    }
+
+    const added =
+      sourceTag.items.filter((item) => !targetTag.items.includes(item)).length;
+    const addedStates = (sourceTag.itemStates ?? []).filter((state) =>
+      !targetTag.items.includes(state.item)
+    );
+    try {
+      await this.tags.updateOne(
+        { _id: target },
+        {
+          $addToSet: { items: { $each: sourceTag.items } },
+          $push: { itemStates: { $each: addedStates } },
+        },
+      );
+      await this.tags.deleteOne({ _id: source });
+      return { tag: target, added };
+    } catch (e) {
+      console.error(`Error merging tag ${source} into ${target}:`, e);
+      return { error: `Error merging tags: ${(e as Error).message}` };
+    }
+  }
+
+  /**
+   * Action: Deletes a tag, removing it from every item it flags.
+   *
+   * @param user The ID of the user who owns the tag.
+   * @param tag The ID of the tag to delete.
+   *
+   * @requires The tag exists and belongs to the user.
+   *
+   * @effects Removes the tag. The items themselves are not affected.
+   *
+   * @returns On success, the ID of the deleted tag. Otherwise, an object containing an `error` string.
+   */
+  async deleteTag(
+    { user, tag }: { user: User; tag: Tag },
+  ): Promise<{ tag: Tag } | { error: string }> {
+    const result = await this.tags.deleteOne({ _id: tag, owner: user });
+    if (result.deletedCount === 0) {
+      return { error: `Tag with ID ${tag} not found.` };
+    }
+    return { tag };
+  }
+
+  /**
+   * Action: Sets or clears the color of a tag.
+   *
+   * @param user The ID of the user who owns the tag.
+   * @param tag The ID of the tag.
+   * @param color The color as a hex code like "#1e90ff", or null to clear it.
+   *
+   * @requires The tag exists and belongs to the user, and the color is a 6-digit hex code if given.
+   *
+   * @effects Stores the color, lowercased.
+   *
+   * @returns On success, the ID of the tag and its color. Otherwise, an object containing an `error` string.
+   */
+  async setTagColor(
+    { user, tag, color }: { user: User; tag: Tag; color: string | null },
+  ): Promise<{ tag: Tag; color: string | null } | { error: string }> {
+    const normalized = typeof color === "string" ? color.toLowerCase() : null;
+    if (color != null && !(normalized && COLOR_PATTERN.test(normalized))) {
+      return { error: `Color must be a hex code like "#1e90ff".` };
+    }
+    const result = await this.tags.updateOne(
+      { _id: tag, owner: user },
+      { $set: { color: normalized } },
+    );
+    if (result.matchedCount === 0) {
+      return { error: `Tag with ID ${tag} not found.` };
+    }
+    return { tag, color: normalized };
+  }
+
+  /**
+   * Action: Sets or clears the priority of a tag.
+   *
+   * @param user The ID of the user who owns the tag.
+   * @param tag The ID of the tag.
+   * @param priority "high", "medium" or "low", or null to clear it.
+   *
+   * @requires The tag exists and belongs to the user, and the priority is one of the levels if given.
+   *
+   * @effects Stores the priority. Items of prioritized tags are listed by `getPrioritizedItems`.
+   *
+   * @returns On success, the ID of the tag and its priority. Otherwise, an object containing an `error` string.
+   */
+  async setTagPriority(
+    { user, tag, priority }: {
+      user: User;
+      tag: Tag;
+      priority: TagPriority | null;
+    },
+  ): Promise<{ tag: Tag; priority: TagPriority | null } | { error: string }> {
+    if (priority != null && !TAG_PRIORITIES.includes(priority)) {
+      return {
+        error: `Priority must be one of ${TAG_PRIORITIES.join(", ")}.`,
+      };
+    }
+    const result = await this.tags.updateOne(
+      { _id: tag, owner: user },
+      { $set: { priority: priority ?? null } },
+    );
+    if (result.matchedCount === 0) {
+      return { error: `Tag with ID ${tag} not found.` };
+    }
+    return { tag, priority: priority ?? null };
+  }
+
+  /**
+   * Action: Sets or clears the due date of an item under one of the user's tags.
+   *
+   * @param user The ID of the user who owns the tag.
+   * @param tag The ID of the tag.
+   * @param item The ID of a tagged item.
+   * @param dueAt The due date, or null to clear it.
+   *
+   * @requires The tag exists, belongs to the user and flags the item. The due date is a valid date if given.
+   *
+   * @effects Stores the due date for the item under this tag. Its review date is kept.
+   *
+   * @returns On success, the ID of the item and its due date. Otherwise, an object containing an `error` string.
+   */
+  async setDueDate(
+    { user, tag, item, dueAt }: {
+      user: User;
+      tag: Tag;
+      item: Item;
+      dueAt: Date | string | null;
+    },
+  ): Promise<{ item: Item; dueAt: Date | null } | { error: string }> {
+    const due = dueAt == null ? null : new Date(dueAt);
+    if (due && isNaN(due.getTime())) {
+      return { error: `Invalid due date: ${dueAt}` };
+    }
+    const existing = await this.tags.findOne({ _id: tag, owner: user });
+    if (!existing) {
+      return { error: `Tag with ID ${tag} not found.` };
+    }
+    if (!existing.items.includes(item)) {
+      return {
+        error: `Item ${item} is not currently associated with tag ${tag}.`,
+      };
+    }
+
+    const states = existing.itemStates ?? [];
+    const current = states.find((state) => state.item === item);
+    const others = states.filter((state) => state.item !== item);
+    const reviewedAt = current?.reviewedAt ?? null;
+    const itemStates = due || reviewedAt
+      ? [...others, { item, dueAt: due, reviewedAt }]
+      : others;
+    await this.tags.updateOne({ _id: tag }, { $set: { itemStates } });
+    return { item, dueAt: due };
+  }
+
+  /**
+   * Action: Marks a tagged item as reviewed, taking it off the dashboard.
+   *
+   * @param user The ID of the user who reviewed the item.
+   * @param item The ID of the item.
+   *
+   * @requires At least one of the user's tags flags the item.
+   *
+   * @effects Sets the item's review date to now under every tag of the user that flags it.
+   *          Due dates are kept.
+   *
+   * @returns On success, the ID of the item and the review date. Otherwise, an object containing an `error` string.
+   */
+  async markReviewed(
+    { user, item }: { user: User; item: Item },
+  ): Promise<{ item: Item; reviewedAt: Date } | { error: string }> {
+    const tags = await this.tags.find({ owner: user, items: item }).toArray();
+    if (tags.length === 0) {
+      return { error: `Item ${item} has no tags for user ${user}.` };
+    }
+
+    const reviewedAt = new Date();
+    await Promise.all(tags.map((tag) => {
+      const states = tag.itemStates ?? [];
+      const dueAt = states.find((state) => state.item === item)?.dueAt ?? null;
+      const itemStates = [
+        ...states.filter((state) => state.item !== item),
+        { item, dueAt, reviewedAt },
+      ];
+      return this.tags.updateOne({ _id: tag._id }, { $set: { itemStates } });
+    }));
+    return { item, reviewedAt };
+  }
+
   // --- Query Methods (Following the pattern of the provided FolderConcept) ---
 
   /**
@@ -259,4 +582,130 @@ export default class TagConcept {
       };
     }
   }
+
+  /**
+   * Query: Lists the items flagged by the user's prioritized tags, most urgent first.
+   * An item with several prioritized tags is listed once, under its highest priority.
+   *
+   * @param user The ID of the user whose tags are listed.
+   * @returns The items, ordered by priority and then by earliest due date (items without one last).
+   *          Returns an object with an `error` string on database query failure.
+   */
+  async getPrioritizedItems(
+    { user }: { user: User },
+  ): Promise<{ items: PrioritizedItem[] } | { error: string }> {
+    try {
+      const tags = await this.tags.find({
+        owner: user,
+        priority: { $in: [...TAG_PRIORITIES] },
+      }).toArray();
+
+      const byItem = new Map<
+        Item,
+        PrioritizedItem & { reviewedAll: boolean }
+      >();
+      for (const tag of tags) {
+        const priority = tag.priority as TagPriority;
+        for (const item of tag.items) {
+          const state = tag.itemStates?.find((entry) => entry.item === item);
+          const dueAt = state?.dueAt ?? null;
+          const reviewedAt = state?.reviewedAt ?? null;
+          const entry = byItem.get(item);
+          if (!entry) {
+            byItem.set(item, {
+              item,
+              priority,
+              labels: [tag.label],
+              dueAt,
+              reviewedAt,
+              reviewedAll: reviewedAt !== null,
+            });
+            continue;
+          }
+          if (priorityRank(priority) < priorityRank(entry.priority)) {
+            entry.priority = priority;
+          }
+          entry.labels.push(tag.label);
+          if (dueAt && (!entry.dueAt || dueAt < entry.dueAt)) {
+            entry.dueAt = dueAt;
+          }
+          // The item counts as reviewed only if it was reviewed under every tag, as of the earliest review
+          entry.reviewedAll &&= reviewedAt !== null;
+          if (reviewedAt && entry.reviewedAt && reviewedAt < entry.reviewedAt) {
+            entry.reviewedAt = reviewedAt;
+          }
+        }
+      }
+
+      const items = [...byItem.values()].map(({ reviewedAll, ...entry }) => ({
+        ...entry,
+        reviewedAt: reviewedAll ? entry.reviewedAt : null,
+      }));
+      items.sort((a, b) =>
+        priorityRank(a.priority) - priorityRank(b.priority) ||
+        (a.dueAt?.getTime() ?? Infinity) - (b.dueAt?.getTime() ?? Infinity)
+      );
+      return { items };
+    } catch (e) {
+      console.error(`Error getting prioritized items for user ${user}:`, e);
+      return {
+        error: `Error getting prioritized items: ${(e as Error).message}`,
+      };
+    }
+  }
+
+  /**
+   * Action: Deletes every tag a user owns.
+   * @param user The user whose tags should be deleted.
+   * @effects Removes all of the user's tags. Used when the user's account is deleted.
+   * @returns The number of deleted tags, or an error.
+   */
+  async deleteAllForUser(
+    { user }: { user: User },
+  ): Promise<{ deleted: number } | { error: string }> {
+    try {
+      const result = await this.tags.deleteMany({ owner: user });
+      return { deleted: result.deletedCount };
+    } catch (e) {
+      console.error(`Error deleting tags for user ${user}:`, e);
+      return { error: `Failed to delete tags: ${(e as Error).message}` };
+    }
+  }
+
+  /**
+   * Query: Counts the tags a user owns, to check that account deletion left nothing behind.
+   * @param user The user to count tags for.
+   * @returns An array with the number of tags.
+   */
+  async _countForUser(
+    { user }: { user: User },
+  ): Promise<{ tags: number }[]> {
+    return [{ tags: await this.tags.countDocuments({ owner: user }) }];
+  }
+
+  /**
+   * Query: Lists the items of every tag, to check references across concepts.
+   * @param user The owner of the tags, or null for every tag.
+   * @returns An array with one entry per tag.
+   */
+  async _listReferences(
+    { user }: { user: User | null },
+  ): Promise<{ tag: Tag; owner: User; items: Item[] }[]> {
+    const tags = await this.tags.find(
+      user ? { owner: user } : {},
+      { projection: { owner: 1, items: 1 } },
+    ).toArray();
+    return tags.map((tag) => ({
+      tag: tag._id,
+      owner: tag.owner,
+      items: tag.items ?? [],
+    }));
+  }
+}
+
+/**
+ * Position of a priority in `TAG_PRIORITIES`; lower is more urgent.
+ */
+export function priorityRank(priority: TagPriority): number {
+  return TAG_PRIORITIES.indexOf(priority);
 }
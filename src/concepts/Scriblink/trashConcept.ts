@@ -0,0 +1,284 @@
+import { Collection, Db, Filter } from "npm:mongodb";
+import "jsr:@std/dotenv/load";
+import { Empty, ID } from "@utils/types.ts";
+import { freshID, IndexDeclarations } from "@utils/database.ts";
+
+/**
+ * # Trash concept configuration
+ * The following environment variables are available:
+ *
+ * - TRASH_RETENTION_DAYS: how long trashed items are kept before being purged, default 30
+ * - TRASH_PURGE_INTERVAL: how often expired items are purged, default 3600000ms (1 hour)
+ */
+const TRASH_RETENTION_DAYS = parseFloat(
+  Deno.env.get("TRASH_RETENTION_DAYS") ?? "30",
+);
+const TRASH_PURGE_INTERVAL = parseInt(
+  Deno.env.get("TRASH_PURGE_INTERVAL") ?? "3600000",
+  10,
+);
+
+// Collection prefix to ensure namespace separation
+const PREFIX = "Trash" + ".";
+
+// Generic types for the concept's external dependencies
+type User = ID;
+type Item = ID;
+
+// Internal entity types, represented as IDs
+type Entry = ID;
+
+/**
+ * The kinds of items that can be put in the trash.
+ * A "folder" entry stands for the folder and its whole subtree.
+ */
+export type TrashKind = "note" | "folder";
+
+/**
+ * State: A set of Entries with
+ *   - _id: Entry
+ *   - owner: User
+ *   - item: Item (the trashed note or folder)
+ *   - kind: "note" | "folder"
+ *   - title: String (shown in the trash listing)
+ *   - trashedAt: Date
+ *
+ * Invariants:
+ * - every item has at most one entry
+ * - only the owner can list, restore or empty their entries
+ */
+export interface TrashEntry {
+  _id: Entry;
+  owner: User;
+  item: Item;
+  kind: TrashKind;
+  title: string;
+  trashedAt: Date;
+}
+
+/**
+ * @concept Trash
+ * @purpose keeps deleted items recoverable for a while before they are gone for good
+ * @principle When a user deletes an item it is put in their trash.
+ *            Until the retention period runs out, the user can restore it exactly as it was.
+ *            Emptying the trash, or waiting past the retention period, purges the item.
+ */
+export default class TrashConcept {
+  entries: Collection<TrashEntry>;
+  private readonly retentionMs: number;
+
+  /**
+   * Indexes for listing a user's trash, looking up an item's entry and purging old entries, created at startup.
+   */
+  static readonly indexes: IndexDeclarations = {
+    [PREFIX + "entries"]: [
+      { keys: { owner: 1, trashedAt: -1 } },
+      { keys: { item: 1 } },
+      { keys: { trashedAt: 1 } },
+    ],
+  };
+
+  constructor(private readonly db: Db) {
+    this.entries = this.db.collection(PREFIX + "entries");
+    this.retentionMs = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Action: Puts an item in a user's trash.
+   * @param user The user who deleted the item.
+   * @param item The ID of the note or folder being trashed.
+   * @param kind Whether the item is a note or a folder.
+   * @param title The title of the item, kept for the trash listing.
+   * @requires The item is not already in the trash.
+   * @effects Creates a new entry for the item, timestamped now.
+   * @returns The ID of the new entry, or an error.
+   */
+  async trash(
+    { user, item, kind, title }: {
+      user: User;
+      item: Item;
+      kind: TrashKind;
+      title: string;
+    },
+  ): Promise<{ entry: Entry } | { error: string }> {
+    if (await this.entries.findOne({ item })) {
+      return { error: `Item ${item} is already in the trash.` };
+    }
+
+    const entryId = freshID() as Entry;
+    try {
+      await this.entries.insertOne({
+        _id: entryId,
+        owner: user,
+        item,
+        kind,
+        title,
+        trashedAt: new Date(),
+      });
+      return { entry: entryId };
+    } catch (e) {
+      console.error(`Error trashing item ${item}:`, e);
+      return { error: `Failed to trash item: ${(e as Error).message}` };
+    }
+  }
+
+  /**
+   * Action: Starts restoring an entry's item.
+   * @param entry The ID of the entry to restore.
+   * @param user The user attempting the restore.
+   * @requires The entry exists and is owned by the user.
+   * @effects None; syncs put the item itself back, and only then drop the entry with `forgetItem`,
+   *          so an item that fails to restore stays in the trash.
+   * @returns The item to restore and its kind, or an error.
+   */
+  async restore(
+    { entry, user }: { entry: Entry; user: User },
+  ): Promise<{ item: Item; kind: TrashKind } | { error: string }> {
+    const existing = await this.entries.findOne({ _id: entry });
+    if (!existing) {
+      return { error: `Trash entry with ID ${entry} not found.` };
+    }
+    if (existing.owner !== user) {
+      return {
+        error: `User ${user} is not authorized to restore entry ${entry}.`,
+      };
+    }
+
+    return { item: existing.item, kind: existing.kind };
+  }
+
+  /**
+   * Action: Empties a user's trash.
+   * @param user The user whose trash should be emptied.
+   * @effects Removes every entry owned by the user; syncs purge the items themselves.
+   * @returns The removed entries.
+   */
+  async emptyTrash(
+    { user }: { user: User },
+  ): Promise<{ entries: TrashEntry[] } | { error: string }> {
+    return await this.removeEntries({ owner: user });
+  }
+
+  /**
+   * Action: Purges every entry older than the retention period.
+   * @effects Removes expired entries for all users; syncs purge the items themselves.
+   * @returns The removed entries.
+   */
+  async purgeExpired(
+    _: Empty,
+  ): Promise<{ entries: TrashEntry[] } | { error: string }> {
+    const cutoff = new Date(Date.now() - this.retentionMs);
+    return await this.removeEntries({ trashedAt: { $lt: cutoff } });
+  }
+
+  /**
+   * Action: Drops the entry for an item that was restored, or deleted outside of the trash.
+   * @param item The ID of the item that is no longer trashed.
+   * @effects Removes the item's entry if there is one.
+   */
+  async forgetItem(
+    { item }: { item: Item },
+  ): Promise<Empty | { error: string }> {
+    await this.entries.deleteOne({ item });
+    return {};
+  }
+
+  /**
+   * Query: Counts a user's trash entries, to check that account deletion left nothing behind.
+   * @param user The user to count entries for.
+   * @returns An array with the number of entries and the IDs of their items.
+   */
+  async _countForUser(
+    { user }: { user: User },
+  ): Promise<{ trashEntries: number; items: Item[] }[]> {
+    const entries = await this.entries.find({ owner: user }).toArray();
+    return [{
+      trashEntries: entries.length,
+      items: entries.map((entry) => entry.item),
+    }];
+  }
+
+  /**
+   * Query: Lists the item of every trash entry, to check references across concepts.
+   * @param user The owner of the entries, or null for every entry.
+   * @returns An array with one entry per trashed item.
+   */
+  async _listReferences(
+    { user }: { user: User | null },
+  ): Promise<{ item: Item; kind: TrashKind; owner: User }[]> {
+    const entries = await this.entries.find(user ? { owner: user } : {})
+      .toArray();
+    return entries.map((entry) => ({
+      item: entry.item,
+      kind: entry.kind,
+      owner: entry.owner,
+    }));
+  }
+
+  /**
+   * Helper function to remove and return all entries matching a filter.
+   */
+  private async removeEntries(
+    filter: Filter<TrashEntry>,
+  ): Promise<{ entries: TrashEntry[] } | { error: string }> {
+    try {
+      const entries = await this.entries.find(filter).toArray();
+      await this.entries.deleteMany({
+        _id: { $in: entries.map((e) => e._id) },
+      });
+      return { entries };
+    } catch (e) {
+      console.error("Error removing trash entries:", e);
+      return {
+        error: `Failed to remove trash entries: ${(e as Error).message}`,
+      };
+    }
+  }
+
+  /**
+   * Query: Retrieves a user's trash, most recently trashed first.
+   * @param user The user whose trash is requested.
+   * @returns The user's entries, or an error.
+   */
+  async getTrash(
+    { user }: { user: User },
+  ): Promise<{ entries: TrashEntry[] } | { error: string }> {
+    try {
+      const entries = await this.entries.find({ owner: user })
+        .sort({ trashedAt: -1 })
+        .toArray();
+      return { entries };
+    } catch (e) {
+      console.error(`Error getting trash for user ${user}:`, e);
+      return { error: `Failed to retrieve trash: ${(e as Error).message}` };
+    }
+  }
+
+  /**
+   * Query: Finds the entry for an item, if the item is in the trash.
+   * @param item The ID of the item.
+   * @returns An array with the entry ID if the item is trashed, otherwise an empty array.
+   */
+  async _getEntryForItem(
+    { item }: { item: Item },
+  ): Promise<{ entry: Entry }[]> {
+    const existing = await this.entries.findOne({ item });
+    return existing ? [{ entry: existing._id }] : [];
+  }
+}
+
+/**
+ * Starts a timer that purges expired trash entries every TRASH_PURGE_INTERVAL ms.
+ * @param trash The instrumented Trash concept, so that purges cascade through syncs.
+ */
+export function startTrashPurge(trash: TrashConcept) {
+  const purge = () =>
+    trash.purgeExpired({}).catch((e) =>
+      console.error("[Trash] Error purging expired items:", e)
+    );
+  purge();
+  setInterval(purge, TRASH_PURGE_INTERVAL);
+  console.log(
+    `\n🗑️  Purging trash older than ${TRASH_RETENTION_DAYS} days every ${TRASH_PURGE_INTERVAL}ms`,
+  );
+}
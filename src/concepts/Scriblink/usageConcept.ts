@@ -0,0 +1,279 @@
+import { Collection, Db } from "npm:mongodb";
+import "jsr:@std/dotenv/load";
+import { ID } from "@utils/types.ts";
+import { freshID, IndexDeclarations } from "@utils/database.ts";
+
+/**
+ * # Usage concept configuration
+ * The following environment variables are available:
+ *
+ * - USAGE_PER_MINUTE_LIMIT: how many LLM calls a user may make per minute, default 5
+ * - USAGE_DAILY_LIMIT: how many LLM calls a user may make per day (UTC), default 50
+ * - USAGE_MONTHLY_LIMIT: how many LLM calls a user may make per month (UTC), default 500
+ */
+const USAGE_PER_MINUTE_LIMIT = parseInt(
+  Deno.env.get("USAGE_PER_MINUTE_LIMIT") ?? "5",
+  10,
+);
+const USAGE_DAILY_LIMIT = parseInt(
+  Deno.env.get("USAGE_DAILY_LIMIT") ?? "50",
+  10,
+);
+const USAGE_MONTHLY_LIMIT = parseInt(
+  Deno.env.get("USAGE_MONTHLY_LIMIT") ?? "500",
+  10,
+);
+
+// Collection prefix to ensure namespace separation
+const PREFIX = "Usage" + ".";
+
+// Generic types for the concept's external dependencies
+type User = ID;
+
+// Internal entity types, represented as IDs
+type Call = ID;
+
+/**
+ * The windows over which calls are limited.
+ */
+export type QuotaWindow = "minute" | "day" | "month";
+
+/**
+ * State: A set of Calls with
+ *   - _id: Call
+ *   - user: User
+ *   - kind: String (what the LLM was used for, e.g. "summary")
+ *   - promptChars: Number (size of the text sent to the LLM)
+ *   - outputChars: Number (size of the text the LLM returned; 0 if it failed)
+ *   - at: Date
+ *
+ * Invariants:
+ * - a user's calls in any window never exceed that window's limit, because calls are checked first
+ */
+export interface CallRecord {
+  _id: Call;
+  user: User;
+  kind: string;
+  promptChars: number;
+  outputChars: number;
+  at: Date;
+}
+
+/**
+ * A user's usage in one window.
+ */
+export interface WindowUsage {
+  used: number;
+  limit: number;
+  resetsAt: Date;
+}
+
+/**
+ * @concept Usage
+ * @purpose keeps each user's use of paid AI features within configured limits
+ * @principle Every LLM call a user makes is recorded with its size.
+ *            Before a new call, the user's calls in the last minute, day and month are counted;
+ *            once a limit is reached, further calls are refused until the window resets.
+ *            The user can check how much of each limit they have used.
+ */
+export default class UsageConcept {
+  calls: Collection<CallRecord>;
+  private readonly limits: Record<QuotaWindow, number>;
+
+  /**
+   * Index for counting a user's calls in each quota window, created at startup.
+   */
+  static readonly indexes: IndexDeclarations = {
+    [PREFIX + "calls"]: [{ keys: { user: 1, at: 1 } }],
+  };
+
+  constructor(private readonly db: Db) {
+    this.calls = this.db.collection(PREFIX + "calls");
+    this.limits = {
+      minute: USAGE_PER_MINUTE_LIMIT,
+      day: USAGE_DAILY_LIMIT,
+      month: USAGE_MONTHLY_LIMIT,
+    };
+  }
+
+  /**
+   * Action: Checks whether a user may make another LLM call.
+   * @param user The user about to make a call.
+   * @requires The user is under the limit of every window.
+   * @effects None; the call is only recorded once it has been made.
+   * @returns The number of calls left today and this month, or a `quota_exceeded` error
+   *          with the exceeded window, its limit, the calls used and when it resets.
+   */
+  async checkQuota(
+    { user }: { user: User },
+  ): Promise<
+    | { remainingToday: number; remainingThisMonth: number }
+    | {
+      error: "quota_exceeded";
+      quota: QuotaWindow;
+      limit: number;
+      used: number;
+      resetsAt: Date;
+    }
+  > {
+    const usage = await this.windowUsage(user);
+    for (const quota of ["minute", "day", "month"] as QuotaWindow[]) {
+      const { used, limit, resetsAt } = usage[quota];
+      if (used >= limit) {
+        return { error: "quota_exceeded", quota, limit, used, resetsAt };
+      }
+    }
+    return {
+      remainingToday: usage.day.limit - usage.day.used,
+      remainingThisMonth: usage.month.limit - usage.month.used,
+    };
+  }
+
+  /**
+   * Action: Records an LLM call made on behalf of a user.
+   * @param user The user the call was made for.
+   * @param kind What the LLM was used for.
+   * @param promptChars The size of the text sent to the LLM.
+   * @param outputChars The size of the text the LLM returned.
+   * @effects Adds a call timestamped now.
+   * @returns The ID of the recorded call, or an error.
+   */
+  async recordCall(
+    { user, kind, promptChars, outputChars }: {
+      user: User;
+      kind: string;
+      promptChars: number;
+      outputChars: number;
+    },
+  ): Promise<{ call: Call } | { error: string }> {
+    const callId = freshID() as Call;
+    try {
+      await this.calls.insertOne({
+        _id: callId,
+        user,
+        kind,
+        promptChars,
+        outputChars,
+        at: new Date(),
+      });
+      return { call: callId };
+    } catch (e) {
+      console.error(`Error recording LLM call for user ${user}:`, e);
+      return { error: `Failed to record LLM call: ${(e as Error).message}` };
+    }
+  }
+
+  /**
+   * Helper function to count a user's calls in every window.
+   */
+  private async windowUsage(
+    user: User,
+  ): Promise<Record<QuotaWindow, WindowUsage>> {
+    const now = new Date();
+    const starts: Record<QuotaWindow, Date> = {
+      minute: new Date(now.getTime() - 60 * 1000),
+      day: new Date(
+        Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+      ),
+      month: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    };
+    const resets: Record<QuotaWindow, Date> = {
+      minute: new Date(now.getTime() + 60 * 1000),
+      day: new Date(
+        Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1),
+      ),
+      month: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+    };
+
+    const usage = {} as Record<QuotaWindow, WindowUsage>;
+    for (const quota of ["minute", "day", "month"] as QuotaWindow[]) {
+      const calls = await this.calls.find(
+        { user, at: { $gte: starts[quota] } },
+        { sort: { at: 1 }, projection: { at: 1 } },
+      ).toArray();
+      usage[quota] = {
+        used: calls.length,
+        limit: this.limits[quota],
+        // The per-minute window slides, so it frees up when its oldest call ages out
+        resetsAt: quota === "minute" && calls.length > 0
+          ? new Date(calls[0].at.getTime() + 60 * 1000)
+          : resets[quota],
+      };
+    }
+    return usage;
+  }
+
+  /**
+   * Query: Retrieves a user's current usage.
+   * @param user The user whose usage is requested.
+   * @returns The calls used, limit and reset time of every window,
+   *          plus the total prompt and output sizes of this month's calls.
+   */
+  async getUsage(
+    { user }: { user: User },
+  ): Promise<
+    | {
+      usage: Record<QuotaWindow, WindowUsage>;
+      promptChars: number;
+      outputChars: number;
+    }
+    | { error: string }
+  > {
+    try {
+      const usage = await this.windowUsage(user);
+      const now = new Date();
+      const monthStart = new Date(
+        Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1),
+      );
+      const [totals] = await this.calls.aggregate<
+        { promptChars: number; outputChars: number }
+      >([
+        { $match: { user, at: { $gte: monthStart } } },
+        {
+          $group: {
+            _id: null,
+            promptChars: { $sum: "$promptChars" },
+            outputChars: { $sum: "$outputChars" },
+          },
+        },
+      ]).toArray();
+      return {
+        usage,
+        promptChars: totals?.promptChars ?? 0,
+        outputChars: totals?.outputChars ?? 0,
+      };
+    } catch (e) {
+      console.error(`Error getting usage for user ${user}:`, e);
+      return { error: `Failed to retrieve usage: ${(e as Error).message}` };
+    }
+  }
+
+  /**
+   * Action: Deletes every call recorded for a user.
+   * @param user The user whose calls should be deleted.
+   * @effects Removes all of the user's calls. Used when the user's account is deleted.
+   * @returns The number of deleted calls.
+   */
+  async deleteAllForUser(
+    { user }: { user: User },
+  ): Promise<{ deleted: number } | { error: string }> {
+    try {
+      const result = await this.calls.deleteMany({ user });
+      return { deleted: result.deletedCount };
+    } catch (e) {
+      console.error(`Error deleting usage for user ${user}:`, e);
+      return { error: `Failed to delete usage: ${(e as Error).message}` };
+    }
+  }
+
+  /**
+   * Query: Counts the calls recorded for a user, to check that account deletion left nothing behind.
+   * @param user The user to count calls for.
+   * @returns An array with the number of calls.
+   */
+  async _countForUser(
+    { user }: { user: User },
+  ): Promise<{ usageCalls: number }[]> {
+    return [{ usageCalls: await this.calls.countDocuments({ user }) }];
+  }
+}
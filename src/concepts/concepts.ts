@@ -5,7 +5,7 @@ import { SyncConcept } from "@engine";
 
 export const Engine = new SyncConcept();
 
-import { getDb } from "@utils/database.ts";
+import { createConceptIndexes, getDb } from "@utils/database.ts";
 
 import RequestingConcept from "./Requesting/RequestingConcept.ts";
 import SummariesConcept from "./Scriblink/summariesConcept.ts";
@@ -13,6 +13,15 @@ import PasswordAuthConcept from "./Scriblink/passwordAuthConcept.ts";
 import NotesConcept from "./Scriblink/notesConcept.ts";
 import TagsConcept from "./Scriblink/tagsConcept.ts";
 import FolderConcept from "./Scriblink/folderConcept.ts";
+import TrashConcept from "./Scriblink/trashConcept.ts";
+import SummaryJobsConcept from "./Scriblink/summaryJobsConcept.ts";
+import UsageConcept from "./Scriblink/usageConcept.ts";
+import SharingConcept from "./Scriblink/sharingConcept.ts";
+import ShareLinksConcept from "./Scriblink/shareLinksConcept.ts";
+import ReviewConcept from "./Scriblink/reviewConcept.ts";
+import FlashcardsConcept from "./Scriblink/flashcardsConcept.ts";
+import SmartFoldersConcept from "./Scriblink/smartFoldersConcept.ts";
+import { loadLLMProvider } from "./Scriblink/llm-provider.ts";
 
 export type { default as RequestingConcept } from "./Requesting/RequestingConcept.ts";
 export type { default as SummariesConcept } from "./Scriblink/summariesConcept.ts";
@@ -20,15 +29,55 @@ export type { default as PasswordAuthConcept } from "./Scriblink/passwordAuthCon
 export type { default as NotesConcept } from "./Scriblink/notesConcept.ts";
 export type { default as TagsConcept } from "./Scriblink/tagsConcept.ts";
 export type { default as FolderConcept } from "./Scriblink/folderConcept.ts";
+export type { default as TrashConcept } from "./Scriblink/trashConcept.ts";
+export type { default as SummaryJobsConcept } from "./Scriblink/summaryJobsConcept.ts";
+export type { default as UsageConcept } from "./Scriblink/usageConcept.ts";
+export type { default as SharingConcept } from "./Scriblink/sharingConcept.ts";
+export type { default as ShareLinksConcept } from "./Scriblink/shareLinksConcept.ts";
+export type { default as ReviewConcept } from "./Scriblink/reviewConcept.ts";
+export type { default as FlashcardsConcept } from "./Scriblink/flashcardsConcept.ts";
+export type { default as SmartFoldersConcept } from "./Scriblink/smartFoldersConcept.ts";
 
 // Initialize the database connection
 export const [db, client] = await getDb();
 
 export const Requesting = Engine.instrumentConcept(new RequestingConcept(db));
-export const Summaries = Engine.instrumentConcept(new SummariesConcept(db));
+export const Summaries = Engine.instrumentConcept(
+  new SummariesConcept(db, loadLLMProvider()),
+);
 export const PasswordAuth = Engine.instrumentConcept(
   new PasswordAuthConcept(db),
 );
 export const Notes = Engine.instrumentConcept(new NotesConcept(db));
 export const Tags = Engine.instrumentConcept(new TagsConcept(db));
 export const Folder = Engine.instrumentConcept(new FolderConcept(db));
+export const Trash = Engine.instrumentConcept(new TrashConcept(db));
+export const SummaryJobs = Engine.instrumentConcept(new SummaryJobsConcept(db));
+export const Usage = Engine.instrumentConcept(new UsageConcept(db));
+export const Sharing = Engine.instrumentConcept(new SharingConcept(db));
+export const ShareLinks = Engine.instrumentConcept(new ShareLinksConcept(db));
+export const Review = Engine.instrumentConcept(new ReviewConcept(db));
+export const Flashcards = Engine.instrumentConcept(
+  new FlashcardsConcept(db, loadLLMProvider()),
+);
+export const SmartFolders = Engine.instrumentConcept(
+  new SmartFoldersConcept(db),
+);
+
+// Create the indexes each concept declares
+await createConceptIndexes(db, [
+  RequestingConcept,
+  SummariesConcept,
+  PasswordAuthConcept,
+  NotesConcept,
+  TagsConcept,
+  FolderConcept,
+  TrashConcept,
+  SummaryJobsConcept,
+  UsageConcept,
+  SharingConcept,
+  ShareLinksConcept,
+  ReviewConcept,
+  FlashcardsConcept,
+  SmartFoldersConcept,
+]);
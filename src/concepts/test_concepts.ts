@@ -5,7 +5,7 @@ import { SyncConcept } from "@engine";
 
 export const Engine = new SyncConcept();
 
-import { testDb } from "@utils/database.ts";
+import { createConceptIndexes, testDb } from "@utils/database.ts";
 
 import RequestingConcept from "./Requesting/RequestingConcept.ts";
 import SummariesConcept from "./Scriblink/summariesConcept.ts";
@@ -13,7 +13,16 @@ import PasswordAuthConcept from "./Scriblink/passwordAuthConcept.ts";
 import NotesConcept from "./Scriblink/notesConcept.ts";
 import TagsConcept from "./Scriblink/tagsConcept.ts";
 import FolderConcept from "./Scriblink/folderConcept.ts";
+import TrashConcept from "./Scriblink/trashConcept.ts";
+import SummaryJobsConcept from "./Scriblink/summaryJobsConcept.ts";
+import UsageConcept from "./Scriblink/usageConcept.ts";
+import SharingConcept from "./Scriblink/sharingConcept.ts";
+import ShareLinksConcept from "./Scriblink/shareLinksConcept.ts";
+import ReviewConcept from "./Scriblink/reviewConcept.ts";
+import FlashcardsConcept from "./Scriblink/flashcardsConcept.ts";
+import SmartFoldersConcept from "./Scriblink/smartFoldersConcept.ts";
 import RequestConcept from "./Scriblink/requestConcept.ts";
+import { ExtractiveLLM } from "./Scriblink/extractive-llm.ts";
 
 export type { default as RequestingConcept } from "./Requesting/RequestingConcept.ts";
 export type { default as SummariesConcept } from "./Scriblink/summariesConcept.ts";
@@ -21,15 +30,34 @@ export type { default as PasswordAuthConcept } from "./Scriblink/passwordAuthCon
 export type { default as NotesConcept } from "./Scriblink/notesConcept.ts";
 export type { default as TagsConcept } from "./Scriblink/tagsConcept.ts";
 export type { default as FolderConcept } from "./Scriblink/folderConcept.ts";
+export type { default as TrashConcept } from "./Scriblink/trashConcept.ts";
+export type { default as SummaryJobsConcept } from "./Scriblink/summaryJobsConcept.ts";
+export type { default as UsageConcept } from "./Scriblink/usageConcept.ts";
+export type { default as SharingConcept } from "./Scriblink/sharingConcept.ts";
+export type { default as ShareLinksConcept } from "./Scriblink/shareLinksConcept.ts";
+export type { default as ReviewConcept } from "./Scriblink/reviewConcept.ts";
+export type { default as FlashcardsConcept } from "./Scriblink/flashcardsConcept.ts";
+export type { default as SmartFoldersConcept } from "./Scriblink/smartFoldersConcept.ts";
 export type { default as RequestConcept } from "./Scriblink/requestConcept.ts";
 
 // Initialize the database connection
 export const [db, client] = await testDb();
 
 export const Requesting = Engine.instrumentConcept(new RequestingConcept(db));
-export const Summaries = Engine.instrumentConcept(new SummariesConcept(db));
+export const Summaries = Engine.instrumentConcept(new SummariesConcept(db, new ExtractiveLLM()));
 export const PasswordAuth = Engine.instrumentConcept(new PasswordAuthConcept(db));
 export const Notes = Engine.instrumentConcept(new NotesConcept(db));
 export const Tags = Engine.instrumentConcept(new TagsConcept(db));
 export const Folder = Engine.instrumentConcept(new FolderConcept(db));
+export const Trash = Engine.instrumentConcept(new TrashConcept(db));
+export const SummaryJobs = Engine.instrumentConcept(new SummaryJobsConcept(db));
+export const Usage = Engine.instrumentConcept(new UsageConcept(db));
+export const Sharing = Engine.instrumentConcept(new SharingConcept(db));
+export const ShareLinks = Engine.instrumentConcept(new ShareLinksConcept(db));
+export const Review = Engine.instrumentConcept(new ReviewConcept(db));
+export const Flashcards = Engine.instrumentConcept(new FlashcardsConcept(db, new ExtractiveLLM()));
+export const SmartFolders = Engine.instrumentConcept(new SmartFoldersConcept(db));
 export const Request = Engine.instrumentConcept(new RequestConcept(db));
+
+// Create the indexes each concept declares
+await createConceptIndexes(db, [RequestingConcept, SummariesConcept, PasswordAuthConcept, NotesConcept, TagsConcept, FolderConcept, TrashConcept, SummaryJobsConcept, UsageConcept, SharingConcept, ShareLinksConcept, ReviewConcept, FlashcardsConcept, SmartFoldersConcept, RequestConcept]);
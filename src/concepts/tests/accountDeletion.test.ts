@@ -0,0 +1,210 @@
+import { assertEquals } from "jsr:@std/assert";
+import { Logging } from "@engine";
+import { testConcepts } from "@utils/database.ts";
+import { ID } from "@utils/types.ts";
+
+// The deletion cascade runs through the syncs, which are bound to the "@concepts" instances,
+// so load those on the test database and register the syncs before anything imports them
+const concepts = await testConcepts();
+const {
+  client,
+  Engine,
+  Flashcards,
+  Folder,
+  Notes,
+  PasswordAuth,
+  Review,
+  ShareLinks,
+  Sharing,
+  SmartFolders,
+  Summaries,
+  SummaryJobs,
+  Tags,
+  Trash,
+  Usage,
+} = concepts;
+const { default: syncs } = await import("@syncs");
+Engine.logging = Logging.OFF;
+Engine.register(syncs);
+const { findLeftoverData, findUserItems } = await import(
+  "@utils/leftovers.ts"
+);
+
+const password = "correct horse";
+
+// ============================================================================
+// --- OPERATIONAL PRINCIPLE ---
+// ============================================================================
+
+Deno.test("Principle: Deleting an account through the syncs leaves none of the user's data behind", async (t) => {
+  try {
+    console.log("\n🗑️ OPERATIONAL PRINCIPLE: Account Deletion Cascade");
+    console.log("=".repeat(60));
+
+    let alice: ID;
+    let bob: ID;
+    let bobNote: ID;
+    let aliceItems: ID[];
+
+    await t.step(
+      "1. Alice registers and fills every concept with data",
+      async () => {
+        alice = ((await PasswordAuth.register({
+          username: "alice",
+          password,
+        })) as { user: ID }).user;
+        bob = ((await PasswordAuth.register({
+          username: "bob",
+          password,
+        })) as { user: ID }).user;
+        await PasswordAuth.authenticate({ username: "alice", password });
+
+        // Registering creates the root folder through a sync
+        const [{ folder: root }] = await Folder._getRootFolder({
+          user: alice,
+        });
+        const { folder: week } = (await Folder.createFolder({
+          user: alice,
+          title: "Week 1",
+          parent: root,
+        })) as { folder: ID };
+
+        const { note: filed } = (await Notes.createNote({
+          title: "Lecture 1",
+          user: alice,
+        })) as { note: ID };
+        await Folder.insertItem({ item: filed, folder: week });
+        await Notes.updateContent({
+          noteId: filed,
+          newContent: "Concepts are independent.",
+          user: alice,
+        });
+        // A note outside any folder, and one in the trash
+        const { note: loose } = (await Notes.createNote({
+          title: "Scratch",
+          user: alice,
+        })) as { note: ID };
+        const { note: trashed } = (await Notes.createNote({
+          title: "Old draft",
+          user: alice,
+        })) as { note: ID };
+        await Trash.trash({
+          user: alice,
+          item: trashed,
+          kind: "note",
+          title: "Old draft",
+        });
+
+        await Tags.addTag({ user: alice, label: "exam", item: filed });
+        await Summaries.setSummary({
+          summary: "Concepts are independent.",
+          item: filed,
+        });
+        await Summaries.setSummary({ summary: "Draft", item: trashed });
+        await SummaryJobs.enqueue({
+          user: alice,
+          item: loose,
+          text: "Something to summarize.",
+        });
+        await Usage.recordCall({
+          user: alice,
+          kind: "summary",
+          promptChars: 100,
+          outputChars: 20,
+        });
+        await Sharing.share({
+          owner: alice,
+          resourceOwner: alice,
+          resource: filed,
+          kind: "note",
+          grantee: bob,
+          level: "viewer",
+        });
+        await ShareLinks.createLink({
+          owner: alice,
+          resourceOwner: alice,
+          resource: week,
+          kind: "folder",
+        });
+        await Review.enroll({ user: alice, note: filed });
+        await Flashcards.cards.insertOne({
+          _id: "card:1" as ID,
+          owner: alice,
+          note: filed,
+          kind: "flashcard",
+          question: "Are concepts independent?",
+          answer: "Yes",
+          choices: null,
+          createdAt: new Date(),
+          editedAt: null,
+        });
+        await SmartFolders.createSmartFolder({
+          user: alice,
+          name: "Exams",
+          query: "tag:exam",
+        });
+
+        // Bob's own note, which must survive Alice's deletion
+        bobNote = ((await Notes.createNote({
+          title: "Bob's note",
+          user: bob,
+        })) as { note: ID }).note;
+
+        const { report, clean } = await findLeftoverData(alice);
+        assertEquals(clean, false);
+        assertEquals(report.notes, 3);
+        assertEquals(report.summaries, 2);
+        // Summaries have no owner, so remember which items they belong to
+        aliceItems = await findUserItems(alice);
+        console.log("   ✅ Alice has data in every concept");
+      },
+    );
+
+    await t.step("2. A wrong password deletes nothing", async () => {
+      const result = await PasswordAuth.deleteAccount({
+        user: alice,
+        password: "wrong",
+      });
+      assertEquals("error" in result, true);
+      assertEquals((await findLeftoverData(alice)).clean, false);
+      console.log("   ✅ Data kept after a failed deletion");
+    });
+
+    await t.step(
+      "3. Deleting the account cascades to all of Alice's data",
+      async () => {
+        const result = await PasswordAuth.deleteAccount({
+          user: alice,
+          password,
+        });
+        assertEquals(result, { user: alice });
+
+        const { report, clean } = await findLeftoverData(alice, aliceItems);
+        assertEquals(report.summaries, 0, "The summaries are deleted too.");
+        assertEquals(
+          clean,
+          true,
+          `Left over: ${JSON.stringify(report)}`,
+        );
+        console.log("   ✅ Nothing left for Alice");
+      },
+    );
+
+    await t.step("4. Other users' data is untouched", async () => {
+      const { report } = await findLeftoverData(bob);
+      assertEquals(report.users, 1);
+      assertEquals(report.notes, 1);
+      assertEquals(report.grants, 0, "Alice's share with Bob is gone.");
+      assertEquals(
+        (await Notes._getAllNoteIds({ user: bob })).map((n) => n.noteId),
+        [bobNote],
+      );
+      console.log("   ✅ Bob keeps their account and note");
+    });
+
+    console.log("\n🎉 OPERATIONAL PRINCIPLE COMPLETE");
+    console.log("=".repeat(60));
+  } finally {
+    await client.close();
+  }
+});
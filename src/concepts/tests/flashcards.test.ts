@@ -0,0 +1,237 @@
+import { assertEquals } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import { ID } from "@utils/types.ts";
+import FlashcardsConcept, {
+  CardDocument,
+} from "../Scriblink/flashcardsConcept.ts";
+import type { LLMProvider } from "../Scriblink/llm-provider.ts";
+
+const userAlice = "user:Alice" as ID;
+const userBob = "user:Bob" as ID;
+const noteA = "note:A" as ID;
+
+const NOTE_TEXT =
+  "Photosynthesis takes place in the chloroplasts of plant cells. " +
+  "It turns light energy, water and carbon dioxide into glucose and oxygen. " +
+  "Chlorophyll is the pigment that absorbs the light.";
+
+const GENERATED = JSON.stringify({
+  flashcards: [
+    {
+      question: "Where does photosynthesis take place?",
+      answer: "In the chloroplasts",
+    },
+    {
+      question: "Which pigment absorbs the light?",
+      answer: "Chlorophyll",
+    },
+    // Not stated in the note, so it must be dropped
+    {
+      question: "Who discovered photosynthesis?",
+      answer: "Jan Ingenhousz",
+    },
+  ],
+  quiz: [
+    {
+      question: "What does photosynthesis produce?",
+      choices: ["Glucose and oxygen", "Nitrogen", "Salt", "Iron"],
+      answer: "Glucose and oxygen",
+    },
+    // The answer is not one of the choices
+    {
+      question: "What is absorbed?",
+      choices: ["Sound", "Heat"],
+      answer: "Light",
+    },
+  ],
+});
+
+/**
+ * An LLM that always gives the same reply, and counts how often it was called.
+ */
+function fixedLLM(reply: string): LLMProvider & { calls: number } {
+  return {
+    calls: 0,
+    executeLLM() {
+      this.calls++;
+      return Promise.resolve(reply);
+    },
+  };
+}
+
+type Generated = { cards: CardDocument[]; rejected: number };
+
+// ============================================================================
+// --- OPERATIONAL PRINCIPLE ---
+// ============================================================================
+
+Deno.test("Principle: Cards are made from a note, edited, and kept when a fresh set is made", async (t) => {
+  const [db, client] = await testDb();
+  const flashcardsConcept = new FlashcardsConcept(db, fixedLLM(GENERATED));
+
+  try {
+    console.log("\n🃏 OPERATIONAL PRINCIPLE: Flashcard Workflow");
+    console.log("=".repeat(60));
+
+    let generated: Generated;
+
+    await t.step(
+      "1. Alice makes cards from her note; ungrounded ones are dropped",
+      async () => {
+        generated = (await flashcardsConcept.generateCards({
+          owner: userAlice,
+          noteOwner: userAlice,
+          note: noteA,
+          text: NOTE_TEXT,
+        })) as Generated;
+        assertEquals(generated.cards.length, 3);
+        assertEquals(generated.rejected, 2);
+        assertEquals(
+          generated.cards.map((card) => card.kind),
+          ["flashcard", "flashcard", "multiple_choice"],
+        );
+        console.log("   ✅ 3 cards kept, 2 dropped");
+      },
+    );
+
+    await t.step("2. Alice rewords one card and deletes another", async () => {
+      const [first, second] = generated.cards;
+      assertEquals(
+        await flashcardsConcept.editCard({
+          owner: userAlice,
+          card: first._id,
+          answer: "Chloroplasts",
+        }),
+        { card: first._id },
+      );
+      assertEquals(
+        await flashcardsConcept.deleteCard({
+          owner: userAlice,
+          card: second._id,
+        }),
+        { card: second._id },
+      );
+      console.log("   ✅ Card edited and card deleted");
+    });
+
+    await t.step(
+      "3. A fresh set replaces the unedited cards only",
+      async () => {
+        await flashcardsConcept.generateCards({
+          owner: userAlice,
+          noteOwner: userAlice,
+          note: noteA,
+          text: NOTE_TEXT,
+        });
+        const { cards } = (await flashcardsConcept.getCards({
+          owner: userAlice,
+          note: noteA,
+        })) as { cards: CardDocument[] };
+        assertEquals(cards.length, 4);
+        assertEquals(
+          cards.filter((card) => card.answer === "Chloroplasts").length,
+          1,
+        );
+        console.log("   ✅ Edited card kept alongside the new set");
+      },
+    );
+
+    console.log("\n🎉 OPERATIONAL PRINCIPLE COMPLETE");
+    console.log("=".repeat(60));
+  } finally {
+    await client.close();
+  }
+});
+
+// ============================================================================
+// --- ACTIONS ---
+// ============================================================================
+
+Deno.test("Action: generateCards refuses other users' notes without calling the LLM", async () => {
+  const [db, client] = await testDb();
+  const llm = fixedLLM(GENERATED);
+  const flashcardsConcept = new FlashcardsConcept(db, llm);
+
+  try {
+    const result = await flashcardsConcept.generateCards({
+      owner: userBob,
+      noteOwner: userAlice,
+      note: noteA,
+      text: NOTE_TEXT,
+    });
+    assertEquals("error" in result, true);
+    assertEquals(llm.calls, 0);
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: generateCards fails when the reply is not JSON or no card is usable", async () => {
+  const [db, client] = await testDb();
+
+  try {
+    for (
+      const reply of [
+        "• Photosynthesis takes place in the chloroplasts",
+        JSON.stringify({
+          flashcards: [{ question: "As an AI, I cannot answer", answer: "" }],
+        }),
+      ]
+    ) {
+      const flashcardsConcept = new FlashcardsConcept(db, fixedLLM(reply));
+      const result = await flashcardsConcept.generateCards({
+        owner: userAlice,
+        noteOwner: userAlice,
+        note: noteA,
+        text: NOTE_TEXT,
+      });
+      assertEquals("error" in result, true);
+    }
+    const flashcardsConcept = new FlashcardsConcept(db, fixedLLM(GENERATED));
+    assertEquals(await flashcardsConcept._countForUser({ user: userAlice }), [{
+      flashcards: 0,
+    }]);
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: editCard keeps multiple-choice answers among the choices", async () => {
+  const [db, client] = await testDb();
+  const flashcardsConcept = new FlashcardsConcept(db, fixedLLM(GENERATED));
+
+  try {
+    const { cards } = (await flashcardsConcept.generateCards({
+      owner: userAlice,
+      noteOwner: userAlice,
+      note: noteA,
+      text: NOTE_TEXT,
+    })) as Generated;
+    const question = cards.find((card) => card.kind === "multiple_choice")!;
+
+    const outside = await flashcardsConcept.editCard({
+      owner: userAlice,
+      card: question._id,
+      answer: "Nitrogen and salt",
+    });
+    assertEquals("error" in outside, true);
+
+    const notTheirs = await flashcardsConcept.editCard({
+      owner: userBob,
+      card: question._id,
+      answer: "Nitrogen",
+    });
+    assertEquals("error" in notTheirs, true);
+
+    assertEquals(
+      await flashcardsConcept.editCard({
+        owner: userAlice,
+        card: question._id,
+        choices: ["Glucose and oxygen", "Nitrogen"],
+      }),
+      { card: question._id },
+    );
+  } finally {
+    await client.close();
+  }
+});
@@ -1805,3 +1805,458 @@ Deno.test("Interesting Scenario 5: Rapid operations and concurrency", async () =
     await client.close();
   }
 });
+
+Deno.test("Action: trashFolder and restoreFolder hide and reveal a subtree in place", async () => {
+  const [db, client] = await testDb();
+  const folderConcept = new FolderConcept(db);
+
+  try {
+    const user = freshID() as User;
+    const rootId = assertFolderResult(
+      await folderConcept.initializeFolder({ user }),
+    ).folder as Folder;
+    const childId = assertFolderResult(
+      await folderConcept.createFolder({ user, title: "C1", parent: rootId }),
+    ).folder as Folder;
+    const grandchildId = assertFolderResult(
+      await folderConcept.createFolder({ user, title: "GC1", parent: childId }),
+    ).folder as Folder;
+    await folderConcept.insertItem({ item: itemA, folder: childId });
+    await folderConcept.insertItem({ item: itemB, folder: grandchildId });
+
+    // The root folder cannot be trashed, and only the owner can trash
+    const rootTrash = await folderConcept.trashFolder({ f: rootId, user });
+    assertEquals("error" in rootTrash, true);
+    const otherTrash = await folderConcept.trashFolder({
+      f: childId,
+      user: userB,
+    });
+    assertEquals("error" in otherTrash, true);
+
+    const trashResult = await folderConcept.trashFolder({ f: childId, user });
+    assertNotEquals("error" in trashResult, true);
+    const { title, trashedFolders, trashedItems } = trashResult as {
+      title: string;
+      trashedFolders: Folder[];
+      trashedItems: Item[];
+    };
+    assertEquals(title, "C1");
+    assertEquals(trashedFolders.length, 2);
+    assertArrayIncludes(trashedItems, [itemA, itemB]);
+
+    // Trashed folders are hidden from getAllFolders, including from the root's children
+    const visible = (await folderConcept.getAllFolders({ user })) as {
+      folders: FolderStructure[];
+    };
+    assertEquals(visible.folders.length, 1);
+    assertEquals(visible.folders[0].folders, []);
+
+    // ... but the subtree is still stored in place
+    const storedRoot = assertFolderStructure(
+      await folderConcept._getFolderDetails({ folderId: rootId }),
+    );
+    assertArrayIncludes(storedRoot.folders, [childId]);
+
+    const restoreResult = await folderConcept.restoreFolder({
+      f: childId,
+      user,
+    });
+    assertNotEquals("error" in restoreResult, true);
+    assertArrayIncludes(
+      (restoreResult as { restoredItems: Item[] }).restoredItems,
+      [itemA, itemB],
+    );
+    const afterRestore = (await folderConcept.getAllFolders({ user })) as {
+      folders: FolderStructure[];
+    };
+    assertEquals(afterRestore.folders.length, 3);
+
+    const restoreAgain = await folderConcept.restoreFolder({
+      f: childId,
+      user,
+    });
+    assertEquals("error" in restoreAgain, true);
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: renameFolder renames owned folders but not the root", async () => {
+  const [db, client] = await testDb();
+  const folderConcept = new FolderConcept(db);
+
+  try {
+    const user = freshID() as User;
+    const rootId = assertFolderResult(
+      await folderConcept.initializeFolder({ user }),
+    ).folder as Folder;
+    const childId = assertFolderResult(
+      await folderConcept.createFolder({ user, title: "C1", parent: rootId }),
+    ).folder as Folder;
+
+    const renamed = await folderConcept.renameFolder({
+      folder: childId,
+      user,
+      title: "  Lecture Notes  ",
+    });
+    assertEquals(renamed, { folder: childId });
+    const child = assertFolderStructure(
+      await folderConcept._getFolderDetails({ folderId: childId }),
+    );
+    assertEquals(child.title, "Lecture Notes");
+
+    const rootRename = await folderConcept.renameFolder({
+      folder: rootId,
+      user,
+      title: "Home",
+    });
+    assertEquals("error" in rootRename, true, "The root cannot be renamed.");
+    const emptyTitle = await folderConcept.renameFolder({
+      folder: childId,
+      user,
+      title: "   ",
+    });
+    assertEquals("error" in emptyTitle, true, "Titles cannot be empty.");
+    const otherUser = await folderConcept.renameFolder({
+      folder: childId,
+      user: userB,
+      title: "Mine now",
+    });
+    assertEquals("error" in otherUser, true, "Only the owner can rename.");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: reorderChildren and reorderItems store the chosen order", async () => {
+  const [db, client] = await testDb();
+  const folderConcept = new FolderConcept(db);
+
+  try {
+    const user = freshID() as User;
+    const rootId = assertFolderResult(
+      await folderConcept.initializeFolder({ user }),
+    ).folder as Folder;
+    const children: Folder[] = [];
+    for (const title of ["C1", "C2", "C3"]) {
+      children.push(
+        assertFolderResult(
+          await folderConcept.createFolder({ user, title, parent: rootId }),
+        ).folder as Folder,
+      );
+    }
+    for (const item of [itemA, itemB, itemC]) {
+      await folderConcept.insertItem({ item, folder: rootId });
+    }
+
+    const newOrder = [children[2], children[0], children[1]];
+    assertEquals(
+      await folderConcept.reorderChildren({
+        folder: rootId,
+        user,
+        order: newOrder,
+      }),
+      { folder: rootId },
+    );
+    assertEquals(
+      await folderConcept.reorderItems({
+        folder: rootId,
+        user,
+        order: [itemC, itemA, itemB],
+      }),
+      { folder: rootId },
+    );
+    const root = assertFolderStructure(
+      await folderConcept._getFolderDetails({ folderId: rootId }),
+    );
+    assertEquals(root.folders, newOrder);
+    assertEquals(root.elements, [itemC, itemA, itemB]);
+
+    // The order must be a permutation of the current children
+    const missing = await folderConcept.reorderChildren({
+      folder: rootId,
+      user,
+      order: [children[0], children[1]],
+    });
+    assertEquals("error" in missing, true);
+    const duplicated = await folderConcept.reorderItems({
+      folder: rootId,
+      user,
+      order: [itemA, itemA, itemB],
+    });
+    assertEquals("error" in duplicated, true);
+    const otherUser = await folderConcept.reorderItems({
+      folder: rootId,
+      user: userB,
+      order: [itemA, itemB, itemC],
+    });
+    assertEquals("error" in otherUser, true);
+
+    // Trashed subfolders are left out of the order and kept after the others
+    await folderConcept.trashFolder({ f: children[0], user });
+    const reorderedVisible = await folderConcept.reorderChildren({
+      folder: rootId,
+      user,
+      order: [children[1], children[2]],
+    });
+    assertEquals(reorderedVisible, { folder: rootId });
+    const afterTrash = assertFolderStructure(
+      await folderConcept._getFolderDetails({ folderId: rootId }),
+    );
+    assertEquals(afterTrash.folders, [children[1], children[2], children[0]]);
+
+    // Hidden items, such as notes in the trash, are likewise left out and kept after the others
+    const withoutHidden = await folderConcept.reorderItems({
+      folder: rootId,
+      user,
+      order: [itemB, itemC],
+    });
+    assertEquals("error" in withoutHidden, true);
+    assertEquals(
+      await folderConcept.reorderItems({
+        folder: rootId,
+        user,
+        order: [itemB, itemC],
+        hidden: [itemA],
+      }),
+      { folder: rootId },
+    );
+    assertEquals(
+      assertFolderStructure(
+        await folderConcept._getFolderDetails({ folderId: rootId }),
+      ).elements,
+      [itemB, itemC, itemA],
+    );
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: moveFolder keeps parent pointers and ancestor paths of the whole subtree", async () => {
+  const [db, client] = await testDb();
+  const folderConcept = new FolderConcept(db);
+
+  try {
+    const user = freshID() as User;
+    const rootId = assertFolderResult(
+      await folderConcept.initializeFolder({ user }),
+    ).folder as Folder;
+    const create = async (title: string, parent: Folder) =>
+      assertFolderResult(
+        await folderConcept.createFolder({ user, title, parent }),
+      ).folder as Folder;
+    const a = await create("A", rootId);
+    const b = await create("B", rootId);
+    const a1 = await create("A1", a);
+    const a1x = await create("A1x", a1);
+
+    const details = async (folderId: Folder) =>
+      assertFolderStructure(
+        await folderConcept._getFolderDetails({ folderId }),
+      );
+    assertEquals((await details(rootId)).parent, null);
+    assertEquals((await details(a1x)).ancestors, [rootId, a, a1]);
+
+    await folderConcept.moveFolder({
+      folderId: a1,
+      newParentId: b,
+      userId: user,
+    });
+    assertEquals((await details(a1)).parent, b);
+    assertEquals((await details(a1)).ancestors, [rootId, b]);
+    assertEquals((await details(a1x)).ancestors, [rootId, b, a1]);
+    assertEquals((await details(a)).folders, []);
+    assertEquals((await details(b)).folders, [a1]);
+
+    assert(await folderConcept.isDescendant(a1x, b));
+    assert(!await folderConcept.isDescendant(a1x, a));
+    assertEquals(await folderConcept._getRootFolder({ user }), [{
+      folder: rootId,
+    }]);
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: backfillPaths rebuilds parents and ancestors from the folders lists", async () => {
+  const [db, client] = await testDb();
+  const folderConcept = new FolderConcept(db);
+
+  try {
+    const user = freshID() as User;
+    const rootId = assertFolderResult(
+      await folderConcept.initializeFolder({ user }),
+    ).folder as Folder;
+    const childId = assertFolderResult(
+      await folderConcept.createFolder({ user, title: "C1", parent: rootId }),
+    ).folder as Folder;
+    const otherId = assertFolderResult(
+      await folderConcept.createFolder({ user, title: "C2", parent: rootId }),
+    ).folder as Folder;
+    const grandchildId = assertFolderResult(
+      await folderConcept.createFolder({ user, title: "GC1", parent: childId }),
+    ).folder as Folder;
+
+    // Simulate folders stored before paths were recorded, with a duplicate parent link
+    await folderConcept.folders.updateMany({}, {
+      $unset: { parent: "", ancestors: "" },
+    });
+    await folderConcept.folders.updateOne({ _id: otherId }, {
+      $push: { folders: grandchildId },
+    });
+
+    const result = await folderConcept.backfillPaths({});
+    assertEquals(result, { updated: 4 });
+
+    const grandchild = assertFolderStructure(
+      await folderConcept._getFolderDetails({ folderId: grandchildId }),
+    );
+    assertEquals(grandchild.parent, childId);
+    assertEquals(grandchild.ancestors, [rootId, childId]);
+    const root = assertFolderStructure(
+      await folderConcept._getFolderDetails({ folderId: rootId }),
+    );
+    assertEquals(root.parent, null);
+    assertEquals(root.ancestors, []);
+    const other = assertFolderStructure(
+      await folderConcept._getFolderDetails({ folderId: otherId }),
+    );
+    assertEquals(other.folders, [], "Duplicate parent links are removed.");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Query: getFolderTree nests folders in order and respects the depth limit", async () => {
+  const [db, client] = await testDb();
+  const folderConcept = new FolderConcept(db);
+
+  try {
+    const user = freshID() as User;
+    const rootId = assertFolderResult(
+      await folderConcept.initializeFolder({ user }),
+    ).folder as Folder;
+    const create = async (title: string, parent: Folder) =>
+      assertFolderResult(
+        await folderConcept.createFolder({ user, title, parent }),
+      ).folder as Folder;
+    const a = await create("A", rootId);
+    const b = await create("B", rootId);
+    const a1 = await create("A1", a);
+    const trashed = await create("Trashed", b);
+    await folderConcept.reorderChildren({
+      folder: rootId,
+      user,
+      order: [b, a],
+    });
+    await folderConcept.trashFolder({ f: trashed, user });
+    const note = freshID() as Item;
+    await folderConcept.insertItem({ item: note, folder: a1 });
+
+    const full = await folderConcept.getFolderTree({ user });
+    assert(!("error" in full));
+    const { tree } = full;
+    assertEquals(tree._id, rootId);
+    assertEquals(tree.folders.map((f) => f.title), ["B", "A"]);
+    assertEquals(tree.folders[0].folders, [], "Trashed folders are left out.");
+    const a1Node = tree.folders[1].folders[0];
+    assertEquals(a1Node._id, a1);
+    assertEquals(a1Node.elements, [note]);
+    assertEquals(a1Node.noteCount, 1);
+    assertEquals(a1Node.hasMore, false);
+
+    const shallow = await folderConcept.getFolderTree({ user, depth: 1 });
+    assert(!("error" in shallow));
+    const [bNode, aNode] = shallow.tree.folders;
+    assertEquals(aNode.folders, []);
+    assertEquals(aNode.hasMore, true);
+    assertEquals(bNode.hasMore, false);
+
+    const invalid = await folderConcept.getFolderTree({ user, depth: -1 });
+    assertEquals("error" in invalid, true, "Negative depths are rejected.");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Query: getBreadcrumbs returns the path to a folder or item", async () => {
+  const [db, client] = await testDb();
+  const folderConcept = new FolderConcept(db);
+
+  try {
+    const user = freshID() as User;
+    const rootId = assertFolderResult(
+      await folderConcept.initializeFolder({ user }),
+    ).folder as Folder;
+    const a = assertFolderResult(
+      await folderConcept.createFolder({ user, title: "A", parent: rootId }),
+    ).folder as Folder;
+    const a1 = assertFolderResult(
+      await folderConcept.createFolder({ user, title: "A1", parent: a }),
+    ).folder as Folder;
+    const note = freshID() as Item;
+    await folderConcept.insertItem({ item: note, folder: a1 });
+
+    const expected = [
+      { _id: rootId, title: "Root" },
+      { _id: a, title: "A" },
+      { _id: a1, title: "A1" },
+    ];
+    assertEquals(await folderConcept.getBreadcrumbs({ user, folder: a1 }), {
+      breadcrumbs: expected,
+    });
+    assertEquals(await folderConcept.getBreadcrumbs({ user, item: note }), {
+      breadcrumbs: expected,
+    });
+
+    const otherUser = await folderConcept.getBreadcrumbs({
+      user: freshID() as User,
+      folder: a1,
+    });
+    assertEquals("error" in otherUser, true, "Other users get no breadcrumbs.");
+    const both = await folderConcept.getBreadcrumbs({
+      user,
+      folder: a1,
+      item: note,
+    });
+    assertEquals("error" in both, true, "Only one target may be given.");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Query: _listReferences lists a user's folders, or every folder", async () => {
+  const [db, client] = await testDb();
+  const folderConcept = new FolderConcept(db);
+
+  try {
+    const alice = freshID() as User;
+    const bob = freshID() as User;
+    const aliceRoot = assertFolderResult(
+      await folderConcept.initializeFolder({ user: alice }),
+    ).folder as Folder;
+    await folderConcept.initializeFolder({ user: bob });
+    const child = assertFolderResult(
+      await folderConcept.createFolder({
+        user: alice,
+        title: "Child",
+        parent: aliceRoot,
+      }),
+    ).folder as Folder;
+    const note = freshID() as Item;
+    await folderConcept.insertItem({ item: note, folder: child });
+
+    const aliceFolders = await folderConcept._listReferences({ user: alice });
+    assertEquals(aliceFolders.length, 2);
+    assertArrayIncludes(aliceFolders, [{
+      folder: child,
+      owner: alice,
+      parent: aliceRoot,
+      elements: [note],
+    }]);
+    const allFolders = await folderConcept._listReferences({ user: null });
+    assertEquals(allFolders.length, 3);
+  } finally {
+    await client.close();
+  }
+});
@@ -0,0 +1,144 @@
+import { assertEquals } from "jsr:@std/assert";
+import { testConcepts } from "@utils/database.ts";
+import { ID } from "@utils/types.ts";
+
+// The checker works on the "@concepts" instances, so load those on the test database before it
+const { client, Folder, Notes, Summaries, Tags, Trash } = await testConcepts();
+const { checkIntegrity, repairIntegrity } = await import(
+  "@utils/integrity.ts"
+);
+
+const userAlice = "user:Alice" as ID;
+const missingNote = "note:missing" as ID;
+
+// ============================================================================
+// --- OPERATIONAL PRINCIPLE ---
+// ============================================================================
+
+Deno.test("Principle: The checker finds one issue of each kind and --fix repairs them all", async (t) => {
+  try {
+    console.log("\n🩺 OPERATIONAL PRINCIPLE: Integrity Check and Repair");
+    console.log("=".repeat(60));
+
+    let root: ID;
+    let filedNote: ID;
+    let orphanNote: ID;
+    let orphanFolder: ID;
+
+    await t.step(
+      "1. Alice's data picks up one broken reference of each kind",
+      async () => {
+        root = ((await Folder.initializeFolder({ user: userAlice })) as {
+          folder: ID;
+        }).folder;
+        filedNote = ((await Notes.createNote({
+          title: "Filed",
+          user: userAlice,
+        })) as { note: ID }).note;
+        await Folder.insertItem({ item: filedNote, folder: root });
+
+        // A note that never made it into a folder
+        orphanNote = ((await Notes.createNote({
+          title: "Orphan",
+          user: userAlice,
+        })) as { note: ID }).note;
+        // References to a note that doesn't exist
+        await Folder.insertItem({ item: missingNote, folder: root });
+        await Tags.addTag({
+          user: userAlice,
+          label: "exam",
+          item: missingNote,
+        });
+        await Summaries.setSummary({ summary: "Gone", item: missingNote });
+        await Trash.trash({
+          user: userAlice,
+          item: missingNote,
+          kind: "note",
+          title: "Gone",
+        });
+        // A folder whose parent was removed without it
+        const { folder: week } = (await Folder.createFolder({
+          user: userAlice,
+          title: "Week 1",
+          parent: root,
+        })) as { folder: ID };
+        orphanFolder = ((await Folder.createFolder({
+          user: userAlice,
+          title: "Lecture",
+          parent: week,
+        })) as { folder: ID }).folder;
+        await Folder.folders.deleteOne({ _id: week });
+        console.log("   ✅ Seeded the broken references");
+      },
+    );
+
+    await t.step(
+      "2. The whole-database report counts each kind once",
+      async () => {
+        const { issues, counts, clean } = await checkIntegrity(null);
+        assertEquals(clean, false);
+        assertEquals(counts, {
+          orphanNote: 1,
+          missingFolderItem: 1,
+          orphanFolder: 1,
+          danglingTagItem: 1,
+          orphanSummary: 1,
+          danglingTrashEntry: 1,
+        });
+        const byKind = Object.fromEntries(
+          issues.map((issue) => [issue.kind, issue]),
+        );
+        assertEquals(byKind.orphanNote.item, orphanNote);
+        assertEquals(byKind.missingFolderItem, {
+          kind: "missingFolderItem",
+          owner: userAlice,
+          item: missingNote,
+          container: root,
+        });
+        assertEquals(byKind.orphanFolder.item, orphanFolder);
+        assertEquals(byKind.danglingTagItem.item, missingNote);
+        assertEquals(byKind.orphanSummary.owner, null);
+        assertEquals(byKind.danglingTrashEntry.item, missingNote);
+        console.log("   ✅ One issue of each kind reported");
+      },
+    );
+
+    await t.step(
+      "3. A per-user scan leaves out summaries, which have no owner",
+      async () => {
+        const { counts } = await checkIntegrity(userAlice);
+        assertEquals(counts.orphanSummary, 0);
+        assertEquals(counts.orphanNote, 1);
+        assertEquals(
+          (await checkIntegrity("user:Bob" as ID)).clean,
+          true,
+          "Bob has no data, so nothing is broken.",
+        );
+        console.log("   ✅ Per-user scan is scoped to Alice");
+      },
+    );
+
+    await t.step("4. Repairing fixes every issue", async () => {
+      const { issues } = await checkIntegrity(null);
+      const { fixed, failed } = await repairIntegrity(issues);
+      assertEquals(fixed, 6);
+      assertEquals(failed, []);
+
+      assertEquals((await checkIntegrity(null)).clean, true);
+      const items = await Folder._getFolderItems({ folderId: root });
+      assertEquals(
+        items,
+        [filedNote, orphanNote],
+        "The orphan note is filed in the root folder.",
+      );
+      const moved = await Folder._getFolderDetails({ folderId: orphanFolder });
+      assertEquals("error" in moved ? null : moved.parent, root);
+      console.log("   ✅ Report is clean after the repair");
+    });
+
+    console.log("\n🎉 OPERATIONAL PRINCIPLE COMPLETE");
+    console.log("=".repeat(60));
+  } finally {
+    await client.close();
+  }
+});
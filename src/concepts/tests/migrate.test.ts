@@ -0,0 +1,241 @@
+import { assertEquals, assertRejects } from "jsr:@std/assert";
+import * as path from "jsr:@std/path";
+import { Db } from "npm:mongodb";
+import { testDb } from "@utils/database.ts";
+import { dropIndex, loadMigrations, Migrator } from "@utils/migrate.ts";
+
+// Migration files in the temporary directory import the helpers by URL
+const migrateUrl = new URL("../../utils/migrate.ts", import.meta.url).href;
+
+/**
+ * Writes migration files into a fresh temporary directory.
+ * @param files The file contents, keyed by path relative to the directory.
+ * @returns The directory.
+ */
+async function migrationsDir(files: Record<string, string>): Promise<string> {
+  const dir = await Deno.makeTempDir({ prefix: "migrations-" });
+  for (const [file, source] of Object.entries(files)) {
+    await Deno.mkdir(path.join(dir, path.dirname(file)), { recursive: true });
+    await Deno.writeTextFile(path.join(dir, file), source);
+  }
+  return dir;
+}
+
+/**
+ * A migration that inserts one document into a collection on the way up and removes it on the way down.
+ */
+function seedMigration(collection: string, description: string): string {
+  return `export default {
+  description: "${description}",
+  async up(db: { collection(name: string): any }) {
+    await db.collection("${collection}").insertOne({ _id: "seeded" });
+  },
+  async down(db: { collection(name: string): any }) {
+    await db.collection("${collection}").deleteOne({ _id: "seeded" });
+  },
+};
+`;
+}
+
+/**
+ * The names of a collection's indexes, or none if the collection doesn't exist.
+ */
+async function indexNames(
+  db: Db,
+  collection: string,
+): Promise<string[]> {
+  const exists = await db.listCollections({ name: collection }).hasNext();
+  if (!exists) return [];
+  return (await db.collection(collection).listIndexes().toArray()).map((
+    index,
+  ) => index.name);
+}
+
+// ============================================================================
+// --- OPERATIONAL PRINCIPLE ---
+// ============================================================================
+
+Deno.test("Principle: Pending migrations are applied in order, recorded, and reverted newest first", async (t) => {
+  const [db, client] = await testDb();
+  const dir = await migrationsDir({
+    "Widget/001_seed.ts": seedMigration("Widget.widgets", "Seed a widget"),
+    "Widget/002_name_index.ts": `import { indexMigration } from "${migrateUrl}";
+export default indexMigration(
+  "Widget.widgets",
+  [{ keys: { name: 1 }, options: { sparse: true } }],
+  "Index widgets by name",
+);
+`,
+    "Gadget/001_seed.ts": seedMigration("Gadget.gadgets", "Seed a gadget"),
+    // Neither is a migration: one isn't versioned, the other isn't in a concept directory
+    "Widget/helpers.ts": "export const unused = 1;\n",
+    "002_loose.ts": seedMigration("Loose.loose", "Not a migration"),
+  });
+
+  try {
+    console.log("\n🧳 OPERATIONAL PRINCIPLE: Migration Workflow");
+    console.log("=".repeat(60));
+
+    const migrations = await loadMigrations(dir);
+    const migrator = new Migrator(db, migrations);
+
+    await t.step("1. Migration files are found by concept and version", () => {
+      assertEquals(
+        migrations.map(({ id, prefix, version, name }) => ({
+          id,
+          prefix,
+          version,
+          name,
+        })),
+        [
+          { id: "Gadget.001", prefix: "Gadget.", version: 1, name: "seed" },
+          { id: "Widget.001", prefix: "Widget.", version: 1, name: "seed" },
+          {
+            id: "Widget.002",
+            prefix: "Widget.",
+            version: 2,
+            name: "name_index",
+          },
+        ],
+      );
+      console.log("   ✅ Three migrations, sorted by prefix and version");
+    });
+
+    await t.step("2. Nothing is applied at first", async () => {
+      const status = await migrator.status();
+      assertEquals(status.map((row) => [row.migration, row.appliedAt]), [
+        ["Gadget.001_seed", null],
+        ["Widget.001_seed", null],
+        ["Widget.002_name_index", null],
+      ]);
+      assertEquals(status[2].description, "Index widgets by name");
+      console.log("   ✅ Every migration is pending");
+    });
+
+    await t.step(
+      "3. Migrating one prefix up applies only its migrations",
+      async () => {
+        assertEquals(await migrator.up("Widget."), [
+          "Widget.001",
+          "Widget.002",
+        ]);
+        assertEquals(
+          await db.collection("Widget.widgets").countDocuments(),
+          1,
+        );
+        assertEquals(
+          (await indexNames(db, "Widget.widgets")).includes("name_1"),
+          true,
+        );
+        assertEquals(await migrator.up("Widget."), [], "Nothing is pending.");
+
+        const status = await migrator.status();
+        assertEquals(status[0].appliedAt, null, "Gadget is still pending.");
+        assertEquals(status[1].appliedAt instanceof Date, true);
+        assertEquals(status[2].appliedAt instanceof Date, true);
+        console.log("   ✅ Widget migrations applied and recorded");
+      },
+    );
+
+    await t.step(
+      "4. Migrating down reverts the newest migration first",
+      async () => {
+        assertEquals(await migrator.down("Widget."), "Widget.002");
+        assertEquals(
+          (await indexNames(db, "Widget.widgets")).includes("name_1"),
+          false,
+        );
+        assertEquals(await migrator.down("Widget."), "Widget.001");
+        assertEquals(
+          await db.collection("Widget.widgets").countDocuments(),
+          0,
+        );
+        assertEquals(await migrator.down("Widget."), null);
+        assertEquals(
+          (await migrator.status()).every((row) => row.appliedAt === null),
+          true,
+        );
+        console.log("   ✅ Back to where we started");
+      },
+    );
+
+    await t.step(
+      "5. Migrating up without a prefix applies everything",
+      async () => {
+        assertEquals(await migrator.up(), [
+          "Gadget.001",
+          "Widget.001",
+          "Widget.002",
+        ]);
+        console.log("   ✅ All three applied");
+      },
+    );
+
+    console.log("\n🎉 OPERATIONAL PRINCIPLE COMPLETE");
+    console.log("=".repeat(60));
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+    await client.close();
+  }
+});
+
+// ============================================================================
+// --- ERRORS ---
+// ============================================================================
+
+Deno.test("Errors: a migration file without a default export is refused", async () => {
+  const dir = await migrationsDir({
+    "Widget/001_named.ts": "export const migration = {};\n",
+  });
+  try {
+    await assertRejects(
+      () => loadMigrations(dir),
+      Error,
+      "has no default export",
+    );
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("Errors: reverting a migration whose file is gone fails and keeps it recorded", async () => {
+  const [db, client] = await testDb();
+  const dir = await migrationsDir({
+    "Widget/001_seed.ts": seedMigration("Widget.widgets", "Seed a widget"),
+  });
+
+  try {
+    const migrations = await loadMigrations(dir);
+    await new Migrator(db, migrations).up();
+
+    const withoutFile = new Migrator(db, []);
+    await assertRejects(
+      () => withoutFile.down(),
+      Error,
+      "Migration Widget.001 was applied but its file is gone.",
+    );
+    assertEquals(
+      (await new Migrator(db, migrations).status())[0].appliedAt instanceof
+        Date,
+      true,
+    );
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+    await client.close();
+  }
+});
+
+Deno.test("Errors: dropping an index that doesn't exist is not an error", async () => {
+  const [db, client] = await testDb();
+
+  try {
+    // The collection doesn't exist
+    await dropIndex(db, "Widget.widgets", { name: 1 });
+    // The collection exists, but not the index
+    await db.collection("Widget.widgets").insertOne({});
+    await dropIndex(db, "Widget.widgets", { name: 1 });
+    assertEquals(await indexNames(db, "Widget.widgets"), ["_id_"]);
+  } finally {
+    await client.close();
+  }
+});
@@ -0,0 +1,307 @@
+import { assertEquals } from "jsr:@std/assert";
+import {
+  matchesQuery,
+  MAX_QUERY_LENGTH,
+  parseNoteQuery,
+  QueryDocument,
+  queryDocuments,
+  QueryNode,
+} from "@utils/noteQuery.ts";
+
+/**
+ * A note as the query syncs assemble it, with defaults for the fields a test doesn't care about.
+ */
+function noteDocument(
+  _id: string,
+  fields: Partial<QueryDocument>,
+): QueryDocument {
+  return {
+    _id,
+    title: _id,
+    content: "",
+    tags: [],
+    folderId: null,
+    folderPath: null,
+    date_created: new Date("2026-08-01T00:00:00Z"),
+    last_modified: new Date("2026-09-10T00:00:00Z"),
+    ...fields,
+  };
+}
+
+/**
+ * Parses a query that is expected to be valid.
+ */
+function parse(query: string): QueryNode {
+  const parsed = parseNoteQuery(query);
+  if ("error" in parsed) {
+    throw new Error(`"${query}" should parse: ${parsed.error}`);
+  }
+  return parsed.query;
+}
+
+const tag = (label: string): QueryNode => ({ kind: "tag", label });
+const text = (value: string): QueryNode => ({ kind: "text", text: value });
+
+// ============================================================================
+// --- OPERATIONAL PRINCIPLE ---
+// ============================================================================
+
+Deno.test("Principle: A query combines tags, folders, dates and text to pick out notes", async (t) => {
+  console.log("\n🧮 OPERATIONAL PRINCIPLE: Note Query Workflow");
+  console.log("=".repeat(60));
+
+  const notes = [
+    noteDocument("midterm", {
+      tags: ["Exam"],
+      folderPath: ["6.1040", "Week 5"],
+      content: "Covers concept design",
+    }),
+    noteDocument("final", {
+      tags: ["exam", "done"],
+      folderPath: ["6.1040"],
+      content: "Covers concept design",
+    }),
+    noteDocument("other class", {
+      tags: ["exam"],
+      folderPath: ["6.3900"],
+      content: "Covers concept design",
+    }),
+  ];
+
+  let query: QueryNode;
+
+  await t.step("1. The query parses into a tree", () => {
+    query = parse('tag:exam NOT tag:done in:/6.1040 "concept design"');
+    assertEquals(query, {
+      kind: "and",
+      terms: [
+        tag("exam"),
+        { kind: "not", term: tag("done") },
+        { kind: "in", path: ["6.1040"] },
+        text("concept design"),
+      ],
+    });
+    console.log("   ✅ Adjacent terms are ANDed");
+  });
+
+  await t.step("2. Only the matching note is returned", () => {
+    const { results, total } = queryDocuments(notes, query);
+    assertEquals(total, 1);
+    assertEquals(results[0]._id, "midterm");
+    console.log("   ✅ The open 6.1040 exam note matches");
+  });
+
+  console.log("\n🎉 OPERATIONAL PRINCIPLE COMPLETE");
+  console.log("=".repeat(60));
+});
+
+// ============================================================================
+// --- PARSING ---
+// ============================================================================
+
+Deno.test("Parsing: AND binds tighter than OR, and parentheses group", () => {
+  assertEquals(parse("tag:a OR tag:b AND tag:c"), {
+    kind: "or",
+    terms: [tag("a"), { kind: "and", terms: [tag("b"), tag("c")] }],
+  });
+  assertEquals(parse("tag:a tag:b OR tag:c"), {
+    kind: "or",
+    terms: [{ kind: "and", terms: [tag("a"), tag("b")] }, tag("c")],
+  });
+  assertEquals(parse("(tag:a OR tag:b) tag:c"), {
+    kind: "and",
+    terms: [{ kind: "or", terms: [tag("a"), tag("b")] }, tag("c")],
+  });
+  assertEquals(parse("((tag:a))"), tag("a"), "Redundant parentheses vanish.");
+});
+
+Deno.test("Parsing: NOT applies to the next term or group, and nests", () => {
+  assertEquals(parse("NOT tag:a tag:b"), {
+    kind: "and",
+    terms: [{ kind: "not", term: tag("a") }, tag("b")],
+  });
+  assertEquals(parse("NOT (tag:a OR tag:b)"), {
+    kind: "not",
+    term: { kind: "or", terms: [tag("a"), tag("b")] },
+  });
+  assertEquals(parse("NOT NOT tag:a"), {
+    kind: "not",
+    term: { kind: "not", term: tag("a") },
+  });
+
+  const doc = noteDocument("tagged", { tags: ["a"] });
+  assertEquals(matchesQuery(parse("NOT NOT tag:a"), doc), true);
+  assertEquals(matchesQuery(parse("NOT (tag:a OR tag:b)"), doc), false);
+  assertEquals(matchesQuery(parse("NOT tag:b"), doc), true);
+});
+
+Deno.test("Parsing: quotes keep phrases and operator words together as text", () => {
+  assertEquals(parse('"dynamic programming"'), text("dynamic programming"));
+  assertEquals(parse('"NOT"'), text("not"), "Quoted operators are text.");
+  assertEquals(parse('tag:"to do"'), tag("to do"));
+  assertEquals(parse('"a:b"'), text("a:b"), "Quoted colons don't make fields.");
+
+  const doc = noteDocument("phrase", {
+    content: "We used Dynamic Programming here.",
+  });
+  assertEquals(matchesQuery(parse('"dynamic programming"'), doc), true);
+  assertEquals(matchesQuery(parse('"programming dynamic"'), doc), false);
+  assertEquals(
+    matchesQuery(parse("programming dynamic"), doc),
+    true,
+    "Unquoted words only need to appear somewhere.",
+  );
+});
+
+Deno.test("Parsing: operators are only recognized in capitals", () => {
+  assertEquals(parse("cats and dogs"), {
+    kind: "and",
+    terms: [text("cats"), text("and"), text("dogs")],
+  });
+  assertEquals(parse("cats or dogs"), {
+    kind: "and",
+    terms: [text("cats"), text("or"), text("dogs")],
+  });
+  assertEquals(parse("not"), text("not"));
+});
+
+Deno.test("Parsing: malformed queries are rejected with an error", () => {
+  const invalid = [
+    "",
+    "   ",
+    "tag:exam AND",
+    "OR tag:exam",
+    "NOT",
+    "(tag:exam",
+    "tag:exam)",
+    "()",
+    '"unclosed',
+    "tag:",
+    "priority:high",
+    "x".repeat(MAX_QUERY_LENGTH + 1),
+  ];
+  for (const query of invalid) {
+    const parsed = parseNoteQuery(query);
+    assertEquals("error" in parsed, true, `"${query}" should not parse.`);
+  }
+
+  const unknown = parseNoteQuery("priority:high");
+  assertEquals(unknown, {
+    error:
+      'Invalid query: Unknown filter "priority:". Use tag:, in:, modified: or created:.',
+  });
+  assertEquals(
+    parse("Tag:Exam"),
+    tag("exam"),
+    "Field names and values are case-insensitive.",
+  );
+});
+
+Deno.test("Parsing: dates must be real days in YYYY-MM-DD form", () => {
+  for (
+    const value of [
+      "2026-02-30",
+      "2026-13-01",
+      "2026-9-1",
+      "yesterday",
+      ">>2026-09-01",
+      "=<2026-09-01",
+    ]
+  ) {
+    const parsed = parseNoteQuery(`modified:${value}`);
+    assertEquals("error" in parsed, true, `modified:${value} should fail.`);
+  }
+  assertEquals(parseNoteQuery("created:2026-02-30"), {
+    error:
+      'Invalid query: "created:2026-02-30" must be a day like created:>2026-09-01.',
+  });
+  assertEquals(parse("created:2028-02-29"), {
+    kind: "date",
+    field: "created",
+    comparison: "=",
+    day: new Date("2028-02-29T00:00:00Z"),
+  });
+});
+
+Deno.test("Parsing: folder paths are split on slashes and ignore empty parts", () => {
+  assertEquals(parse("in:/6.1040//Week 1/"), {
+    kind: "and",
+    terms: [{ kind: "in", path: ["6.1040"] }, text("1/")],
+  });
+  assertEquals(parse('in:"/6.1040/Week 1/"'), {
+    kind: "in",
+    path: ["6.1040", "week 1"],
+  });
+});
+
+// ============================================================================
+// --- MATCHING ---
+// ============================================================================
+
+Deno.test("Matching: date comparisons are by whole UTC days", () => {
+  const startOfDay = new Date("2026-09-01T00:00:00Z");
+  const endOfDay = new Date("2026-09-01T23:59:59.999Z");
+  const dayBefore = new Date("2026-08-31T23:59:59.999Z");
+  const dayAfter = new Date("2026-09-02T00:00:00Z");
+
+  const expectations: [string, Date, boolean][] = [
+    ["<", dayBefore, true],
+    ["<", startOfDay, false],
+    ["<=", endOfDay, true],
+    ["<=", dayAfter, false],
+    ["=", startOfDay, true],
+    ["=", endOfDay, true],
+    ["=", dayBefore, false],
+    ["=", dayAfter, false],
+    [">=", startOfDay, true],
+    [">=", dayBefore, false],
+    [">", dayAfter, true],
+    [">", endOfDay, false],
+  ];
+  for (const [comparison, last_modified, expected] of expectations) {
+    const query = parse(`modified:${comparison}2026-09-01`);
+    assertEquals(
+      matchesQuery(query, noteDocument("dated", { last_modified })),
+      expected,
+      `${last_modified.toISOString()} ${comparison} 2026-09-01`,
+    );
+  }
+
+  const created = parse("created:<2026-09-01");
+  assertEquals(
+    matchesQuery(created, noteDocument("created", { date_created: dayBefore })),
+    true,
+    "created: compares the creation day, not the last edit.",
+  );
+});
+
+Deno.test("Matching: folder terms match the folder and its subfolders by title prefix", () => {
+  const doc = noteDocument("nested", { folderPath: ["6.1040", "Week 1"] });
+  assertEquals(matchesQuery(parse("in:/6.1040"), doc), true);
+  assertEquals(matchesQuery(parse('in:"/6.1040/week 1"'), doc), true);
+  assertEquals(matchesQuery(parse("in:/Week"), doc), false);
+  assertEquals(matchesQuery(parse("in:/6.104"), doc), false);
+  assertEquals(
+    matchesQuery(parse("in:/6.1040"), noteDocument("loose", {})),
+    false,
+    "Notes in no folder are in none.",
+  );
+});
+
+Deno.test("Matching: results are paged most recently modified first", () => {
+  const notes = Array.from({ length: 5 }, (_, i) =>
+    noteDocument(`note${i}`, {
+      tags: ["exam"],
+      last_modified: new Date(Date.UTC(2026, 8, 1 + i)),
+    }));
+  const query = parse("tag:exam");
+
+  const { results, total } = queryDocuments(notes, query, 2, 2);
+  assertEquals(total, 5);
+  assertEquals(results.map((r) => r._id), ["note2", "note1"]);
+  assertEquals(
+    queryDocuments(notes, query, 0, 0).results.map((r) => r._id),
+    ["note4"],
+    "Page and page size are clamped to at least 1.",
+  );
+});
@@ -6,7 +6,10 @@ import {
 } from "jsr:@std/assert";
 import { testDb } from "@utils/database.ts"; // Assuming @utils/database.ts contains testDb
 import { ID } from "@utils/types.ts"; // Assuming @utils/types.ts contains ID
-import NotesConcept from "../Scriblink/notesConcept.ts"; // Import the concept to be tested
+import NotesConcept, {
+  DiffLine,
+  RevisionStructure,
+} from "../Scriblink/notesConcept.ts"; // Import the concept to be tested
 
 // Define some test User IDs
 const userAlice = "user:Alice" as ID;
@@ -103,11 +106,13 @@ Deno.test("Principle: User can create, view, rename, edit, and delete their own
         "Note details should be retrievable after rename.",
       );
       assertStrictEquals((noteDetails as any).title, "My Renamed Note");
-      // `last_modified` should NOT be updated for setTitle
-      assertStrictEquals(
+      // A rename is an edit like any other: it updates `last_modified` and moves the note to its next revision
+      assertNotEquals(
         (noteDetails as any).last_modified.getTime(),
         initialCreationTime.getTime(),
+        "last_modified should be updated after a rename.",
       );
+      assertStrictEquals((noteDetails as { revision: number }).revision, 2);
       console.log("   ✅ Note renamed successfully: 'My Renamed Note'");
     });
 
@@ -1133,3 +1138,427 @@ Deno.test("Interesting Scenario 5: Note content edge cases and validation", asyn
     await client.close();
   }
 });
+
+Deno.test("Interesting Scenario 6: Revision history, diff and restore", async (t) => {
+  const [db, client] = await testDb();
+  const notesConcept = new NotesConcept(db);
+
+  try {
+    console.log("=== Interesting Scenario 6: Revision History ===");
+
+    const { note: noteId } = (await notesConcept.createNote({
+      title: "Lecture 1",
+      user: userAlice,
+    })) as { note: ID };
+
+    await t.step("Every title and content change is recorded", async () => {
+      await notesConcept.updateContent({
+        noteId,
+        user: userAlice,
+        newContent: "Line A\nLine B",
+      });
+      await notesConcept.updateContent({
+        noteId,
+        user: userAlice,
+        newContent: "Line A\nLine C",
+      });
+      await notesConcept.setTitle({
+        noteId,
+        user: userAlice,
+        newTitle: "Lecture 1 (edited)",
+      });
+      // No-op update should not create a revision
+      await notesConcept.updateContent({
+        noteId,
+        user: userAlice,
+        newContent: "Line A\nLine C",
+      });
+
+      const history = await notesConcept.getNoteRevisions({
+        noteId,
+        user: userAlice,
+      });
+      assertNotEquals("error" in history, true, "History should load.");
+      const { revisions } = history as { revisions: RevisionStructure[] };
+      assertEquals(revisions.length, 4, "Creation + 3 changes.");
+      assertEquals(revisions.map((r) => r.number), [1, 2, 3, 4]);
+      assertEquals(revisions[0].content, "");
+      assertEquals(revisions[3].title, "Lecture 1 (edited)");
+      console.log("✓ 4 revisions recorded");
+    });
+
+    await t.step("Two revisions can be diffed line by line", async () => {
+      const { revisions } = (await notesConcept.getNoteRevisions({
+        noteId,
+        user: userAlice,
+      })) as { revisions: RevisionStructure[] };
+      const diffResult = await notesConcept.diffRevisions({
+        from: revisions[1]._id,
+        to: revisions[2]._id,
+        user: userAlice,
+      });
+      assertNotEquals("error" in diffResult, true, "Diff should succeed.");
+      assertEquals((diffResult as { diff: DiffLine[] }).diff, [
+        { type: "equal", text: "Line A" },
+        { type: "removed", text: "Line B" },
+        { type: "added", text: "Line C" },
+      ]);
+      console.log("✓ Diff computed");
+    });
+
+    await t.step("Restoring a revision creates a new revision", async () => {
+      const { revisions } = (await notesConcept.getNoteRevisions({
+        noteId,
+        user: userAlice,
+      })) as { revisions: RevisionStructure[] };
+      const restoreResult = await notesConcept.restoreRevision({
+        noteId,
+        revisionId: revisions[1]._id,
+        user: userAlice,
+      });
+      assertNotEquals("error" in restoreResult, true, "Restore should work.");
+
+      const note = (await notesConcept.getNoteDetails({
+        noteId,
+        user: userAlice,
+      })) as { title: string; content: string };
+      assertEquals(note.content, "Line A\nLine B");
+      assertEquals(note.title, "Lecture 1");
+
+      const after = (await notesConcept.getNoteRevisions({
+        noteId,
+        user: userAlice,
+      })) as { revisions: RevisionStructure[] };
+      assertEquals(after.revisions.length, 5);
+      assertEquals(after.revisions[4].restoredFrom, revisions[1]._id);
+      console.log("✓ Restore recorded as revision 5");
+    });
+
+    await t.step("Other users cannot read, diff or restore", async () => {
+      const { revisions } = (await notesConcept.getNoteRevisions({
+        noteId,
+        user: userAlice,
+      })) as { revisions: RevisionStructure[] };
+
+      const history = await notesConcept.getNoteRevisions({
+        noteId,
+        user: userBob,
+      });
+      assertEquals(
+        (history as { error: string }).error,
+        `User ${userBob} is not authorized to access/modify note ${noteId}.`,
+      );
+      const diffResult = await notesConcept.diffRevisions({
+        from: revisions[0]._id,
+        to: revisions[1]._id,
+        user: userBob,
+      });
+      assertEquals(
+        (diffResult as { error: string }).error,
+        `User ${userBob} is not authorized to access revision ${
+          revisions[0]._id
+        }.`,
+      );
+      const restoreResult = await notesConcept.restoreRevision({
+        noteId,
+        revisionId: revisions[0]._id,
+        user: userBob,
+      });
+      assertEquals("error" in restoreResult, true);
+      console.log("✓ Revisions are owner-checked");
+    });
+
+    await t.step("deleteRevisions removes the whole history", async () => {
+      await notesConcept.deleteRevisions({ noteId });
+      const history = (await notesConcept.getNoteRevisions({
+        noteId,
+        user: userAlice,
+      })) as { revisions: RevisionStructure[] };
+      assertEquals(history.revisions.length, 0);
+      console.log("✓ History cleared");
+    });
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: trashNote and restoreNote - soft delete keeps the note intact", async () => {
+  const [db, client] = await testDb();
+  const notesConcept = new NotesConcept(db);
+
+  try {
+    const { note: noteId } = (await notesConcept.createNote({
+      title: "Trash me",
+      user: userAlice,
+    })) as { note: ID };
+    await notesConcept.updateContent({
+      noteId,
+      user: userAlice,
+      newContent: "Still here",
+    });
+
+    const bobTrash = await notesConcept.trashNote({ noteId, user: userBob });
+    assertEquals("error" in bobTrash, true, "Only the owner can trash.");
+
+    const trashResult = await notesConcept.trashNote({
+      noteId,
+      user: userAlice,
+    });
+    assertEquals((trashResult as { title: string }).title, "Trash me");
+
+    const listed = (await notesConcept.getNotesByUser({
+      ownerId: userAlice,
+    })) as { notes: { _id: ID }[] };
+    assertEquals(
+      listed.notes.some((n) => n._id === noteId),
+      false,
+      "Trashed notes are hidden from getNotesByUser.",
+    );
+
+    const trashAgain = await notesConcept.trashNote({
+      noteId,
+      user: userAlice,
+    });
+    assertEquals("error" in trashAgain, true, "Cannot trash twice.");
+
+    const restoreResult = await notesConcept.restoreNote({
+      noteId,
+      user: userAlice,
+    });
+    assertEquals((restoreResult as { note: ID }).note, noteId);
+
+    const restored = (await notesConcept.getNoteDetails({
+      noteId,
+      user: userAlice,
+    })) as { content: string; trashed_at?: Date };
+    assertEquals(restored.content, "Still here");
+    assertEquals(restored.trashed_at, undefined);
+
+    const restoreAgain = await notesConcept.restoreNote({
+      noteId,
+      user: userAlice,
+    });
+    assertEquals("error" in restoreAgain, true, "Cannot restore twice.");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: updateContent and setTitle - edits based on an old revision conflict", async () => {
+  const [db, client] = await testDb();
+  const notesConcept = new NotesConcept(db);
+
+  try {
+    const { note: noteId } = (await notesConcept.createNote({
+      title: "Shared draft",
+      user: userAlice,
+    })) as { note: ID };
+
+    // Two tabs open the note at revision 1; the first one saves
+    const firstTab = await notesConcept.updateContent({
+      noteId,
+      user: userAlice,
+      newContent: "Saved from the first tab",
+      expectedRevision: 1,
+    });
+    assertEquals(firstTab, { revision: 2 });
+
+    // The second tab still thinks the note is at revision 1
+    const secondTab = await notesConcept.updateContent({
+      noteId,
+      user: userAlice,
+      newContent: "Saved from the second tab",
+      expectedRevision: 1,
+    });
+    assertEquals(secondTab, {
+      error: "revision_conflict",
+      currentRevision: 2,
+      title: "Shared draft",
+      content: "Saved from the first tab",
+    });
+
+    const staleRename = await notesConcept.setTitle({
+      noteId,
+      user: userAlice,
+      newTitle: "Renamed",
+      expectedRevision: 1,
+    });
+    assertEquals("error" in staleRename, true, "Stale renames conflict too.");
+
+    // The expectation is compared in the update filter, so only revision numbers are accepted
+    for (const expectedRevision of [{ $gte: 0 }, "2", -1, 1.5]) {
+      const invalid = await notesConcept.updateContent({
+        noteId,
+        user: userAlice,
+        newContent: "Injected",
+        expectedRevision: expectedRevision as number,
+      });
+      assertEquals(invalid, {
+        error: "Expected revision must be a non-negative integer.",
+      });
+    }
+
+    // After merging, the second tab saves against the current revision
+    const merged = await notesConcept.updateContent({
+      noteId,
+      user: userAlice,
+      newContent: "Saved from both tabs",
+      expectedRevision: 2,
+    });
+    assertEquals(merged, { revision: 3 });
+
+    const note = (await notesConcept.getNoteDetails({
+      noteId,
+      user: userAlice,
+    })) as { content: string; title: string; revision: number };
+    assertEquals(note.content, "Saved from both tabs");
+    assertEquals(note.title, "Shared draft");
+    assertEquals(note.revision, 3);
+    const [latest] = await notesConcept._getLatestRevision({ noteId });
+    assertEquals(latest.revision, 3);
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: updateContent - notes stored before revisions were kept get their original recorded", async () => {
+  const [db, client] = await testDb();
+  const notesConcept = new NotesConcept(db);
+
+  try {
+    // A note as it was stored before notes had a revision counter or revisions
+    const noteId = "note:legacy" as ID;
+    const legacyNote = {
+      _id: noteId,
+      title: "Old lecture notes",
+      content: "Written long ago",
+      owner: userAlice,
+      date_created: new Date("2025-01-01T00:00:00Z"),
+      last_modified: new Date("2025-01-02T00:00:00Z"),
+    };
+    await db.collection<{ _id: ID }>("Note.notes").insertOne(legacyNote);
+
+    const edited = await notesConcept.updateContent({
+      noteId,
+      user: userAlice,
+      newContent: "Rewritten today",
+    });
+    assertEquals(edited, { revision: 1 });
+
+    const { revisions } = (await notesConcept.getNoteRevisions({
+      noteId,
+      user: userAlice,
+    })) as { revisions: RevisionStructure[] };
+    assertEquals(
+      revisions.map(({ number, content }) => ({ number, content })),
+      [
+        { number: 0, content: "Written long ago" },
+        { number: 1, content: "Rewritten today" },
+      ],
+      "The original content is kept as revision 0.",
+    );
+
+    await notesConcept.setTitle({
+      noteId,
+      user: userAlice,
+      newTitle: "Lecture notes",
+    });
+    const after = (await notesConcept.getNoteRevisions({
+      noteId,
+      user: userAlice,
+    })) as { revisions: RevisionStructure[] };
+    assertEquals(after.revisions.length, 3, "Only the first edit snapshots.");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: diffRevisions - large rewrites are diffed without comparing every pair of lines", async () => {
+  const [db, client] = await testDb();
+  const notesConcept = new NotesConcept(db);
+
+  try {
+    const { note: noteId } = (await notesConcept.createNote({
+      title: "Transcript",
+      user: userAlice,
+    })) as { note: ID };
+
+    const lines = (prefix: string) =>
+      Array.from({ length: 5000 }, (_, i) => `${prefix} line ${i}`);
+    await notesConcept.updateContent({
+      noteId,
+      user: userAlice,
+      newContent: ["Header", ...lines("old"), "Footer"].join("\n"),
+    });
+    await notesConcept.updateContent({
+      noteId,
+      user: userAlice,
+      newContent: ["Header", ...lines("new"), "Footer"].join("\n"),
+    });
+
+    const { revisions } = (await notesConcept.getNoteRevisions({
+      noteId,
+      user: userAlice,
+    })) as { revisions: RevisionStructure[] };
+    const result = (await notesConcept.diffRevisions({
+      from: revisions[1]._id,
+      to: revisions[2]._id,
+      user: userAlice,
+    })) as { diff: DiffLine[] };
+
+    // The shared first and last lines still match; the rewritten middle is replaced as a block
+    assertEquals(result.diff.length, 2 + 5000 + 5000);
+    assertEquals(result.diff[0], { type: "equal", text: "Header" });
+    assertEquals(result.diff[1], { type: "removed", text: "old line 0" });
+    assertEquals(result.diff[5001], { type: "added", text: "new line 0" });
+    assertEquals(result.diff.at(-1), { type: "equal", text: "Footer" });
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: _findByTermPrefix - edits keep the words search looks up current", async () => {
+  const [db, client] = await testDb();
+  const notesConcept = new NotesConcept(db);
+
+  try {
+    const { note: noteId } = (await notesConcept.createNote({
+      title: "Graph theory",
+      user: userAlice,
+    })) as { note: ID };
+    await notesConcept.updateContent({
+      noteId,
+      user: userAlice,
+      newContent: "Dijkstra finds shortest paths.",
+    });
+
+    const find = async (user: ID, term: string) =>
+      (await notesConcept._findByTermPrefix({ user, term })).map((n) =>
+        n.noteId
+      );
+    assertEquals(await find(userAlice, "dijk"), [noteId]);
+    assertEquals(await find(userAlice, "graph"), [noteId]);
+    assertEquals(await find(userAlice, "raph"), [], "Only word starts match.");
+    assertEquals(await find(userBob, "graph"), [], "Only the owner's notes.");
+
+    await notesConcept.setTitle({ noteId, user: userAlice, newTitle: "Trees" });
+    assertEquals(await find(userAlice, "graph"), []);
+    assertEquals(await find(userAlice, "trees"), [noteId]);
+
+    // The stored words are internal, so notes are returned without them
+    const details = await notesConcept.getNoteDetails({
+      noteId,
+      user: userAlice,
+    });
+    assertEquals("searchTerms" in details, false);
+
+    await notesConcept.trashNote({ noteId, user: userAlice });
+    assertEquals(
+      await find(userAlice, "trees"),
+      [],
+      "Trashed notes are left out.",
+    );
+  } finally {
+    await client.close();
+  }
+});
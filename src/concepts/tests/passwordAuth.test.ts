@@ -1,5 +1,5 @@
 import { assertEquals, assertExists, assertNotEquals } from "jsr:@std/assert";
-import { testDb } from "@utils/database.ts"; // Assuming this path is correct based on the example
+import { createConceptIndexes, testDb } from "@utils/database.ts"; // Assuming this path is correct based on the example
 import { ID } from "@utils/types.ts"; // Assuming this path is correct
 import PasswordAuthConcept from "../Scriblink/passwordAuthConcept.ts"; // Path to the concept file
 
@@ -801,3 +801,253 @@ Deno.test("Interesting Scenario 5: Rapid registration and authentication", async
     await client.close();
   }
 });
+
+Deno.test("Interesting Scenario 6: Passwords are salted, and old unsalted hashes are upgraded on login", async () => {
+  const [db, client] = await testDb();
+  const passwordAuth = new PasswordAuthConcept(db);
+
+  try {
+    console.log("\n=== Scenario 6: Salted password hashes ===");
+
+    // Two users with the same password get different hashes
+    const { user: aliceId } = (await passwordAuth.register({
+      username: usernameAlice,
+      password: passwordAlice,
+    })) as { user: ID };
+    const { user: bobId } = (await passwordAuth.register({
+      username: usernameBob,
+      password: passwordAlice,
+    })) as { user: ID };
+    const alice = await passwordAuth.users.findOne({ _id: aliceId });
+    const bob = await passwordAuth.users.findOne({ _id: bobId });
+    assertExists(alice?.passwordSalt, "New users should have a salt.");
+    assertExists(alice?.passwordIterations);
+    assertNotEquals(alice?.passwordSalt, bob?.passwordSalt);
+    assertNotEquals(alice?.passwordHash, bob?.passwordHash);
+    console.log("✓ Same password, different salts and hashes");
+
+    // Simulate a user registered before passwords were salted
+    const legacyHash = Array.from(
+      new Uint8Array(
+        await crypto.subtle.digest(
+          "SHA-256",
+          new TextEncoder().encode(passwordBob),
+        ),
+      ),
+    ).map((b) => b.toString(16).padStart(2, "0")).join("");
+    await passwordAuth.users.updateOne({ _id: bobId }, {
+      $set: { passwordHash: legacyHash },
+      $unset: { passwordSalt: "", passwordIterations: "" },
+    });
+
+    const wrongAuth = await passwordAuth.authenticate({
+      username: usernameBob,
+      password: wrongPassword,
+    });
+    assertEquals("error" in wrongAuth, true);
+    const stillLegacy = await passwordAuth.users.findOne({ _id: bobId });
+    assertEquals(stillLegacy?.passwordSalt, undefined);
+    console.log("✓ Failed login leaves the old hash alone");
+
+    const legacyAuth = await passwordAuth.authenticate({
+      username: usernameBob,
+      password: passwordBob,
+    });
+    assertEquals((legacyAuth as { user: ID }).user, bobId);
+    const upgraded = await passwordAuth.users.findOne({ _id: bobId });
+    assertExists(upgraded?.passwordSalt, "The hash should be upgraded.");
+    assertNotEquals(upgraded?.passwordHash, legacyHash);
+    console.log("✓ Old hash upgraded on successful login");
+
+    const afterUpgrade = await passwordAuth.authenticate({
+      username: usernameBob,
+      password: passwordBob,
+    });
+    assertEquals((afterUpgrade as { user: ID }).user, bobId);
+    console.log("✓ User can still log in after the upgrade");
+
+    console.log("=== Scenario 6 Complete ===");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Interesting Scenario 7: Refresh tokens rotate, reuse revokes the session, and logout ends sessions", async () => {
+  const [db, client] = await testDb();
+  const passwordAuth = new PasswordAuthConcept(db);
+
+  type Tokens = { accessToken: string; refreshToken: string; user: ID };
+
+  try {
+    console.log("\n=== Scenario 7: Sessions and refresh tokens ===");
+
+    const { user: aliceId } = (await passwordAuth.register({
+      username: usernameAlice,
+      password: passwordAlice,
+    })) as { user: ID };
+    const login = (await passwordAuth.authenticate({
+      username: usernameAlice,
+      password: passwordAlice,
+    })) as Tokens;
+    assertExists(login.refreshToken, "Login should issue a refresh token.");
+    assertEquals(
+      await passwordAuth._getUserFromToken({ authToken: login.accessToken }),
+      [{ user: aliceId }],
+    );
+    console.log("✓ Login issues an access token and a refresh token");
+
+    // Refreshing rotates the refresh token
+    const refreshed = (await passwordAuth.refresh({
+      refreshToken: login.refreshToken,
+    })) as Tokens;
+    assertEquals(refreshed.user, aliceId);
+    assertNotEquals(refreshed.refreshToken, login.refreshToken);
+    const [{ accessToken: reminted }] = await passwordAuth
+      ._generateNewAccessToken({ user: aliceId, authToken: login.accessToken });
+    assertEquals(
+      await passwordAuth._getUserFromToken({ authToken: reminted }),
+      [{ user: aliceId }],
+    );
+    console.log("✓ Refresh rotates the token and keeps the session");
+
+    // Reusing the old refresh token revokes the session
+    const reused = await passwordAuth.refresh({
+      refreshToken: login.refreshToken,
+    });
+    assertEquals("error" in reused, true, "Old refresh tokens are rejected.");
+    const afterReuse = await passwordAuth.refresh({
+      refreshToken: refreshed.refreshToken,
+    });
+    assertEquals("error" in afterReuse, true, "The session is revoked.");
+    assertEquals(
+      await passwordAuth._getUserFromToken({
+        authToken: refreshed.accessToken,
+      }),
+      [],
+    );
+    assertEquals(
+      await passwordAuth._generateNewAccessToken({
+        user: aliceId,
+        authToken: refreshed.accessToken,
+      }),
+      [],
+    );
+    console.log("✓ Reuse revokes the whole session");
+
+    // Logout ends one session only
+    const phone = (await passwordAuth.authenticate({
+      username: usernameAlice,
+      password: passwordAlice,
+    })) as Tokens;
+    const laptop = (await passwordAuth.authenticate({
+      username: usernameAlice,
+      password: passwordAlice,
+    })) as Tokens;
+    const logout = await passwordAuth.logout({
+      refreshToken: phone.refreshToken,
+    });
+    assertNotEquals("error" in logout, true);
+    assertEquals(
+      await passwordAuth._getUserFromToken({ authToken: phone.accessToken }),
+      [],
+    );
+    assertEquals(
+      await passwordAuth._getUserFromToken({ authToken: laptop.accessToken }),
+      [{ user: aliceId }],
+    );
+    console.log("✓ Logout ends only its own session");
+
+    // Logging out everywhere ends the rest
+    const everywhere = await passwordAuth.logoutEverywhere({ user: aliceId });
+    assertEquals(everywhere, { revoked: 1 });
+    assertEquals(
+      await passwordAuth._getUserFromToken({ authToken: laptop.accessToken }),
+      [],
+    );
+    const laptopRefresh = await passwordAuth.refresh({
+      refreshToken: laptop.refreshToken,
+    });
+    assertEquals("error" in laptopRefresh, true);
+    console.log("✓ Logout everywhere ends every session");
+
+    console.log("=== Scenario 7 Complete ===");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: deleteAccount - requires the password and removes the user and their sessions", async () => {
+  const [db, client] = await testDb();
+  const passwordAuth = new PasswordAuthConcept(db);
+
+  try {
+    const { user: aliceId } = (await passwordAuth.register({
+      username: usernameAlice,
+      password: passwordAlice,
+    })) as { user: ID };
+    const login = (await passwordAuth.authenticate({
+      username: usernameAlice,
+      password: passwordAlice,
+    })) as { accessToken: string };
+
+    const wrong = await passwordAuth.deleteAccount({
+      user: aliceId,
+      password: wrongPassword,
+    });
+    assertEquals("error" in wrong, true, "The password must be confirmed.");
+    assertEquals(await passwordAuth._countForUser({ user: aliceId }), [{
+      users: 1,
+      sessions: 1,
+    }]);
+
+    const deleted = await passwordAuth.deleteAccount({
+      user: aliceId,
+      password: passwordAlice,
+    });
+    assertEquals(deleted, { user: aliceId });
+    assertEquals(await passwordAuth._countForUser({ user: aliceId }), [{
+      users: 0,
+      sessions: 0,
+    }]);
+    assertEquals(
+      await passwordAuth._getUserFromToken({ authToken: login.accessToken }),
+      [],
+    );
+
+    const again = await passwordAuth.authenticate({
+      username: usernameAlice,
+      password: passwordAlice,
+    });
+    assertEquals("error" in again, true, "Deleted users cannot log in.");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: register - concurrent registrations of one username yield a single user", async () => {
+  const [db, client] = await testDb();
+  await createConceptIndexes(db, [PasswordAuthConcept]);
+  const passwordAuth = new PasswordAuthConcept(db);
+
+  try {
+    const results = await Promise.all([
+      passwordAuth.register({
+        username: usernameAlice,
+        password: passwordAlice,
+      }),
+      passwordAuth.register({ username: usernameAlice, password: passwordBob }),
+    ]);
+    const registered = results.filter((result) => !("error" in result));
+    assertEquals(registered.length, 1, "Only one registration succeeds.");
+    const failed = results.find((result) => "error" in result) as {
+      error: string;
+    };
+    assertEquals(failed.error, `Username '${usernameAlice}' already exists.`);
+    assertEquals(
+      await passwordAuth.users.countDocuments({ username: usernameAlice }),
+      1,
+    );
+  } finally {
+    await client.close();
+  }
+});
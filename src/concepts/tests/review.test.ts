@@ -0,0 +1,186 @@
+import { assertEquals, assertExists } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import { ID } from "@utils/types.ts";
+import ReviewConcept from "../Scriblink/reviewConcept.ts";
+
+const userAlice = "user:Alice" as ID;
+const userBob = "user:Bob" as ID;
+const noteA = "note:A" as ID;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Reviewed = { card: ID; ease: number; interval: number; due: Date };
+
+// ============================================================================
+// --- OPERATIONAL PRINCIPLE ---
+// ============================================================================
+
+Deno.test("Principle: A scheduled note comes back after growing intervals, and starts over when forgotten", async (t) => {
+  const [db, client] = await testDb();
+  const reviewConcept = new ReviewConcept(db);
+
+  try {
+    console.log("\n🧠 OPERATIONAL PRINCIPLE: Spaced Review Workflow");
+    console.log("=".repeat(60));
+
+    await t.step(
+      "1. Alice schedules her note, which is due right away",
+      async () => {
+        const result = await reviewConcept.enroll({
+          user: userAlice,
+          note: noteA,
+        });
+        assertExists((result as { card: ID }).card);
+        const { cards } = (await reviewConcept.getDueToday({
+          user: userAlice,
+        })) as { cards: { note: ID }[] };
+        assertEquals(cards.map((c) => c.note), [noteA]);
+        console.log("   ✅ Note due today");
+      },
+    );
+
+    await t.step(
+      "2. Recalling it well spaces the reviews 1, then 6 days apart",
+      async () => {
+        const first = (await reviewConcept.recordReview({
+          user: userAlice,
+          note: noteA,
+          grade: 5,
+        })) as Reviewed;
+        assertEquals(first.interval, 1);
+        assertEquals(first.ease, 2.6);
+
+        const second = (await reviewConcept.recordReview({
+          user: userAlice,
+          note: noteA,
+          grade: 4,
+        })) as Reviewed;
+        assertEquals(second.interval, 6);
+        assertEquals(second.ease, 2.6);
+        console.log("   ✅ Intervals of 1 and 6 days");
+      },
+    );
+
+    await t.step("3. The next interval grows by the note's ease", async () => {
+      const third = (await reviewConcept.recordReview({
+        user: userAlice,
+        note: noteA,
+        grade: 4,
+      })) as Reviewed;
+      assertEquals(third.interval, Math.round(6 * 2.6));
+      const { cards } = (await reviewConcept.getDueToday({
+        user: userAlice,
+      })) as { cards: unknown[] };
+      assertEquals(cards.length, 0);
+      console.log("   ✅ Interval of 16 days, nothing due today");
+    });
+
+    await t.step("4. Forgetting it brings it back the next day", async () => {
+      const forgotten = (await reviewConcept.recordReview({
+        user: userAlice,
+        note: noteA,
+        grade: 1,
+      })) as Reviewed;
+      assertEquals(forgotten.interval, 1);
+      assertEquals(forgotten.ease < 2.6, true);
+      const delay = forgotten.due.getTime() - Date.now();
+      assertEquals(delay > 0 && delay <= DAY_MS, true);
+      console.log("   ✅ Reset to a 1-day interval");
+    });
+
+    console.log("\n🎉 OPERATIONAL PRINCIPLE COMPLETE");
+    console.log("=".repeat(60));
+  } finally {
+    await client.close();
+  }
+});
+
+// ============================================================================
+// --- ACTIONS ---
+// ============================================================================
+
+Deno.test("Action: enroll refuses a note that is already scheduled", async () => {
+  const [db, client] = await testDb();
+  const reviewConcept = new ReviewConcept(db);
+
+  try {
+    await reviewConcept.enroll({ user: userAlice, note: noteA });
+    const again = await reviewConcept.enroll({ user: userAlice, note: noteA });
+    assertEquals("error" in again, true);
+    assertEquals(await reviewConcept._countForUser({ user: userAlice }), [{
+      reviewCards: 1,
+    }]);
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: recordReview rejects bad grades and other users' cards", async () => {
+  const [db, client] = await testDb();
+  const reviewConcept = new ReviewConcept(db);
+
+  try {
+    await reviewConcept.enroll({ user: userAlice, note: noteA });
+    for (const grade of [-1, 6, 2.5]) {
+      const result = await reviewConcept.recordReview({
+        user: userAlice,
+        note: noteA,
+        grade,
+      });
+      assertEquals("error" in result, true);
+    }
+    const notTheirs = await reviewConcept.recordReview({
+      user: userBob,
+      note: noteA,
+      grade: 5,
+    });
+    assertEquals("error" in notTheirs, true);
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: ease never drops below 1.3", async () => {
+  const [db, client] = await testDb();
+  const reviewConcept = new ReviewConcept(db);
+
+  try {
+    await reviewConcept.enroll({ user: userAlice, note: noteA });
+    let last: Reviewed | undefined;
+    for (let i = 0; i < 10; i++) {
+      last = (await reviewConcept.recordReview({
+        user: userAlice,
+        note: noteA,
+        grade: 0,
+      })) as Reviewed;
+    }
+    assertEquals(last!.ease, 1.3);
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: setEnrollLabel replaces the default label", async () => {
+  const [db, client] = await testDb();
+  const reviewConcept = new ReviewConcept(db);
+
+  try {
+    assertEquals(await reviewConcept._getEnrollLabel({ user: userAlice }), [{
+      label: "review",
+    }]);
+    assertEquals(
+      await reviewConcept.setEnrollLabel({ user: userAlice, label: "exam" }),
+      { label: "exam" },
+    );
+    assertEquals(await reviewConcept._getEnrollLabel({ user: userAlice }), [{
+      label: "exam",
+    }]);
+    const empty = await reviewConcept.setEnrollLabel({
+      user: userAlice,
+      label: "  ",
+    });
+    assertEquals("error" in empty, true);
+  } finally {
+    await client.close();
+  }
+});
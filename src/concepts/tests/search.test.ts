@@ -0,0 +1,301 @@
+import { assertEquals } from "jsr:@std/assert";
+import {
+  indexTerms,
+  MAX_PAGE_SIZE,
+  SearchDocument,
+  searchDocuments,
+  SearchSnippet,
+  termPrefix,
+} from "@utils/search.ts";
+
+/**
+ * A note as the search syncs assemble it, with defaults for the fields a test doesn't care about.
+ */
+function searchDocument(
+  _id: string,
+  fields: Partial<SearchDocument>,
+): SearchDocument {
+  return {
+    _id,
+    title: "",
+    content: "",
+    summary: "",
+    tags: [],
+    folderId: null,
+    last_modified: new Date("2026-09-10T00:00:00Z"),
+    ...fields,
+  };
+}
+
+/**
+ * The highlighted parts of a snippet's text.
+ */
+function highlighted(snippet: SearchSnippet): string[] {
+  return snippet.highlights.map(({ start, end }) =>
+    snippet.text.slice(start, end)
+  );
+}
+
+// ============================================================================
+// --- OPERATIONAL PRINCIPLE ---
+// ============================================================================
+
+Deno.test("Principle: A query finds the notes containing all its words, best matches first", async (t) => {
+  console.log("\n🔍 OPERATIONAL PRINCIPLE: Search Workflow");
+  console.log("=".repeat(60));
+
+  const notes = [
+    searchDocument("titled", {
+      title: "Dynamic programming",
+      content: "Memoize the recursion.",
+    }),
+    searchDocument("mentioned", {
+      title: "Week 3",
+      content: "Today: dynamic programming and greedy algorithms.",
+    }),
+    searchDocument("half", { title: "Dynamic arrays" }),
+  ];
+
+  await t.step("1. Only notes with every word match", () => {
+    const { results, total } = searchDocuments(notes, "dynamic programming");
+    assertEquals(total, 2);
+    assertEquals(results.map((r) => r._id), ["titled", "mentioned"]);
+    console.log("   ✅ The note with only one of the words is left out");
+  });
+
+  await t.step("2. Matches are highlighted in their snippets", () => {
+    const { results } = searchDocuments(notes, "dynamic programming");
+    const [title] = results[0].snippets;
+    assertEquals(title.field, "title");
+    assertEquals(highlighted(title), ["Dynamic", "programming"]);
+    console.log("   ✅ Both words highlighted in the title");
+  });
+
+  console.log("\n🎉 OPERATIONAL PRINCIPLE COMPLETE");
+  console.log("=".repeat(60));
+});
+
+// ============================================================================
+// --- RANKING ---
+// ============================================================================
+
+Deno.test("Ranking: words may match in different fields, but each must match somewhere", () => {
+  const notes = [
+    searchDocument("split", {
+      title: "Graphs",
+      tags: ["exam"],
+      summary: "Shortest paths",
+    }),
+    searchDocument("missing", { title: "Graphs", tags: ["exam"] }),
+  ];
+
+  const { results, total } = searchDocuments(notes, "graphs exam shortest");
+  assertEquals(total, 1);
+  assertEquals(results[0]._id, "split");
+  assertEquals(
+    results[0].snippets.map((s) => s.field),
+    ["title", "tags", "summary"],
+  );
+});
+
+Deno.test("Ranking: title beats tags, tags beat summary, summary beats content", () => {
+  const notes = [
+    searchDocument("content", { content: "recursion" }),
+    searchDocument("summary", { summary: "recursion" }),
+    searchDocument("tags", { tags: ["recursion"] }),
+    searchDocument("title", { title: "recursion" }),
+  ];
+
+  const { results } = searchDocuments(notes, "recursion");
+  assertEquals(results.map((r) => [r._id, r.score]), [
+    ["title", 4],
+    ["tags", 3],
+    ["summary", 2],
+    ["content", 1],
+  ]);
+
+  // Repeats count, but only logarithmically, so a word repeated in the content doesn't outrank the title
+  const repeated = searchDocument("repeated", {
+    content: "recursion ".repeat(10),
+  });
+  const ranked = searchDocuments([repeated, notes[3]], "recursion").results;
+  assertEquals(ranked.map((r) => r._id), ["title", "repeated"]);
+  assertEquals(ranked[1].score, 1 + Math.log(10));
+});
+
+Deno.test("Ranking: equal scores are ordered by most recently modified", () => {
+  const notes = [
+    searchDocument("older", {
+      title: "Heaps",
+      last_modified: new Date("2026-09-01T00:00:00Z"),
+    }),
+    searchDocument("newer", {
+      title: "Heaps",
+      last_modified: new Date("2026-09-02T00:00:00Z"),
+    }),
+  ];
+  assertEquals(
+    searchDocuments(notes, "heaps").results.map((r) => r._id),
+    ["newer", "older"],
+  );
+});
+
+// ============================================================================
+// --- MATCHING ---
+// ============================================================================
+
+Deno.test("Matching: query words match the start of words, ignoring case and punctuation", () => {
+  const notes = [
+    searchDocument("prefix", { title: "Lectures on TREES" }),
+    searchDocument("middle", { title: "Electric circuits" }),
+  ];
+
+  assertEquals(
+    searchDocuments(notes, "lect").results.map((r) => r._id),
+    ["prefix"],
+    "lect should not match inside electric.",
+  );
+  assertEquals(searchDocuments(notes, "Tree!").total, 1);
+  assertEquals(searchDocuments(notes, "trees lectures").total, 1);
+  assertEquals(searchDocuments(notes, "treehouse").total, 0);
+  assertEquals(
+    searchDocuments(notes, "  ?!  "),
+    { results: [], total: 0 },
+    "A query without words finds nothing.",
+  );
+});
+
+Deno.test("Matching: a word counts for every query word it starts with", () => {
+  const notes = [
+    searchDocument("plural", { title: "Lecture notes" }),
+    searchDocument("singular", { title: "One note" }),
+  ];
+
+  // "notes" starts with both "note" and "notes", so it satisfies both
+  const { results, total } = searchDocuments(notes, "note notes");
+  assertEquals(total, 1);
+  assertEquals(results[0]._id, "plural");
+  assertEquals(results[0].score, 2 * 4, "Each query word scores the title.");
+  assertEquals(
+    results[0].snippets[0].highlights,
+    [{ start: 8, end: 13 }],
+    "The word is highlighted once.",
+  );
+  assertEquals(
+    searchDocuments(notes, "notes note").total,
+    1,
+    "The order of the query words doesn't matter.",
+  );
+});
+
+Deno.test("Matching: stored terms and prefix filters agree with the ranking", () => {
+  assertEquals(indexTerms("Lectures on trees", "On TREES, again"), [
+    "lectures",
+    "on",
+    "trees",
+    "again",
+  ]);
+  assertEquals(termPrefix("lect").test("lectures"), true);
+  assertEquals(termPrefix("lect").test("electric"), false);
+  assertEquals(
+    termPrefix("lect").test("Lectures"),
+    false,
+    "Terms are stored lowercase.",
+  );
+});
+
+// ============================================================================
+// --- SNIPPETS ---
+// ============================================================================
+
+Deno.test("Snippets: long fields are cut around the first match, with highlights shifted onto the cut", () => {
+  const before = "a".repeat(100) + " ";
+  const after = " " + "b".repeat(100);
+  const content = before + "pivot" + after;
+  const { results } = searchDocuments(
+    [searchDocument("long", { content })],
+    "pivot",
+  );
+  const [snippet] = results[0].snippets;
+
+  // 60 characters are kept on each side of the match, and an ellipsis marks each cut
+  assertEquals(
+    snippet.text,
+    "…" + content.slice(before.length - 60, before.length + 5 + 60) + "…",
+  );
+  // The leading ellipsis is one character, so the highlight starts at 60 + 1
+  assertEquals(snippet.highlights, [{ start: 61, end: 66 }]);
+  assertEquals(highlighted(snippet), ["pivot"]);
+});
+
+Deno.test("Snippets: matches near the start aren't shifted, and matches outside the window aren't highlighted", () => {
+  const content = "pivot " + "c".repeat(100) + " pivotal";
+  const { results } = searchDocuments(
+    [searchDocument("early", { content })],
+    "pivot",
+  );
+  const [snippet] = results[0].snippets;
+
+  assertEquals(snippet.text, content.slice(0, 65) + "…");
+  assertEquals(snippet.highlights, [{ start: 0, end: 5 }]);
+});
+
+Deno.test("Snippets: titles and tags are shown whole with every match highlighted", () => {
+  const { results } = searchDocuments(
+    [searchDocument("whole", {
+      title: "Sorting, sorted and sort keys",
+      tags: ["algorithms", "sorting"],
+    })],
+    "sort",
+  );
+  const [title, tags] = results[0].snippets;
+  assertEquals(title.text, "Sorting, sorted and sort keys");
+  assertEquals(highlighted(title), ["Sorting", "sorted", "sort"]);
+  assertEquals(tags.text, "algorithms, sorting");
+  assertEquals(highlighted(tags), ["sorting"]);
+});
+
+// ============================================================================
+// --- PAGING ---
+// ============================================================================
+
+Deno.test("Paging: pages split the ranked results and out-of-range values are clamped", () => {
+  const notes = Array.from(
+    { length: 150 },
+    (_, i) =>
+      searchDocument(`note${i}`, {
+        title: "Graphs",
+        // Newer notes first, so note0 ranks first
+        last_modified: new Date(Date.UTC(2026, 8, 1) - i * 60_000),
+      }),
+  );
+
+  const second = searchDocuments(notes, "graphs", 2, 20);
+  assertEquals(second.total, 150);
+  assertEquals(second.results.map((r) => r._id)[0], "note20");
+  assertEquals(second.results.length, 20);
+
+  assertEquals(
+    searchDocuments(notes, "graphs").results.length,
+    20,
+    "Pages hold 20 results by default.",
+  );
+  assertEquals(
+    searchDocuments(notes, "graphs", 1, 1000).results.length,
+    MAX_PAGE_SIZE,
+  );
+  assertEquals(
+    searchDocuments(notes, "graphs", 0, 0).results.map((r) => r._id),
+    ["note0"],
+    "Page 0 is page 1, and a page holds at least one result.",
+  );
+  assertEquals(
+    searchDocuments(notes, "graphs", 2.7, 10.9).results[0]._id,
+    "note10",
+    "Fractional pages and sizes are rounded down.",
+  );
+
+  const past = searchDocuments(notes, "graphs", 100, 20);
+  assertEquals(past.results, []);
+  assertEquals(past.total, 150, "The total is kept past the last page.");
+});
@@ -0,0 +1,169 @@
+import { assertEquals, assertExists, assertNotEquals } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import { ID } from "@utils/types.ts";
+import ShareLinksConcept from "../Scriblink/shareLinksConcept.ts";
+
+const userAlice = "user:Alice" as ID;
+const userBob = "user:Bob" as ID;
+const noteA = "note:A" as ID;
+const folderA = "folder:A" as ID;
+
+type CreatedLink = { link: ID; token: string; expiresAt: Date | null };
+
+// ============================================================================
+// --- OPERATIONAL PRINCIPLE ---
+// ============================================================================
+
+Deno.test("Principle: Owner creates a link, anyone with the token reads the note until it is revoked", async (t) => {
+  const [db, client] = await testDb();
+  const linksConcept = new ShareLinksConcept(db);
+
+  try {
+    console.log("\n🔗 OPERATIONAL PRINCIPLE: Share Link Workflow");
+    console.log("=".repeat(60));
+
+    let created: CreatedLink;
+
+    await t.step("1. Alice creates a link to her note", async () => {
+      created = (await linksConcept.createLink({
+        owner: userAlice,
+        resourceOwner: userAlice,
+        resource: noteA,
+        kind: "note",
+      })) as CreatedLink;
+      assertExists(created.link);
+      assertEquals(created.token.length, 64);
+      assertEquals(created.expiresAt, null);
+      console.log("   ✅ Link created");
+    });
+
+    await t.step("2. The token resolves to the note", async () => {
+      const resolved = await linksConcept.resolveLink({
+        token: created.token,
+      });
+      assertEquals(resolved, {
+        resource: noteA,
+        kind: "note",
+        owner: userAlice,
+      });
+      console.log("   ✅ Token resolved");
+    });
+
+    await t.step("3. Alice lists her links without their tokens", async () => {
+      const { links } = (await linksConcept.getLinks({
+        owner: userAlice,
+      })) as { links: Record<string, unknown>[] };
+      assertEquals(links.length, 1);
+      assertEquals(links[0]._id, created.link);
+      assertEquals("tokenHash" in links[0], false);
+      console.log("   ✅ Links listed");
+    });
+
+    await t.step("4. Once revoked, the token stops working", async () => {
+      assertEquals(
+        await linksConcept.revokeLink({
+          owner: userAlice,
+          link: created.link,
+        }),
+        { link: created.link },
+      );
+      const resolved = await linksConcept.resolveLink({
+        token: created.token,
+      });
+      assertEquals("error" in resolved, true);
+      console.log("   ✅ Revoked link refused");
+    });
+
+    console.log("\n🎉 OPERATIONAL PRINCIPLE COMPLETE");
+    console.log("=".repeat(60));
+  } finally {
+    await client.close();
+  }
+});
+
+// ============================================================================
+// --- ACTIONS ---
+// ============================================================================
+
+Deno.test("Action: createLink is refused for other users' resources and bad expiries", async () => {
+  const [db, client] = await testDb();
+  const linksConcept = new ShareLinksConcept(db);
+
+  try {
+    const notOwner = await linksConcept.createLink({
+      owner: userAlice,
+      resourceOwner: userBob,
+      resource: noteA,
+      kind: "note",
+    });
+    assertEquals("error" in notOwner, true);
+    const badExpiry = await linksConcept.createLink({
+      owner: userAlice,
+      resourceOwner: userAlice,
+      resource: noteA,
+      kind: "note",
+      expiresInDays: -1,
+    });
+    assertEquals("error" in badExpiry, true);
+    assertEquals(await linksConcept._countForUser({ user: userAlice }), [{
+      shareLinks: 0,
+    }]);
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: expired links don't resolve", async () => {
+  const [db, client] = await testDb();
+  const linksConcept = new ShareLinksConcept(db);
+
+  try {
+    const created = (await linksConcept.createLink({
+      owner: userAlice,
+      resourceOwner: userAlice,
+      resource: folderA,
+      kind: "folder",
+      expiresInDays: 7,
+    })) as CreatedLink;
+    assertNotEquals(created.expiresAt, null);
+    assertEquals(
+      await linksConcept.resolveLink({ token: created.token }),
+      { resource: folderA, kind: "folder", owner: userAlice },
+    );
+
+    // Move the expiry into the past
+    await linksConcept.links.updateOne({ _id: created.link }, {
+      $set: { expiresAt: new Date(Date.now() - 1000) },
+    });
+    const resolved = await linksConcept.resolveLink({ token: created.token });
+    assertEquals("error" in resolved, true);
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: revokeLink only accepts the owner's links", async () => {
+  const [db, client] = await testDb();
+  const linksConcept = new ShareLinksConcept(db);
+
+  try {
+    const created = (await linksConcept.createLink({
+      owner: userAlice,
+      resourceOwner: userAlice,
+      resource: noteA,
+      kind: "note",
+    })) as CreatedLink;
+
+    const result = await linksConcept.revokeLink({
+      owner: userBob,
+      link: created.link,
+    });
+    assertEquals("error" in result, true);
+    assertEquals(
+      await linksConcept.resolveLink({ token: created.token }),
+      { resource: noteA, kind: "note", owner: userAlice },
+    );
+  } finally {
+    await client.close();
+  }
+});
@@ -0,0 +1,242 @@
+import { assertEquals, assertExists } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import { ID } from "@utils/types.ts";
+import SharingConcept from "../Scriblink/sharingConcept.ts";
+
+const userAlice = "user:Alice" as ID;
+const userBob = "user:Bob" as ID;
+const userCarol = "user:Carol" as ID;
+const noteA = "note:A" as ID;
+const folderA = "folder:A" as ID;
+const folderB = "folder:B" as ID;
+
+// ============================================================================
+// --- OPERATIONAL PRINCIPLE ---
+// ============================================================================
+
+Deno.test("Principle: Owner shares a folder, the grantee finds it and gets access", async (t) => {
+  const [db, client] = await testDb();
+  const sharingConcept = new SharingConcept(db);
+
+  try {
+    console.log("\n🤝 OPERATIONAL PRINCIPLE: Sharing Workflow");
+    console.log("=".repeat(60));
+
+    await t.step(
+      "1. Alice shares her folder with Bob as a viewer",
+      async () => {
+        const result = await sharingConcept.share({
+          owner: userAlice,
+          resourceOwner: userAlice,
+          resource: folderA,
+          kind: "folder",
+          grantee: userBob,
+          level: "viewer",
+        });
+        assertExists((result as { grant: ID }).grant);
+        console.log("   ✅ Folder shared");
+      },
+    );
+
+    await t.step(
+      "2. Bob finds the folder among the items shared with him",
+      async () => {
+        const { grants } = (await sharingConcept.getSharedWithMe({
+          user: userBob,
+        })) as { grants: { resource: ID; owner: ID; level: string }[] };
+        assertEquals(grants.length, 1);
+        assertEquals(grants[0].resource, folderA);
+        assertEquals(grants[0].owner, userAlice);
+        assertEquals(grants[0].level, "viewer");
+        console.log("   ✅ Shared folder listed");
+      },
+    );
+
+    await t.step(
+      "3. Access on the folder covers what is inside it",
+      async () => {
+        // A note in the folder is checked together with the folders above it
+        const access = await sharingConcept._getAccessLevel({
+          user: userBob,
+          resources: [noteA, folderA],
+        });
+        assertEquals(access, [{ level: "viewer" }]);
+        console.log("   ✅ Viewer access inherited");
+      },
+    );
+
+    await t.step(
+      "4. Alice makes Bob an editor, then stops sharing",
+      async () => {
+        const first = (await sharingConcept.share({
+          owner: userAlice,
+          resourceOwner: userAlice,
+          resource: folderA,
+          kind: "folder",
+          grantee: userBob,
+          level: "editor",
+        })) as { grant: ID };
+        assertEquals(
+          await sharingConcept._getAccessLevel({
+            user: userBob,
+            resources: [folderA],
+          }),
+          [{ level: "editor" }],
+        );
+
+        const removed = await sharingConcept.unshare({
+          owner: userAlice,
+          resource: folderA,
+          grantee: userBob,
+        });
+        assertEquals(removed, { grant: first.grant });
+        assertEquals(
+          await sharingConcept._getAccessLevel({
+            user: userBob,
+            resources: [folderA],
+          }),
+          [],
+        );
+        console.log("   ✅ Level changed and grant removed");
+      },
+    );
+
+    console.log("\n🎉 OPERATIONAL PRINCIPLE COMPLETE");
+    console.log("=".repeat(60));
+  } finally {
+    await client.close();
+  }
+});
+
+// ============================================================================
+// --- ACTIONS ---
+// ============================================================================
+
+Deno.test("Action: share is refused for other users' resources, unknown users and oneself", async () => {
+  const [db, client] = await testDb();
+  const sharingConcept = new SharingConcept(db);
+
+  try {
+    const base = {
+      owner: userAlice,
+      resource: noteA,
+      kind: "note" as const,
+      level: "viewer" as const,
+    };
+    const notOwner = await sharingConcept.share({
+      ...base,
+      resourceOwner: userCarol,
+      grantee: userBob,
+    });
+    assertEquals("error" in notOwner, true);
+    const missing = await sharingConcept.share({
+      ...base,
+      resourceOwner: null,
+      grantee: userBob,
+    });
+    assertEquals("error" in missing, true);
+    const unknownUser = await sharingConcept.share({
+      ...base,
+      resourceOwner: userAlice,
+      grantee: null,
+    });
+    assertEquals("error" in unknownUser, true);
+    const self = await sharingConcept.share({
+      ...base,
+      resourceOwner: userAlice,
+      grantee: userAlice,
+    });
+    assertEquals("error" in self, true);
+
+    assertEquals(await sharingConcept._countForUser({ user: userAlice }), [{
+      grants: 0,
+    }]);
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: the highest level granted along a path wins", async () => {
+  const [db, client] = await testDb();
+  const sharingConcept = new SharingConcept(db);
+
+  try {
+    await sharingConcept.share({
+      owner: userAlice,
+      resourceOwner: userAlice,
+      resource: folderA,
+      kind: "folder",
+      grantee: userBob,
+      level: "editor",
+    });
+    await sharingConcept.share({
+      owner: userAlice,
+      resourceOwner: userAlice,
+      resource: folderB,
+      kind: "folder",
+      grantee: userBob,
+      level: "viewer",
+    });
+
+    assertEquals(
+      await sharingConcept._getAccessLevel({
+        user: userBob,
+        resources: [folderB, folderA],
+      }),
+      [{ level: "editor" }],
+    );
+    // Carol was granted nothing
+    assertEquals(
+      await sharingConcept._getAccessLevel({
+        user: userCarol,
+        resources: [folderB, folderA],
+      }),
+      [],
+    );
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: deleteAllForUser removes grants made by and to the user", async () => {
+  const [db, client] = await testDb();
+  const sharingConcept = new SharingConcept(db);
+
+  try {
+    await sharingConcept.share({
+      owner: userAlice,
+      resourceOwner: userAlice,
+      resource: folderA,
+      kind: "folder",
+      grantee: userBob,
+      level: "viewer",
+    });
+    await sharingConcept.share({
+      owner: userBob,
+      resourceOwner: userBob,
+      resource: folderB,
+      kind: "folder",
+      grantee: userAlice,
+      level: "editor",
+    });
+    await sharingConcept.share({
+      owner: userBob,
+      resourceOwner: userBob,
+      resource: folderB,
+      kind: "folder",
+      grantee: userCarol,
+      level: "viewer",
+    });
+
+    const result = await sharingConcept.deleteAllForUser({ user: userAlice });
+    assertEquals(result, { deleted: 2 });
+    assertEquals(await sharingConcept._countForUser({ user: userAlice }), [{
+      grants: 0,
+    }]);
+    assertEquals(await sharingConcept._countForUser({ user: userCarol }), [{
+      grants: 1,
+    }]);
+  } finally {
+    await client.close();
+  }
+});
@@ -0,0 +1,243 @@
+import { assertEquals } from "jsr:@std/assert";
+import { createConceptIndexes, testDb } from "@utils/database.ts";
+import { ID } from "@utils/types.ts";
+import {
+  parseNoteQuery,
+  QueryDocument,
+  queryDocuments,
+} from "@utils/noteQuery.ts";
+import SmartFoldersConcept from "../Scriblink/smartFoldersConcept.ts";
+
+const userAlice = "user:Alice" as ID;
+const userBob = "user:Bob" as ID;
+
+const EXAM_QUERY = "tag:exam AND NOT tag:done in:/6.1040 modified:>2026-09-01";
+
+/**
+ * A note as the query syncs assemble it, with defaults for the fields a test doesn't care about.
+ */
+function noteDocument(
+  _id: string,
+  fields: Partial<QueryDocument>,
+): QueryDocument {
+  return {
+    _id,
+    title: _id,
+    content: "",
+    tags: [],
+    folderId: null,
+    folderPath: null,
+    date_created: new Date("2026-08-01T00:00:00Z"),
+    last_modified: new Date("2026-09-10T00:00:00Z"),
+    ...fields,
+  };
+}
+
+// ============================================================================
+// --- OPERATIONAL PRINCIPLE ---
+// ============================================================================
+
+Deno.test("Principle: A saved query is listed by name and finds the notes that match it", async (t) => {
+  const [db, client] = await testDb();
+  const smartFoldersConcept = new SmartFoldersConcept(db);
+
+  try {
+    console.log("\n🔎 OPERATIONAL PRINCIPLE: Smart Folder Workflow");
+    console.log("=".repeat(60));
+
+    let smartFolder: ID;
+
+    await t.step(
+      "1. Alice saves her exam query as a smart folder",
+      async () => {
+        const created = await smartFoldersConcept.createSmartFolder({
+          user: userAlice,
+          name: "Open exam notes",
+          query: EXAM_QUERY,
+        });
+        assertEquals("error" in created, false);
+        smartFolder = (created as { smartFolder: ID }).smartFolder;
+        console.log("   ✅ Smart folder created");
+      },
+    );
+
+    await t.step("2. The smart folder is listed with its query", async () => {
+      assertEquals(
+        await smartFoldersConcept._getSmartFolders({ user: userAlice }),
+        [{ smartFolder, name: "Open exam notes", query: EXAM_QUERY }],
+      );
+      assertEquals(
+        await smartFoldersConcept._getSmartFolders({ user: userBob }),
+        [],
+      );
+      console.log("   ✅ Listed for Alice only");
+    });
+
+    await t.step("3. Its query picks out the matching notes", () => {
+      const parsed = parseNoteQuery(EXAM_QUERY);
+      if ("error" in parsed) throw new Error(parsed.error);
+      const notes = [
+        noteDocument("open", {
+          tags: ["Exam"],
+          folderPath: ["6.1040", "Week 1"],
+        }),
+        noteDocument("done", {
+          tags: ["exam", "done"],
+          folderPath: ["6.1040"],
+        }),
+        noteDocument("elsewhere", { tags: ["exam"], folderPath: ["6.3900"] }),
+        noteDocument("old", {
+          tags: ["exam"],
+          folderPath: ["6.1040"],
+          last_modified: new Date("2026-09-01T12:00:00Z"),
+        }),
+      ];
+      const { results, total } = queryDocuments(notes, parsed.query);
+      assertEquals(total, 1);
+      assertEquals(results[0]._id, "open");
+      console.log("   ✅ Only the open exam note in 6.1040 matches");
+    });
+
+    console.log("\n🎉 OPERATIONAL PRINCIPLE COMPLETE");
+    console.log("=".repeat(60));
+  } finally {
+    await client.close();
+  }
+});
+
+// ============================================================================
+// --- ACTIONS ---
+// ============================================================================
+
+Deno.test("Action: createSmartFolder refuses invalid queries and duplicate names", async () => {
+  const [db, client] = await testDb();
+  await createConceptIndexes(db, [SmartFoldersConcept]);
+  const smartFoldersConcept = new SmartFoldersConcept(db);
+
+  try {
+    for (const query of ["", "tag:exam AND", "(tag:exam", "due:tomorrow"]) {
+      const result = await smartFoldersConcept.createSmartFolder({
+        user: userAlice,
+        name: "Broken",
+        query,
+      });
+      assertEquals("error" in result, true, `"${query}" should not parse.`);
+    }
+
+    await smartFoldersConcept.createSmartFolder({
+      user: userAlice,
+      name: "Exams",
+      query: "tag:exam",
+    });
+    const duplicate = await smartFoldersConcept.createSmartFolder({
+      user: userAlice,
+      name: " Exams ",
+      query: "tag:midterm",
+    });
+    assertEquals("error" in duplicate, true, "Names are unique per user.");
+    const bobs = await smartFoldersConcept.createSmartFolder({
+      user: userBob,
+      name: "Exams",
+      query: "tag:exam",
+    });
+    assertEquals("error" in bobs, false, "Bob can use the same name.");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: updateSmartFolder refuses a name used by another of the user's smart folders", async () => {
+  const [db, client] = await testDb();
+  await createConceptIndexes(db, [SmartFoldersConcept]);
+  const smartFoldersConcept = new SmartFoldersConcept(db);
+
+  try {
+    const { smartFolder } = (await smartFoldersConcept.createSmartFolder({
+      user: userAlice,
+      name: "Exams",
+      query: "tag:exam",
+    })) as { smartFolder: ID };
+    await smartFoldersConcept.createSmartFolder({
+      user: userAlice,
+      name: "Midterms",
+      query: "tag:midterm",
+    });
+
+    const taken = await smartFoldersConcept.updateSmartFolder({
+      user: userAlice,
+      smartFolder,
+      name: " Midterms ",
+    });
+    assertEquals("error" in taken, true, "The new name must be unused.");
+    assertEquals(
+      await smartFoldersConcept.updateSmartFolder({
+        user: userAlice,
+        smartFolder,
+        name: "Exams",
+        query: "tag:final",
+      }),
+      { smartFolder },
+      "Keeping its own name is fine.",
+    );
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: updateSmartFolder and deleteSmartFolder only accept the owner's smart folders", async () => {
+  const [db, client] = await testDb();
+  const smartFoldersConcept = new SmartFoldersConcept(db);
+
+  try {
+    const { smartFolder } = (await smartFoldersConcept.createSmartFolder({
+      user: userAlice,
+      name: "Exams",
+      query: "tag:exam",
+    })) as { smartFolder: ID };
+
+    const bobUpdate = await smartFoldersConcept.updateSmartFolder({
+      user: userBob,
+      smartFolder,
+      name: "Mine now",
+    });
+    assertEquals("error" in bobUpdate, true, "Bob should not rename it.");
+    const badQuery = await smartFoldersConcept.updateSmartFolder({
+      user: userAlice,
+      smartFolder,
+      query: "modified:>yesterday",
+    });
+    assertEquals("error" in badQuery, true, "The new query must parse.");
+
+    assertEquals(
+      await smartFoldersConcept.updateSmartFolder({
+        user: userAlice,
+        smartFolder,
+        query: "tag:exam OR tag:midterm",
+      }),
+      { smartFolder },
+    );
+    assertEquals(
+      await smartFoldersConcept._getSmartFolders({ user: userAlice }),
+      [{ smartFolder, name: "Exams", query: "tag:exam OR tag:midterm" }],
+    );
+
+    const bobDelete = await smartFoldersConcept.deleteSmartFolder({
+      user: userBob,
+      smartFolder,
+    });
+    assertEquals("error" in bobDelete, true, "Bob should not delete it.");
+    assertEquals(
+      await smartFoldersConcept.deleteSmartFolder({
+        user: userAlice,
+        smartFolder,
+      }),
+      { smartFolder },
+    );
+    assertEquals(
+      await smartFoldersConcept._countForUser({ user: userAlice }),
+      [{ smartFolders: 0 }],
+    );
+  } finally {
+    await client.close();
+  }
+});
@@ -10,6 +10,7 @@ import { freshID, testDb } from "@utils/database.ts";
 import { ID } from "@utils/types.ts";
 import SummariesConcept from "../Scriblink/summariesConcept.ts";
 import { GeminiLLM } from "../Scriblink/gemini-llm.ts"; // Required to mock its method
+import { ExtractiveLLM } from "../Scriblink/extractive-llm.ts";
 
 // Test data
 const ITEM_ID_1 = freshID();
@@ -299,6 +300,98 @@ Deno.test("Query: getSummary returns an error for non-existent summary", async (
   }
 });
 
+Deno.test("Query: _getSummariesForItems returns only existing summaries", async () => {
+  const [db, client] = await testDb();
+  const concept = new SummariesConcept(db);
+
+  try {
+    await concept.setSummary({
+      item: ITEM_ID_1,
+      summary: SAMPLE_SUMMARY_SHORT,
+    });
+    await concept.setSummary({
+      item: ITEM_ID_2,
+      summary: SAMPLE_SUMMARY_LONG_VALID,
+    });
+
+    const result = await concept._getSummariesForItems({
+      items: [ITEM_ID_1, ITEM_ID_NON_EXISTENT],
+    });
+    assertEquals(
+      result.length,
+      1,
+      "Only the summarized item should be returned.",
+    );
+    assertEquals(result[0]._id, ITEM_ID_1);
+    assertEquals(result[0].summary, SAMPLE_SUMMARY_SHORT);
+
+    const none = await concept._getSummariesForItems({ items: [] });
+    assertEquals(none.length, 0, "No items should yield no summaries.");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: checkStaleness flags summaries whose content changed", async () => {
+  const [db, client] = await testDb();
+  const concept = new SummariesConcept(db, new ExtractiveLLM());
+
+  try {
+    const created = await concept.setSummaryWithAI({
+      text: SAMPLE_TEXT_LONG,
+      item: ITEM_ID_1,
+      revision: 1,
+    });
+    assertNotEquals("error" in created, true, "AI summary should be created.");
+    const doc = created as { source: string; revision: number; stale: boolean };
+    assertEquals(doc.source, "ai");
+    assertEquals(doc.revision, 1);
+    assertEquals(doc.stale, false);
+
+    // Unchanged content keeps the summary fresh
+    const unchanged = await concept.checkStaleness({
+      item: ITEM_ID_1,
+      text: SAMPLE_TEXT_LONG,
+    });
+    assertEquals(unchanged, { stale: false, source: "ai", regenerate: false });
+
+    // Changed content marks it stale
+    const changed = await concept.checkStaleness({
+      item: ITEM_ID_1,
+      text: SAMPLE_TEXT_LONG +
+        " Bell's theorem rules out local hidden variables.",
+    });
+    assertEquals("error" in changed, false);
+    assertEquals((changed as { stale: boolean }).stale, true);
+    const fetched = await concept.getSummary({ item: ITEM_ID_1 });
+    assertEquals((fetched as { stale: boolean }).stale, true);
+
+    // Reverting the content makes it fresh again
+    await concept.checkStaleness({ item: ITEM_ID_1, text: SAMPLE_TEXT_LONG });
+    const reverted = await concept.getSummary({ item: ITEM_ID_1 });
+    assertEquals((reverted as { stale: boolean }).stale, false);
+
+    // Manual summaries without known content are stale after any change, but never regenerated
+    await concept.setSummary({
+      item: ITEM_ID_2,
+      summary: SAMPLE_SUMMARY_SHORT,
+    });
+    const manual = await concept.checkStaleness({
+      item: ITEM_ID_2,
+      text: SAMPLE_TEXT_SHORT,
+    });
+    assertEquals(manual, { stale: true, source: "manual", regenerate: false });
+
+    const missing = await concept.checkStaleness({
+      item: ITEM_ID_NON_EXISTENT,
+      text: SAMPLE_TEXT_SHORT,
+    });
+    assertEquals("error" in missing, true, "Items without a summary error.");
+  } finally {
+    await client.close();
+  }
+});
+
 Deno.test("Action: deleteSummary successfully deletes an existing summary", async () => {
   const [db, client] = await testDb();
   const concept = new SummariesConcept(db);
@@ -406,6 +499,37 @@ Deno.test("Action: setSummaryWithAI successfully generates and saves a summary",
   }
 });
 
+Deno.test("Action: setSummaryWithAI with the offline extractive provider is repeatable", async () => {
+  const [db, client] = await testDb();
+  const concept = new SummariesConcept(db, new ExtractiveLLM());
+
+  try {
+    const first = await concept.setSummaryWithAI({
+      text: SAMPLE_TEXT_LONG,
+      item: ITEM_ID_1,
+    });
+    assertNotEquals(
+      "error" in first,
+      true,
+      "The extractive summary should pass validation.",
+    );
+    const { summary } = first as { _id: ID; summary: string };
+    assertEquals(summary.startsWith("• "), true, "Summary should be bullets.");
+
+    const second = await concept.setSummaryWithAI({
+      text: SAMPLE_TEXT_LONG,
+      item: ITEM_ID_2,
+    });
+    assertEquals(
+      (second as { _id: ID; summary: string }).summary,
+      summary,
+      "The same text should always produce the same summary.",
+    );
+  } finally {
+    await client.close();
+  }
+});
+
 Deno.test("Action: setSummaryWithAI returns error for empty text", async () => {
   const [db, client] = await testDb();
   const concept = new SummariesConcept(db);
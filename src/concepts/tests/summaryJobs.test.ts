@@ -0,0 +1,264 @@
+import { assertEquals, assertExists, assertNotEquals } from "jsr:@std/assert";
+import { freshID, testDb } from "@utils/database.ts";
+import { ID } from "@utils/types.ts";
+import SummaryJobsConcept, {
+  JobStatus,
+} from "../Scriblink/summaryJobsConcept.ts";
+
+const userAlice = "user:Alice" as ID;
+const userBob = "user:Bob" as ID;
+
+const NOTE_TEXT =
+  "Photosynthesis converts light energy into chemical energy stored in glucose.";
+
+type Claimed = { job: ID; item: ID; text: string; revision: number | null };
+type Status = {
+  status: JobStatus;
+  item: ID;
+  attempts: number;
+  lastError: string | null;
+};
+
+// ============================================================================
+// --- OPERATIONAL PRINCIPLE ---
+// ============================================================================
+
+Deno.test("Principle: User queues a summary job, the worker runs it, the user polls it", async (t) => {
+  const [db, client] = await testDb();
+  const jobsConcept = new SummaryJobsConcept(db);
+
+  try {
+    console.log("\n⚙️  OPERATIONAL PRINCIPLE: Summary Job Workflow");
+    console.log("=".repeat(60));
+
+    const note = freshID();
+    let job: ID;
+
+    await t.step(
+      "1. User queues a job and gets its ID right away",
+      async () => {
+        const result = await jobsConcept.enqueue({
+          user: userAlice,
+          item: note,
+          text: NOTE_TEXT,
+          revision: 2,
+        });
+        assertNotEquals("error" in result, true);
+        job = (result as { job: ID }).job;
+        assertExists(job);
+
+        const status = await jobsConcept.getJobStatus({ job, user: userAlice });
+        assertEquals((status as Status).status, "queued");
+        console.log("   ✅ Job queued");
+      },
+    );
+
+    await t.step("2. The worker claims the job", async () => {
+      const claimed = await jobsConcept.claim({});
+      assertEquals(claimed, {
+        job,
+        user: userAlice,
+        item: note,
+        text: NOTE_TEXT,
+        revision: 2,
+      });
+
+      const status = await jobsConcept.getJobStatus({ job, user: userAlice });
+      assertEquals((status as Status).status, "running");
+      assertEquals((status as Status).attempts, 1);
+      console.log("   ✅ Job running");
+    });
+
+    await t.step(
+      "3. The job completes and the user sees it succeeded",
+      async () => {
+        const completed = await jobsConcept.complete({ job });
+        assertEquals(completed, { job });
+
+        const status = await jobsConcept.getJobStatus({ job, user: userAlice });
+        assertEquals(status, {
+          status: "succeeded",
+          item: note,
+          attempts: 1,
+          lastError: null,
+        });
+        console.log("   ✅ Job succeeded");
+      },
+    );
+
+    console.log("\n🎉 OPERATIONAL PRINCIPLE COMPLETE");
+    console.log("=".repeat(60));
+  } finally {
+    await client.close();
+  }
+});
+
+// ============================================================================
+// --- ACTIONS ---
+// ============================================================================
+
+Deno.test("Action: enqueue rejects empty text and reuses a queued job for the same item", async () => {
+  const [db, client] = await testDb();
+  const jobsConcept = new SummaryJobsConcept(db);
+
+  try {
+    const note = freshID();
+    const empty = await jobsConcept.enqueue({
+      user: userAlice,
+      item: note,
+      text: "   ",
+    });
+    assertEquals("error" in empty, true, "Empty text should be rejected.");
+
+    const first = await jobsConcept.enqueue({
+      user: userAlice,
+      item: note,
+      text: "first draft",
+    });
+    const second = await jobsConcept.enqueue({
+      user: userAlice,
+      item: note,
+      text: NOTE_TEXT,
+    });
+    assertEquals(first, second, "The queued job should be reused.");
+
+    const claimed = await jobsConcept.claim({});
+    assertEquals((claimed as Claimed).text, NOTE_TEXT);
+    assertEquals((claimed as Claimed).revision, null);
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: fail retries with backoff, then gives up", async () => {
+  const [db, client] = await testDb();
+  const jobsConcept = new SummaryJobsConcept(db);
+
+  try {
+    const { job } = (await jobsConcept.enqueue({
+      user: userAlice,
+      item: freshID(),
+      text: NOTE_TEXT,
+    })) as { job: ID };
+
+    await jobsConcept.claim({});
+    const firstFailure = await jobsConcept.fail({ job, error: "LLM timeout" });
+    assertEquals(firstFailure, { job, retrying: true });
+
+    // The retry is not due yet
+    const tooEarly = await jobsConcept.claim({});
+    assertEquals("error" in tooEarly, true, "Retry should wait for backoff.");
+    const status = await jobsConcept.getJobStatus({ job, user: userAlice });
+    assertEquals((status as Status).status, "queued");
+    assertEquals((status as Status).lastError, "LLM timeout");
+
+    // Make every remaining attempt due immediately and let it fail
+    let last: { job: ID; retrying: boolean } | { error: string } = {
+      job,
+      retrying: true,
+    };
+    while ("retrying" in last && last.retrying) {
+      await jobsConcept.jobs.updateOne({ _id: job }, {
+        $set: { runAfter: new Date(0) },
+      });
+      await jobsConcept.claim({});
+      last = await jobsConcept.fail({ job, error: "LLM timeout" });
+    }
+
+    const failed = await jobsConcept.getJobStatus({ job, user: userAlice });
+    assertEquals((failed as Status).status, "failed");
+    const idle = await jobsConcept.claim({});
+    assertEquals("error" in idle, true, "Failed jobs are never claimed.");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: claim respects the concurrency limit", async () => {
+  const [db, client] = await testDb();
+  const jobsConcept = new SummaryJobsConcept(db);
+
+  try {
+    for (let i = 0; i < 5; i++) {
+      await jobsConcept.enqueue({
+        user: userAlice,
+        item: freshID(),
+        text: NOTE_TEXT,
+      });
+    }
+
+    const claims = await Promise.all(
+      Array.from({ length: 5 }, () => jobsConcept.claim({})),
+    );
+    const started = claims.filter((c) => !("error" in c));
+    const running = await jobsConcept.jobs.countDocuments({
+      status: "running",
+    });
+    assertEquals(running, started.length);
+    assertEquals(
+      running <= 2,
+      true,
+      "No more than SUMMARY_JOB_CONCURRENCY jobs should run at once.",
+    );
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: requeueStalled and cancelForItem", async () => {
+  const [db, client] = await testDb();
+  const jobsConcept = new SummaryJobsConcept(db);
+
+  try {
+    const stalledItem = freshID();
+    const { job: stalled } = (await jobsConcept.enqueue({
+      user: userAlice,
+      item: stalledItem,
+      text: NOTE_TEXT,
+    })) as { job: ID };
+    await jobsConcept.claim({});
+    await jobsConcept.jobs.updateOne({ _id: stalled }, {
+      $set: { startedAt: new Date(0) },
+    });
+
+    const requeued = await jobsConcept.requeueStalled({});
+    assertEquals(requeued, { jobs: [stalled] });
+
+    await jobsConcept.cancelForItem({ item: stalledItem });
+    const status = await jobsConcept.getJobStatus({
+      job: stalled,
+      user: userAlice,
+    });
+    assertEquals("error" in status, true, "Cancelled jobs are removed.");
+  } finally {
+    await client.close();
+  }
+});
+
+// ============================================================================
+// --- QUERIES ---
+// ============================================================================
+
+Deno.test("Query: getJobStatus only answers the job's owner", async () => {
+  const [db, client] = await testDb();
+  const jobsConcept = new SummaryJobsConcept(db);
+
+  try {
+    const { job } = (await jobsConcept.enqueue({
+      user: userAlice,
+      item: freshID(),
+      text: NOTE_TEXT,
+    })) as { job: ID };
+
+    const forBob = await jobsConcept.getJobStatus({ job, user: userBob });
+    assertEquals("error" in forBob, true, "Other users cannot poll the job.");
+
+    const missing = await jobsConcept.getJobStatus({
+      job: freshID(),
+      user: userAlice,
+    });
+    assertEquals("error" in missing, true, "Unknown jobs should error.");
+  } finally {
+    await client.close();
+  }
+});
@@ -4,9 +4,9 @@ import {
   assertExists,
   assertNotEquals,
 } from "jsr:@std/assert";
-import { testDb } from "../../utils/database.ts";
+import { createConceptIndexes, testDb } from "../../utils/database.ts";
 import { ID } from "../../utils/types.ts";
-import TagConcept from "../Scriblink/tagsConcept.ts"; // Fixed path from "./tags.ts" to "../tags.ts" (assuming tags.ts is one directory up)
+import TagConcept, { PrioritizedItem } from "../Scriblink/tagsConcept.ts"; // Fixed path from "./tags.ts" to "../tags.ts" (assuming tags.ts is one directory up)
 
 // Define some constant IDs for testing, similar to the example
 const userAlice = "user:Alice" as ID;
@@ -453,6 +453,241 @@ Deno.test("Action: removeTagFromItem successfully removes association and enforc
   }
 });
 
+Deno.test("Action: renameTag changes the label, refusing other users and duplicate labels", async () => {
+  const [db, client] = await testDb();
+  await createConceptIndexes(db, [TagConcept]);
+  const tagConcept = new TagConcept(db);
+
+  try {
+    const { tag } = (await tagConcept.addTag({
+      user: userAlice,
+      label: "imporant",
+      item: itemA,
+    })) as { tag: ID };
+    await tagConcept.addTag({ user: userAlice, label: "todo", item: itemB });
+
+    const renamed = await tagConcept.renameTag({
+      user: userAlice,
+      tag,
+      label: "important",
+    });
+    assertEquals(renamed, { tag }, "Alice should be able to fix the typo.");
+    const details = await tagConcept._getTagDetails({ tagId: tag });
+    assertEquals((details as { label: string }).label, "important");
+    assertEquals((details as { items: ID[] }).items, [itemA]);
+
+    const duplicate = await tagConcept.renameTag({
+      user: userAlice,
+      tag,
+      label: "todo",
+    });
+    assertEquals(
+      "error" in duplicate,
+      true,
+      "Renaming onto an existing label should fail.",
+    );
+
+    const notOwner = await tagConcept.renameTag({
+      user: userBob,
+      tag,
+      label: "mine",
+    });
+    assertEquals("error" in notOwner, true, "Bob should not rename it.");
+
+    const empty = await tagConcept.renameTag({
+      user: userAlice,
+      tag,
+      label: "   ",
+    });
+    assertEquals("error" in empty, true, "Empty labels should be refused.");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: mergeTags moves the items into the target and deletes the source", async () => {
+  const [db, client] = await testDb();
+  const tagConcept = new TagConcept(db);
+
+  try {
+    const { tag: source } = (await tagConcept.addTag({
+      user: userAlice,
+      label: "todo",
+      item: itemA,
+    })) as { tag: ID };
+    await tagConcept.addTag({ user: userAlice, label: "todo", item: itemB });
+    const { tag: target } = (await tagConcept.addTag({
+      user: userAlice,
+      label: "to-do",
+      item: itemB,
+    })) as { tag: ID };
+
+    const merged = await tagConcept.mergeTags({
+      user: userAlice,
+      source,
+      target,
+    });
+    assertEquals(merged, { tag: target, added: 1 });
+    const details = await tagConcept._getTagDetails({ tagId: target });
+    assertEquals(
+      [...(details as { items: ID[] }).items].sort(),
+      [itemA, itemB].sort(),
+      "The target should hold both items once.",
+    );
+    const gone = await tagConcept._getTagDetails({ tagId: source });
+    assertEquals("error" in gone, true, "The source tag should be deleted.");
+
+    const self = await tagConcept.mergeTags({
+      user: userAlice,
+      source: target,
+      target,
+    });
+    assertEquals("error" in self, true, "A tag can't merge into itself.");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: deleteTag and setTagColor only accept the owner's tags", async () => {
+  const [db, client] = await testDb();
+  const tagConcept = new TagConcept(db);
+
+  try {
+    const { tag } = (await tagConcept.addTag({
+      user: userAlice,
+      label: "urgent",
+      item: itemC,
+    })) as { tag: ID };
+
+    assertEquals(
+      await tagConcept.setTagColor({ user: userAlice, tag, color: "#FF0000" }),
+      { tag, color: "#ff0000" },
+    );
+    const badColor = await tagConcept.setTagColor({
+      user: userAlice,
+      tag,
+      color: "red",
+    });
+    assertEquals("error" in badColor, true, "Colors must be hex codes.");
+    assertEquals(
+      await tagConcept.setTagColor({ user: userAlice, tag, color: null }),
+      { tag, color: null },
+    );
+
+    const bobDelete = await tagConcept.deleteTag({ user: userBob, tag });
+    assertEquals("error" in bobDelete, true, "Bob should not delete it.");
+    assertEquals(await tagConcept.deleteTag({ user: userAlice, tag }), { tag });
+    assertEquals(await tagConcept._countForUser({ user: userAlice }), [{
+      tags: 0,
+    }]);
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: setTagPriority, setDueDate and markReviewed shape the prioritized items", async () => {
+  const [db, client] = await testDb();
+  const tagConcept = new TagConcept(db);
+
+  try {
+    const { tag: urgent } = (await tagConcept.addTag({
+      user: userAlice,
+      label: "urgent",
+      item: itemA,
+    })) as { tag: ID };
+    const { tag: later } = (await tagConcept.addTag({
+      user: userAlice,
+      label: "later",
+      item: itemA,
+    })) as { tag: ID };
+    await tagConcept.addTag({ user: userAlice, label: "later", item: itemB });
+    await tagConcept.addTag({ user: userAlice, label: "misc", item: itemC });
+
+    assertEquals(
+      await tagConcept.setTagPriority({
+        user: userAlice,
+        tag: urgent,
+        priority: "high",
+      }),
+      { tag: urgent, priority: "high" },
+    );
+    await tagConcept.setTagPriority({
+      user: userAlice,
+      tag: later,
+      priority: "low",
+    });
+    const badPriority = await tagConcept.setTagPriority({
+      user: userAlice,
+      tag: later,
+      priority: "urgent" as "high",
+    });
+    assertEquals("error" in badPriority, true, "Unknown levels are refused.");
+    const bobPriority = await tagConcept.setTagPriority({
+      user: userBob,
+      tag: later,
+      priority: "high",
+    });
+    assertEquals("error" in bobPriority, true, "Bob should not change it.");
+
+    const due = new Date("2030-01-15T00:00:00Z");
+    assertEquals(
+      await tagConcept.setDueDate({
+        user: userAlice,
+        tag: later,
+        item: itemB,
+        dueAt: due.toISOString(),
+      }),
+      { item: itemB, dueAt: due },
+    );
+    const untagged = await tagConcept.setDueDate({
+      user: userAlice,
+      tag: urgent,
+      item: itemB,
+      dueAt: due,
+    });
+    assertEquals("error" in untagged, true, "Only tagged items get due dates.");
+
+    // itemA is listed once, under its highest priority; itemC's tag has no priority
+    let { items } = (await tagConcept.getPrioritizedItems({
+      user: userAlice,
+    })) as { items: PrioritizedItem[] };
+    assertEquals(items.map((entry) => entry.item), [itemA, itemB]);
+    assertEquals(items[0].priority, "high");
+    assertEquals(items[0].labels.sort(), ["later", "urgent"]);
+    assertEquals(items[1].dueAt, due);
+
+    const reviewed = await tagConcept.markReviewed({
+      user: userAlice,
+      item: itemB,
+    });
+    assertEquals("error" in reviewed, false);
+    const notTagged = await tagConcept.markReviewed({
+      user: userBob,
+      item: itemB,
+    });
+    assertEquals("error" in notTagged, true, "Bob has not tagged itemB.");
+
+    ({ items } = (await tagConcept.getPrioritizedItems({
+      user: userAlice,
+    })) as { items: PrioritizedItem[] });
+    const itemBEntry = items.find((entry) => entry.item === itemB)!;
+    assertEquals(
+      itemBEntry.reviewedAt,
+      (reviewed as { reviewedAt: Date }).reviewedAt,
+    );
+    assertEquals(itemBEntry.dueAt, due, "Reviewing keeps the due date.");
+
+    // Untagging drops the item's due date and review along with it
+    await tagConcept.removeTagFromItem({ tag: later, item: itemB });
+    ({ items } = (await tagConcept.getPrioritizedItems({
+      user: userAlice,
+    })) as { items: PrioritizedItem[] });
+    assertEquals(items.map((entry) => entry.item), [itemA]);
+  } finally {
+    await client.close();
+  }
+});
+
 Deno.test("Query: _getItemsByTag retrieves associated items or error", async () => {
   const [db, client] = await testDb();
   const tagConcept = new TagConcept(db);
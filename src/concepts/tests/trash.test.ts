@@ -0,0 +1,239 @@
+import { assertEquals, assertExists, assertNotEquals } from "jsr:@std/assert";
+import { freshID, testDb } from "@utils/database.ts";
+import { ID } from "@utils/types.ts";
+import TrashConcept, { TrashEntry } from "../Scriblink/trashConcept.ts";
+
+const userAlice = "user:Alice" as ID;
+const userBob = "user:Bob" as ID;
+
+// ============================================================================
+// --- OPERATIONAL PRINCIPLE ---
+// ============================================================================
+
+Deno.test("Principle: User trashes an item, then restores it or empties the trash", async (t) => {
+  const [db, client] = await testDb();
+  const trashConcept = new TrashConcept(db);
+
+  try {
+    console.log("\n🗑️  OPERATIONAL PRINCIPLE: Trash Workflow");
+    console.log("=".repeat(60));
+
+    const note = freshID();
+    const folder = freshID();
+    let noteEntry: ID;
+
+    await t.step("1. User trashes a note and a folder", async () => {
+      const noteResult = await trashConcept.trash({
+        user: userAlice,
+        item: note,
+        kind: "note",
+        title: "Lecture 3",
+      });
+      assertNotEquals("error" in noteResult, true);
+      noteEntry = (noteResult as { entry: ID }).entry;
+      assertExists(noteEntry);
+
+      const folderResult = await trashConcept.trash({
+        user: userAlice,
+        item: folder,
+        kind: "folder",
+        title: "6.1040",
+      });
+      assertNotEquals("error" in folderResult, true);
+
+      const { entries } = (await trashConcept.getTrash({
+        user: userAlice,
+      })) as { entries: TrashEntry[] };
+      assertEquals(entries.length, 2);
+      console.log("   ✅ Two items in the trash");
+    });
+
+    await t.step("2. User restores the note", async () => {
+      const restoreResult = await trashConcept.restore({
+        entry: noteEntry,
+        user: userAlice,
+      });
+      assertEquals(restoreResult, { item: note, kind: "note" });
+
+      // The entry stays until the syncs have put the note back
+      const pending = await trashConcept._getEntryForItem({ item: note });
+      assertEquals(pending.length, 1);
+
+      await trashConcept.forgetItem({ item: note });
+      const lookup = await trashConcept._getEntryForItem({ item: note });
+      assertEquals(lookup, []);
+      console.log("   ✅ Note taken out of the trash");
+    });
+
+    await t.step("3. User empties the trash", async () => {
+      const emptyResult = await trashConcept.emptyTrash({ user: userAlice });
+      const { entries } = emptyResult as { entries: TrashEntry[] };
+      assertEquals(entries.length, 1);
+      assertEquals(entries[0].item, folder);
+
+      const after = (await trashConcept.getTrash({
+        user: userAlice,
+      })) as { entries: TrashEntry[] };
+      assertEquals(after.entries.length, 0);
+      console.log("   ✅ Trash emptied");
+    });
+
+    console.log("\n🎉 OPERATIONAL PRINCIPLE COMPLETE");
+    console.log("=".repeat(60));
+  } finally {
+    await client.close();
+  }
+});
+
+// ============================================================================
+// --- GENERAL CONCEPT METHOD TESTING ---
+// ============================================================================
+
+Deno.test("Action: trash - an item can only be trashed once", async () => {
+  const [db, client] = await testDb();
+  const trashConcept = new TrashConcept(db);
+
+  try {
+    const item = freshID();
+    await trashConcept.trash({
+      user: userAlice,
+      item,
+      kind: "note",
+      title: "Once",
+    });
+    const again = await trashConcept.trash({
+      user: userAlice,
+      item,
+      kind: "note",
+      title: "Once",
+    });
+    assertEquals(
+      (again as { error: string }).error,
+      `Item ${item} is already in the trash.`,
+    );
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: restore - requires an existing entry owned by the user", async () => {
+  const [db, client] = await testDb();
+  const trashConcept = new TrashConcept(db);
+
+  try {
+    const { entry } = (await trashConcept.trash({
+      user: userAlice,
+      item: freshID(),
+      kind: "note",
+      title: "Private",
+    })) as { entry: ID };
+
+    const bobRestore = await trashConcept.restore({ entry, user: userBob });
+    assertEquals(
+      (bobRestore as { error: string }).error,
+      `User ${userBob} is not authorized to restore entry ${entry}.`,
+    );
+
+    const fake = "entry:fake" as ID;
+    const missing = await trashConcept.restore({
+      entry: fake,
+      user: userAlice,
+    });
+    assertEquals(
+      (missing as { error: string }).error,
+      `Trash entry with ID ${fake} not found.`,
+    );
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: emptyTrash - only empties the user's own trash", async () => {
+  const [db, client] = await testDb();
+  const trashConcept = new TrashConcept(db);
+
+  try {
+    await trashConcept.trash({
+      user: userAlice,
+      item: freshID(),
+      kind: "note",
+      title: "Alice's",
+    });
+    await trashConcept.trash({
+      user: userBob,
+      item: freshID(),
+      kind: "note",
+      title: "Bob's",
+    });
+
+    await trashConcept.emptyTrash({ user: userAlice });
+
+    const bobTrash = (await trashConcept.getTrash({ user: userBob })) as {
+      entries: TrashEntry[];
+    };
+    assertEquals(bobTrash.entries.length, 1);
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: purgeExpired - removes only entries past the retention period", async () => {
+  const [db, client] = await testDb();
+  const trashConcept = new TrashConcept(db);
+
+  try {
+    const oldItem = freshID();
+    const newItem = freshID();
+    await trashConcept.trash({
+      user: userAlice,
+      item: oldItem,
+      kind: "folder",
+      title: "Old",
+    });
+    await trashConcept.trash({
+      user: userAlice,
+      item: newItem,
+      kind: "note",
+      title: "New",
+    });
+    // Backdate one entry well past the default 30 day retention
+    await trashConcept.entries.updateOne({ item: oldItem }, {
+      $set: { trashedAt: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000) },
+    });
+
+    const { entries } = (await trashConcept.purgeExpired({})) as {
+      entries: TrashEntry[];
+    };
+    assertEquals(entries.map((e) => e.item), [oldItem]);
+
+    const remaining = (await trashConcept.getTrash({ user: userAlice })) as {
+      entries: TrashEntry[];
+    };
+    assertEquals(remaining.entries.map((e) => e.item), [newItem]);
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: forgetItem - drops the entry of a permanently deleted item", async () => {
+  const [db, client] = await testDb();
+  const trashConcept = new TrashConcept(db);
+
+  try {
+    const item = freshID();
+    await trashConcept.trash({
+      user: userAlice,
+      item,
+      kind: "note",
+      title: "Gone",
+    });
+    await trashConcept.forgetItem({ item });
+    assertEquals(await trashConcept._getEntryForItem({ item }), []);
+
+    // Forgetting an item that is not in the trash is a no-op
+    const noop = await trashConcept.forgetItem({ item });
+    assertEquals(noop, {});
+  } finally {
+    await client.close();
+  }
+});
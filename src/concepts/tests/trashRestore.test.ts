@@ -0,0 +1,112 @@
+import { assertEquals } from "jsr:@std/assert";
+import { Logging } from "@engine";
+import { testConcepts } from "@utils/database.ts";
+import { ID } from "@utils/types.ts";
+
+// Restores and reorders go through the syncs, which are bound to the "@concepts" instances,
+// so load those on the test database and register the syncs
+const { client, Engine, Folder, Notes, PasswordAuth, Requesting, Trash } =
+  await testConcepts();
+const { default: syncs } = await import("@syncs");
+Engine.logging = Logging.OFF;
+Engine.register(syncs);
+
+const userAlice = "user:Alice" as ID;
+
+/**
+ * Trashes a note the way the trash request syncs do, returning the note and its entry.
+ */
+async function trashedNote(title: string): Promise<{ note: ID; entry: ID }> {
+  const { note } = (await Notes.createNote({ title, user: userAlice })) as {
+    note: ID;
+  };
+  await Notes.trashNote({ noteId: note, user: userAlice });
+  const { entry } = (await Trash.trash({
+    user: userAlice,
+    item: note,
+    kind: "note",
+    title,
+  })) as { entry: ID };
+  return { note, entry };
+}
+
+// ============================================================================
+// --- OPERATIONAL PRINCIPLE ---
+// ============================================================================
+
+Deno.test("Principle: Trashed notes stay in the trash until restored, without getting in the way of their folder", async (t) => {
+  try {
+    console.log("\n♻️ OPERATIONAL PRINCIPLE: Notes in the Trash");
+    console.log("=".repeat(60));
+
+    await t.step("1. Restoring a trashed note empties its entry", async () => {
+      const { note, entry } = await trashedNote("Lecture 3");
+      assertEquals(await Trash.restore({ entry, user: userAlice }), {
+        item: note,
+        kind: "note",
+      });
+      assertEquals(await Trash._getEntryForItem({ item: note }), []);
+      const details = await Notes._getNoteDetails(note, userAlice);
+      assertEquals("error" in details ? null : details.trashed_at, undefined);
+      console.log("   ✅ Note back and out of the trash");
+    });
+
+    await t.step(
+      "2. When the note can't be restored, its entry stays in the trash",
+      async () => {
+        const { note, entry } = await trashedNote("Lecture 4");
+        // The note was deleted behind the trash's back, so restoring it fails
+        await Notes.notes.deleteOne({ _id: note });
+
+        const result = await Trash.restore({ entry, user: userAlice });
+        assertEquals("error" in result, false);
+        assertEquals(await Trash._getEntryForItem({ item: note }), [{ entry }]);
+        console.log("   ✅ Entry kept after a failed restore");
+      },
+    );
+
+    await t.step(
+      "3. A folder holding a note in the trash can still be reordered",
+      async () => {
+        const { user } = (await PasswordAuth.register({
+          username: "alice",
+          password: "correct horse",
+        })) as { user: ID };
+        const { accessToken } = (await PasswordAuth.authenticate({
+          username: "alice",
+          password: "correct horse",
+        })) as { accessToken: string };
+        const [{ folder }] = await Folder._getRootFolder({ user });
+        const notes: ID[] = [];
+        for (const title of ["First", "Second", "Third"]) {
+          const { note } = (await Notes.createNote({ title, user })) as {
+            note: ID;
+          };
+          await Folder.insertItem({ item: note, folder });
+          notes.push(note);
+        }
+        await Notes.trashNote({ noteId: notes[1], user });
+
+        // The client only sees the notes that aren't in the trash
+        await Requesting.request({
+          path: "/Folder/reorderItems",
+          user,
+          folder,
+          order: [notes[2], notes[0]],
+          authToken: accessToken,
+        });
+        assertEquals(await Folder._getFolderItems({ folderId: folder }), [
+          notes[2],
+          notes[0],
+          notes[1],
+        ]);
+        console.log("   ✅ Trashed note kept after the reordered ones");
+      },
+    );
+
+    console.log("\n🎉 OPERATIONAL PRINCIPLE COMPLETE");
+    console.log("=".repeat(60));
+  } finally {
+    await client.close();
+  }
+});
@@ -0,0 +1,176 @@
+import { assertEquals, assertExists, assertNotEquals } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import { ID } from "@utils/types.ts";
+import UsageConcept, {
+  QuotaWindow,
+  WindowUsage,
+} from "../Scriblink/usageConcept.ts";
+
+const userAlice = "user:Alice" as ID;
+const userBob = "user:Bob" as ID;
+
+type UsageReport = {
+  usage: Record<QuotaWindow, WindowUsage>;
+  promptChars: number;
+  outputChars: number;
+};
+
+// ============================================================================
+// --- OPERATIONAL PRINCIPLE ---
+// ============================================================================
+
+Deno.test("Principle: User's LLM calls are recorded until a quota is reached", async (t) => {
+  const [db, client] = await testDb();
+  const usageConcept = new UsageConcept(db);
+
+  try {
+    console.log("\n📊 OPERATIONAL PRINCIPLE: AI Usage Workflow");
+    console.log("=".repeat(60));
+
+    await t.step("1. A new user is under quota", async () => {
+      const check = await usageConcept.checkQuota({ user: userAlice });
+      assertNotEquals("error" in check, true);
+      console.log("   ✅ Quota available");
+    });
+
+    await t.step("2. Calls are recorded with their sizes", async () => {
+      const result = await usageConcept.recordCall({
+        user: userAlice,
+        kind: "summary",
+        promptChars: 1200,
+        outputChars: 300,
+      });
+      assertExists((result as { call: ID }).call);
+
+      const report = (await usageConcept.getUsage({
+        user: userAlice,
+      })) as UsageReport;
+      assertEquals(report.usage.day.used, 1);
+      assertEquals(report.usage.month.used, 1);
+      assertEquals(report.promptChars, 1200);
+      assertEquals(report.outputChars, 300);
+      console.log("   ✅ Usage reported");
+    });
+
+    await t.step(
+      "3. Reaching the per-minute limit refuses further calls",
+      async () => {
+        const { usage } = (await usageConcept.getUsage({
+          user: userAlice,
+        })) as UsageReport;
+        for (let i = usage.minute.used; i < usage.minute.limit; i++) {
+          await usageConcept.recordCall({
+            user: userAlice,
+            kind: "summary",
+            promptChars: 10,
+            outputChars: 0,
+          });
+        }
+
+        const check = await usageConcept.checkQuota({ user: userAlice });
+        assertEquals("error" in check, true, "Over-quota calls are refused.");
+        const exceeded = check as {
+          error: string;
+          quota: QuotaWindow;
+          limit: number;
+          used: number;
+          resetsAt: Date;
+        };
+        assertEquals(exceeded.error, "quota_exceeded");
+        assertEquals(exceeded.quota, "minute");
+        assertEquals(exceeded.used, exceeded.limit);
+        assertEquals(exceeded.resetsAt > new Date(), true);
+        console.log("   ✅ Structured quota_exceeded error returned");
+      },
+    );
+
+    console.log("\n🎉 OPERATIONAL PRINCIPLE COMPLETE");
+    console.log("=".repeat(60));
+  } finally {
+    await client.close();
+  }
+});
+
+// ============================================================================
+// --- ACTIONS ---
+// ============================================================================
+
+Deno.test("Action: checkQuota only counts the user's own calls", async () => {
+  const [db, client] = await testDb();
+  const usageConcept = new UsageConcept(db);
+
+  try {
+    await usageConcept.recordCall({
+      user: userAlice,
+      kind: "summary",
+      promptChars: 100,
+      outputChars: 20,
+    });
+
+    const check = await usageConcept.checkQuota({ user: userBob });
+    assertNotEquals("error" in check, true);
+    const { usage } = (await usageConcept.getUsage({
+      user: userBob,
+    })) as UsageReport;
+    assertEquals(
+      (check as { remainingToday: number }).remainingToday,
+      usage.day.limit,
+    );
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: calls from earlier months don't count against this month's quota", async () => {
+  const [db, client] = await testDb();
+  const usageConcept = new UsageConcept(db);
+
+  try {
+    await usageConcept.recordCall({
+      user: userAlice,
+      kind: "summary",
+      promptChars: 100,
+      outputChars: 20,
+    });
+    // Move the call back to an earlier month
+    await usageConcept.calls.updateMany({ user: userAlice }, {
+      $set: { at: new Date(Date.UTC(2000, 0, 1)) },
+    });
+
+    const report = (await usageConcept.getUsage({
+      user: userAlice,
+    })) as UsageReport;
+    assertEquals(report.usage.month.used, 0);
+    assertEquals(report.promptChars, 0);
+    assertEquals(report.usage.month.resetsAt > new Date(), true);
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: deleteAllForUser removes only that user's calls", async () => {
+  const [db, client] = await testDb();
+  const usageConcept = new UsageConcept(db);
+
+  try {
+    for (const user of [userAlice, userAlice, userBob]) {
+      await usageConcept.recordCall({
+        user,
+        kind: "summary",
+        promptChars: 100,
+        outputChars: 20,
+      });
+    }
+
+    const result = await usageConcept.deleteAllForUser({ user: userAlice });
+    assertEquals(result, { deleted: 2 });
+    assertEquals(await usageConcept._countForUser({ user: userAlice }), [{
+      usageCalls: 0,
+    }]);
+    assertEquals(await usageConcept._countForUser({ user: userBob }), [{
+      usageCalls: 1,
+    }]);
+  } finally {
+    await client.close();
+  }
+});
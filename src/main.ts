@@ -11,6 +11,8 @@ import * as concepts from "@concepts";
 const { Engine } = concepts;
 import { Logging } from "@engine";
 import { startRequestingServer } from "@concepts/Requesting/RequestingConcept.ts";
+import { startTrashPurge } from "@concepts/Scriblink/trashConcept.ts";
+import { startSummaryJobWorker } from "@concepts/Scriblink/summaryJobsConcept.ts";
 import syncs from "@syncs";
 
 /**
@@ -24,5 +26,11 @@ Engine.logging = Logging.TRACE;
 // Register synchronizations
 Engine.register(syncs);
 
+// Periodically purge expired trash, cascading through the deletion syncs.
+startTrashPurge(concepts.Trash);
+
+// Run queued summary jobs in the background, writing summaries through the job syncs.
+startSummaryJobWorker(concepts.SummaryJobs);
+
 // Start a server to provide the Requesting concept with external/system actions.
 startRequestingServer(concepts);
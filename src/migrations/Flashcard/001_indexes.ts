@@ -0,0 +1,11 @@
+import { indexMigration } from "@utils/migrate.ts";
+
+// Listing the cards of a note, and dropping the cards of a deleted note
+export default indexMigration(
+  "Flashcard.cards",
+  [
+    { keys: { owner: 1, note: 1, createdAt: 1 } },
+    { keys: { note: 1 } },
+  ],
+  "Index flashcards by owner, note and creation time",
+);
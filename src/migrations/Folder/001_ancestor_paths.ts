@@ -0,0 +1,26 @@
+import FolderConcept from "@concepts/Scriblink/folderConcept.ts";
+import { dropIndex, Migration } from "@utils/migrate.ts";
+
+/**
+ * Records the parent and ancestor path of every folder stored before folders kept them,
+ * and creates the indexes that subtree and root folder lookups rely on.
+ * Reverting only drops the indexes, since the concept can't work without the paths.
+ */
+const migration: Migration = {
+  description: "Backfill folder parents and ancestor paths",
+  async up(db) {
+    const folderConcept = new FolderConcept(db);
+    const result = await folderConcept.backfillPaths({});
+    if ("error" in result) {
+      throw new Error(result.error);
+    }
+    await folderConcept.folders.createIndex({ ancestors: 1 });
+    await folderConcept.folders.createIndex({ owner: 1, parent: 1 });
+  },
+  async down(db) {
+    await dropIndex(db, "Folder.folders", { ancestors: 1 });
+    await dropIndex(db, "Folder.folders", { owner: 1, parent: 1 });
+  },
+};
+
+export default migration;
@@ -0,0 +1,8 @@
+import { indexMigration } from "@utils/migrate.ts";
+
+// Finding the folder that holds an item
+export default indexMigration(
+  "Folder.folders",
+  [{ keys: { elements: 1 } }],
+  "Index folders by the items they hold",
+);
@@ -0,0 +1,8 @@
+import { indexMigration } from "@utils/migrate.ts";
+
+// Listing and counting a user's notes
+export default indexMigration(
+  "Note.notes",
+  [{ keys: { owner: 1 } }],
+  "Index notes by owner",
+);
@@ -0,0 +1,11 @@
+import { indexMigration } from "@utils/migrate.ts";
+
+// Latest revision and history lookups, and counting a user's revisions
+export default indexMigration(
+  "Note.revisions",
+  [
+    { keys: { note: 1, number: -1 } },
+    { keys: { owner: 1 } },
+  ],
+  "Index revisions by note and by owner",
+);
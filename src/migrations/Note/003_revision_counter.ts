@@ -0,0 +1,37 @@
+import { Migration } from "@utils/migrate.ts";
+
+/**
+ * Gives every note stored before notes counted their revisions the number of its latest revision,
+ * so edits made with an expected revision compare against the right number.
+ * Notes without any revisions start at 0.
+ */
+const migration: Migration = {
+  description: "Backfill the revision counter of notes",
+  async up(db) {
+    const latest = await db.collection("Note.revisions").aggregate<
+      { _id: string; number: number }
+    >([
+      { $group: { _id: "$note", number: { $max: "$number" } } },
+    ]).toArray();
+    const updates = latest.map(({ _id, number }) => ({
+      updateOne: {
+        filter: { _id, revision: { $exists: false } },
+        update: { $set: { revision: number } },
+      },
+    }));
+    if (updates.length > 0) {
+      await db.collection<{ _id: string }>("Note.notes").bulkWrite(updates);
+    }
+    await db.collection("Note.notes").updateMany(
+      { revision: { $exists: false } },
+      { $set: { revision: 0 } },
+    );
+  },
+  async down(db) {
+    await db.collection("Note.notes").updateMany({}, {
+      $unset: { revision: "" },
+    });
+  },
+};
+
+export default migration;
@@ -0,0 +1,54 @@
+import { freshID } from "@utils/database.ts";
+import { Migration } from "@utils/migrate.ts";
+
+/**
+ * Records the current title and content of every note that has no revisions yet,
+ * so notes stored before revisions were kept can be restored to how they were before their next edit.
+ * The snapshot gets the note's current revision number, which is 0 for those notes after `Note.003`.
+ */
+const migration: Migration = {
+  description: "Snapshot notes that have no revisions",
+  async up(db) {
+    const recorded = new Set(
+      await db.collection("Note.revisions").distinct("note"),
+    );
+    const notes = await db.collection<{
+      _id: string;
+      title: string;
+      content: string;
+      owner: string;
+      last_modified: Date;
+      revision?: number;
+    }>("Note.notes").find({}, {
+      projection: {
+        title: 1,
+        content: 1,
+        owner: 1,
+        last_modified: 1,
+        revision: 1,
+      },
+    }).toArray();
+    const snapshots = notes
+      .filter((note) => !recorded.has(note._id))
+      .map((note) => ({
+        _id: freshID(),
+        note: note._id,
+        owner: note.owner,
+        number: note.revision ?? 0,
+        title: note.title,
+        content: note.content,
+        created: note.last_modified,
+      }));
+    if (snapshots.length > 0) {
+      await db.collection<{ _id: string }>("Note.revisions").insertMany(
+        snapshots,
+      );
+    }
+  },
+  async down(db) {
+    // Only snapshots of notes from before revisions were kept are numbered 0
+    await db.collection("Note.revisions").deleteMany({ number: 0 });
+  },
+};
+
+export default migration;
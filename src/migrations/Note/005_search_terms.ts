@@ -0,0 +1,34 @@
+import { Migration } from "@utils/migrate.ts";
+import { indexTerms } from "@utils/search.ts";
+
+/**
+ * Stores the words of every note stored before notes kept them,
+ * so search finds those notes without waiting for their next edit.
+ */
+const migration: Migration = {
+  description: "Backfill the search terms of notes",
+  async up(db) {
+    const notes = await db.collection<
+      { _id: string; title: string; content: string }
+    >("Note.notes").find(
+      { searchTerms: { $exists: false } },
+      { projection: { title: 1, content: 1 } },
+    ).toArray();
+    const updates = notes.map(({ _id, title, content }) => ({
+      updateOne: {
+        filter: { _id },
+        update: { $set: { searchTerms: indexTerms(title, content) } },
+      },
+    }));
+    if (updates.length > 0) {
+      await db.collection<{ _id: string }>("Note.notes").bulkWrite(updates);
+    }
+  },
+  async down(db) {
+    await db.collection("Note.notes").updateMany({}, {
+      $unset: { searchTerms: "" },
+    });
+  },
+};
+
+export default migration;
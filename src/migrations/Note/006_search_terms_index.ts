@@ -0,0 +1,8 @@
+import { indexMigration } from "@utils/migrate.ts";
+
+// Finding a user's notes that contain a word starting with a search term
+export default indexMigration(
+  "Note.notes",
+  [{ keys: { owner: 1, searchTerms: 1 } }],
+  "Index notes by owner and search term",
+);
@@ -0,0 +1,8 @@
+import { indexMigration } from "@utils/migrate.ts";
+
+// Logging in by username; usernames are unique
+export default indexMigration(
+  "PasswordAuth.users",
+  [{ keys: { username: 1 }, options: { unique: true } }],
+  "Index users by unique username",
+);
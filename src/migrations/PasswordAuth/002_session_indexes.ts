@@ -0,0 +1,8 @@
+import { indexMigration } from "@utils/migrate.ts";
+
+// Revoking and deleting a user's sessions
+export default indexMigration(
+  "PasswordAuth.sessions",
+  [{ keys: { user: 1 } }],
+  "Index sessions by user",
+);
@@ -0,0 +1,12 @@
+import { indexMigration } from "@utils/migrate.ts";
+
+// Listing the cards due for a user, and finding the card of a note
+export default indexMigration(
+  "Review.cards",
+  [
+    { keys: { owner: 1, note: 1 }, options: { unique: true } },
+    { keys: { owner: 1, due: 1 } },
+    { keys: { note: 1 } },
+  ],
+  "Index review cards by owner, due date and note",
+);
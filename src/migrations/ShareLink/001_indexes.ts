@@ -0,0 +1,12 @@
+import { indexMigration } from "@utils/migrate.ts";
+
+// Resolving a token, listing a user's links, and dropping the links to a deleted resource
+export default indexMigration(
+  "ShareLink.links",
+  [
+    { keys: { tokenHash: 1 }, options: { unique: true } },
+    { keys: { owner: 1, createdAt: -1 } },
+    { keys: { resource: 1 } },
+  ],
+  "Index share links by token, owner and resource",
+);
@@ -0,0 +1,12 @@
+import { indexMigration } from "@utils/migrate.ts";
+
+// One grant per resource and grantee, and listing grants by grantee or owner
+export default indexMigration(
+  "Sharing.grants",
+  [
+    { keys: { resource: 1, grantee: 1 }, options: { unique: true } },
+    { keys: { grantee: 1 } },
+    { keys: { owner: 1 } },
+  ],
+  "Index sharing grants by resource, grantee and owner",
+);
@@ -0,0 +1,8 @@
+import { indexMigration } from "@utils/migrate.ts";
+
+// Keeping smart folder names unique for each user
+export default indexMigration(
+  "SmartFolder.smartFolders",
+  [{ keys: { owner: 1, name: 1 }, options: { unique: true } }],
+  "Index smart folders by owner and name",
+);
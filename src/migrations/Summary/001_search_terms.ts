@@ -0,0 +1,36 @@
+import { Migration } from "@utils/migrate.ts";
+import { indexTerms } from "@utils/search.ts";
+
+/**
+ * Stores the words of every summary written before summaries kept them,
+ * so search finds notes by their summary without waiting for it to be rewritten.
+ */
+const migration: Migration = {
+  description: "Backfill the search terms of summaries",
+  async up(db) {
+    const summaries = await db.collection<{ _id: string; summary: string }>(
+      "Summary.summaries",
+    ).find(
+      { searchTerms: { $exists: false } },
+      { projection: { summary: 1 } },
+    ).toArray();
+    const updates = summaries.map(({ _id, summary }) => ({
+      updateOne: {
+        filter: { _id },
+        update: { $set: { searchTerms: indexTerms(summary) } },
+      },
+    }));
+    if (updates.length > 0) {
+      await db.collection<{ _id: string }>("Summary.summaries").bulkWrite(
+        updates,
+      );
+    }
+  },
+  async down(db) {
+    await db.collection("Summary.summaries").updateMany({}, {
+      $unset: { searchTerms: "" },
+    });
+  },
+};
+
+export default migration;
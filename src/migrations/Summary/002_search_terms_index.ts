@@ -0,0 +1,8 @@
+import { indexMigration } from "@utils/migrate.ts";
+
+// Finding the summaries that contain a word starting with a search term
+export default indexMigration(
+  "Summary.summaries",
+  [{ keys: { searchTerms: 1 } }],
+  "Index summaries by search term",
+);
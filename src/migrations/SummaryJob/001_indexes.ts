@@ -0,0 +1,12 @@
+import { indexMigration } from "@utils/migrate.ts";
+
+// Claiming due jobs, reusing an item's queued job, and listing a user's jobs
+export default indexMigration(
+  "SummaryJob.jobs",
+  [
+    { keys: { status: 1, runAfter: 1 } },
+    { keys: { item: 1, status: 1 } },
+    { keys: { owner: 1 } },
+  ],
+  "Index summary jobs by status, item and owner",
+);
@@ -0,0 +1,11 @@
+import { indexMigration } from "@utils/migrate.ts";
+
+// Finding a user's tag by label, which is unique per user, and the tags of an item
+export default indexMigration(
+  "Tag.tags",
+  [
+    { keys: { owner: 1, label: 1 }, options: { unique: true } },
+    { keys: { items: 1 } },
+  ],
+  "Index tags by unique owner and label, and by item",
+);
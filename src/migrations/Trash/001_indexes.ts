@@ -0,0 +1,12 @@
+import { indexMigration } from "@utils/migrate.ts";
+
+// Listing a user's trash, finding an item's entry, and purging expired entries
+export default indexMigration(
+  "Trash.entries",
+  [
+    { keys: { owner: 1, trashedAt: -1 } },
+    { keys: { item: 1 } },
+    { keys: { trashedAt: 1 } },
+  ],
+  "Index trash entries by owner, item and age",
+);
@@ -0,0 +1,8 @@
+import { indexMigration } from "@utils/migrate.ts";
+
+// Counting a user's calls in each quota window
+export default indexMigration(
+  "Usage.calls",
+  [{ keys: { user: 1, at: 1 } }],
+  "Index usage calls by user and time",
+);
@@ -4,15 +4,50 @@
  */
 
 import {
+  Flashcards,
   Folder,
   Notes,
   PasswordAuth,
   Requesting,
+  Review,
+  ShareLinks,
+  Sharing,
+  SmartFolders,
   Summaries,
+  SummaryJobs,
   Tags,
+  Trash,
+  Usage,
 } from "@concepts";
 import { actions, Frames, Sync } from "@engine";
 import { ID } from "@utils/types.ts";
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  SearchDocument,
+  searchDocuments,
+  tokenize,
+} from "@utils/search.ts";
+import type {
+  FolderStructure,
+  FolderTreeNode,
+} from "@concepts/Scriblink/folderConcept.ts";
+import {
+  parseNoteQuery,
+  QueryDocument,
+  queryDocuments,
+} from "@utils/noteQuery.ts";
+import type { LinkKind } from "@concepts/Scriblink/shareLinksConcept.ts";
+import type { CardDocument } from "@concepts/Scriblink/reviewConcept.ts";
+import {
+  type PrioritizedItem,
+  priorityRank,
+} from "@concepts/Scriblink/tagsConcept.ts";
+import type {
+  AccessLevel,
+  GrantDocument,
+  ResourceKind,
+} from "@concepts/Scriblink/sharingConcept.ts";
 
 /***********************************************************************************/
 /********************************** System Syncs **********************************/
@@ -92,6 +127,252 @@ export const DeleteSummaryOnNoteDeletion: Sync = ({ noteId, user }) => ({
   ]),
 });
 
+/**
+ * When a note's content changes, check whether its summary still matches.
+ * The content is read back from the latest revision, so failed updates change nothing.
+ */
+export const CheckSummaryStalenessOnContentUpdate: Sync = ({
+  noteId,
+  content,
+}) => ({
+  when: actions([
+    Notes.updateContent,
+    { noteId },
+    {},
+  ]),
+  where: async (frames) => {
+    return await frames.query(
+      Notes._getLatestRevision,
+      { noteId },
+      { content },
+    );
+  },
+  then: actions([
+    Summaries.checkStaleness,
+    { item: noteId, text: content },
+  ]),
+});
+
+/**
+ * When a note is restored to an earlier revision, check whether its summary still matches
+ */
+export const CheckSummaryStalenessOnRevisionRestore: Sync = ({
+  noteId,
+  revision,
+  content,
+}) => ({
+  when: actions([
+    Notes.restoreRevision,
+    { noteId },
+    { revision },
+  ]),
+  where: async (frames) => {
+    return await frames.query(
+      Notes._getLatestRevision,
+      { noteId },
+      { content },
+    );
+  },
+  then: actions([
+    Summaries.checkStaleness,
+    { item: noteId, text: content },
+  ]),
+});
+
+/**
+ * When an AI summary goes stale and auto-refresh is enabled, queue a job to regenerate it.
+ * Manual summaries are never regenerated, so user edits are not overwritten.
+ */
+export const RegenerateStaleAISummary: Sync = ({
+  item,
+  text,
+  owner,
+}) => ({
+  when: actions([
+    Summaries.checkStaleness,
+    { item, text },
+    { regenerate: true },
+  ]),
+  where: async (frames) => {
+    return await frames.query(
+      Notes._getLatestRevision,
+      { noteId: item },
+      { owner },
+    );
+  },
+  then: actions([
+    Usage.checkQuota,
+    { user: owner },
+  ]),
+});
+
+/**
+ * Once the owner's AI quota allows it, queue the job that regenerates their stale summary.
+ * Over-quota owners keep the stale summary until they regenerate it themselves.
+ */
+export const RegenerateStaleAISummaryChainToQueue: Sync = ({
+  item,
+  text,
+  revision,
+  owner,
+  remainingToday,
+}) => ({
+  when: actions(
+    [Summaries.checkStaleness, { item, text }, { regenerate: true }],
+    [Usage.checkQuota, { user: owner }, { remainingToday }],
+  ),
+  where: async (frames) => {
+    return await bindLatestRevision(frames, item, revision);
+  },
+  then: actions([
+    SummaryJobs.enqueue,
+    { user: owner, item, text, revision },
+  ]),
+});
+
+/**
+ * When the job worker claims a summary job, check the owner's AI quota again.
+ * Enqueueing checked it too, but queued jobs and their retries may have used it up since.
+ */
+export const CheckQuotaForClaimedSummaryJob: Sync = ({ user }) => ({
+  when: actions([
+    SummaryJobs.claim,
+    {},
+    { user },
+  ]),
+  then: actions([
+    Usage.checkQuota,
+    { user },
+  ]),
+});
+
+/**
+ * When the owner of a claimed summary job is still within their quota, run the LLM on the job's content
+ */
+export const RunClaimedSummaryJob: Sync = ({
+  item,
+  text,
+  revision,
+  remainingToday,
+}) => ({
+  when: actions(
+    [SummaryJobs.claim, {}, { item, text, revision }],
+    [Usage.checkQuota, {}, { remainingToday }],
+  ),
+  then: actions([
+    Summaries.setSummaryWithAI,
+    { item, text, revision },
+  ]),
+});
+
+/**
+ * When the owner of a claimed summary job is over quota, record the attempt as failed without calling the LLM
+ */
+export const FailOverQuotaSummaryJob: Sync = ({ job, error }) => ({
+  when: actions(
+    [SummaryJobs.claim, {}, { job }],
+    [Usage.checkQuota, {}, { error }],
+  ),
+  then: actions([SummaryJobs.fail, { job, error }]),
+});
+
+/**
+ * When a claimed job's summary has been written, mark the job succeeded
+ */
+export const CompleteSummaryJob: Sync = ({ job, summary }) => ({
+  when: actions(
+    [SummaryJobs.claim, {}, { job }],
+    [Summaries.setSummaryWithAI, {}, { summary }],
+  ),
+  then: actions([SummaryJobs.complete, { job }]),
+});
+
+/**
+ * When a claimed job's summary could not be generated, record the failure so it is retried
+ */
+export const FailSummaryJob: Sync = ({ job, error }) => ({
+  when: actions(
+    [SummaryJobs.claim, {}, { job }],
+    [Summaries.setSummaryWithAI, {}, { error }],
+  ),
+  then: actions([SummaryJobs.fail, { job, error }]),
+});
+
+/**
+ * Record every LLM call a summary job makes against the job owner's AI usage.
+ * Failed calls are recorded too, since they spend credits as well.
+ */
+export const RecordSummaryJobUsage: Sync = ({
+  user,
+  text,
+  summary,
+  promptChars,
+  outputChars,
+}) => ({
+  when: actions(
+    [SummaryJobs.claim, {}, { user }],
+    [Summaries.setSummaryWithAI, { text }, { summary }],
+  ),
+  where: (frames) =>
+    bindCallSize(frames, text, summary, promptChars, outputChars),
+  then: actions([Usage.recordCall, {
+    user,
+    kind: "summary",
+    promptChars,
+    outputChars,
+  }]),
+});
+
+export const RecordFailedSummaryJobUsage: Sync = ({
+  user,
+  text,
+  error,
+  promptChars,
+  outputChars,
+}) => ({
+  when: actions(
+    [SummaryJobs.claim, {}, { user }],
+    [Summaries.setSummaryWithAI, { text }, { error }],
+  ),
+  where: (frames) => bindCallSize(frames, text, null, promptChars, outputChars),
+  then: actions([Usage.recordCall, {
+    user,
+    kind: "summary",
+    promptChars,
+    outputChars,
+  }]),
+});
+
+/**
+ * When a note is deleted, drop its queued summary jobs
+ */
+export const CancelSummaryJobsOnNoteDeletion: Sync = ({ noteId, user }) => ({
+  when: actions([
+    Notes.deleteNote,
+    { noteId, user },
+    {},
+  ]),
+  then: actions([
+    SummaryJobs.cancelForItem,
+    { item: noteId },
+  ]),
+});
+
+/**
+ * When a note is deleted, also delete its revision history
+ */
+export const DeleteRevisionsOnNoteDeletion: Sync = ({ noteId, user }) => ({
+  when: actions([
+    Notes.deleteNote,
+    { noteId, user },
+    {},
+  ]),
+  then: actions([
+    Notes.deleteRevisions,
+    { noteId },
+  ]),
+});
+
 /**
  * When a note is created, initialize it in the folder it's in and update its content
  */
@@ -156,159 +437,473 @@ export const deleteChildNotes: Sync = ({
   ]),
 });
 
-/********************************* Get User Notes System Sync **********************************/
+/********************************* Trash System Sync **********************************/
 /**
- * System sync that chains: getNotesByUser -> getAllFolders -> getAllUserTags (if needed)
- * Then processes the data to map notes to folders and filter by folderId/tagLabel
+ * Deleting a note or folder moves it to the trash instead of deleting it.
+ * These syncs record trash entries, hide or reveal everything inside trashed folders,
+ * and hard-delete items (through the existing deletion cascades) when the trash is purged.
  */
 
-export const GetUserNotesRequest: Sync = ({
-  request,
-  user,
-  authToken,
-  authenticatedUser,
-}) => ({
-  when: actions([Requesting.request, {
-    path: "/Notes/getUserNotes",
-    user,
-    authToken,
-  }, { request }]),
-  where: async (frames) => {
-    return await authenticateRequest(
-      frames,
-      authToken,
-      user,
-      authenticatedUser,
-    );
-  },
-  then: actions([Notes.getNotesByUser, { ownerId: user }, {}]),
+/**
+ * When a note is trashed through a request, record it in the user's trash
+ */
+export const RecordTrashedNote: Sync = ({ request, user, noteId, title }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Notes/deleteNote", user, noteId }, {
+      request,
+    }],
+    [Notes.trashNote, { noteId }, { title }],
+  ),
+  then: actions([
+    Trash.trash,
+    { user, item: noteId, kind: "note", title },
+  ]),
 });
 
-export const GetUserNotesChainToFolders: Sync = ({
+/**
+ * When a folder is trashed through a request, record it in the user's trash
+ */
+export const RecordTrashedFolder: Sync = ({
   request,
   user,
-  notes,
+  folderId,
+  title,
 }) => ({
   when: actions(
-    [Requesting.request, { path: "/Notes/getUserNotes", user }, { request }],
-    [Notes.getNotesByUser, {}, { notes }],
+    [Requesting.request, { path: "/Folder/deleteFolder", user, folderId }, {
+      request,
+    }],
+    [Folder.trashFolder, { f: folderId }, { title }],
   ),
-  then: actions([Folder.getAllFolders, { user }, {}]),
+  then: actions([
+    Trash.trash,
+    { user, item: folderId, kind: "folder", title },
+  ]),
 });
 
-export const GetUserNotesChainToTags: Sync = ({
-  request,
+/**
+ * When a folder is trashed, hide the notes inside its subtree as well
+ */
+export const TrashNotesInTrashedFolder: Sync = ({
   user,
-  notes,
-  folders,
+  trashedItems,
+  note,
 }) => ({
+  when: actions([
+    Folder.trashFolder,
+    { user },
+    { trashedItems },
+  ]),
+  where: (frames) => expandItems(frames, trashedItems, note),
+  then: actions([
+    Notes.trashNote,
+    { noteId: note, user },
+  ]),
+});
+
+/**
+ * When a trashed note is restored, put it back in a visible folder and un-trash it
+ */
+export const RestoreTrashedNote: Sync = ({ user, item }) => ({
+  when: actions([
+    Trash.restore,
+    { user },
+    { item, kind: "note" },
+  ]),
+  then: actions(
+    [Folder.reattachItem, { item, user }],
+    [Notes.restoreNote, { noteId: item, user }],
+  ),
+});
+
+/**
+ * When a trashed folder is restored, un-trash its subtree
+ */
+export const RestoreTrashedFolder: Sync = ({ user, item }) => ({
+  when: actions([
+    Trash.restore,
+    { user },
+    { item, kind: "folder" },
+  ]),
+  then: actions([
+    Folder.restoreFolder,
+    { f: item, user },
+  ]),
+});
+
+/**
+ * Once a trashed note is back, take it out of the trash
+ */
+export const ForgetTrashEntryOnNoteRestore: Sync = ({ item, note }) => ({
   when: actions(
-    [Requesting.request, { path: "/Notes/getUserNotes", user }, { request }],
-    [Notes.getNotesByUser, {}, { notes }],
-    [Folder.getAllFolders, {}, { folders }],
+    [Trash.restore, {}, { item, kind: "note" }],
+    [Notes.restoreNote, { noteId: item }, { note }],
   ),
-  then: actions([Tags.getAllUserTags, { user }, {}]),
+  then: actions([
+    Trash.forgetItem,
+    { item },
+  ]),
 });
 
-export const GetUserNotesResponse: Sync = ({
-  request,
-  user,
-  notes,
-  folders,
-  tags,
-  folderId,
-  tagLabel,
-  accessToken,
+/**
+ * Once a trashed folder is back, take it out of the trash
+ */
+export const ForgetTrashEntryOnFolderRestore: Sync = ({
+  item,
+  restoredFolders,
 }) => ({
   when: actions(
-    [Requesting.request, { path: "/Notes/getUserNotes", user }, { request }],
-    [Notes.getNotesByUser, {}, { notes }],
-    [Folder.getAllFolders, {}, { folders }],
-    [Tags.getAllUserTags, {}, { tags }],
+    [Trash.restore, {}, { item, kind: "folder" }],
+    [Folder.restoreFolder, { f: item }, { restoredFolders }],
   ),
-  where: async (frames) => {
-    // Generate token
-    frames = await generateTokenForResponse(frames, user, accessToken);
+  then: actions([
+    Trash.forgetItem,
+    { item },
+  ]),
+});
 
-    // Process notes with folder mapping - frontend will handle filtering
-    const $ = frames[0];
-    if ($) {
-      const notesArray = $[notes];
-      const foldersArray = $[folders];
-
-      // Build note-to-folder mapping
-      const noteToFolderMap = new Map();
-      if (Array.isArray(foldersArray)) {
-        for (const folder of foldersArray) {
-          if (Array.isArray(folder.elements)) {
-            for (const noteId of folder.elements) {
-              noteToFolderMap.set(noteId, folder._id);
-            }
-          }
-        }
+/**
+ * When a folder is restored, restore the notes inside it,
+ * except notes that were trashed on their own and still have their own trash entry
+ */
+export const RestoreNotesInRestoredFolder: Sync = ({
+  user,
+  restoredItems,
+  note,
+}) => ({
+  when: actions([
+    Folder.restoreFolder,
+    { user },
+    { restoredItems },
+  ]),
+  where: async (frames) => {
+    const result = new Frames();
+    for (const frame of expandItems(frames, restoredItems, note)) {
+      const ownEntry = await Trash._getEntryForItem({
+        item: frame[note] as ID,
+      });
+      if (ownEntry.length === 0) {
+        result.push(frame);
       }
+    }
+    return result;
+  },
+  then: actions([
+    Notes.restoreNote,
+    { noteId: note, user },
+  ]),
+});
 
-      // Augment notes with folderId - return ALL notes, frontend handles filtering
-      const processedNotes = Array.isArray(notesArray)
-        ? notesArray.map((note) => ({
-          ...note,
-          folderId: noteToFolderMap.get(note._id) || null,
-        }))
-        : [];
+/**
+ * When the trash is emptied, permanently delete its notes
+ */
+export const PurgeNotesOnEmptyTrash: Sync = ({ entries, item, owner }) => ({
+  when: actions([Trash.emptyTrash, {}, { entries }]),
+  where: (frames) => expandTrashEntries(frames, entries, "note", item, owner),
+  then: actions([Notes.deleteNote, { noteId: item, user: owner }]),
+});
 
-      // Replace notes symbol with processed notes
-      frames = frames.map(($) => {
-        const newFrame = { ...$, [notes]: processedNotes };
-        return newFrame;
-      });
-    }
+/**
+ * When the trash is emptied, permanently delete its folders (and with them, their notes)
+ */
+export const PurgeFoldersOnEmptyTrash: Sync = ({ entries, item, owner }) => ({
+  when: actions([Trash.emptyTrash, {}, { entries }]),
+  where: (frames) => expandTrashEntries(frames, entries, "folder", item, owner),
+  then: actions([Folder.deleteFolder, { f: item }]),
+});
 
-    return frames;
+/**
+ * When trashed notes expire, permanently delete them
+ */
+export const PurgeExpiredNotes: Sync = ({ entries, item, owner }) => ({
+  when: actions([Trash.purgeExpired, {}, { entries }]),
+  where: (frames) => expandTrashEntries(frames, entries, "note", item, owner),
+  then: actions([Notes.deleteNote, { noteId: item, user: owner }]),
+});
+
+/**
+ * When trashed folders expire, permanently delete them (and with them, their notes)
+ */
+export const PurgeExpiredFolders: Sync = ({ entries, item, owner }) => ({
+  when: actions([Trash.purgeExpired, {}, { entries }]),
+  where: (frames) => expandTrashEntries(frames, entries, "folder", item, owner),
+  then: actions([Folder.deleteFolder, { f: item }]),
+});
+
+/**
+ * When a note is permanently deleted, drop any trash entry that still points to it
+ */
+export const ForgetTrashEntryOnNoteDeletion: Sync = ({ noteId }) => ({
+  when: actions([
+    Notes.deleteNote,
+    { noteId },
+    {},
+  ]),
+  then: actions([
+    Trash.forgetItem,
+    { item: noteId },
+  ]),
+});
+
+/**
+ * When folders are permanently deleted, drop any trash entries that still point to them
+ */
+export const ForgetTrashEntriesOnFolderDeletion: Sync = ({
+  deletedFolders,
+  folder,
+}) => ({
+  when: actions([
+    Folder.deleteFolder,
+    {},
+    { deletedFolders },
+  ]),
+  where: (frames) => expandItems(frames, deletedFolders, folder),
+  then: actions([
+    Trash.forgetItem,
+    { item: folder },
+  ]),
+});
+
+/**
+ * When a note is permanently deleted, stop sharing it
+ */
+export const ForgetSharesOnNoteDeletion: Sync = ({ noteId }) => ({
+  when: actions([
+    Notes.deleteNote,
+    { noteId },
+    {},
+  ]),
+  then: actions([
+    Sharing.forgetResource,
+    { resource: noteId },
+  ]),
+});
+
+/**
+ * When folders are permanently deleted, stop sharing them
+ */
+export const ForgetSharesOnFolderDeletion: Sync = ({
+  deletedFolders,
+  folder,
+}) => ({
+  when: actions([
+    Folder.deleteFolder,
+    {},
+    { deletedFolders },
+  ]),
+  where: (frames) => expandItems(frames, deletedFolders, folder),
+  then: actions([
+    Sharing.forgetResource,
+    { resource: folder },
+  ]),
+});
+
+/**
+ * When a note is permanently deleted, drop the links to it
+ */
+export const ForgetShareLinksOnNoteDeletion: Sync = ({ noteId }) => ({
+  when: actions([
+    Notes.deleteNote,
+    { noteId },
+    {},
+  ]),
+  then: actions([
+    ShareLinks.forgetResource,
+    { resource: noteId },
+  ]),
+});
+
+/**
+ * When folders are permanently deleted, drop the links to them
+ */
+export const ForgetShareLinksOnFolderDeletion: Sync = ({
+  deletedFolders,
+  folder,
+}) => ({
+  when: actions([
+    Folder.deleteFolder,
+    {},
+    { deletedFolders },
+  ]),
+  where: (frames) => expandItems(frames, deletedFolders, folder),
+  then: actions([
+    ShareLinks.forgetResource,
+    { resource: folder },
+  ]),
+});
+
+/**
+ * When a user tags one of their notes with the tag they chose for review, schedule the note for review.
+ * Folders with the tag are left alone, and notes that are already scheduled keep their schedule.
+ */
+export const EnrollTaggedNoteForReview: Sync = ({
+  user,
+  label,
+  item,
+  tag,
+  enrollLabel,
+  owner,
+}) => ({
+  when: actions([
+    Tags.addTag,
+    { user, label, item },
+    { tag },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Review._getEnrollLabel, { user }, {
+      enrollLabel,
+    });
+    frames = frames.filter(($) => $[label] === $[enrollLabel]);
+    frames = await frames.query(Notes._getOwner, { noteId: item }, { owner });
+    return frames.filter(($) => $[owner] === $[user]);
   },
-  then: actions([Requesting.respond, { request, notes, accessToken }]),
+  then: actions([
+    Review.enroll,
+    { user, note: item },
+  ]),
 });
 
-export const GetUserNotesResponseError: Sync = ({ request, error }) => ({
-  when: actions(
-    [Requesting.request, { path: "/Notes/getUserNotes" }, { request }],
-    [Notes.getNotesByUser, {}, { error }],
-  ),
-  then: actions([Requesting.respond, { request, error }]),
+/**
+ * When a note is permanently deleted, stop reviewing it
+ */
+export const ForgetReviewCardsOnNoteDeletion: Sync = ({ noteId }) => ({
+  when: actions([
+    Notes.deleteNote,
+    { noteId },
+    {},
+  ]),
+  then: actions([
+    Review.forgetNote,
+    { note: noteId },
+  ]),
 });
 
-export const GetUserNotesFoldersError: Sync = ({ request, error }) => ({
-  when: actions(
-    [Requesting.request, { path: "/Notes/getUserNotes" }, { request }],
-    [Folder.getAllFolders, {}, { error }],
-  ),
-  then: actions([Requesting.respond, { request, error }]),
+/**
+ * When a note is permanently deleted, delete the cards made from it
+ */
+export const DeleteFlashcardsOnNoteDeletion: Sync = ({ noteId }) => ({
+  when: actions([
+    Notes.deleteNote,
+    { noteId },
+    {},
+  ]),
+  then: actions([
+    Flashcards.deleteCardsForNote,
+    { note: noteId },
+  ]),
 });
 
-export const GetUserNotesTagsError: Sync = ({ request, error }) => ({
-  when: actions(
-    [Requesting.request, { path: "/Notes/getUserNotes" }, { request }],
-    [Tags.getAllUserTags, {}, { error }],
-  ),
-  then: actions([Requesting.respond, { request, error }]),
+/********************************* Account Deletion Cascade **********************************/
+/**
+ * When an account is deleted, delete the user's folder tree
+ */
+export const DeleteRootFolderOnAccountDeletion: Sync = ({ user, folder }) => ({
+  when: actions([PasswordAuth.deleteAccount, {}, { user }]),
+  where: async (frames) => {
+    return await frames.query(Folder._getRootFolder, { user }, { folder });
+  },
+  then: actions([Folder.deleteFolder, { f: folder }]),
+});
+
+/**
+ * When an account is deleted, delete every note the user owns, including ones outside any folder.
+ * Each deletion cascades to the note's revisions, summary, tags, trash entry and queued jobs.
+ */
+export const DeleteNotesOnAccountDeletion: Sync = ({ user, noteId }) => ({
+  when: actions([PasswordAuth.deleteAccount, {}, { user }]),
+  where: async (frames) => {
+    return await frames.query(Notes._getAllNoteIds, { user }, { noteId });
+  },
+  then: actions([Notes.deleteNote, { noteId, user }]),
 });
 
-/********************************* Generate Summary System Sync **********************************/
 /**
- * System sync that chains: getNoteDetails -> setSummaryWithAI -> getSummary
- * This simplifies the frontend by handling the entire flow on the backend
+ * When an account is deleted, empty the user's trash
  */
+export const EmptyTrashOnAccountDeletion: Sync = ({ user }) => ({
+  when: actions([PasswordAuth.deleteAccount, {}, { user }]),
+  then: actions([Trash.emptyTrash, { user }]),
+});
 
-export const GenerateSummaryRequest: Sync = ({
+/**
+ * When an account is deleted, delete the user's tags
+ */
+export const DeleteTagsOnAccountDeletion: Sync = ({ user }) => ({
+  when: actions([PasswordAuth.deleteAccount, {}, { user }]),
+  then: actions([Tags.deleteAllForUser, { user }]),
+});
+
+/**
+ * When an account is deleted, delete the user's summary jobs
+ */
+export const DeleteSummaryJobsOnAccountDeletion: Sync = ({ user }) => ({
+  when: actions([PasswordAuth.deleteAccount, {}, { user }]),
+  then: actions([SummaryJobs.deleteAllForUser, { user }]),
+});
+
+/**
+ * When an account is deleted, delete the user's recorded AI usage
+ */
+export const DeleteUsageOnAccountDeletion: Sync = ({ user }) => ({
+  when: actions([PasswordAuth.deleteAccount, {}, { user }]),
+  then: actions([Usage.deleteAllForUser, { user }]),
+});
+
+/**
+ * When an account is deleted, delete what the user shared and what was shared with them
+ */
+export const DeleteSharesOnAccountDeletion: Sync = ({ user }) => ({
+  when: actions([PasswordAuth.deleteAccount, {}, { user }]),
+  then: actions([Sharing.deleteAllForUser, { user }]),
+});
+
+/**
+ * When an account is deleted, delete the user's share links
+ */
+export const DeleteShareLinksOnAccountDeletion: Sync = ({ user }) => ({
+  when: actions([PasswordAuth.deleteAccount, {}, { user }]),
+  then: actions([ShareLinks.deleteAllForUser, { user }]),
+});
+
+/**
+ * When an account is deleted, delete the user's review schedule
+ */
+export const DeleteReviewCardsOnAccountDeletion: Sync = ({ user }) => ({
+  when: actions([PasswordAuth.deleteAccount, {}, { user }]),
+  then: actions([Review.deleteAllForUser, { user }]),
+});
+
+/**
+ * When an account is deleted, delete the user's flashcards
+ */
+export const DeleteFlashcardsOnAccountDeletion: Sync = ({ user }) => ({
+  when: actions([PasswordAuth.deleteAccount, {}, { user }]),
+  then: actions([Flashcards.deleteAllForUser, { user }]),
+});
+
+/**
+ * When an account is deleted, delete the user's smart folders
+ */
+export const DeleteSmartFoldersOnAccountDeletion: Sync = ({ user }) => ({
+  when: actions([PasswordAuth.deleteAccount, {}, { user }]),
+  then: actions([SmartFolders.deleteAllForUser, { user }]),
+});
+
+/********************************* Get User Notes System Sync **********************************/
+/**
+ * System sync that chains: getNotesByUser -> getAllFolders -> getAllUserTags (if needed)
+ * Then processes the data to map notes to folders and filter by folderId/tagLabel
+ */
+
+export const GetUserNotesRequest: Sync = ({
   request,
   user,
-  noteId,
   authToken,
   authenticatedUser,
 }) => ({
   when: actions([Requesting.request, {
-    path: "/Summaries/generateSummary",
+    path: "/Notes/getUserNotes",
     user,
-    noteId,
     authToken,
   }, { request }]),
   where: async (frames) => {
@@ -319,105 +914,137 @@ export const GenerateSummaryRequest: Sync = ({
       authenticatedUser,
     );
   },
-  then: actions([Notes.getNoteDetails, { user, noteId }, {}]),
+  then: actions([Notes.getNotesByUser, { ownerId: user }, {}]),
 });
 
-export const GenerateSummaryChainToAI: Sync = ({
+export const GetUserNotesChainToFolders: Sync = ({
   request,
   user,
-  noteId,
-  content,
+  notes,
 }) => ({
   when: actions(
-    [Requesting.request, { path: "/Summaries/generateSummary", user, noteId }, {
-      request,
-    }],
-    [Notes.getNoteDetails, {}, { content }],
+    [Requesting.request, { path: "/Notes/getUserNotes", user }, { request }],
+    [Notes.getNotesByUser, {}, { notes }],
   ),
-  then: actions([Summaries.setSummaryWithAI, {
-    user,
-    text: content,
-    item: noteId,
-  }, {}]),
+  then: actions([Folder.getAllFolders, { user }, {}]),
 });
 
-export const GenerateSummaryChainToGet: Sync = ({
+export const GetUserNotesChainToTags: Sync = ({
   request,
   user,
-  noteId,
+  notes,
+  folders,
 }) => ({
   when: actions(
-    [Requesting.request, { path: "/Summaries/generateSummary", user, noteId }, {
-      request,
-    }],
-    [Summaries.setSummaryWithAI, {}, {}],
+    [Requesting.request, { path: "/Notes/getUserNotes", user }, { request }],
+    [Notes.getNotesByUser, {}, { notes }],
+    [Folder.getAllFolders, {}, { folders }],
   ),
-  then: actions([Summaries.getSummary, { user, item: noteId }, {}]),
+  then: actions([Tags.getAllUserTags, { user }, {}]),
 });
 
-export const GenerateSummaryResponse: Sync = ({
+export const GetUserNotesResponse: Sync = ({
   request,
   user,
+  notes,
+  folders,
+  tags,
+  folderId,
+  tagLabel,
   accessToken,
-  summary,
 }) => ({
   when: actions(
-    [Requesting.request, { path: "/Summaries/generateSummary", user }, {
-      request,
-    }],
-    [Summaries.getSummary, {}, { summary }],
+    [Requesting.request, { path: "/Notes/getUserNotes", user }, { request }],
+    [Notes.getNotesByUser, {}, { notes }],
+    [Folder.getAllFolders, {}, { folders }],
+    [Tags.getAllUserTags, {}, { tags }],
   ),
   where: async (frames) => {
-    return await generateTokenForResponse(frames, user, accessToken);
+    // Generate token
+    frames = await generateTokenForResponse(frames, request, user, accessToken);
+
+    // Process notes with folder mapping - frontend will handle filtering
+    const $ = frames[0];
+    if ($) {
+      const notesArray = $[notes];
+      const foldersArray = $[folders];
+
+      // Build note-to-folder mapping
+      const noteToFolderMap = new Map();
+      if (Array.isArray(foldersArray)) {
+        for (const folder of foldersArray) {
+          if (Array.isArray(folder.elements)) {
+            for (const noteId of folder.elements) {
+              noteToFolderMap.set(noteId, folder._id);
+            }
+          }
+        }
+      }
+
+      // Augment notes with folderId - return ALL notes, frontend handles filtering
+      const processedNotes = Array.isArray(notesArray)
+        ? notesArray.map((note) => ({
+          ...note,
+          folderId: noteToFolderMap.get(note._id) || null,
+        }))
+        : [];
+
+      // Replace notes symbol with processed notes
+      frames = frames.map(($) => {
+        const newFrame = { ...$, [notes]: processedNotes };
+        return newFrame;
+      });
+    }
+
+    return frames;
   },
-  then: actions([Requesting.respond, { request, summary, accessToken }]),
+  then: actions([Requesting.respond, { request, notes, accessToken }]),
 });
 
-export const GenerateSummaryResponseError: Sync = ({ request, error }) => ({
+export const GetUserNotesResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Summaries/generateSummary" }, { request }],
-    [Notes.getNoteDetails, {}, { error }],
+    [Requesting.request, { path: "/Notes/getUserNotes" }, { request }],
+    [Notes.getNotesByUser, {}, { error }],
   ),
   then: actions([Requesting.respond, { request, error }]),
 });
 
-export const GenerateSummaryAIError: Sync = ({ request, error }) => ({
+export const GetUserNotesFoldersError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Summaries/generateSummary" }, { request }],
-    [Summaries.setSummaryWithAI, {}, { error }],
+    [Requesting.request, { path: "/Notes/getUserNotes" }, { request }],
+    [Folder.getAllFolders, {}, { error }],
   ),
   then: actions([Requesting.respond, { request, error }]),
 });
 
-export const GenerateSummaryGetError: Sync = ({ request, error }) => ({
+export const GetUserNotesTagsError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Summaries/generateSummary" }, { request }],
-    [Summaries.getSummary, {}, { error }],
+    [Requesting.request, { path: "/Notes/getUserNotes" }, { request }],
+    [Tags.getAllUserTags, {}, { error }],
   ),
   then: actions([Requesting.respond, { request, error }]),
 });
 
-/***********************************************************************************/
-/********************************** User Requests **********************************/
-/************************** Usually for Authenticated Requests **********************/
-/***********************************************************************************/
-export const DeleteFolderRequest: Sync = ({
+/********************************* Search Notes System Sync **********************************/
+/**
+ * System sync that chains: getAllFolders -> getAllUserTags
+ * Then loads the notes that match every query term and ranks them, searching titles, content, summaries and tag labels.
+ * Optional inputs: folderId (restricts to the folder's subtree), tagLabel, page, pageSize
+ */
+
+export const SearchNotesRequest: Sync = ({
   request,
   user,
-  folderId,
+  query,
   authToken,
   authenticatedUser,
 }) => ({
-  when: actions([
-    Requesting.request,
-    {
-      path: "/Folder/deleteFolder",
-      user,
-      folderId,
-      authToken,
-    },
-    { request },
-  ]),
+  when: actions([Requesting.request, {
+    path: "/Notes/search",
+    user,
+    query,
+    authToken,
+  }, { request }]),
   where: async (frames) => {
     return await authenticateRequest(
       frames,
@@ -426,138 +1053,126 @@ export const DeleteFolderRequest: Sync = ({
       authenticatedUser,
     );
   },
-  then: actions([Folder.deleteFolder, { f: folderId }]),
+  then: actions([Folder.getAllFolders, { user }, {}]),
 });
 
-export const CreateNoteRequest: Sync = ({
+export const SearchNotesChainToTags: Sync = ({
   request,
   user,
-  content,
-  folder,
-  title,
-  authToken,
-  authenticatedUser,
+  folders,
 }) => ({
-  when: actions([
-    Requesting.request,
-    {
-      path: "/Notes/createNote",
-      user,
-      content,
-      folder,
-      title,
-      authToken,
-    },
-    { request },
-  ]),
-  where: async (frames) => {
-    return await authenticateRequest(
-      frames,
-      authToken,
-      user,
-      authenticatedUser,
-    );
-  },
-  then: actions([Notes.createNote, { user, title, folder, content }]),
+  when: actions(
+    [Requesting.request, { path: "/Notes/search", user }, { request }],
+    [Folder.getAllFolders, {}, { folders }],
+  ),
+  then: actions([Tags.getAllUserTags, { user }, {}]),
 });
 
-export const CreateFolderRequest: Sync = ({
+export const SearchNotesResponse: Sync = ({
   request,
   user,
-  title,
-  parent,
-  authToken,
-  authenticatedUser,
+  query,
+  folders,
+  tags,
+  results,
+  total,
+  page,
+  pageSize,
+  accessToken,
 }) => ({
-  when: actions([
-    Requesting.request,
-    {
-      path: "/Folder/createFolder",
-      user,
-      title,
-      parent,
-      authToken,
-    },
-    { request },
-  ]),
+  when: actions(
+    [Requesting.request, { path: "/Notes/search", user, query }, { request }],
+    [Folder.getAllFolders, {}, { folders }],
+    [Tags.getAllUserTags, {}, { tags }],
+  ),
   where: async (frames) => {
-    return await authenticateRequest(
-      frames,
-      authToken,
-      user,
-      authenticatedUser,
+    // Optional filters and paging can't be matched in `when`, so read them from the request
+    frames = await frames.query(
+      Requesting._getRequestInput,
+      { request },
+      { input: searchInput },
     );
+    const searched = new Frames();
+    for (const $ of frames) {
+      const input = $[searchInput] as Record<string, unknown>;
+      const requestedPage = Math.max(1, Math.floor(Number(input.page) || 1));
+      const requestedPageSize = Math.min(
+        Math.max(1, Math.floor(Number(input.pageSize) || DEFAULT_PAGE_SIZE)),
+        MAX_PAGE_SIZE,
+      );
+      const documents = await buildSearchDocuments(
+        await findSearchCandidates(
+          $[user] as ID,
+          String($[query]),
+          $[tags] as TagRecord[],
+        ),
+        $[folders] as FolderStructure[],
+        $[tags] as TagRecord[],
+        input.folderId as ID | undefined,
+        input.tagLabel as string | undefined,
+      );
+      const found = searchDocuments(
+        documents,
+        String($[query]),
+        requestedPage,
+        requestedPageSize,
+      );
+      searched.push({
+        ...$,
+        [results]: found.results,
+        [total]: found.total,
+        [page]: requestedPage,
+        [pageSize]: requestedPageSize,
+      });
+    }
+
+    return await generateTokenForResponse(searched, request, user, accessToken);
   },
-  then: actions([Folder.createFolder, { user, title, parent }]),
+  then: actions([Requesting.respond, {
+    request,
+    results,
+    total,
+    page,
+    pageSize,
+    accessToken,
+  }]),
 });
 
-export const MoveFolderRequest: Sync = ({
-  request,
-  user,
-  folderId,
-  newParentId,
-  authToken,
-  authenticatedUser,
-}) => ({
-  when: actions([
-    Requesting.request,
-    {
-      path: "/Folder/moveFolder",
-      user,
-      folderId,
-      newParentId,
-      authToken,
-    },
-    { request },
-  ]),
-  where: async (frames) => {
-    return await authenticateRequest(
-      frames,
-      authToken,
-      user,
-      authenticatedUser,
-    );
-  },
-  then: actions([Folder.moveFolder, { folderId, newParentId, userId: user }]),
+export const SearchNotesFoldersError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Notes/search" }, { request }],
+    [Folder.getAllFolders, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
 });
 
-export const DeleteNoteRequest: Sync = ({
-  request,
-  user,
-  noteId,
-  authToken,
-  authenticatedUser,
-}) => ({
-  when: actions([Requesting.request, {
-    path: "/Notes/deleteNote",
-    user,
-    noteId,
-    authToken,
-  }, { request }]),
-  where: async (frames) => {
-    return await authenticateRequest(
-      frames,
-      authToken,
-      user,
-      authenticatedUser,
-    );
-  },
-  then: actions([Notes.deleteNote, { noteId, user }]),
+export const SearchNotesTagsError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Notes/search" }, { request }],
+    [Tags.getAllUserTags, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
 });
 
-export const SetTitleRequest: Sync = ({
+/********************************* Query Notes System Sync **********************************/
+/**
+ * System sync that chains: getNotesByUser -> getAllFolders -> getAllUserTags
+ * Then evaluates a tag, folder, date and text query (see @utils/noteQuery.ts) against the notes.
+ * Smart folders are opened by sending their saved query here.
+ * Optional inputs: page, pageSize
+ */
+
+export const QueryNotesRequest: Sync = ({
   request,
   user,
-  noteId,
-  newTitle,
+  query,
   authToken,
   authenticatedUser,
 }) => ({
   when: actions([Requesting.request, {
-    path: "/Notes/setTitle",
+    path: "/Notes/query",
     user,
-    noteId,
-    newTitle,
+    query,
     authToken,
   }, { request }]),
   where: async (frames) => {
@@ -568,100 +1183,167 @@ export const SetTitleRequest: Sync = ({
       authenticatedUser,
     );
   },
-  then: actions([Notes.setTitle, { noteId, newTitle, user }]),
+  then: actions([Notes.getNotesByUser, { ownerId: user }, {}]),
 });
 
-export const UpdateContentRequest: Sync = ({
+export const QueryNotesChainToFolders: Sync = ({
   request,
   user,
-  noteId,
-  newContent,
-  authToken,
-  authenticatedUser,
+  notes,
 }) => ({
-  when: actions([Requesting.request, {
-    path: "/Notes/updateContent",
-    user,
-    noteId,
-    newContent,
-    authToken,
-  }, { request }]),
-  where: async (frames) => {
-    return await authenticateRequest(
-      frames,
-      authToken,
-      user,
-      authenticatedUser,
-    );
-  },
-  then: actions([Notes.updateContent, { noteId, newContent, user }]),
+  when: actions(
+    [Requesting.request, { path: "/Notes/query", user }, { request }],
+    [Notes.getNotesByUser, {}, { notes }],
+  ),
+  then: actions([Folder.getAllFolders, { user }, {}]),
 });
 
-export const MoveNoteRequest: Sync = ({
+export const QueryNotesChainToTags: Sync = ({
   request,
   user,
-  item,
-  folder,
-  authToken,
-  authenticatedUser,
+  notes,
+  folders,
 }) => ({
-  when: actions([Requesting.request, {
-    path: "/Folder/insertItem",
-    user,
-    item,
-    folder,
-    authToken,
-  }, { request }]),
+  when: actions(
+    [Requesting.request, { path: "/Notes/query", user }, { request }],
+    [Notes.getNotesByUser, {}, { notes }],
+    [Folder.getAllFolders, {}, { folders }],
+  ),
+  then: actions([Tags.getAllUserTags, { user }, {}]),
+});
+
+export const QueryNotesResponse: Sync = ({
+  request,
+  user,
+  query,
+  notes,
+  folders,
+  tags,
+  results,
+  total,
+  page,
+  pageSize,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Notes/query", user, query }, { request }],
+    [Notes.getNotesByUser, {}, { notes }],
+    [Folder.getAllFolders, {}, { folders }],
+    [Tags.getAllUserTags, {}, { tags }],
+  ),
   where: async (frames) => {
-    return await authenticateRequest(
-      frames,
-      authToken,
-      user,
-      authenticatedUser,
-    );
+    frames = await bindRequestInputs(frames, request, { page, pageSize });
+    const queried = new Frames();
+    for (const $ of frames) {
+      const parsed = parseNoteQuery($[query] as string);
+      // Invalid queries are answered by QueryNotesInvalidQuery
+      if ("error" in parsed) continue;
+      const requestedPage = Math.max(1, Math.floor(Number($[page]) || 1));
+      const requestedPageSize = Math.min(
+        Math.max(1, Math.floor(Number($[pageSize]) || DEFAULT_PAGE_SIZE)),
+        MAX_PAGE_SIZE,
+      );
+      const found = queryDocuments(
+        buildQueryDocuments(
+          $[notes] as NoteRecord[],
+          $[folders] as FolderStructure[],
+          $[tags] as TagRecord[],
+        ),
+        parsed.query,
+        requestedPage,
+        requestedPageSize,
+      );
+      queried.push({
+        ...$,
+        [results]: found.results,
+        [total]: found.total,
+        [page]: requestedPage,
+        [pageSize]: requestedPageSize,
+      });
+    }
+
+    return await generateTokenForResponse(queried, request, user, accessToken);
   },
-  then: actions([Folder.insertItem, { item, folder }]),
+  then: actions([Requesting.respond, {
+    request,
+    results,
+    total,
+    page,
+    pageSize,
+    accessToken,
+  }]),
 });
 
-export const RemoveTagFromItemRequest: Sync = ({
+export const QueryNotesInvalidQuery: Sync = ({
   request,
   user,
-  tag,
-  item,
-  authToken,
-  authenticatedUser,
+  query,
+  notes,
+  folders,
+  tags,
+  error,
 }) => ({
-  when: actions([Requesting.request, {
-    path: "/Tags/removeTagFromItem",
-    user,
-    tag,
-    item,
-    authToken,
-  }, { request }]),
-  where: async (frames) => {
-    return await authenticateRequest(
-      frames,
-      authToken,
-      user,
-      authenticatedUser,
-    );
+  when: actions(
+    [Requesting.request, { path: "/Notes/query", user, query }, { request }],
+    [Notes.getNotesByUser, {}, { notes }],
+    [Folder.getAllFolders, {}, { folders }],
+    [Tags.getAllUserTags, {}, { tags }],
+  ),
+  where: (frames) => {
+    const result = new Frames();
+    for (const $ of frames) {
+      const parsed = parseNoteQuery($[query] as string);
+      if ("error" in parsed) {
+        result.push({ ...$, [error]: parsed.error });
+      }
+    }
+    return result;
   },
-  then: actions([Tags.removeTagFromItem, { tag, item }]),
+  then: actions([Requesting.respond, { request, error }]),
 });
 
-export const AddTagToItemRequest: Sync = ({
+export const QueryNotesResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Notes/query" }, { request }],
+    [Notes.getNotesByUser, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const QueryNotesFoldersError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Notes/query" }, { request }],
+    [Folder.getAllFolders, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const QueryNotesTagsError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Notes/query" }, { request }],
+    [Tags.getAllUserTags, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+/********************************* Generate Summary System Sync **********************************/
+/**
+ * System sync that chains: Usage.checkQuota -> getNoteDetails -> SummaryJobs.enqueue
+ * The request returns the job ID right away; the worker runs setSummaryWithAI in the background
+ * and the frontend polls /SummaryJobs/getJobStatus, then fetches the summary.
+ */
+
+export const GenerateSummaryRequest: Sync = ({
   request,
   user,
-  label,
-  item,
+  noteId,
   authToken,
   authenticatedUser,
 }) => ({
   when: actions([Requesting.request, {
-    path: "/Tags/addTagToItem",
+    path: "/Summaries/generateSummary",
     user,
-    label,
-    item,
+    noteId,
     authToken,
   }, { request }]),
   where: async (frames) => {
@@ -672,80 +1354,125 @@ export const AddTagToItemRequest: Sync = ({
       authenticatedUser,
     );
   },
-  then: actions([Tags.addTag, { user, label, item }]),
+  then: actions([Usage.checkQuota, { user }, {}]),
 });
 
-export const SetSummaryRequest: Sync = ({
+export const GenerateSummaryChainToNote: Sync = ({
   request,
   user,
-  summary,
-  item,
-  authToken,
-  authenticatedUser,
+  noteId,
+  remainingToday,
 }) => ({
-  when: actions([Requesting.request, {
-    path: "/Summaries/setSummary",
-    user,
-    summary,
-    item,
-    authToken,
-  }, { request }]),
+  when: actions(
+    [Requesting.request, { path: "/Summaries/generateSummary", user, noteId }, {
+      request,
+    }],
+    [Usage.checkQuota, {}, { remainingToday }],
+  ),
+  then: actions([Notes.getNoteDetails, { user, noteId }, {}]),
+});
+
+export const GenerateSummaryChainToQueue: Sync = ({
+  request,
+  user,
+  noteId,
+  content,
+  revision,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Summaries/generateSummary", user, noteId }, {
+      request,
+    }],
+    [Notes.getNoteDetails, {}, { content }],
+  ),
   where: async (frames) => {
-    return await authenticateRequest(
-      frames,
-      authToken,
-      user,
-      authenticatedUser,
-    );
+    return await bindLatestRevision(frames, noteId, revision);
   },
-  then: actions([Summaries.setSummary, { user, summary, item }]),
+  then: actions([SummaryJobs.enqueue, {
+    user,
+    text: content,
+    item: noteId,
+    revision,
+  }, {}]),
 });
 
-export const SetSummaryWithAIRequest: Sync = ({
+export const GenerateSummaryResponse: Sync = ({
   request,
   user,
-  text,
-  item,
-  authToken,
-  authenticatedUser,
+  accessToken,
+  job,
 }) => ({
-  when: actions([Requesting.request, {
-    path: "/Summaries/setSummaryWithAI",
-    user,
-    text,
-    item,
-    authToken,
-  }, { request }]),
+  when: actions(
+    [Requesting.request, { path: "/Summaries/generateSummary", user }, {
+      request,
+    }],
+    [SummaryJobs.enqueue, {}, { job }],
+  ),
   where: async (frames) => {
-    return await authenticateRequest(
-      frames,
-      authToken,
-      user,
-      authenticatedUser,
-    );
+    return await generateTokenForResponse(frames, request, user, accessToken);
   },
-  then: actions([Summaries.setSummaryWithAI, { user, text, item }]),
+  then: actions([Requesting.respond, { request, job, accessToken }]),
+});
+
+export const GenerateSummaryResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Summaries/generateSummary" }, { request }],
+    [Notes.getNoteDetails, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const GenerateSummaryQueueError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Summaries/generateSummary" }, { request }],
+    [SummaryJobs.enqueue, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const GenerateSummaryQuotaError: Sync = ({
+  request,
+  error,
+  quota,
+  limit,
+  used,
+  resetsAt,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Summaries/generateSummary" }, { request }],
+    [Usage.checkQuota, {}, { error, quota, limit, used, resetsAt }],
+  ),
+  then: actions([Requesting.respond, {
+    request,
+    error,
+    quota,
+    limit,
+    used,
+    resetsAt,
+  }]),
 });
 
 /***********************************************************************************/
-/********************************* User Queries *********************************/
+/********************************** User Requests **********************************/
 /************************** Usually for Authenticated Requests **********************/
 /***********************************************************************************/
-export const GetSummaryRequest: Sync = ({
+export const DeleteFolderRequest: Sync = ({
   request,
   user,
-  item,
+  folderId,
   authToken,
   authenticatedUser,
 }) => ({
-  when: actions([Requesting.request, {
-    path: "/Summaries/getSummary",
-    user,
-    item,
-    authToken,
-  }, {
-    request,
-  }]),
+  when: actions([
+    Requesting.request,
+    {
+      path: "/Folder/deleteFolder",
+      user,
+      folderId,
+      authToken,
+    },
+    { request },
+  ]),
   where: async (frames) => {
     return await authenticateRequest(
       frames,
@@ -754,44 +1481,281 @@ export const GetSummaryRequest: Sync = ({
       authenticatedUser,
     );
   },
-  then: actions([Summaries.getSummary, { user, item }]),
+  then: actions([Folder.trashFolder, { f: folderId, user }]),
 });
 
-export const GetNoteDetailsRequest: Sync = ({
+export const CreateNoteRequest: Sync = ({
   request,
   user,
-  noteId,
+  content,
+  folder,
+  title,
   authToken,
   authenticatedUser,
+  actingUser,
 }) => ({
-  when: actions([Requesting.request, {
-    path: "/Notes/getNoteDetails",
-    user,
-    noteId,
-    authToken,
-  }, { request }]),
+  when: actions([
+    Requesting.request,
+    {
+      path: "/Notes/createNote",
+      user,
+      content,
+      folder,
+      title,
+      authToken,
+    },
+    { request },
+  ]),
   where: async (frames) => {
-    return await authenticateRequest(
+    frames = await authenticateRequest(
       frames,
       authToken,
       user,
       authenticatedUser,
     );
+    return await bindActingUser(
+      frames,
+      user,
+      folder,
+      "folder",
+      "editor",
+      actingUser,
+    );
   },
-  then: actions([Notes.getNoteDetails, { user, noteId }]),
+  then: actions([Notes.createNote, {
+    user: actingUser,
+    title,
+    folder,
+    content,
+  }]),
 });
 
-export const GetNotesByUserRequest: Sync = ({
+export const CreateFolderRequest: Sync = ({
   request,
   user,
-  ownerId,
+  title,
+  parent,
+  authToken,
+  authenticatedUser,
+  actingUser,
+}) => ({
+  when: actions([
+    Requesting.request,
+    {
+      path: "/Folder/createFolder",
+      user,
+      title,
+      parent,
+      authToken,
+    },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+    return await bindActingUser(
+      frames,
+      user,
+      parent,
+      "folder",
+      "editor",
+      actingUser,
+    );
+  },
+  then: actions([Folder.createFolder, { user: actingUser, title, parent }]),
+});
+
+export const MoveFolderRequest: Sync = ({
+  request,
+  user,
+  folderId,
+  newParentId,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([
+    Requesting.request,
+    {
+      path: "/Folder/moveFolder",
+      user,
+      folderId,
+      newParentId,
+      authToken,
+    },
+    { request },
+  ]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Folder.moveFolder, { folderId, newParentId, userId: user }]),
+});
+
+export const RenameFolderRequest: Sync = ({
+  request,
+  user,
+  folder,
+  title,
+  authToken,
+  authenticatedUser,
+  actingUser,
+}) => ({
+  when: actions([
+    Requesting.request,
+    {
+      path: "/Folder/renameFolder",
+      user,
+      folder,
+      title,
+      authToken,
+    },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+    return await bindActingUser(
+      frames,
+      user,
+      folder,
+      "folder",
+      "editor",
+      actingUser,
+    );
+  },
+  then: actions([Folder.renameFolder, { folder, user: actingUser, title }]),
+});
+
+export const ReorderChildrenRequest: Sync = ({
+  request,
+  user,
+  folder,
+  order,
+  authToken,
+  authenticatedUser,
+  actingUser,
+}) => ({
+  when: actions([
+    Requesting.request,
+    {
+      path: "/Folder/reorderChildren",
+      user,
+      folder,
+      order,
+      authToken,
+    },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+    return await bindActingUser(
+      frames,
+      user,
+      folder,
+      "folder",
+      "editor",
+      actingUser,
+    );
+  },
+  then: actions([Folder.reorderChildren, { folder, user: actingUser, order }]),
+});
+
+export const ReorderItemsRequest: Sync = ({
+  request,
+  user,
+  folder,
+  order,
+  authToken,
+  authenticatedUser,
+  actingUser,
+  hidden,
+}) => ({
+  when: actions([
+    Requesting.request,
+    {
+      path: "/Folder/reorderItems",
+      user,
+      folder,
+      order,
+      authToken,
+    },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+    frames = await bindActingUser(
+      frames,
+      user,
+      folder,
+      "folder",
+      "editor",
+      actingUser,
+    );
+    // Notes in the trash stay among the folder's items but aren't listed to the client,
+    // so they can't be part of the order
+    const result = new Frames();
+    for (const frame of frames) {
+      const items = await Folder._getFolderItems({
+        folderId: frame[folder] as ID,
+      });
+      if ("error" in items) {
+        result.push({ ...frame, [hidden]: [] });
+        continue;
+      }
+      const visible = new Set(
+        (await Notes._getNoteHeaders({
+          user: frame[actingUser] as ID,
+          noteIds: items,
+        })).map((header) => header.noteId),
+      );
+      result.push({
+        ...frame,
+        [hidden]: items.filter((item) => !visible.has(item)),
+      });
+    }
+    return result;
+  },
+  then: actions([
+    Folder.reorderItems,
+    { folder, user: actingUser, order, hidden },
+  ]),
+});
+
+export const CreateSmartFolderRequest: Sync = ({
+  request,
+  user,
+  name,
+  query,
   authToken,
   authenticatedUser,
 }) => ({
   when: actions([Requesting.request, {
-    path: "/Notes/getNotesByUser",
+    path: "/SmartFolders/createSmartFolder",
     user,
-    ownerId,
+    name,
+    query,
     authToken,
   }, { request }]),
   where: async (frames) => {
@@ -802,42 +1766,52 @@ export const GetNotesByUserRequest: Sync = ({
       authenticatedUser,
     );
   },
-  then: actions([Notes.getNotesByUser, { ownerId }]),
+  then: actions([SmartFolders.createSmartFolder, { user, name, query }]),
 });
 
-export const GetTagsForItemRequest: Sync = ({
+export const UpdateSmartFolderRequest: Sync = ({
   request,
   user,
-  item,
+  smartFolder,
+  name,
+  query,
   authToken,
   authenticatedUser,
 }) => ({
   when: actions([Requesting.request, {
-    path: "/Tags/getTagsForItem",
+    path: "/SmartFolders/updateSmartFolder",
     user,
-    item,
+    smartFolder,
     authToken,
   }, { request }]),
   where: async (frames) => {
-    return await authenticateRequest(
+    frames = await authenticateRequest(
       frames,
       authToken,
       user,
       authenticatedUser,
     );
+    return await bindRequestInputs(frames, request, { name, query });
   },
-  then: actions([Tags.getTagsForItem, { user, item }]),
+  then: actions([SmartFolders.updateSmartFolder, {
+    user,
+    smartFolder,
+    name,
+    query,
+  }]),
 });
 
-export const GetAllUserTagsRequest: Sync = ({
+export const DeleteSmartFolderRequest: Sync = ({
   request,
   user,
+  smartFolder,
   authToken,
   authenticatedUser,
 }) => ({
   when: actions([Requesting.request, {
-    path: "/Tags/getAllUserTags",
+    path: "/SmartFolders/deleteSmartFolder",
     user,
+    smartFolder,
     authToken,
   }, { request }]),
   where: async (frames) => {
@@ -848,22 +1822,22 @@ export const GetAllUserTagsRequest: Sync = ({
       authenticatedUser,
     );
   },
-  then: actions([Tags.getAllUserTags, { user }]),
+  then: actions([SmartFolders.deleteSmartFolder, { user, smartFolder }]),
 });
 
-export const GetAllFoldersRequest: Sync = ({
+export const DeleteNoteRequest: Sync = ({
   request,
   user,
+  noteId,
   authToken,
   authenticatedUser,
 }) => ({
   when: actions([Requesting.request, {
-    path: "/Folder/getAllFolders",
+    path: "/Notes/deleteNote",
     user,
+    noteId,
     authToken,
-  }, {
-    request,
-  }]),
+  }, { request }]),
   where: async (frames) => {
     return await authenticateRequest(
       frames,
@@ -872,495 +1846,3408 @@ export const GetAllFoldersRequest: Sync = ({
       authenticatedUser,
     );
   },
-  then: actions([Folder.getAllFolders, { user }]),
+  then: actions([Notes.trashNote, { noteId, user }]),
 });
 
-export const GetRootFolderIdRequest: Sync = ({
+export const SetTitleRequest: Sync = ({
   request,
   user,
+  noteId,
+  newTitle,
   authToken,
   authenticatedUser,
+  actingUser,
+  expectedRevision,
 }) => ({
   when: actions([Requesting.request, {
-    path: "/Folder/getRootFolderId",
+    path: "/Notes/setTitle",
     user,
+    noteId,
+    newTitle,
     authToken,
   }, { request }]),
   where: async (frames) => {
-    return await authenticateRequest(
+    frames = await authenticateRequest(
       frames,
       authToken,
       user,
       authenticatedUser,
     );
+    frames = await bindActingUser(
+      frames,
+      user,
+      noteId,
+      "note",
+      "editor",
+      actingUser,
+    );
+    return await bindRequestInputs(frames, request, { expectedRevision });
   },
-  then: actions([Folder.getRootFolderId, { user }]),
+  then: actions([Notes.setTitle, {
+    noteId,
+    newTitle,
+    user: actingUser,
+    expectedRevision,
+  }]),
 });
 
-/***********************************************************************************/
-/********************************* User Responses *********************************/
-/***********************************************************************************/
-/***********************************************************************************/
-
-export const DeleteFolderResponse: Sync = ({
+export const UpdateContentRequest: Sync = ({
   request,
-  folderId,
   user,
-  accessToken,
-  deletedFolders,
-  deletedItems,
+  noteId,
+  newContent,
+  authToken,
+  authenticatedUser,
+  actingUser,
+  expectedRevision,
 }) => ({
-  when: actions(
-    [Requesting.request, { path: "/Folder/deleteFolder", user, folderId }, {
-      request,
-    }],
-    [Folder.deleteFolder, { f: folderId }, { deletedFolders, deletedItems }],
-  ),
+  when: actions([Requesting.request, {
+    path: "/Notes/updateContent",
+    user,
+    noteId,
+    newContent,
+    authToken,
+  }, { request }]),
   where: async (frames) => {
-    // Folder.deleteFolder now returns { deletedFolders, deletedItems, owner } on success
-    // or { error: string } on failure
-    // Error cases are handled by DeleteFolderResponseError which matches on { error }
-    // Success cases will have deletedFolders and deletedItems arrays
-    return await generateTokenForResponse(frames, user, accessToken);
+    frames = await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+    frames = await bindActingUser(
+      frames,
+      user,
+      noteId,
+      "note",
+      "editor",
+      actingUser,
+    );
+    return await bindRequestInputs(frames, request, { expectedRevision });
   },
-  then: actions([Requesting.respond, { request, success: true, accessToken }]),
+  then: actions([Notes.updateContent, {
+    noteId,
+    newContent,
+    user: actingUser,
+    expectedRevision,
+  }]),
+});
+
+export const MoveNoteRequest: Sync = ({
+  request,
+  user,
+  item,
+  folder,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Folder/insertItem",
+    user,
+    item,
+    folder,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Folder.insertItem, { item, folder }]),
+});
+
+export const RemoveTagFromItemRequest: Sync = ({
+  request,
+  user,
+  tag,
+  item,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Tags/removeTagFromItem",
+    user,
+    tag,
+    item,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Tags.removeTagFromItem, { tag, item }]),
+});
+
+export const AddTagToItemRequest: Sync = ({
+  request,
+  user,
+  label,
+  item,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Tags/addTagToItem",
+    user,
+    label,
+    item,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Tags.addTag, { user, label, item }]),
+});
+
+export const RenameTagRequest: Sync = ({
+  request,
+  user,
+  tag,
+  label,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Tags/renameTag",
+    user,
+    tag,
+    label,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Tags.renameTag, { user, tag, label }]),
+});
+
+export const MergeTagsRequest: Sync = ({
+  request,
+  user,
+  source,
+  target,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Tags/mergeTags",
+    user,
+    source,
+    target,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Tags.mergeTags, { user, source, target }]),
+});
+
+export const DeleteTagRequest: Sync = ({
+  request,
+  user,
+  tag,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Tags/deleteTag",
+    user,
+    tag,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Tags.deleteTag, { user, tag }]),
+});
+
+export const SetTagColorRequest: Sync = ({
+  request,
+  user,
+  tag,
+  color,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Tags/setTagColor",
+    user,
+    tag,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    frames = await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+    return await bindRequestInputs(frames, request, { color });
+  },
+  then: actions([Tags.setTagColor, { user, tag, color }]),
+});
+
+export const SetTagPriorityRequest: Sync = ({
+  request,
+  user,
+  tag,
+  priority,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Tags/setTagPriority",
+    user,
+    tag,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    frames = await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+    return await bindRequestInputs(frames, request, { priority });
+  },
+  then: actions([Tags.setTagPriority, { user, tag, priority }]),
+});
+
+export const SetDueDateRequest: Sync = ({
+  request,
+  user,
+  tag,
+  item,
+  dueAt,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Tags/setDueDate",
+    user,
+    tag,
+    item,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    frames = await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+    return await bindRequestInputs(frames, request, { dueAt });
+  },
+  then: actions([Tags.setDueDate, { user, tag, item, dueAt }]),
+});
+
+export const MarkReviewedRequest: Sync = ({
+  request,
+  user,
+  item,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Tags/markReviewed",
+    user,
+    item,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Tags.markReviewed, { user, item }]),
+});
+
+export const SetSummaryRequest: Sync = ({
+  request,
+  user,
+  summary,
+  item,
+  authToken,
+  authenticatedUser,
+  text,
+  revision,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Summaries/setSummary",
+    user,
+    summary,
+    item,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    frames = await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+    // Record the note content the summary was written against, so later edits mark it stale
+    return await bindLatestRevision(frames, item, revision, text);
+  },
+  then: actions([Summaries.setSummary, {
+    user,
+    summary,
+    item,
+    text,
+    revision,
+  }]),
+});
+
+export const SetSummaryWithAIRequest: Sync = ({
+  request,
+  user,
+  text,
+  item,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Summaries/setSummaryWithAI",
+    user,
+    text,
+    item,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Usage.checkQuota, { user }]),
+});
+
+export const SetSummaryWithAIChainToAI: Sync = ({
+  request,
+  user,
+  text,
+  item,
+  remainingToday,
+}) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Summaries/setSummaryWithAI",
+      user,
+      text,
+      item,
+    }, { request }],
+    [Usage.checkQuota, {}, { remainingToday }],
+  ),
+  then: actions([Summaries.setSummaryWithAI, { user, text, item }]),
+});
+
+export const RecordSetSummaryWithAIUsage: Sync = ({
+  request,
+  user,
+  text,
+  summary,
+  promptChars,
+  outputChars,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Summaries/setSummaryWithAI", user }, {
+      request,
+    }],
+    [Summaries.setSummaryWithAI, { text }, { summary }],
+  ),
+  where: (frames) =>
+    bindCallSize(frames, text, summary, promptChars, outputChars),
+  then: actions([Usage.recordCall, {
+    user,
+    kind: "summary",
+    promptChars,
+    outputChars,
+  }]),
+});
+
+export const RecordFailedSetSummaryWithAIUsage: Sync = ({
+  request,
+  user,
+  text,
+  error,
+  promptChars,
+  outputChars,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Summaries/setSummaryWithAI", user }, {
+      request,
+    }],
+    [Summaries.setSummaryWithAI, { text }, { error }],
+  ),
+  where: (frames) => bindCallSize(frames, text, null, promptChars, outputChars),
+  then: actions([Usage.recordCall, {
+    user,
+    kind: "summary",
+    promptChars,
+    outputChars,
+  }]),
+});
+
+export const GenerateFlashcardsRequest: Sync = ({
+  request,
+  user,
+  note,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Flashcards/generateCards",
+    user,
+    note,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Usage.checkQuota, { user }]),
+});
+
+// Only the owner's untrashed notes are read; otherwise the LLM is not called and no usage is recorded
+export const GenerateFlashcardsChainToAI: Sync = ({
+  request,
+  user,
+  note,
+  remainingToday,
+  noteOwner,
+  text,
+}) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Flashcards/generateCards",
+      user,
+      note,
+    }, { request }],
+    [Usage.checkQuota, {}, { remainingToday }],
+  ),
+  where: async (frames) => {
+    const result = new Frames();
+    for (const $ of frames) {
+      const [found] = await Notes._getOwner({ noteId: $[note] as ID });
+      const [contents] = await Notes._getNoteContents({
+        noteIds: [$[note] as ID],
+      });
+      const owner = found && contents ? found.owner : null;
+      result.push({
+        ...$,
+        [noteOwner]: owner,
+        [text]: owner === $[user] ? contents.content : "",
+      });
+    }
+    return result;
+  },
+  then: actions([Flashcards.generateCards, {
+    owner: user,
+    noteOwner,
+    note,
+    text,
+  }]),
+});
+
+export const RecordGenerateFlashcardsUsage: Sync = ({
+  request,
+  user,
+  text,
+  cards,
+  promptChars,
+  outputChars,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Flashcards/generateCards", user }, {
+      request,
+    }],
+    [Flashcards.generateCards, { text }, { cards }],
+  ),
+  where: (frames) =>
+    bindCallSize(frames, text, null, promptChars, outputChars).map(($) => ({
+      ...$,
+      [outputChars]: JSON.stringify($[cards]).length,
+    })),
+  then: actions([Usage.recordCall, {
+    user,
+    kind: "flashcards",
+    promptChars,
+    outputChars,
+  }]),
+});
+
+export const RecordFailedGenerateFlashcardsUsage: Sync = ({
+  request,
+  user,
+  text,
+  error,
+  promptChars,
+  outputChars,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Flashcards/generateCards", user }, {
+      request,
+    }],
+    [Flashcards.generateCards, { text }, { error }],
+  ),
+  where: (frames) => bindCallSize(frames, text, null, promptChars, outputChars),
+  then: actions([Usage.recordCall, {
+    user,
+    kind: "flashcards",
+    promptChars,
+    outputChars,
+  }]),
+});
+
+export const EditFlashcardRequest: Sync = ({
+  request,
+  user,
+  card,
+  question,
+  answer,
+  choices,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Flashcards/editCard",
+    user,
+    card,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    frames = await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+    return await bindRequestInputs(frames, request, {
+      question,
+      answer,
+      choices,
+    });
+  },
+  then: actions([Flashcards.editCard, {
+    owner: user,
+    card,
+    question,
+    answer,
+    choices,
+  }]),
+});
+
+export const DeleteFlashcardRequest: Sync = ({
+  request,
+  user,
+  card,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Flashcards/deleteCard",
+    user,
+    card,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Flashcards.deleteCard, { owner: user, card }]),
+});
+
+export const RestoreRevisionRequest: Sync = ({
+  request,
+  user,
+  noteId,
+  revisionId,
+  authToken,
+  authenticatedUser,
+  actingUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Notes/restoreRevision",
+    user,
+    noteId,
+    revisionId,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    frames = await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+    return await bindActingUser(
+      frames,
+      user,
+      noteId,
+      "note",
+      "editor",
+      actingUser,
+    );
+  },
+  then: actions([Notes.restoreRevision, {
+    noteId,
+    revisionId,
+    user: actingUser,
+  }]),
+});
+
+export const RestoreFromTrashRequest: Sync = ({
+  request,
+  user,
+  entry,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Trash/restore",
+    user,
+    entry,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Trash.restore, { entry, user }]),
+});
+
+export const EmptyTrashRequest: Sync = ({
+  request,
+  user,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Trash/emptyTrash",
+    user,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Trash.emptyTrash, { user }]),
+});
+
+export const ShareRequest: Sync = ({
+  request,
+  user,
+  resource,
+  kind,
+  username,
+  level,
+  authToken,
+  authenticatedUser,
+  grantee,
+  resourceOwner,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Sharing/share",
+    user,
+    resource,
+    kind,
+    username,
+    level,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    frames = await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+    frames = await bindUserByUsername(frames, username, grantee);
+    const result = new Frames();
+    for (const frame of frames) {
+      const found = await lookUpResource(
+        frame[kind] as ResourceKind,
+        frame[resource] as ID,
+      );
+      result.push({ ...frame, [resourceOwner]: found?.owner ?? null });
+    }
+    return result;
+  },
+  then: actions([Sharing.share, {
+    owner: user,
+    resourceOwner,
+    resource,
+    kind,
+    grantee,
+    level,
+  }]),
+});
+
+export const UnshareRequest: Sync = ({
+  request,
+  user,
+  resource,
+  username,
+  authToken,
+  authenticatedUser,
+  grantee,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Sharing/unshare",
+    user,
+    resource,
+    username,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    frames = await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+    return await bindUserByUsername(frames, username, grantee);
+  },
+  then: actions([Sharing.unshare, { owner: user, resource, grantee }]),
+});
+
+export const CreateLinkRequest: Sync = ({
+  request,
+  user,
+  resource,
+  kind,
+  expiresInDays,
+  authToken,
+  authenticatedUser,
+  resourceOwner,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/ShareLinks/createLink",
+    user,
+    resource,
+    kind,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    frames = await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+    frames = await bindRequestInputs(frames, request, { expiresInDays });
+    const result = new Frames();
+    for (const frame of frames) {
+      const found = await lookUpResource(
+        frame[kind] as ResourceKind,
+        frame[resource] as ID,
+      );
+      result.push({ ...frame, [resourceOwner]: found?.owner ?? null });
+    }
+    return result;
+  },
+  then: actions([ShareLinks.createLink, {
+    owner: user,
+    resourceOwner,
+    resource,
+    kind,
+    expiresInDays,
+  }]),
+});
+
+export const RevokeLinkRequest: Sync = ({
+  request,
+  user,
+  link,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/ShareLinks/revokeLink",
+    user,
+    link,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([ShareLinks.revokeLink, { owner: user, link }]),
+});
+
+export const RecordReviewRequest: Sync = ({
+  request,
+  user,
+  note,
+  grade,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Review/recordReview",
+    user,
+    note,
+    grade,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Review.recordReview, { user, note, grade }]),
+});
+
+export const UnenrollRequest: Sync = ({
+  request,
+  user,
+  note,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Review/unenroll",
+    user,
+    note,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Review.unenroll, { user, note }]),
+});
+
+export const SetEnrollLabelRequest: Sync = ({
+  request,
+  user,
+  label,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Review/setEnrollLabel",
+    user,
+    label,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Review.setEnrollLabel, { user, label }]),
+});
+
+/***********************************************************************************/
+/********************************* User Queries *********************************/
+/************************** Usually for Authenticated Requests **********************/
+/***********************************************************************************/
+export const GetSummaryRequest: Sync = ({
+  request,
+  user,
+  item,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Summaries/getSummary",
+    user,
+    item,
+    authToken,
+  }, {
+    request,
+  }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Summaries.getSummary, { user, item }]),
+});
+
+export const GetNoteDetailsRequest: Sync = ({
+  request,
+  user,
+  noteId,
+  authToken,
+  authenticatedUser,
+  actingUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Notes/getNoteDetails",
+    user,
+    noteId,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    frames = await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+    return await bindActingUser(
+      frames,
+      user,
+      noteId,
+      "note",
+      "viewer",
+      actingUser,
+    );
+  },
+  then: actions([Notes.getNoteDetails, { user: actingUser, noteId }]),
+});
+
+export const GetNotesByUserRequest: Sync = ({
+  request,
+  user,
+  ownerId,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Notes/getNotesByUser",
+    user,
+    ownerId,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Notes.getNotesByUser, { ownerId }]),
+});
+
+export const GetTagsForItemRequest: Sync = ({
+  request,
+  user,
+  item,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Tags/getTagsForItem",
+    user,
+    item,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Tags.getTagsForItem, { user, item }]),
+});
+
+export const GetAllUserTagsRequest: Sync = ({
+  request,
+  user,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Tags/getAllUserTags",
+    user,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Tags.getAllUserTags, { user }]),
+});
+
+export const GetAllFoldersRequest: Sync = ({
+  request,
+  user,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Folder/getAllFolders",
+    user,
+    authToken,
+  }, {
+    request,
+  }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Folder.getAllFolders, { user }]),
+});
+
+export const GetRootFolderIdRequest: Sync = ({
+  request,
+  user,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Folder/getRootFolderId",
+    user,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Folder.getRootFolderId, { user }]),
+});
+
+export const GetFolderTreeRequest: Sync = ({
+  request,
+  user,
+  depth,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Folder/getFolderTree",
+    user,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    frames = await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+    return await bindRequestInputs(frames, request, { depth });
+  },
+  then: actions([Folder.getFolderTree, { user, depth }]),
+});
+
+export const GetBreadcrumbsRequest: Sync = ({
+  request,
+  user,
+  folder,
+  noteId,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Folder/getBreadcrumbs",
+    user,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    frames = await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+    return await bindRequestInputs(frames, request, { folder, noteId });
+  },
+  then: actions([Folder.getBreadcrumbs, { user, folder, item: noteId }]),
+});
+
+export const GetNoteRevisionsRequest: Sync = ({
+  request,
+  user,
+  noteId,
+  authToken,
+  authenticatedUser,
+  actingUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Notes/getNoteRevisions",
+    user,
+    noteId,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    frames = await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+    return await bindActingUser(
+      frames,
+      user,
+      noteId,
+      "note",
+      "viewer",
+      actingUser,
+    );
+  },
+  then: actions([Notes.getNoteRevisions, { noteId, user: actingUser }]),
+});
+
+export const DiffRevisionsRequest: Sync = ({
+  request,
+  user,
+  from,
+  to,
+  authToken,
+  authenticatedUser,
+  actingUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Notes/diffRevisions",
+    user,
+    from,
+    to,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    frames = await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+    return await bindActingUser(
+      frames,
+      user,
+      from,
+      "revision",
+      "viewer",
+      actingUser,
+    );
+  },
+  then: actions([Notes.diffRevisions, { from, to, user: actingUser }]),
+});
+
+export const GetTrashRequest: Sync = ({
+  request,
+  user,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Trash/getTrash",
+    user,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Trash.getTrash, { user }]),
+});
+
+export const GetSummaryJobStatusRequest: Sync = ({
+  request,
+  user,
+  job,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/SummaryJobs/getJobStatus",
+    user,
+    job,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([SummaryJobs.getJobStatus, { job, user }]),
+});
+
+export const GetUsageRequest: Sync = ({
+  request,
+  user,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Usage/getUsage",
+    user,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Usage.getUsage, { user }]),
+});
+
+export const GetSharedWithMeRequest: Sync = ({
+  request,
+  user,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Sharing/getSharedWithMe",
+    user,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Sharing.getSharedWithMe, { user }]),
+});
+
+export const GetGrantsRequest: Sync = ({
+  request,
+  user,
+  resource,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Sharing/getGrants",
+    user,
+    resource,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Sharing.getGrants, { owner: user, resource }]),
+});
+
+export const GetLinksRequest: Sync = ({
+  request,
+  user,
+  resource,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/ShareLinks/getLinks",
+    user,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    frames = await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+    return await bindRequestInputs(frames, request, { resource });
+  },
+  then: actions([ShareLinks.getLinks, { owner: user, resource }]),
+});
+
+// Public: anyone with a link's token may read what it links to, without an account
+export const ResolveLinkRequest: Sync = ({ request, token }) => ({
+  when: actions([Requesting.request, {
+    path: "/ShareLinks/resolveLink",
+    token,
+  }, { request }]),
+  then: actions([ShareLinks.resolveLink, { token }]),
+});
+
+export const GetFlashcardsRequest: Sync = ({
+  request,
+  user,
+  note,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Flashcards/getCards",
+    user,
+    note,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Flashcards.getCards, { owner: user, note }]),
+});
+
+export const GetDueTodayRequest: Sync = ({
+  request,
+  user,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Review/getDueToday",
+    user,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Review.getDueToday, { user }]),
+});
+
+export const GetPrioritizedNotesRequest: Sync = ({
+  request,
+  user,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Tags/getPrioritizedNotes",
+    user,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([Tags.getPrioritizedItems, { user }]),
+});
+
+export const DeleteAccountRequest: Sync = ({
+  request,
+  user,
+  password,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/PasswordAuth/deleteAccount",
+    user,
+    password,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([PasswordAuth.deleteAccount, { user, password }]),
+});
+
+export const LogoutEverywhereRequest: Sync = ({
+  request,
+  user,
+  authToken,
+  authenticatedUser,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/PasswordAuth/logoutEverywhere",
+    user,
+    authToken,
+  }, { request }]),
+  where: async (frames) => {
+    return await authenticateRequest(
+      frames,
+      authToken,
+      user,
+      authenticatedUser,
+    );
+  },
+  then: actions([PasswordAuth.logoutEverywhere, { user }]),
+});
+
+/***********************************************************************************/
+/********************************* User Responses *********************************/
+/***********************************************************************************/
+/***********************************************************************************/
+
+export const DeleteFolderResponse: Sync = ({
+  request,
+  folderId,
+  user,
+  accessToken,
+  trashedFolders,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Folder/deleteFolder", user, folderId }, {
+      request,
+    }],
+    [Folder.trashFolder, { f: folderId }, { trashedFolders }],
+  ),
+  where: async (frames) => {
+    // Deleting a folder moves it to the trash: Folder.trashFolder returns
+    // { title, trashedFolders, trashedItems } on success or { error: string } on failure
+    // Error cases are handled by DeleteFolderResponseError which matches on { error }
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, success: true, accessToken }]),
+});
+
+export const CreateNoteResponse: Sync = ({
+  request,
+  note,
+  user,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Notes/createNote", user }, { request }],
+    [Notes.createNote, {}, { note }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, note, accessToken }]),
+});
+
+export const CreateFolderResponse: Sync = ({
+  request,
+  folder,
+  user,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Folder/createFolder", user }, { request }],
+    [Folder.createFolder, {}, { folder }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, folder, accessToken }]),
+});
+
+export const MoveFolderResponse: Sync = ({
+  request,
+  success,
+  user,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Folder/moveFolder", user }, { request }],
+    [Folder.moveFolder, {}, { success }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, success, accessToken }]),
+});
+
+export const RenameFolderResponse: Sync = ({
+  request,
+  folder,
+  user,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Folder/renameFolder", user }, { request }],
+    [Folder.renameFolder, {}, { folder }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, folder, accessToken }]),
+});
+
+export const ReorderChildrenResponse: Sync = ({
+  request,
+  folder,
+  user,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Folder/reorderChildren", user }, {
+      request,
+    }],
+    [Folder.reorderChildren, {}, { folder }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, folder, accessToken }]),
+});
+
+export const ReorderItemsResponse: Sync = ({
+  request,
+  folder,
+  user,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Folder/reorderItems", user }, { request }],
+    [Folder.reorderItems, {}, { folder }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, folder, accessToken }]),
+});
+
+export const CreateSmartFolderResponse: Sync = ({
+  request,
+  user,
+  smartFolder,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/SmartFolders/createSmartFolder", user }, {
+      request,
+    }],
+    [SmartFolders.createSmartFolder, {}, { smartFolder }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, smartFolder, accessToken }]),
+});
+
+export const UpdateSmartFolderResponse: Sync = ({
+  request,
+  user,
+  smartFolder,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/SmartFolders/updateSmartFolder", user }, {
+      request,
+    }],
+    [SmartFolders.updateSmartFolder, {}, { smartFolder }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, smartFolder, accessToken }]),
+});
+
+export const DeleteSmartFolderResponse: Sync = ({
+  request,
+  user,
+  smartFolder,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/SmartFolders/deleteSmartFolder", user }, {
+      request,
+    }],
+    [SmartFolders.deleteSmartFolder, {}, { smartFolder }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, smartFolder, accessToken }]),
+});
+
+export const DeleteNoteResponse: Sync = ({
+  request,
+  user,
+  title,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Notes/deleteNote", user }, { request }],
+    [Notes.trashNote, {}, { title }],
+  ),
+  where: async (frames) => {
+    // Deleting a note moves it to the trash: Notes.trashNote returns
+    // { title } on success or { error: string } on failure
+    // Error cases are handled by DeleteNoteResponseError which matches on { error }
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, success: true, accessToken }]),
+});
+
+export const SetTitleResponse: Sync = ({
+  request,
+  user,
+  revision,
+  accessToken,
+}) => ({
+  when: actions([Requesting.request, { path: "/Notes/setTitle", user }, {
+    request,
+  }], [Notes.setTitle, {}, { revision }]),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, {
+    request,
+    success: true,
+    revision,
+    accessToken,
+  }]),
+});
+
+export const UpdateContentResponse: Sync = ({
+  request,
+  user,
+  revision,
+  accessToken,
+}) => ({
+  when: actions([Requesting.request, { path: "/Notes/updateContent", user }, {
+    request,
+  }], [Notes.updateContent, {}, { revision }]),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, {
+    request,
+    success: true,
+    revision,
+    accessToken,
+  }]),
+});
+
+export const MoveNoteResponse: Sync = ({
+  request,
+  user,
+  accessToken,
+}) => ({
+  when: actions([Requesting.request, { path: "/Folder/insertItem", user }, {
+    request,
+  }], [Folder.insertItem, {}, {}]),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, success: true, accessToken }]),
+});
+
+export const RemoveTagFromItemResponse: Sync = ({
+  request,
+  user,
+  accessToken,
+}) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Tags/removeTagFromItem", user },
+    { request },
+  ], [Tags.removeTagFromItem, {}, {}]),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, success: true, accessToken }]),
+});
+
+export const AddTagToItemResponse: Sync = ({
+  request,
+  user,
+  accessToken,
+}) => ({
+  when: actions([Requesting.request, { path: "/Tags/addTagToItem", user }, {
+    request,
+  }], [Tags.addTag, {}, {}]),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, success: true, accessToken }]),
+});
+
+export const RenameTagResponse: Sync = ({
+  request,
+  user,
+  tag,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Tags/renameTag", user }, { request }],
+    [Tags.renameTag, {}, { tag }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, tag, accessToken }]),
+});
+
+export const MergeTagsResponse: Sync = ({
+  request,
+  user,
+  tag,
+  added,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Tags/mergeTags", user }, { request }],
+    [Tags.mergeTags, {}, { tag, added }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, tag, added, accessToken }]),
+});
+
+export const DeleteTagResponse: Sync = ({
+  request,
+  user,
+  tag,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Tags/deleteTag", user }, { request }],
+    [Tags.deleteTag, {}, { tag }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, tag, accessToken }]),
+});
+
+export const SetTagColorResponse: Sync = ({
+  request,
+  user,
+  tag,
+  color,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Tags/setTagColor", user }, { request }],
+    [Tags.setTagColor, {}, { tag, color }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, tag, color, accessToken }]),
+});
+
+export const SetTagPriorityResponse: Sync = ({
+  request,
+  user,
+  tag,
+  priority,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Tags/setTagPriority", user }, { request }],
+    [Tags.setTagPriority, {}, { tag, priority }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, tag, priority, accessToken }]),
+});
+
+export const SetDueDateResponse: Sync = ({
+  request,
+  user,
+  item,
+  dueAt,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Tags/setDueDate", user }, { request }],
+    [Tags.setDueDate, {}, { item, dueAt }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, item, dueAt, accessToken }]),
+});
+
+export const MarkReviewedResponse: Sync = ({
+  request,
+  user,
+  item,
+  reviewedAt,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Tags/markReviewed", user }, { request }],
+    [Tags.markReviewed, {}, { item, reviewedAt }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, {
+    request,
+    item,
+    reviewedAt,
+    accessToken,
+  }]),
+});
+
+export const SetSummaryResponse: Sync = ({
+  request,
+  user,
+  accessToken,
+}) => ({
+  when: actions([Requesting.request, { path: "/Summaries/setSummary", user }, {
+    request,
+  }], [Summaries.setSummary, {}, {}]),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, success: true, accessToken }]),
+});
+
+export const SetSummaryWithAIResponse: Sync = ({
+  request,
+  user,
+  accessToken,
+  summary,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Summaries/setSummaryWithAI",
+    user,
+  }, { request }], [Summaries.setSummaryWithAI, {}, { summary }]),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, success: true, accessToken }]),
+});
+
+export const GenerateFlashcardsResponse: Sync = ({
+  request,
+  user,
+  cards,
+  rejected,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Flashcards/generateCards", user }, {
+      request,
+    }],
+    [Flashcards.generateCards, {}, { cards, rejected }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, {
+    request,
+    cards,
+    rejected,
+    accessToken,
+  }]),
+});
+
+export const EditFlashcardResponse: Sync = ({
+  request,
+  user,
+  card,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Flashcards/editCard", user }, { request }],
+    [Flashcards.editCard, {}, { card }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, card, accessToken }]),
+});
+
+export const DeleteFlashcardResponse: Sync = ({
+  request,
+  user,
+  card,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Flashcards/deleteCard", user }, {
+      request,
+    }],
+    [Flashcards.deleteCard, {}, { card }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, card, accessToken }]),
+});
+
+export const GetFlashcardsResponse: Sync = ({
+  request,
+  user,
+  cards,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Flashcards/getCards", user }, { request }],
+    [Flashcards.getCards, {}, { cards }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, cards, accessToken }]),
+});
+
+export const GetSummaryResponse: Sync = ({
+  request,
+  user,
+  accessToken,
+  summary,
+  stale,
+}) => ({
+  when: actions([Requesting.request, { path: "/Summaries/getSummary", user }, {
+    request,
+  }], [Summaries.getSummary, {}, { summary, stale }]),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, summary, stale, accessToken }]),
+});
+
+export const GetNoteDetailsResponse: Sync = ({
+  request,
+  user,
+  noteId,
+  accessToken,
+  content,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Notes/getNoteDetails",
+    user,
+    noteId,
+  }, {
+    request,
+  }], [Notes.getNoteDetails, {}, { content }]),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, content, accessToken }]),
+});
+
+export const GetNotesByUserResponse: Sync = ({
+  request,
+  user,
+  ownerId,
+  accessToken,
+  notes,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Notes/getNotesByUser",
+    user,
+    ownerId,
+  }, {
+    request,
+  }], [Notes.getNotesByUser, {}, { notes }]),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, notes, accessToken }]),
+});
+
+export const GetTagsForItemResponse: Sync = ({
+  request,
+  user,
+  item,
+  accessToken,
+  tags,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Tags/getTagsForItem",
+    user,
+    item,
+  }, {
+    request,
+  }], [Tags.getTagsForItem, {}, { tags }]),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, tags, accessToken }]),
+});
+
+export const GetAllUserTagsResponse: Sync = ({
+  request,
+  user,
+  accessToken,
+  tags,
+}) => ({
+  when: actions([Requesting.request, {
+    path: "/Tags/getAllUserTags",
+    user,
+  }, {
+    request,
+  }], [Tags.getAllUserTags, {}, { tags }]),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, tags, accessToken }]),
+});
+
+export const GetAllFoldersResponse: Sync = ({
+  request,
+  user,
+  accessToken,
+  folders,
+}) => ({
+  when: actions([Requesting.request, { path: "/Folder/getAllFolders", user }, {
+    request,
+  }], [Folder.getAllFolders, {}, { folders }]),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, folders, accessToken }]),
+});
+
+export const GetRootFolderIdResponse: Sync = (
+  { request, user, rootFolder, accessToken },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/Folder/getRootFolderId", user }, {
+      request,
+    }],
+    [Folder.getRootFolderId, {}, { rootFolder }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, rootFolder, accessToken }]),
+});
+
+export const GetFolderTreeResponse: Sync = ({
+  request,
+  user,
+  tree,
+  includeTitles,
+  smartFolders,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Folder/getFolderTree", user }, {
+      request,
+    }],
+    [Folder.getFolderTree, {}, { tree }],
+  ),
+  where: async (frames) => {
+    frames = await bindRequestInputs(frames, request, { includeTitles });
+    const joined = new Frames();
+    for (const $ of frames) {
+      // Folders keep trashed notes among their items, so only count the notes Notes still lists
+      const titles = await Notes._getNoteTitles({ user: $[user] as ID });
+      joined.push({
+        ...$,
+        [tree]: joinNoteTitles(
+          $[tree] as FolderTreeNode,
+          new Map(titles.map((note) => [note.noteId, note.title])),
+          Boolean($[includeTitles]),
+        ),
+        // Smart folders are listed beside the tree; their notes come from /Notes/query
+        [smartFolders]: await SmartFolders._getSmartFolders({
+          user: $[user] as ID,
+        }),
+      });
+    }
+    return await generateTokenForResponse(joined, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, {
+    request,
+    tree,
+    smartFolders,
+    accessToken,
+  }]),
+});
+
+export const GetBreadcrumbsResponse: Sync = ({
+  request,
+  user,
+  breadcrumbs,
+  noteId,
+  note,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Folder/getBreadcrumbs", user }, {
+      request,
+    }],
+    [Folder.getBreadcrumbs, {}, { breadcrumbs }],
+  ),
+  where: async (frames) => {
+    frames = await bindRequestInputs(frames, request, { noteId });
+    const joined = new Frames();
+    for (const $ of frames) {
+      const titles = $[noteId]
+        ? await Notes._getNoteTitles({ user: $[user] as ID })
+        : [];
+      const found = titles.find((title) => title.noteId === $[noteId]);
+      joined.push({
+        ...$,
+        [note]: found ? { _id: found.noteId, title: found.title } : null,
+      });
+    }
+    return await generateTokenForResponse(joined, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, {
+    request,
+    breadcrumbs,
+    note,
+    accessToken,
+  }]),
+});
+
+export const RestoreRevisionResponse: Sync = ({
+  request,
+  user,
+  revision,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Notes/restoreRevision", user }, {
+      request,
+    }],
+    [Notes.restoreRevision, {}, { revision }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, revision, accessToken }]),
+});
+
+export const GetNoteRevisionsResponse: Sync = ({
+  request,
+  user,
+  revisions,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Notes/getNoteRevisions", user }, {
+      request,
+    }],
+    [Notes.getNoteRevisions, {}, { revisions }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, revisions, accessToken }]),
+});
+
+export const DiffRevisionsResponse: Sync = ({
+  request,
+  user,
+  fromTitle,
+  toTitle,
+  diff,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Notes/diffRevisions", user }, {
+      request,
+    }],
+    [Notes.diffRevisions, {}, { fromTitle, toTitle, diff }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, {
+    request,
+    fromTitle,
+    toTitle,
+    diff,
+    accessToken,
+  }]),
+});
+
+export const GetTrashResponse: Sync = ({
+  request,
+  user,
+  entries,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Trash/getTrash", user }, { request }],
+    [Trash.getTrash, {}, { entries }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, entries, accessToken }]),
+});
+
+export const GetSummaryJobStatusResponse: Sync = ({
+  request,
+  user,
+  status,
+  item,
+  attempts,
+  lastError,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/SummaryJobs/getJobStatus", user }, {
+      request,
+    }],
+    [SummaryJobs.getJobStatus, {}, { status, item, attempts, lastError }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, {
+    request,
+    status,
+    item,
+    attempts,
+    lastError,
+    accessToken,
+  }]),
+});
+
+export const GetUsageResponse: Sync = ({
+  request,
+  user,
+  usage,
+  promptChars,
+  outputChars,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Usage/getUsage", user }, { request }],
+    [Usage.getUsage, {}, { usage, promptChars, outputChars }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, {
+    request,
+    usage,
+    promptChars,
+    outputChars,
+    accessToken,
+  }]),
+});
+
+export const ShareResponse: Sync = ({
+  request,
+  user,
+  grant,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Sharing/share", user }, { request }],
+    [Sharing.share, {}, { grant }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, grant, accessToken }]),
+});
+
+export const UnshareResponse: Sync = ({
+  request,
+  user,
+  grant,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Sharing/unshare", user }, { request }],
+    [Sharing.unshare, {}, { grant }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, grant, accessToken }]),
+});
+
+export const GetSharedWithMeResponse: Sync = ({
+  request,
+  user,
+  grants,
+  shared,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Sharing/getSharedWithMe", user }, {
+      request,
+    }],
+    [Sharing.getSharedWithMe, {}, { grants }],
+  ),
+  where: async (frames) => {
+    const joined = new Frames();
+    for (const $ of frames) {
+      const list = $[grants] as GrantDocument[];
+      const owners = await PasswordAuth._getUsernames({
+        users: [...new Set(list.map((grant) => grant.owner))],
+      });
+      const usernames = new Map(owners.map((o) => [o.user, o.username]));
+      const items = [];
+      for (const grant of list) {
+        // Resources in the owner's trash are hidden until they are restored
+        const found = await lookUpResource(grant.kind, grant.resource);
+        if (found && !found.trashed) {
+          items.push({
+            resource: grant.resource,
+            kind: grant.kind,
+            title: found.title,
+            level: grant.level,
+            owner: grant.owner,
+            ownerUsername: usernames.get(grant.owner) ?? null,
+            sharedAt: grant.createdAt,
+          });
+        }
+      }
+      joined.push({ ...$, [shared]: items });
+    }
+    return await generateTokenForResponse(joined, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, shared, accessToken }]),
+});
+
+export const GetGrantsResponse: Sync = ({
+  request,
+  user,
+  grants,
+  sharedWith,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Sharing/getGrants", user }, { request }],
+    [Sharing.getGrants, {}, { grants }],
+  ),
+  where: async (frames) => {
+    const joined = new Frames();
+    for (const $ of frames) {
+      const list = $[grants] as GrantDocument[];
+      const grantees = await PasswordAuth._getUsernames({
+        users: list.map((grant) => grant.grantee),
+      });
+      const usernames = new Map(grantees.map((g) => [g.user, g.username]));
+      joined.push({
+        ...$,
+        [sharedWith]: list.map((grant) => ({
+          grantee: grant.grantee,
+          username: usernames.get(grant.grantee) ?? null,
+          level: grant.level,
+          sharedAt: grant.createdAt,
+        })),
+      });
+    }
+    return await generateTokenForResponse(joined, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, sharedWith, accessToken }]),
+});
+
+export const CreateLinkResponse: Sync = ({
+  request,
+  user,
+  link,
+  token,
+  expiresAt,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/ShareLinks/createLink", user }, {
+      request,
+    }],
+    [ShareLinks.createLink, {}, { link, token, expiresAt }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, {
+    request,
+    link,
+    token,
+    expiresAt,
+    accessToken,
+  }]),
+});
+
+export const RevokeLinkResponse: Sync = ({
+  request,
+  user,
+  link,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/ShareLinks/revokeLink", user }, {
+      request,
+    }],
+    [ShareLinks.revokeLink, {}, { link }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, link, accessToken }]),
+});
+
+export const GetLinksResponse: Sync = ({
+  request,
+  user,
+  links,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/ShareLinks/getLinks", user }, { request }],
+    [ShareLinks.getLinks, {}, { links }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, links, accessToken }]),
+});
+
+// No access token is returned, since the request is not made by a signed-in user
+export const ResolveLinkResponse: Sync = ({
+  request,
+  resource,
+  kind,
+  shared,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/ShareLinks/resolveLink" }, { request }],
+    [ShareLinks.resolveLink, {}, { resource, kind }],
+  ),
+  where: async (frames) => {
+    frames = await bindLinkedContent(frames, resource, kind, shared);
+    return frames.filter(($) => $[shared] !== null);
+  },
+  then: actions([Requesting.respond, { request, shared }]),
+});
+
+// A link to a note or folder in the trash is treated like an invalid link
+export const ResolveLinkUnavailableResponse: Sync = ({
+  request,
+  resource,
+  kind,
+  shared,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/ShareLinks/resolveLink" }, { request }],
+    [ShareLinks.resolveLink, {}, { resource, kind }],
+  ),
+  where: async (frames) => {
+    frames = await bindLinkedContent(frames, resource, kind, shared);
+    return frames.filter(($) => $[shared] === null);
+  },
+  then: actions([Requesting.respond, {
+    request,
+    error: "This link is invalid or has expired.",
+  }]),
+});
+
+export const RecordReviewResponse: Sync = ({
+  request,
+  user,
+  card,
+  ease,
+  interval,
+  due,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Review/recordReview", user }, {
+      request,
+    }],
+    [Review.recordReview, {}, { card, ease, interval, due }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, {
+    request,
+    card,
+    ease,
+    interval,
+    due,
+    accessToken,
+  }]),
+});
+
+export const UnenrollResponse: Sync = ({
+  request,
+  user,
+  card,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Review/unenroll", user }, { request }],
+    [Review.unenroll, {}, { card }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, card, accessToken }]),
+});
+
+export const SetEnrollLabelResponse: Sync = ({
+  request,
+  user,
+  label,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Review/setEnrollLabel", user }, {
+      request,
+    }],
+    [Review.setEnrollLabel, {}, { label }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, label, accessToken }]),
+});
+
+export const GetDueTodayResponse: Sync = ({
+  request,
+  user,
+  cards,
+  due,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Review/getDueToday", user }, { request }],
+    [Review.getDueToday, {}, { cards }],
+  ),
+  where: async (frames) => {
+    const joined = new Frames();
+    for (const $ of frames) {
+      const items = [];
+      for (const card of $[cards] as CardDocument[]) {
+        // Notes in the trash are not reviewed until they are restored
+        const [note] = await Notes._getOwner({ noteId: card.note });
+        if (note && !note.trashed) {
+          items.push({
+            note: card.note,
+            title: note.title,
+            due: card.due,
+            interval: card.interval,
+            ease: card.ease,
+            repetitions: card.repetitions,
+            lastReviewedAt: card.lastReviewedAt,
+          });
+        }
+      }
+      joined.push({ ...$, [due]: items });
+    }
+    return await generateTokenForResponse(joined, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, due, accessToken }]),
+});
+
+export const GetPrioritizedNotesResponse: Sync = ({
+  request,
+  user,
+  items,
+  notes,
+  total,
+  page,
+  pageSize,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Tags/getPrioritizedNotes", user }, {
+      request,
+    }],
+    [Tags.getPrioritizedItems, {}, { items }],
+  ),
+  where: async (frames) => {
+    frames = await bindRequestInputs(frames, request, { page, pageSize });
+    const listed = new Frames();
+    for (const $ of frames) {
+      const requestedPage = Math.max(1, Math.floor(Number($[page]) || 1));
+      const requestedPageSize = Math.min(
+        Math.max(1, Math.floor(Number($[pageSize]) || DEFAULT_PAGE_SIZE)),
+        MAX_PAGE_SIZE,
+      );
+      const dashboard = await buildDashboard(
+        $[user] as ID,
+        $[items] as PrioritizedItem[],
+      );
+      const start = (requestedPage - 1) * requestedPageSize;
+      listed.push({
+        ...$,
+        [notes]: dashboard.slice(start, start + requestedPageSize),
+        [total]: dashboard.length,
+        [page]: requestedPage,
+        [pageSize]: requestedPageSize,
+      });
+    }
+    return await generateTokenForResponse(listed, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, {
+    request,
+    notes,
+    total,
+    page,
+    pageSize,
+    accessToken,
+  }]),
+});
+
+// No new access token is returned, since the account no longer exists
+export const DeleteAccountResponse: Sync = ({ request, user }) => ({
+  when: actions(
+    [Requesting.request, { path: "/PasswordAuth/deleteAccount" }, {
+      request,
+    }],
+    [PasswordAuth.deleteAccount, {}, { user }],
+  ),
+  then: actions([Requesting.respond, { request, user }]),
+});
+
+// No new access token is returned, since every session of the user has just ended
+export const LogoutEverywhereResponse: Sync = ({ request, revoked }) => ({
+  when: actions(
+    [Requesting.request, { path: "/PasswordAuth/logoutEverywhere" }, {
+      request,
+    }],
+    [PasswordAuth.logoutEverywhere, {}, { revoked }],
+  ),
+  then: actions([Requesting.respond, { request, revoked }]),
+});
+
+export const RestoreNoteFromTrashResponse: Sync = ({
+  request,
+  user,
+  item,
+  note,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Trash/restore", user }, { request }],
+    [Trash.restore, {}, { item, kind: "note" }],
+    [Notes.restoreNote, { noteId: item }, { note }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, {
+    request,
+    item,
+    kind: "note",
+    accessToken,
+  }]),
+});
+
+export const RestoreFolderFromTrashResponse: Sync = ({
+  request,
+  user,
+  item,
+  restoredFolders,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Trash/restore", user }, { request }],
+    [Trash.restore, {}, { item, kind: "folder" }],
+    [Folder.restoreFolder, { f: item }, { restoredFolders }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, {
+    request,
+    item,
+    kind: "folder",
+    accessToken,
+  }]),
+});
+
+export const EmptyTrashResponse: Sync = ({
+  request,
+  user,
+  entries,
+  accessToken,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Trash/emptyTrash", user }, { request }],
+    [Trash.emptyTrash, {}, { entries }],
+  ),
+  where: async (frames) => {
+    return await generateTokenForResponse(frames, request, user, accessToken);
+  },
+  then: actions([Requesting.respond, { request, success: true, accessToken }]),
+});
+
+/***********************************************************************************/
+/********************************* User Response Errors **********************************/
+/***********************************************************************************/
+/***********************************************************************************/
+
+export const CreateNoteResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Notes/createNote" }, { request }],
+    [Notes.createNote, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const CreateFolderResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Folder/createFolder" }, { request }],
+    [Folder.createFolder, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const MoveFolderResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Folder/moveFolder" }, { request }],
+    [Folder.moveFolder, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const RenameFolderResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Folder/renameFolder" }, { request }],
+    [Folder.renameFolder, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const ReorderChildrenResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Folder/reorderChildren" }, { request }],
+    [Folder.reorderChildren, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const ReorderItemsResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Folder/reorderItems" }, { request }],
+    [Folder.reorderItems, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const DeleteFolderResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Folder/deleteFolder" }, { request }],
+    [Folder.trashFolder, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const CreateSmartFolderResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/SmartFolders/createSmartFolder" }, {
+      request,
+    }],
+    [SmartFolders.createSmartFolder, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const UpdateSmartFolderResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/SmartFolders/updateSmartFolder" }, {
+      request,
+    }],
+    [SmartFolders.updateSmartFolder, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const DeleteSmartFolderResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/SmartFolders/deleteSmartFolder" }, {
+      request,
+    }],
+    [SmartFolders.deleteSmartFolder, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const DeleteNoteResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Notes/deleteNote" }, { request }],
+    [Notes.trashNote, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// Conflicts are answered by SetTitleConflictError, with the note as it is now
+export const SetTitleResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Notes/setTitle" }, { request }],
+    [Notes.setTitle, {}, { error }],
+  ),
+  where: (frames) => frames.filter(($) => $[error] !== "revision_conflict"),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const SetTitleConflictError: Sync = ({
+  request,
+  error,
+  currentRevision,
+  title,
+  content,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Notes/setTitle" }, { request }],
+    [Notes.setTitle, {}, { error, currentRevision, title, content }],
+  ),
+  then: actions([Requesting.respond, {
+    request,
+    error,
+    currentRevision,
+    title,
+    content,
+  }]),
+});
+
+// Conflicts are answered by UpdateContentConflictError, with the note as it is now
+export const UpdateContentResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Notes/updateContent" }, { request }],
+    [Notes.updateContent, {}, { error }],
+  ),
+  where: (frames) => frames.filter(($) => $[error] !== "revision_conflict"),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const UpdateContentConflictError: Sync = ({
+  request,
+  error,
+  currentRevision,
+  title,
+  content,
+}) => ({
+  when: actions(
+    [Requesting.request, { path: "/Notes/updateContent" }, { request }],
+    [Notes.updateContent, {}, { error, currentRevision, title, content }],
+  ),
+  then: actions([Requesting.respond, {
+    request,
+    error,
+    currentRevision,
+    title,
+    content,
+  }]),
+});
+
+export const MoveNoteResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Folder/insertItem" }, { request }],
+    [Folder.insertItem, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const RemoveTagFromItemResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Tags/removeTagFromItem" }, { request }],
+    [Tags.removeTagFromItem, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const AddTagToItemResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Tags/addTagToItem" }, { request }],
+    [Tags.addTag, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const RenameTagResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Tags/renameTag" }, { request }],
+    [Tags.renameTag, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const MergeTagsResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Tags/mergeTags" }, { request }],
+    [Tags.mergeTags, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const DeleteTagResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Tags/deleteTag" }, { request }],
+    [Tags.deleteTag, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const SetTagColorResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Tags/setTagColor" }, { request }],
+    [Tags.setTagColor, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const SetTagPriorityResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Tags/setTagPriority" }, { request }],
+    [Tags.setTagPriority, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const SetDueDateResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Tags/setDueDate" }, { request }],
+    [Tags.setDueDate, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const MarkReviewedResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Tags/markReviewed" }, { request }],
+    [Tags.markReviewed, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const GetPrioritizedNotesResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Tags/getPrioritizedNotes" }, { request }],
+    [Tags.getPrioritizedItems, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
 });
 
-export const CreateNoteResponse: Sync = ({
-  request,
-  note,
-  user,
-  accessToken,
-}) => ({
+export const GetSummaryResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Notes/createNote", user }, { request }],
-    [Notes.createNote, {}, { note }],
+    [Requesting.request, { path: "/Summaries/getSummary" }, { request }],
+    [Summaries.getSummary, {}, { error }],
   ),
-  where: async (frames) => {
-    return await generateTokenForResponse(frames, user, accessToken);
-  },
-  then: actions([Requesting.respond, { request, note, accessToken }]),
+  then: actions([Requesting.respond, { request, error }]),
 });
 
-export const CreateFolderResponse: Sync = ({
-  request,
-  folder,
-  user,
-  accessToken,
-}) => ({
+export const GetNoteDetailsResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Folder/createFolder", user }, { request }],
-    [Folder.createFolder, {}, { folder }],
+    [Requesting.request, { path: "/Notes/getNoteDetails" }, { request }],
+    [Notes.getNoteDetails, {}, { error }],
   ),
-  where: async (frames) => {
-    return await generateTokenForResponse(frames, user, accessToken);
-  },
-  then: actions([Requesting.respond, { request, folder, accessToken }]),
+  then: actions([Requesting.respond, { request, error }]),
 });
 
-export const MoveFolderResponse: Sync = ({
-  request,
-  success,
-  user,
-  accessToken,
-}) => ({
+export const GetNotesByUserResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Folder/moveFolder", user }, { request }],
-    [Folder.moveFolder, {}, { success }],
+    [Requesting.request, { path: "/Notes/getNotesByUser" }, { request }],
+    [Notes.getNotesByUser, {}, { error }],
   ),
-  where: async (frames) => {
-    return await generateTokenForResponse(frames, user, accessToken);
-  },
-  then: actions([Requesting.respond, { request, success, accessToken }]),
+  then: actions([Requesting.respond, { request, error }]),
 });
 
-export const DeleteNoteResponse: Sync = ({
-  request,
-  user,
-  accessToken,
-}) => ({
+export const GetTagsForItemResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Notes/deleteNote", user }, { request }],
-    [Notes.deleteNote, {}, {}],
+    [Requesting.request, { path: "/Tags/getTagsForItem" }, { request }],
+    [Tags.getTagsForItem, {}, { error }],
   ),
-  where: async (frames) => {
-    // Notes.deleteNote returns {} on success or { error: string } on failure
-    // Empty output pattern {} means we don't try to match any output fields
-    // Error cases are handled by DeleteNoteResponseError which matches on { error }
-    return await generateTokenForResponse(frames, user, accessToken);
-  },
-  then: actions([Requesting.respond, { request, success: true, accessToken }]),
+  then: actions([Requesting.respond, { request, error }]),
 });
 
-export const SetTitleResponse: Sync = ({
-  request,
-  user,
-  accessToken,
-}) => ({
-  when: actions([Requesting.request, { path: "/Notes/setTitle", user }, {
-    request,
-  }], [Notes.setTitle, {}, {}]),
-  where: async (frames) => {
-    return await generateTokenForResponse(frames, user, accessToken);
-  },
-  then: actions([Requesting.respond, { request, success: true, accessToken }]),
+export const GetAllUserTagsResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Tags/getAllUserTags" }, { request }],
+    [Tags.getAllUserTags, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
 });
 
-export const UpdateContentResponse: Sync = ({
-  request,
-  user,
-  accessToken,
-}) => ({
-  when: actions([Requesting.request, { path: "/Notes/updateContent", user }, {
-    request,
-  }], [Notes.updateContent, {}, {}]),
-  where: async (frames) => {
-    return await generateTokenForResponse(frames, user, accessToken);
-  },
-  then: actions([Requesting.respond, { request, success: true, accessToken }]),
+export const SetSummaryWithAIResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Summaries/setSummaryWithAI" }, { request }],
+    [Summaries.setSummaryWithAI, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
 });
 
-export const MoveNoteResponse: Sync = ({
+export const SetSummaryWithAIQuotaError: Sync = ({
   request,
-  user,
-  accessToken,
+  error,
+  quota,
+  limit,
+  used,
+  resetsAt,
 }) => ({
-  when: actions([Requesting.request, { path: "/Folder/insertItem", user }, {
+  when: actions(
+    [Requesting.request, { path: "/Summaries/setSummaryWithAI" }, { request }],
+    [Usage.checkQuota, {}, { error, quota, limit, used, resetsAt }],
+  ),
+  then: actions([Requesting.respond, {
     request,
-  }], [Folder.insertItem, {}, {}]),
-  where: async (frames) => {
-    return await generateTokenForResponse(frames, user, accessToken);
-  },
-  then: actions([Requesting.respond, { request, success: true, accessToken }]),
+    error,
+    quota,
+    limit,
+    used,
+    resetsAt,
+  }]),
 });
 
-export const RemoveTagFromItemResponse: Sync = ({
-  request,
-  user,
-  accessToken,
-}) => ({
-  when: actions([
-    Requesting.request,
-    { path: "/Tags/removeTagFromItem", user },
-    { request },
-  ], [Tags.removeTagFromItem, {}, {}]),
-  where: async (frames) => {
-    return await generateTokenForResponse(frames, user, accessToken);
-  },
-  then: actions([Requesting.respond, { request, success: true, accessToken }]),
+export const GenerateFlashcardsResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Flashcards/generateCards" }, { request }],
+    [Flashcards.generateCards, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
 });
 
-export const AddTagToItemResponse: Sync = ({
+export const GenerateFlashcardsQuotaError: Sync = ({
   request,
-  user,
-  accessToken,
+  error,
+  quota,
+  limit,
+  used,
+  resetsAt,
 }) => ({
-  when: actions([Requesting.request, { path: "/Tags/addTagToItem", user }, {
+  when: actions(
+    [Requesting.request, { path: "/Flashcards/generateCards" }, { request }],
+    [Usage.checkQuota, {}, { error, quota, limit, used, resetsAt }],
+  ),
+  then: actions([Requesting.respond, {
     request,
-  }], [Tags.addTag, {}, {}]),
-  where: async (frames) => {
-    return await generateTokenForResponse(frames, user, accessToken);
-  },
-  then: actions([Requesting.respond, { request, success: true, accessToken }]),
+    error,
+    quota,
+    limit,
+    used,
+    resetsAt,
+  }]),
 });
 
-export const SetSummaryResponse: Sync = ({
-  request,
-  user,
-  accessToken,
-}) => ({
-  when: actions([Requesting.request, { path: "/Summaries/setSummary", user }, {
-    request,
-  }], [Summaries.setSummary, {}, {}]),
-  where: async (frames) => {
-    return await generateTokenForResponse(frames, user, accessToken);
-  },
-  then: actions([Requesting.respond, { request, success: true, accessToken }]),
+export const EditFlashcardResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Flashcards/editCard" }, { request }],
+    [Flashcards.editCard, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
 });
 
-export const SetSummaryWithAIResponse: Sync = ({
-  request,
-  user,
-  accessToken,
-}) => ({
-  when: actions([Requesting.request, {
-    path: "/Summaries/setSummaryWithAI",
-    user,
-  }, { request }]),
-  where: async (frames) => {
-    return await generateTokenForResponse(frames, user, accessToken);
-  },
-  then: actions([Requesting.respond, { request, success: true, accessToken }]),
+export const DeleteFlashcardResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Flashcards/deleteCard" }, { request }],
+    [Flashcards.deleteCard, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
 });
 
-export const GetSummaryResponse: Sync = ({
-  request,
-  user,
-  accessToken,
-  summary,
-}) => ({
-  when: actions([Requesting.request, { path: "/Summaries/getSummary", user }, {
-    request,
-  }], [Summaries.getSummary, {}, { summary }]),
-  where: async (frames) => {
-    return await generateTokenForResponse(frames, user, accessToken);
-  },
-  then: actions([Requesting.respond, { request, summary, accessToken }]),
+export const GetFlashcardsResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Flashcards/getCards" }, { request }],
+    [Flashcards.getCards, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
 });
 
-export const GetNoteDetailsResponse: Sync = ({
-  request,
-  user,
-  noteId,
-  accessToken,
-  content,
-}) => ({
-  when: actions([Requesting.request, {
-    path: "/Notes/getNoteDetails",
-    user,
-    noteId,
-  }, {
-    request,
-  }], [Notes.getNoteDetails, {}, { content }]),
-  where: async (frames) => {
-    return await generateTokenForResponse(frames, user, accessToken);
-  },
-  then: actions([Requesting.respond, { request, content, accessToken }]),
+export const GetAllFoldersResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Folder/getAllFolders" }, { request }],
+    [Folder.getAllFolders, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
 });
 
-export const GetNotesByUserResponse: Sync = ({
-  request,
-  user,
-  ownerId,
-  accessToken,
-  notes,
-}) => ({
-  when: actions([Requesting.request, {
-    path: "/Notes/getNotesByUser",
-    user,
-    ownerId,
-  }, {
-    request,
-  }], [Notes.getNotesByUser, {}, { notes }]),
-  where: async (frames) => {
-    return await generateTokenForResponse(frames, user, accessToken);
-  },
-  then: actions([Requesting.respond, { request, notes, accessToken }]),
+export const GetRootFolderIdResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Folder/getRootFolderId" }, { request }],
+    [Folder.getRootFolderId, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
 });
 
-export const GetTagsForItemResponse: Sync = ({
-  request,
-  user,
-  item,
-  accessToken,
-  tags,
-}) => ({
-  when: actions([Requesting.request, {
-    path: "/Tags/getTagsForItem",
-    user,
-    item,
-  }, {
-    request,
-  }], [Tags.getTagsForItem, {}, { tags }]),
-  where: async (frames) => {
-    return await generateTokenForResponse(frames, user, accessToken);
-  },
-  then: actions([Requesting.respond, { request, tags, accessToken }]),
+export const GetFolderTreeResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Folder/getFolderTree" }, { request }],
+    [Folder.getFolderTree, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
 });
 
-export const GetAllUserTagsResponse: Sync = ({
-  request,
-  user,
-  accessToken,
-  tags,
-}) => ({
-  when: actions([Requesting.request, {
-    path: "/Tags/getAllUserTags",
-    user,
-  }, {
-    request,
-  }], [Tags.getAllUserTags, {}, { tags }]),
-  where: async (frames) => {
-    return await generateTokenForResponse(frames, user, accessToken);
-  },
-  then: actions([Requesting.respond, { request, tags, accessToken }]),
+export const GetBreadcrumbsResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Folder/getBreadcrumbs" }, { request }],
+    [Folder.getBreadcrumbs, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
 });
 
-export const GetAllFoldersResponse: Sync = ({
-  request,
-  user,
-  accessToken,
-  folders,
-}) => ({
-  when: actions([Requesting.request, { path: "/Folder/getAllFolders", user }, {
-    request,
-  }], [Folder.getAllFolders, {}, { folders }]),
-  where: async (frames) => {
-    return await generateTokenForResponse(frames, user, accessToken);
-  },
-  then: actions([Requesting.respond, { request, folders, accessToken }]),
+export const RestoreRevisionResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Notes/restoreRevision" }, { request }],
+    [Notes.restoreRevision, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
 });
 
-export const GetRootFolderIdResponse: Sync = (
-  { request, user, rootFolder, accessToken },
+export const GetNoteRevisionsResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Notes/getNoteRevisions" }, { request }],
+    [Notes.getNoteRevisions, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const DiffRevisionsResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Notes/diffRevisions" }, { request }],
+    [Notes.diffRevisions, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const GetTrashResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Trash/getTrash" }, { request }],
+    [Trash.getTrash, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const GetSummaryJobStatusResponseError: Sync = (
+  { request, error },
 ) => ({
   when: actions(
-    [Requesting.request, { path: "/Folder/getRootFolderId", user }, {
-      request,
-    }],
-    [Folder.getRootFolderId, {}, { rootFolder }],
+    [Requesting.request, { path: "/SummaryJobs/getJobStatus" }, { request }],
+    [SummaryJobs.getJobStatus, {}, { error }],
   ),
-  where: async (frames) => {
-    return await generateTokenForResponse(frames, user, accessToken);
-  },
-  then: actions([Requesting.respond, { request, rootFolder, accessToken }]),
+  then: actions([Requesting.respond, { request, error }]),
 });
 
-/***********************************************************************************/
-/********************************* User Response Errors **********************************/
-/***********************************************************************************/
-/***********************************************************************************/
+export const GetUsageResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Usage/getUsage" }, { request }],
+    [Usage.getUsage, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
 
-export const CreateNoteResponseError: Sync = ({ request, error }) => ({
+export const ShareResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Notes/createNote" }, { request }],
-    [Notes.createNote, {}, { error }],
+    [Requesting.request, { path: "/Sharing/share" }, { request }],
+    [Sharing.share, {}, { error }],
   ),
   then: actions([Requesting.respond, { request, error }]),
 });
 
-export const CreateFolderResponseError: Sync = ({ request, error }) => ({
+export const UnshareResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Folder/createFolder" }, { request }],
-    [Folder.createFolder, {}, { error }],
+    [Requesting.request, { path: "/Sharing/unshare" }, { request }],
+    [Sharing.unshare, {}, { error }],
   ),
   then: actions([Requesting.respond, { request, error }]),
 });
 
-export const MoveFolderResponseError: Sync = ({ request, error }) => ({
+export const GetSharedWithMeResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Folder/moveFolder" }, { request }],
-    [Folder.moveFolder, {}, { error }],
+    [Requesting.request, { path: "/Sharing/getSharedWithMe" }, { request }],
+    [Sharing.getSharedWithMe, {}, { error }],
   ),
   then: actions([Requesting.respond, { request, error }]),
 });
 
-export const DeleteFolderResponseError: Sync = ({ request, error }) => ({
+export const GetGrantsResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Folder/deleteFolder" }, { request }],
-    [Folder.deleteFolder, {}, { error }],
+    [Requesting.request, { path: "/Sharing/getGrants" }, { request }],
+    [Sharing.getGrants, {}, { error }],
   ),
   then: actions([Requesting.respond, { request, error }]),
 });
 
-export const DeleteNoteResponseError: Sync = ({ request, error }) => ({
+export const CreateLinkResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Notes/deleteNote" }, { request }],
-    [Notes.deleteNote, {}, { error }],
+    [Requesting.request, { path: "/ShareLinks/createLink" }, { request }],
+    [ShareLinks.createLink, {}, { error }],
   ),
   then: actions([Requesting.respond, { request, error }]),
 });
 
-export const SetTitleResponseError: Sync = ({ request, error }) => ({
+export const RevokeLinkResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Notes/setTitle" }, { request }],
-    [Notes.setTitle, {}, { error }],
+    [Requesting.request, { path: "/ShareLinks/revokeLink" }, { request }],
+    [ShareLinks.revokeLink, {}, { error }],
   ),
   then: actions([Requesting.respond, { request, error }]),
 });
 
-export const UpdateContentResponseError: Sync = ({ request, error }) => ({
+export const GetLinksResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Notes/updateContent" }, { request }],
-    [Notes.updateContent, {}, { error }],
+    [Requesting.request, { path: "/ShareLinks/getLinks" }, { request }],
+    [ShareLinks.getLinks, {}, { error }],
   ),
   then: actions([Requesting.respond, { request, error }]),
 });
 
-export const MoveNoteResponseError: Sync = ({ request, error }) => ({
+export const ResolveLinkResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Folder/insertItem" }, { request }],
-    [Folder.insertItem, {}, { error }],
+    [Requesting.request, { path: "/ShareLinks/resolveLink" }, { request }],
+    [ShareLinks.resolveLink, {}, { error }],
   ),
   then: actions([Requesting.respond, { request, error }]),
 });
 
-export const RemoveTagFromItemResponseError: Sync = ({ request, error }) => ({
+export const RecordReviewResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Tags/removeTagFromItem" }, { request }],
-    [Tags.removeTagFromItem, {}, { error }],
+    [Requesting.request, { path: "/Review/recordReview" }, { request }],
+    [Review.recordReview, {}, { error }],
   ),
   then: actions([Requesting.respond, { request, error }]),
 });
 
-export const AddTagToItemResponseError: Sync = ({ request, error }) => ({
+export const UnenrollResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Tags/addTagToItem" }, { request }],
-    [Tags.addTag, {}, { error }],
+    [Requesting.request, { path: "/Review/unenroll" }, { request }],
+    [Review.unenroll, {}, { error }],
   ),
   then: actions([Requesting.respond, { request, error }]),
 });
 
-export const GetSummaryResponseError: Sync = ({ request, error }) => ({
+export const SetEnrollLabelResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Summaries/getSummary" }, { request }],
-    [Summaries.getSummary, {}, { error }],
+    [Requesting.request, { path: "/Review/setEnrollLabel" }, { request }],
+    [Review.setEnrollLabel, {}, { error }],
   ),
   then: actions([Requesting.respond, { request, error }]),
 });
 
-export const GetNoteDetailsResponseError: Sync = ({ request, error }) => ({
+export const GetDueTodayResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Notes/getNoteDetails" }, { request }],
-    [Notes.getNoteDetails, {}, { error }],
+    [Requesting.request, { path: "/Review/getDueToday" }, { request }],
+    [Review.getDueToday, {}, { error }],
   ),
   then: actions([Requesting.respond, { request, error }]),
 });
 
-export const GetNotesByUserResponseError: Sync = ({ request, error }) => ({
+export const DeleteAccountResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Notes/getNotesByUser" }, { request }],
-    [Notes.getNotesByUser, {}, { error }],
+    [Requesting.request, { path: "/PasswordAuth/deleteAccount" }, {
+      request,
+    }],
+    [PasswordAuth.deleteAccount, {}, { error }],
   ),
   then: actions([Requesting.respond, { request, error }]),
 });
 
-export const GetTagsForItemResponseError: Sync = ({ request, error }) => ({
+export const LogoutEverywhereResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Tags/getTagsForItem" }, { request }],
-    [Tags.getTagsForItem, {}, { error }],
+    [Requesting.request, { path: "/PasswordAuth/logoutEverywhere" }, {
+      request,
+    }],
+    [PasswordAuth.logoutEverywhere, {}, { error }],
   ),
   then: actions([Requesting.respond, { request, error }]),
 });
 
-export const GetAllUserTagsResponseError: Sync = ({ request, error }) => ({
+export const RestoreFromTrashResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Tags/getAllUserTags" }, { request }],
-    [Tags.getAllUserTags, {}, { error }],
+    [Requesting.request, { path: "/Trash/restore" }, { request }],
+    [Trash.restore, {}, { error }],
   ),
   then: actions([Requesting.respond, { request, error }]),
 });
 
-export const SetSummaryWithAIResponseError: Sync = ({ request, error }) => ({
+export const RestoreNoteFromTrashResponseError: Sync = ({
+  request,
+  item,
+  error,
+}) => ({
   when: actions(
-    [Requesting.request, { path: "/Summaries/setSummaryWithAI" }, { request }],
-    [Summaries.setSummaryWithAI, {}, { error }],
+    [Requesting.request, { path: "/Trash/restore" }, { request }],
+    [Trash.restore, {}, { item }],
+    [Notes.restoreNote, { noteId: item }, { error }],
   ),
   then: actions([Requesting.respond, { request, error }]),
 });
 
-export const GetAllFoldersResponseError: Sync = ({ request, error }) => ({
+export const RestoreFolderFromTrashResponseError: Sync = ({
+  request,
+  item,
+  error,
+}) => ({
   when: actions(
-    [Requesting.request, { path: "/Folder/getAllFolders" }, { request }],
-    [Folder.getAllFolders, {}, { error }],
+    [Requesting.request, { path: "/Trash/restore" }, { request }],
+    [Trash.restore, {}, { item }],
+    [Folder.restoreFolder, { f: item }, { error }],
   ),
   then: actions([Requesting.respond, { request, error }]),
 });
 
-export const GetRootFolderIdResponseError: Sync = ({ request, error }) => ({
+export const EmptyTrashResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Folder/getRootFolderId" }, { request }],
-    [Folder.getRootFolderId, {}, { error }],
+    [Requesting.request, { path: "/Trash/emptyTrash" }, { request }],
+    [Trash.emptyTrash, {}, { error }],
   ),
   then: actions([Requesting.respond, { request, error }]),
 });
@@ -1404,18 +5291,512 @@ const authenticateRequest = async (
 };
 
 /**
- * Reusable token generation where clause for response syncs
+ * Reusable token generation where clause for response syncs.
+ * The new token stays in the session of the token the request was made with;
+ * if that session was revoked while the request ran, no token is returned.
  */
 const generateTokenForResponse = async (
   frames: Frames,
+  request: symbol,
   user: symbol,
   accessToken: symbol,
 ): Promise<Frames> => {
-  // Generate a new access token for the user
-  frames = await frames.query(
-    PasswordAuth._generateNewAccessToken,
-    { user },
-    { accessToken },
+  const result = new Frames();
+  for (const frame of frames) {
+    const [requestInput] = await Requesting._getRequestInput({
+      request: frame[request] as ID,
+    });
+    const authToken =
+      (requestInput?.input as { authToken?: string } | undefined)
+        ?.authToken ?? "";
+    const [token] = await PasswordAuth._generateNewAccessToken({
+      user: frame[user] as ID,
+      authToken,
+    });
+    result.push({ ...frame, [accessToken]: token?.accessToken ?? null });
+  }
+  return result;
+};
+
+/**
+ * Reusable where clause that expands an array of item IDs into one frame per item
+ */
+const expandItems = (
+  frames: Frames,
+  items: symbol,
+  item: symbol,
+): Frames => {
+  const result = new Frames();
+  for (const frame of frames) {
+    const ids = frame[items];
+    // Filter out error cases (handled by error syncs)
+    if (!Array.isArray(ids)) {
+      continue;
+    }
+    for (const id of ids) {
+      result.push({ ...frame, [item]: id });
+    }
+  }
+  return result;
+};
+
+/**
+ * Reusable where clause that expands removed trash entries of one kind
+ * into one frame per entry, binding the trashed item and its owner
+ */
+const expandTrashEntries = (
+  frames: Frames,
+  entries: symbol,
+  kind: "note" | "folder",
+  item: symbol,
+  owner: symbol,
+): Frames => {
+  const result = new Frames();
+  for (const frame of frames) {
+    const removed = frame[entries] as
+      | { item: ID; kind: string; owner: ID }[]
+      | undefined;
+    if (!Array.isArray(removed)) {
+      continue;
+    }
+    for (const entry of removed) {
+      if (entry.kind === kind) {
+        result.push({ ...frame, [item]: entry.item, [owner]: entry.owner });
+      }
+    }
+  }
+  return result;
+};
+
+/**
+ * Reusable where clause that binds optional request inputs, which can't be matched in `when`,
+ * binding null for any input the request left out
+ */
+const bindRequestInputs = async (
+  frames: Frames,
+  request: symbol,
+  inputs: Record<string, symbol>,
+): Promise<Frames> => {
+  const result = new Frames();
+  for (const frame of frames) {
+    const [requestInput] = await Requesting._getRequestInput({
+      request: frame[request] as ID,
+    });
+    const input = (requestInput?.input ?? {}) as Record<string, unknown>;
+    const bound = { ...frame };
+    for (const [name, symbol] of Object.entries(inputs)) {
+      bound[symbol] = input[name] ?? null;
+    }
+    result.push(bound);
+  }
+  return result;
+};
+
+/**
+ * Reusable where clause that looks up a user by the username given in a request,
+ * binding null if no user has the username
+ */
+const bindUserByUsername = async (
+  frames: Frames,
+  username: symbol,
+  found: symbol,
+): Promise<Frames> => {
+  const result = new Frames();
+  for (const frame of frames) {
+    const [match] = await PasswordAuth._getUserByUsername({
+      username: frame[username] as string,
+    });
+    result.push({ ...frame, [found]: match?.user ?? null });
+  }
+  return result;
+};
+
+/**
+ * Looks up the owner, title and trash state of a note or folder,
+ * with every resource whose grants apply to it: the resource itself and the folders above it
+ */
+const lookUpResource = async (
+  kind: ResourceKind,
+  resource: ID | null,
+): Promise<
+  { owner: ID; title: string; trashed: boolean; path: ID[] } | null
+> => {
+  if (!resource) {
+    return null;
+  }
+  if (kind === "folder") {
+    const [folder] = await Folder._getFolderPath({ folder: resource });
+    return folder ?? null;
+  }
+  const [note] = await Notes._getOwner({ noteId: resource });
+  if (!note) {
+    return null;
+  }
+  const [container] = await Folder._getItemPath({ item: resource });
+  return { ...note, path: [resource, ...(container?.path ?? [])] };
+};
+
+/**
+ * Reusable where clause for requests on a note, revision or folder that may belong to someone else.
+ * Binds the owner as the acting user when the requesting user was granted at least `level`
+ * on the resource or on any folder above it, so the owner's ownership checks pass;
+ * otherwise binds the requesting user, and those checks reject the request as before.
+ */
+const bindActingUser = async (
+  frames: Frames,
+  user: symbol,
+  resource: symbol,
+  kind: ResourceKind | "revision",
+  level: AccessLevel,
+  actingUser: symbol,
+): Promise<Frames> => {
+  const result = new Frames();
+  for (const frame of frames) {
+    const requester = frame[user] as ID;
+    const [revision] = kind === "revision" && frame[resource]
+      ? await Notes._getRevisionNote({ revisionId: frame[resource] as ID })
+      : [];
+    const found = kind === "revision"
+      ? revision ? await lookUpResource("note", revision.noteId) : null
+      : await lookUpResource(kind, frame[resource] as ID | null);
+
+    let acting = requester;
+    if (found && found.owner !== requester) {
+      const [access] = await Sharing._getAccessLevel({
+        user: requester,
+        resources: found.path,
+      });
+      if (access && (level === "viewer" || access.level === "editor")) {
+        acting = found.owner;
+      }
+    }
+    result.push({ ...frame, [actingUser]: acting });
+  }
+  return result;
+};
+
+/**
+ * Reusable where clause that reads what a share link points to: a note's title, content and summary,
+ * or a folder's title and every note in its subtree. Binds null if the note or folder is gone or in the trash.
+ */
+const bindLinkedContent = async (
+  frames: Frames,
+  resource: symbol,
+  kind: symbol,
+  shared: symbol,
+): Promise<Frames> => {
+  const readNotes = async (noteIds: ID[]) => {
+    const notes = await Notes._getNoteContents({ noteIds });
+    const summaries = await Summaries._getSummariesForItems({ items: noteIds });
+    return notes.map((note) => ({
+      _id: note.noteId,
+      title: note.title,
+      content: note.content,
+      summary: summaries.find((s) => s._id === note.noteId)?.summary ?? null,
+    }));
+  };
+
+  const result = new Frames();
+  for (const frame of frames) {
+    const id = frame[resource] as ID;
+    let content = null;
+    if ((frame[kind] as LinkKind) === "folder") {
+      const [folder] = await Folder._getSubtreeItems({ folder: id });
+      if (folder) {
+        const notes = await readNotes(folder.items);
+        content = { kind: "folder", title: folder.title, notes };
+      }
+    } else {
+      const [note] = await readNotes([id]);
+      if (note) {
+        content = { kind: "note", ...note };
+      }
+    }
+    result.push({ ...frame, [shared]: content });
+  }
+  return result;
+};
+
+/**
+ * Drops trashed notes from a folder tree and recounts each folder's notes,
+ * optionally listing the title of every note in its folder
+ */
+const joinNoteTitles = (
+  node: FolderTreeNode,
+  titles: Map<ID, string>,
+  includeTitles: boolean,
+): FolderTreeNode & { notes?: { _id: ID; title: string }[] } => {
+  const elements = node.elements.filter((item) => titles.has(item));
+  return {
+    ...node,
+    elements,
+    noteCount: elements.length,
+    folders: node.folders.map((child) =>
+      joinNoteTitles(child, titles, includeTitles)
+    ),
+    ...(includeTitles
+      ? {
+        notes: elements.map((item) => ({
+          _id: item,
+          title: titles.get(item)!,
+        })),
+      }
+      : {}),
+  };
+};
+
+/**
+ * Joins a user's prioritized items with their notes for the dashboard, ordered by priority
+ * and then by the most recently edited note. Items that aren't the user's notes, notes in the trash,
+ * and notes not edited since they were marked reviewed are left out
+ */
+const buildDashboard = async (user: ID, items: PrioritizedItem[]) => {
+  const headers = await Notes._getNoteHeaders({
+    user,
+    noteIds: items.map((entry) => entry.item),
+  });
+  const byNote = new Map(headers.map((header) => [header.noteId, header]));
+  const dashboard = [];
+  for (const entry of items) {
+    const header = byNote.get(entry.item);
+    if (!header) continue;
+    if (entry.reviewedAt && entry.reviewedAt >= header.last_modified) continue;
+    dashboard.push({
+      _id: entry.item,
+      title: header.title,
+      last_modified: header.last_modified,
+      priority: entry.priority,
+      labels: entry.labels,
+      dueAt: entry.dueAt,
+    });
+  }
+  return dashboard.sort((a, b) =>
+    priorityRank(a.priority) - priorityRank(b.priority) ||
+    b.last_modified.getTime() - a.last_modified.getTime()
+  );
+};
+
+/**
+ * Symbol for the raw request input read by the search response sync
+ */
+const searchInput = Symbol("searchInput");
+
+type NoteRecord = {
+  _id: ID;
+  title: string;
+  content: string;
+  date_created: Date;
+  last_modified: Date;
+};
+type TagRecord = { label: string; items: ID[] };
+
+/**
+ * Loads the user's notes that have a word starting with every query term in their title, content,
+ * summary or tag labels, using the terms the Notes and Summaries concepts store for search
+ */
+const findSearchCandidates = async (
+  user: ID,
+  query: string,
+  tags: TagRecord[],
+): Promise<NoteRecord[]> => {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) {
+    return [];
+  }
+  const noteIds = (await Notes._getAllNoteIds({ user })).map(({ noteId }) =>
+    noteId
   );
-  return frames;
+
+  const matchingPerTerm: Set<ID>[] = [];
+  for (const term of terms) {
+    const matching = new Set<ID>();
+    for (const { noteId } of await Notes._findByTermPrefix({ user, term })) {
+      matching.add(noteId);
+    }
+    const summarized = await Summaries._findByTermPrefix({
+      items: noteIds,
+      term,
+    });
+    summarized.forEach(({ item }) => matching.add(item));
+    for (const tag of tags) {
+      if (tokenize(tag.label).some((word) => word.startsWith(term))) {
+        tag.items.forEach((item) => matching.add(item));
+      }
+    }
+    if (matching.size === 0) {
+      return [];
+    }
+    matchingPerTerm.push(matching);
+  }
+
+  const [first, ...rest] = matchingPerTerm;
+  const notes = await Notes._getSearchableNotes({
+    user,
+    noteIds: [...first].filter((id) => rest.every((set) => set.has(id))),
+  });
+  return notes.map(({ noteId, ...note }) => ({ _id: noteId, ...note }));
+};
+
+/**
+ * Assembles the searchable documents for a user's notes, joining in folders, tags and summaries,
+ * and applies the optional folder subtree and tag filters
+ */
+const buildSearchDocuments = async (
+  notes: NoteRecord[],
+  folders: FolderStructure[],
+  tags: TagRecord[],
+  folderId?: ID,
+  tagLabel?: string,
+): Promise<SearchDocument[]> => {
+  const noteToFolderMap = new Map<ID, ID>();
+  for (const folder of folders) {
+    for (const noteId of folder.elements) {
+      noteToFolderMap.set(noteId, folder._id);
+    }
+  }
+
+  // Collect the folder and all of its descendants
+  let subtree: Set<ID> | null = null;
+  if (folderId) {
+    const byId = new Map(folders.map((f) => [f._id as ID, f]));
+    subtree = new Set<ID>();
+    const stack: ID[] = [folderId];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (subtree.has(current)) continue;
+      subtree.add(current);
+      stack.push(...(byId.get(current)?.folders ?? []));
+    }
+  }
+
+  const noteTags = new Map<ID, string[]>();
+  for (const tag of tags) {
+    for (const item of tag.items) {
+      noteTags.set(item, [...(noteTags.get(item) ?? []), tag.label]);
+    }
+  }
+
+  const visible = notes.filter((note) => {
+    if (subtree && !subtree.has(noteToFolderMap.get(note._id) as ID)) {
+      return false;
+    }
+    if (tagLabel && !(noteTags.get(note._id) ?? []).includes(tagLabel)) {
+      return false;
+    }
+    return true;
+  });
+
+  const summaries = await Summaries._getSummariesForItems({
+    items: visible.map((note) => note._id),
+  });
+  const summaryMap = new Map(summaries.map((s) => [s._id, s.summary]));
+
+  return visible.map((note) => ({
+    _id: note._id,
+    title: note.title,
+    content: note.content,
+    summary: summaryMap.get(note._id) ?? "",
+    tags: noteTags.get(note._id) ?? [],
+    folderId: noteToFolderMap.get(note._id) ?? null,
+    last_modified: note.last_modified,
+  }));
+};
+
+/**
+ * Assembles the documents a note query is evaluated against, joining in tags and each note's folder path
+ */
+const buildQueryDocuments = (
+  notes: NoteRecord[],
+  folders: FolderStructure[],
+  tags: TagRecord[],
+): QueryDocument[] => {
+  const byId = new Map(folders.map((folder) => [folder._id as ID, folder]));
+  // Titles from below the root down to each folder; the root itself has no title in a path
+  const pathOf = (folderId: ID): string[] => {
+    const titles: string[] = [];
+    let current = byId.get(folderId);
+    while (current && current.parent !== null) {
+      titles.unshift(current.title);
+      current = byId.get(current.parent as ID);
+    }
+    return titles;
+  };
+
+  const noteToFolderMap = new Map<ID, ID>();
+  for (const folder of folders) {
+    for (const noteId of folder.elements) {
+      noteToFolderMap.set(noteId, folder._id);
+    }
+  }
+
+  const noteTags = new Map<ID, string[]>();
+  for (const tag of tags) {
+    for (const item of tag.items) {
+      noteTags.set(item, [...(noteTags.get(item) ?? []), tag.label]);
+    }
+  }
+
+  return notes.map((note) => {
+    const folderId = noteToFolderMap.get(note._id) ?? null;
+    return {
+      _id: note._id,
+      title: note.title,
+      content: note.content,
+      tags: noteTags.get(note._id) ?? [],
+      folderId,
+      folderPath: folderId ? pathOf(folderId) : null,
+      date_created: note.date_created,
+      last_modified: note.last_modified,
+    };
+  });
+};
+
+/**
+ * Reusable where clause that binds the number (and optionally the content) of a note's
+ * latest revision, or null when the note has no revisions
+ */
+const bindLatestRevision = async (
+  frames: Frames,
+  noteId: symbol,
+  revision: symbol,
+  content?: symbol,
+): Promise<Frames> => {
+  const result = new Frames();
+  for (const frame of frames) {
+    const [latest] = await Notes._getLatestRevision({
+      noteId: frame[noteId] as ID,
+    });
+    result.push({
+      ...frame,
+      [revision]: latest?.revision ?? null,
+      ...(content ? { [content]: latest?.content ?? null } : {}),
+    });
+  }
+  return result;
+};
+
+/**
+ * Reusable where clause that binds the prompt and output sizes of an LLM call.
+ * Frames with blank text are dropped, since no call is made for them.
+ */
+const bindCallSize = (
+  frames: Frames,
+  text: symbol,
+  output: symbol | null,
+  promptChars: symbol,
+  outputChars: symbol,
+): Frames => {
+  const result = new Frames();
+  for (const frame of frames) {
+    const prompt = String(frame[text] ?? "");
+    if (prompt.trim().length === 0) {
+      continue;
+    }
+    result.push({
+      ...frame,
+      [promptChars]: prompt.length,
+      [outputChars]: output ? String(frame[output] ?? "").length : 0,
+    });
+  }
+  return result;
 };
@@ -1,6 +1,12 @@
 // This import loads the `.env` file as environment variables
 import "jsr:@std/dotenv/load";
-import { Db, MongoClient } from "npm:mongodb";
+import {
+  ClientSession,
+  CreateIndexesOptions,
+  Db,
+  MongoClient,
+  MongoServerError,
+} from "npm:mongodb";
 import { ID } from "@utils/types.ts";
 import { generate } from "jsr:@std/uuid/unstable-v7";
 
@@ -18,6 +24,11 @@ async function initMongoClient() {
   return client;
 }
 
+// The client behind each database handed out, so transactions can start sessions on it
+const clients = new WeakMap<Db, MongoClient>();
+// Whether each client's deployment supports transactions, checked once per client
+const transactionSupport = new WeakMap<MongoClient, Promise<boolean>>();
+
 async function init() {
   const client = await initMongoClient();
   const DB_NAME = Deno.env.get("DB_NAME");
@@ -48,7 +59,9 @@ async function dropAllCollections(db: Db): Promise<void> {
  */
 export async function getDb() {
   const [client, DB_NAME] = await init();
-  return [client.db(DB_NAME), client] as [Db, MongoClient];
+  const db = client.db(DB_NAME);
+  clients.set(db, client);
+  return [db, client] as [Db, MongoClient];
 }
 
 /**
@@ -60,9 +73,29 @@ export async function testDb() {
   const test_DB_NAME = `test-${DB_NAME}`;
   const test_Db = client.db(test_DB_NAME);
   await dropAllCollections(test_Db);
+  clients.set(test_Db, client);
   return [test_Db, client] as [Db, MongoClient];
 }
 
+/**
+ * Loads the concepts of "@concepts" on the test database, emptied first as by `testDb`.
+ * Syncs and scripts like the integrity checker use those instances, so tests that go
+ * through them can't use "@test-concepts". Call it once per test file, and close the
+ * returned `client` when done.
+ * @returns the "@concepts" module
+ */
+export async function testConcepts(): Promise<typeof import("@concepts")> {
+  const [, client] = await testDb();
+  await client.close();
+  const DB_NAME = Deno.env.get("DB_NAME")!;
+  Deno.env.set("DB_NAME", `test-${DB_NAME}`);
+  try {
+    return await import("@concepts");
+  } finally {
+    Deno.env.set("DB_NAME", DB_NAME);
+  }
+}
+
 /**
  * Creates a fresh ID.
  * @returns {ID} UUID v7 generic ID.
@@ -70,3 +103,92 @@ export async function testDb() {
 export function freshID() {
   return generate() as ID;
 }
+
+/**
+ * Checks whether the deployment behind a database supports transactions.
+ * Only replica set members and sharded clusters do; standalone servers don't.
+ */
+function supportsTransactions(db: Db, client: MongoClient): Promise<boolean> {
+  let supported = transactionSupport.get(client);
+  if (supported === undefined) {
+    supported = db.admin().command({ hello: 1 }).then(
+      (hello) => hello.setName !== undefined || hello.msg === "isdbgrid",
+      () => false,
+    );
+    transactionSupport.set(client, supported);
+  }
+  return supported;
+}
+
+/**
+ * Runs several writes atomically in one transaction: if `fn` throws, none of its writes are applied.
+ * Every read and write in `fn` must pass the session it is given.
+ * On deployments without transactions (a standalone server, or a database not opened with
+ * `getDb`/`testDb`) `fn` runs without a session, so its writes are applied one by one.
+ * @param db The database the writes go to.
+ * @param fn The writes to run, given the transaction's session if there is one.
+ * @returns Whatever `fn` returns.
+ */
+export async function withTransaction<T>(
+  db: Db,
+  fn: (session?: ClientSession) => Promise<T>,
+): Promise<T> {
+  const client = clients.get(db);
+  if (!client || !(await supportsTransactions(db, client))) {
+    return await fn();
+  }
+  const session = client.startSession();
+  try {
+    return await session.withTransaction(() => fn(session));
+  } finally {
+    await session.endSession();
+  }
+}
+
+/**
+ * An index on a collection: its keys, and options such as `unique`.
+ */
+export interface IndexDeclaration {
+  keys: Record<string, 1 | -1>;
+  options?: CreateIndexesOptions;
+}
+
+/**
+ * The indexes a concept needs, keyed by full collection name (e.g. "Note.notes").
+ */
+export type IndexDeclarations = Record<string, IndexDeclaration[]>;
+
+/**
+ * Creates the indexes declared by each concept class in its static `indexes`.
+ * Creating an index that already exists does nothing, so this runs at every startup.
+ * An index that can't be created, e.g. a unique index over existing duplicates, is reported and skipped.
+ * @param db The database holding the concepts' collections.
+ * @param concepts The concept classes, with or without a static `indexes`.
+ */
+export async function createConceptIndexes(
+  db: Db,
+  concepts: object[],
+): Promise<void> {
+  for (const concept of concepts) {
+    const declared = (concept as { indexes?: IndexDeclarations }).indexes;
+    for (const [collection, indexes] of Object.entries(declared ?? {})) {
+      for (const { keys, options } of indexes) {
+        try {
+          await db.collection(collection).createIndex(keys, options ?? {});
+        } catch (e) {
+          console.error(
+            `Error creating index ${JSON.stringify(keys)} on ${collection}:`,
+            e,
+          );
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Checks whether a write failed because it would break a unique index.
+ */
+export function isDuplicateKeyError(e: unknown): boolean {
+  return e instanceof MongoServerError && e.code === 11000;
+}
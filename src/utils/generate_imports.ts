@@ -18,6 +18,37 @@ import { walk } from "jsr:@std/fs";
 const CONCEPTS_DIR = Deno.env.get("CONCEPTS_DIR") ?? "src/concepts";
 const SYNCS_DIR = Deno.env.get("SYNCS_DIR") ?? "src/syncs";
 
+/**
+ * Extra constructor arguments for concepts that need more than the database.
+ * Each entry lists the imports it requires and the argument expressions passed
+ * after `db`, separately for the production and the test barrel file.
+ */
+interface ConceptDependencies {
+  prod: { imports: string[]; args: string[] };
+  test: { imports: string[]; args: string[] };
+}
+
+// Production uses the backend selected by LLM_PROVIDER; tests use the offline extractive one
+const LLM_DEPENDENCIES: ConceptDependencies = {
+  prod: {
+    imports: [
+      `import { loadLLMProvider } from "./Scriblink/llm-provider.ts";`,
+    ],
+    args: ["loadLLMProvider()"],
+  },
+  test: {
+    imports: [
+      `import { ExtractiveLLM } from "./Scriblink/extractive-llm.ts";`,
+    ],
+    args: ["new ExtractiveLLM()"],
+  },
+};
+
+const CONCEPT_DEPENDENCIES: Record<string, ConceptDependencies> = {
+  Summaries: LLM_DEPENDENCIES,
+  Flashcards: LLM_DEPENDENCIES,
+};
+
 interface ConceptInfo {
   name: string; // PascalCase name, e.g., "User"
   dirName: string; // Original directory name, e.g., "user"
@@ -123,10 +154,18 @@ import { SyncConcept } from "@engine";
 export const Engine = new SyncConcept();\n`;
 
   const dbImportFunc = isTest ? "testDb" : "getDb";
-  const dbImport = `import { ${dbImportFunc} } from "@utils/database.ts";\n`;
+  const dbImport =
+    `import { createConceptIndexes, ${dbImportFunc} } from "@utils/database.ts";\n`;
+
+  const dependenciesFor = (c: ConceptInfo) => {
+    const deps = CONCEPT_DEPENDENCIES[c.name];
+    return deps ? (isTest ? deps.test : deps.prod) : { imports: [], args: [] };
+  };
 
   const conceptClassImports = concepts
     .map((c) => `import ${c.name}Concept from "${c.importPath}";`)
+    // Concepts may share a dependency, so each of its imports is only emitted once
+    .concat([...new Set(concepts.flatMap((c) => dependenciesFor(c).imports))])
     .join("\n");
 
   const conceptTypeExports = concepts
@@ -142,11 +181,18 @@ export const [db, client] = await ${dbImportFunc}();
 `;
 
   const instantiations = concepts
-    .map((c) =>
-      `export const ${c.name} = Engine.instrumentConcept(new ${c.name}Concept(db));`
-    )
+    .map((c) => {
+      const args = ["db", ...dependenciesFor(c).args].join(", ");
+      return `export const ${c.name} = Engine.instrumentConcept(new ${c.name}Concept(${args}));`;
+    })
     .join("\n");
 
+  const indexCreation = `
+// Create the indexes each concept declares
+await createConceptIndexes(db, [${
+    concepts.map((c) => `${c.name}Concept`).join(", ")
+  }]);`;
+
   return [
     header,
     dbImport,
@@ -155,6 +201,7 @@ export const [db, client] = await ${dbImportFunc}();
     conceptTypeExports,
     dbInitialization,
     instantiations,
+    indexCreation,
     "", // trailing newline
   ].join("\n");
 }
@@ -0,0 +1,195 @@
+import { Folder, Notes, Summaries, Tags, Trash } from "@concepts";
+import { ID } from "@utils/types.ts";
+
+/**
+ * The kinds of broken references between concepts that the checker finds:
+ * - orphanNote: a note that is in no folder
+ * - missingFolderItem: a folder lists an item that is not a note
+ * - orphanFolder: a folder whose parent folder doesn't exist
+ * - danglingTagItem: a tag lists an item that is neither a note nor a folder
+ * - orphanSummary: a summary of an item that is neither a note nor a folder
+ * - danglingTrashEntry: a trash entry for a note or folder that doesn't exist
+ */
+export type IssueKind =
+  | "orphanNote"
+  | "missingFolderItem"
+  | "orphanFolder"
+  | "danglingTagItem"
+  | "orphanSummary"
+  | "danglingTrashEntry";
+
+/**
+ * One broken reference. `item` is the note, folder or item concerned,
+ * and `container` the folder or tag that refers to it, if any.
+ */
+export interface IntegrityIssue {
+  kind: IssueKind;
+  owner: ID | null;
+  item: ID;
+  container: ID | null;
+}
+
+const ISSUE_KINDS: IssueKind[] = [
+  "orphanNote",
+  "missingFolderItem",
+  "orphanFolder",
+  "danglingTagItem",
+  "orphanSummary",
+  "danglingTrashEntry",
+];
+
+/**
+ * Scans the concepts for references to notes and folders that don't exist, and notes that are in no folder.
+ * Summaries don't record an owner, so orphan summaries are only looked for when scanning the whole database.
+ * @param user The user whose data is scanned, or null to scan the whole database.
+ * @returns Every issue found, the number of issues of each kind, and whether there are none at all.
+ */
+export async function checkIntegrity(
+  user: ID | null,
+): Promise<{
+  issues: IntegrityIssue[];
+  counts: Record<IssueKind, number>;
+  clean: boolean;
+}> {
+  const notes = await Notes._listReferences({ user });
+  const folders = await Folder._listReferences({ user });
+  const tags = await Tags._listReferences({ user });
+  const entries = await Trash._listReferences({ user });
+
+  const noteIds = new Set(notes.map(({ note }) => note));
+  const folderIds = new Set(folders.map(({ folder }) => folder));
+  const filedNotes = new Set(folders.flatMap(({ elements }) => elements));
+  const exists = (item: ID) => noteIds.has(item) || folderIds.has(item);
+  const issues: IntegrityIssue[] = [];
+
+  for (const { note, owner } of notes) {
+    if (!filedNotes.has(note)) {
+      issues.push({ kind: "orphanNote", owner, item: note, container: null });
+    }
+  }
+  for (const { folder, owner, parent, elements } of folders) {
+    for (const item of elements) {
+      if (!noteIds.has(item)) {
+        issues.push({
+          kind: "missingFolderItem",
+          owner,
+          item,
+          container: folder,
+        });
+      }
+    }
+    if (parent && !folderIds.has(parent)) {
+      issues.push({
+        kind: "orphanFolder",
+        owner,
+        item: folder,
+        container: parent,
+      });
+    }
+  }
+  for (const { tag, owner, items } of tags) {
+    for (const item of items) {
+      if (!exists(item)) {
+        issues.push({ kind: "danglingTagItem", owner, item, container: tag });
+      }
+    }
+  }
+  for (const { item, kind, owner } of entries) {
+    if (!(kind === "folder" ? folderIds : noteIds).has(item)) {
+      issues.push({ kind: "danglingTrashEntry", owner, item, container: null });
+    }
+  }
+  if (user === null) {
+    for (const { item } of await Summaries._listReferences({})) {
+      if (!exists(item)) {
+        issues.push({
+          kind: "orphanSummary",
+          owner: null,
+          item,
+          container: null,
+        });
+      }
+    }
+  }
+
+  const counts = Object.fromEntries(
+    ISSUE_KINDS.map((kind) => [
+      kind,
+      issues.filter((issue) => issue.kind === kind).length,
+    ]),
+  ) as Record<IssueKind, number>;
+  return { issues, counts, clean: issues.length === 0 };
+}
+
+/**
+ * Repairs the issues found by `checkIntegrity`: orphan notes are put in their owner's root folder,
+ * orphan folders are moved under it, and references to missing items are dropped.
+ * @param issues The issues to repair.
+ * @returns The number of issues repaired, and the issues that could not be.
+ */
+export async function repairIntegrity(
+  issues: IntegrityIssue[],
+): Promise<{ fixed: number; failed: IntegrityIssue[] }> {
+  const failed: IntegrityIssue[] = [];
+  for (const issue of issues) {
+    const result = await repairIssue(issue);
+    if ("error" in result) {
+      console.error(`❌ ${issue.kind} ${issue.item}: ${result.error}`);
+      failed.push(issue);
+    }
+  }
+  return { fixed: issues.length - failed.length, failed };
+}
+
+/**
+ * Helper function to repair a single issue through the owning concept's actions.
+ */
+async function repairIssue(
+  { kind, owner, item, container }: IntegrityIssue,
+): Promise<object | { error: string }> {
+  switch (kind) {
+    case "orphanNote":
+      return await Folder.reattachItem({ item, user: owner! });
+    case "missingFolderItem":
+      return await Folder.deleteItem({ item });
+    case "orphanFolder": {
+      const [root] = await Folder._getRootFolder({ user: owner! });
+      if (!root) {
+        return { error: `User ${owner} has no root folder.` };
+      }
+      return await Folder.moveFolder({
+        folderId: item,
+        newParentId: root.folder,
+        userId: owner!,
+      });
+    }
+    case "danglingTagItem":
+      return await Tags.removeTagFromItem({ tag: container!, item });
+    case "orphanSummary":
+      return await Summaries.deleteSummary({ item });
+    case "danglingTrashEntry":
+      return await Trash.forgetItem({ item });
+  }
+}
+
+// Usage: deno task integrity [userId] [--fix]
+if (import.meta.main) {
+  const fix = Deno.args.includes("--fix");
+  const [user] = Deno.args.filter((arg) => arg !== "--fix");
+  const { issues, counts, clean } = await checkIntegrity(
+    (user as ID | undefined) ?? null,
+  );
+  console.table(counts);
+  if (clean) {
+    console.log("✅ No broken references found");
+    Deno.exit(0);
+  }
+  if (!fix) {
+    console.table(issues);
+    console.log("❌ Broken references found; rerun with --fix to repair them");
+    Deno.exit(1);
+  }
+  const { fixed, failed } = await repairIntegrity(issues);
+  console.log(`🔧 Repaired ${fixed} of ${issues.length} issues`);
+  Deno.exit(failed.length === 0 ? 0 : 1);
+}
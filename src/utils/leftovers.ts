@@ -0,0 +1,118 @@
+import {
+  Flashcards,
+  Folder,
+  Notes,
+  PasswordAuth,
+  Review,
+  ShareLinks,
+  Sharing,
+  SmartFolders,
+  Summaries,
+  SummaryJobs,
+  Tags,
+  Trash,
+  Usage,
+} from "@concepts";
+import { ID } from "@utils/types.ts";
+
+/**
+ * How many documents of each kind still belong to a user.
+ */
+export interface LeftoverReport {
+  users: number;
+  sessions: number;
+  folders: number;
+  notes: number;
+  revisions: number;
+  tags: number;
+  trashEntries: number;
+  summaryJobs: number;
+  usageCalls: number;
+  grants: number;
+  shareLinks: number;
+  reviewCards: number;
+  flashcards: number;
+  smartFolders: number;
+  summaries: number;
+}
+
+/**
+ * Lists the items a user's data refers to: their notes, trashed items and summary jobs.
+ * Summaries don't record an owner, so capture these before deleting an account
+ * and pass them to `findLeftoverData` to check that their summaries are gone too.
+ * @param user The ID of the user.
+ * @returns The distinct item IDs.
+ */
+export async function findUserItems(user: ID): Promise<ID[]> {
+  const [notes] = await Notes._countForUser({ user });
+  const [trash] = await Trash._countForUser({ user });
+  const [jobs] = await SummaryJobs._countForUser({ user });
+  return [...new Set([...notes.items, ...trash.items, ...jobs.items])];
+}
+
+/**
+ * Reports the data that is still stored for a user, e.g. to check that deleting their account left nothing behind.
+ * Summaries don't record an owner, so only the summaries of `items` and of the items the user's other data
+ * still refers to are counted.
+ * @param user The ID of the user.
+ * @param items The user's items as listed by `findUserItems` before their data was deleted.
+ * @returns The number of remaining documents of each kind, and whether there are none at all.
+ */
+export async function findLeftoverData(
+  user: ID,
+  items: ID[] = [],
+): Promise<{ report: LeftoverReport; clean: boolean }> {
+  const [auth] = await PasswordAuth._countForUser({ user });
+  const [folders] = await Folder._countForUser({ user });
+  const [notes] = await Notes._countForUser({ user });
+  const [tags] = await Tags._countForUser({ user });
+  const [trash] = await Trash._countForUser({ user });
+  const [jobs] = await SummaryJobs._countForUser({ user });
+  const [usage] = await Usage._countForUser({ user });
+  const [sharing] = await Sharing._countForUser({ user });
+  const [links] = await ShareLinks._countForUser({ user });
+  const [review] = await Review._countForUser({ user });
+  const [cards] = await Flashcards._countForUser({ user });
+  const [smart] = await SmartFolders._countForUser({ user });
+
+  const [summaries] = await Summaries._countForItems({
+    items: [
+      ...new Set([...items, ...notes.items, ...trash.items, ...jobs.items]),
+    ],
+  });
+
+  const report: LeftoverReport = {
+    users: auth.users,
+    sessions: auth.sessions,
+    folders: folders.folders,
+    notes: notes.notes,
+    revisions: notes.revisions,
+    tags: tags.tags,
+    trashEntries: trash.trashEntries,
+    summaryJobs: jobs.summaryJobs,
+    usageCalls: usage.usageCalls,
+    grants: sharing.grants,
+    shareLinks: links.shareLinks,
+    reviewCards: review.reviewCards,
+    flashcards: cards.flashcards,
+    smartFolders: smart.smartFolders,
+    summaries: summaries.summaries,
+  };
+  return {
+    report,
+    clean: Object.values(report).every((count) => count === 0),
+  };
+}
+
+// Usage: deno run --allow-net --allow-read --allow-sys --allow-env src/utils/leftovers.ts <userId>
+if (import.meta.main) {
+  const [user] = Deno.args;
+  if (!user) {
+    console.error("Usage: leftovers.ts <userId>");
+    Deno.exit(2);
+  }
+  const { report, clean } = await findLeftoverData(user as ID);
+  console.table(report);
+  console.log(clean ? "✅ No data left for this user" : "❌ Data left over");
+  Deno.exit(clean ? 0 : 1);
+}
@@ -0,0 +1,252 @@
+import * as path from "jsr:@std/path";
+import { walk } from "jsr:@std/fs";
+import { Collection, Db, IndexSpecification } from "npm:mongodb";
+import { getDb, IndexDeclaration } from "@utils/database.ts";
+
+const MIGRATIONS_DIR = Deno.env.get("MIGRATIONS_DIR") ?? "src/migrations/";
+
+// Collection prefix to ensure namespace separation
+const PREFIX = "Migrations" + ".";
+
+/**
+ * A change to the stored documents of one concept.
+ * Migrations live in `{MIGRATIONS_DIR}/{concept prefix}/{version}_{name}.ts`, e.g. `Folder/001_ancestor_paths.ts`,
+ * and export the migration as their default export.
+ */
+export interface Migration {
+  description: string;
+  up(db: Db): Promise<void>;
+  down(db: Db): Promise<void>;
+}
+
+/**
+ * A migration file, with the concept prefix and version taken from its path.
+ */
+interface MigrationFile {
+  id: string; // e.g. "Folder.001"
+  prefix: string; // e.g. "Folder."
+  version: number;
+  name: string;
+  migration: Migration;
+}
+
+/**
+ * State: the ledger of applied migrations, one document per migration.
+ */
+interface LedgerEntry {
+  _id: string;
+  prefix: string;
+  version: number;
+  name: string;
+  appliedAt: Date;
+}
+
+/**
+ * Builds a migration that creates indexes on one collection, and drops them again when reverted.
+ * @param collection The full collection name, e.g. "Note.notes".
+ * @param indexes The indexes to create.
+ * @param description What the migration does.
+ */
+export function indexMigration(
+  collection: string,
+  indexes: IndexDeclaration[],
+  description: string,
+): Migration {
+  return {
+    description,
+    async up(db) {
+      for (const { keys, options } of indexes) {
+        await db.collection(collection).createIndex(keys, options ?? {});
+      }
+    },
+    async down(db) {
+      for (const { keys } of indexes) {
+        await dropIndex(db, collection, keys);
+      }
+    },
+  };
+}
+
+/**
+ * Drops an index by its keys, ignoring indexes that don't exist.
+ */
+export async function dropIndex(
+  db: Db,
+  collection: string,
+  keys: IndexSpecification,
+): Promise<void> {
+  // MongoDB names indexes after their keys unless told otherwise
+  const name = Object.entries(keys).map(([key, dir]) => `${key}_${dir}`).join(
+    "_",
+  );
+  try {
+    await db.collection(collection).dropIndex(name);
+  } catch (e) {
+    const code = (e as { code?: number }).code;
+    // 26: the collection doesn't exist, 27: the index doesn't exist
+    if (code !== 26 && code !== 27) {
+      throw e;
+    }
+  }
+}
+
+/**
+ * Discovers the migration files in a directory, ordered by concept prefix and version.
+ * @param migrationsDir The directory with one subdirectory of migrations per concept prefix.
+ * @returns The migrations found.
+ */
+export async function loadMigrations(
+  migrationsDir: string = MIGRATIONS_DIR,
+): Promise<MigrationFile[]> {
+  const absoluteDir = path.resolve(migrationsDir);
+  const files: MigrationFile[] = [];
+
+  for await (
+    const entry of walk(absoluteDir, {
+      includeFiles: true,
+      includeDirs: false,
+      exts: [".ts"],
+    })
+  ) {
+    const relativePath = path.relative(absoluteDir, entry.path);
+    // 'Folder/001_ancestor_paths.ts' -> 'Folder', '001', 'ancestor_paths'
+    const match = relativePath.match(/^([^/\\]+)[/\\](\d+)_(\w+)\.ts$/);
+    if (!match) {
+      continue;
+    }
+    const [, concept, version, name] = match;
+    const module = await import(path.toFileUrl(entry.path).href);
+    if (!module.default) {
+      throw new Error(`Migration ${relativePath} has no default export.`);
+    }
+    files.push({
+      id: `${concept}.${version}`,
+      prefix: `${concept}.`,
+      version: parseInt(version, 10),
+      name,
+      migration: module.default as Migration,
+    });
+  }
+
+  return files.sort((a, b) =>
+    a.prefix.localeCompare(b.prefix) || a.version - b.version
+  );
+}
+
+/**
+ * Runs database migrations forward and back, recording what was applied in a ledger collection.
+ */
+export class Migrator {
+  private readonly ledger: Collection<LedgerEntry>;
+
+  constructor(
+    private readonly db: Db,
+    private readonly migrations: MigrationFile[],
+  ) {
+    this.ledger = this.db.collection<LedgerEntry>(PREFIX + "ledger");
+  }
+
+  /**
+   * Applies every pending migration, oldest version first.
+   * Stops at the first migration that fails, leaving it pending.
+   * @param prefix Only apply migrations of this concept prefix, e.g. "Folder.".
+   * @returns The IDs of the applied migrations.
+   */
+  async up(prefix?: string): Promise<string[]> {
+    const applied = new Set(
+      (await this.ledger.find({}).toArray()).map((entry) => entry._id),
+    );
+    const done: string[] = [];
+    for (const file of this.migrations) {
+      if (applied.has(file.id) || (prefix && file.prefix !== prefix)) {
+        continue;
+      }
+      console.log(`⬆️  ${file.id} ${file.migration.description}`);
+      await file.migration.up(this.db);
+      await this.ledger.insertOne({
+        _id: file.id,
+        prefix: file.prefix,
+        version: file.version,
+        name: file.name,
+        appliedAt: new Date(),
+      });
+      done.push(file.id);
+    }
+    return done;
+  }
+
+  /**
+   * Reverts the most recently applied migration.
+   * @param prefix Only revert migrations of this concept prefix, e.g. "Folder.".
+   * @returns The ID of the reverted migration, or null if nothing was applied.
+   */
+  async down(prefix?: string): Promise<string | null> {
+    const [last] = await this.ledger.find(prefix ? { prefix } : {})
+      .sort({ appliedAt: -1, version: -1 })
+      .limit(1)
+      .toArray();
+    if (!last) {
+      return null;
+    }
+    const file = this.migrations.find((m) => m.id === last._id);
+    if (!file) {
+      throw new Error(
+        `Migration ${last._id} was applied but its file is gone.`,
+      );
+    }
+    console.log(`⬇️  ${file.id} ${file.migration.description}`);
+    await file.migration.down(this.db);
+    await this.ledger.deleteOne({ _id: last._id });
+    return last._id;
+  }
+
+  /**
+   * Lists every migration and when it was applied.
+   * @returns One row per migration, with a null `appliedAt` if it is pending.
+   */
+  async status(): Promise<
+    { migration: string; description: string; appliedAt: Date | null }[]
+  > {
+    const applied = new Map(
+      (await this.ledger.find({}).toArray()).map((
+        entry,
+      ) => [entry._id, entry.appliedAt]),
+    );
+    return this.migrations.map((file) => ({
+      migration: `${file.id}_${file.name}`,
+      description: file.migration.description,
+      appliedAt: applied.get(file.id) ?? null,
+    }));
+  }
+}
+
+// Usage: deno task migrate up|down|status [prefix]
+if (import.meta.main) {
+  const [command, concept] = Deno.args;
+  // Accept both "Folder" and "Folder."
+  const prefix = concept?.replace(/\.?$/, ".");
+  if (!["up", "down", "status"].includes(command)) {
+    console.error("Usage: migrate.ts up|down|status [prefix]");
+    Deno.exit(2);
+  }
+  const [db, client] = await getDb();
+  try {
+    const migrator = new Migrator(db, await loadMigrations());
+    if (command === "up") {
+      const done = await migrator.up(prefix);
+      console.log(`✅ Applied ${done.length} migrations`);
+    } else if (command === "down") {
+      const reverted = await migrator.down(prefix);
+      console.log(
+        reverted ? `✅ Reverted ${reverted}` : "✅ No migrations to revert",
+      );
+    } else {
+      console.table(await migrator.status());
+    }
+  } catch (e) {
+    console.error(`❌ ${(e as Error).message}`);
+    Deno.exitCode = 1;
+  } finally {
+    await client.close();
+  }
+}
@@ -0,0 +1,371 @@
+/**
+ * A small query language over a user's notes, for example
+ * `tag:exam AND NOT tag:done in:/6.1040 modified:>2026-09-01`.
+ *
+ * Documents are assembled by the query syncs from the Notes, Folder and Tags
+ * concepts; this module only parses queries and evaluates them against documents.
+ *
+ * Grammar, loosest binding first:
+ *   query := and ("OR" and)*
+ *   and   := unary (["AND"] unary)*      adjacent terms are ANDed
+ *   unary := "NOT" unary | "(" query ")" | term
+ *   term  := [field ":"] value            values with spaces go in double quotes
+ *
+ * Terms:
+ *   tag:label              the note has the tag (case-insensitive)
+ *   in:/Folder/Subfolder   the note is in the folder or one of its subfolders, by title from the root
+ *   modified:>2026-09-01   compares the day of the last edit; also <, <=, >=, or = (the default)
+ *   created:<2026-09-01    the same for the day the note was created
+ *   word or "a phrase"     the title or content contains the text (case-insensitive)
+ */
+
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "@utils/search.ts";
+
+// Queries are stored in smart folders, so they are kept short
+export const MAX_QUERY_LENGTH = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DateField = "modified" | "created";
+export type Comparison = "<" | "<=" | "=" | ">=" | ">";
+
+/**
+ * A parsed query. Labels, folder titles and text are lowercased.
+ * A date term's `day` is midnight UTC of the day it names.
+ */
+export type QueryNode =
+  | { kind: "and"; terms: QueryNode[] }
+  | { kind: "or"; terms: QueryNode[] }
+  | { kind: "not"; term: QueryNode }
+  | { kind: "tag"; label: string }
+  | { kind: "in"; path: string[] }
+  | { kind: "date"; field: DateField; comparison: Comparison; day: Date }
+  | { kind: "text"; text: string };
+
+export interface QueryDocument {
+  _id: string;
+  title: string;
+  content: string;
+  tags: string[];
+  folderId: string | null;
+  // Titles of the folders from below the root down to the note's folder; null if the note is in no folder
+  folderPath: string[] | null;
+  date_created: Date;
+  last_modified: Date;
+}
+
+export interface QueryResult {
+  _id: string;
+  title: string;
+  tags: string[];
+  folderId: string | null;
+  last_modified: Date;
+}
+
+type Token =
+  | { type: "(" | ")" | "AND" | "OR" | "NOT" }
+  | { type: "term"; field: string | null; value: string };
+
+/**
+ * Thrown while parsing, and turned into an `{ error }` result by `parseNoteQuery`.
+ */
+class QuerySyntaxError extends Error {}
+
+/**
+ * Splits a query into parentheses, operators and terms.
+ * Operators are only recognized in capitals and outside quotes, so `and` or `"NOT"` are searched as text.
+ */
+function tokenizeQuery(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === "(" || char === ")") {
+      tokens.push({ type: char });
+      i++;
+      continue;
+    }
+
+    let field: string | null = null;
+    let value = "";
+    let quoted = false;
+    while (i < query.length && !/[\s()]/.test(query[i])) {
+      if (query[i] === '"') {
+        const end = query.indexOf('"', i + 1);
+        if (end === -1) {
+          throw new QuerySyntaxError("A quote is never closed.");
+        }
+        value += query.slice(i + 1, end);
+        quoted = true;
+        i = end + 1;
+      } else if (
+        query[i] === ":" && field === null && !quoted &&
+        /^[a-z]+$/i.test(value)
+      ) {
+        field = value.toLowerCase();
+        value = "";
+        i++;
+      } else {
+        value += query[i];
+        i++;
+      }
+    }
+
+    if (
+      field === null && !quoted &&
+      (value === "AND" || value === "OR" || value === "NOT")
+    ) {
+      tokens.push({ type: value });
+    } else if (field !== null && value.trim() === "") {
+      throw new QuerySyntaxError(`"${field}:" needs a value.`);
+    } else if (value.trim() !== "") {
+      tokens.push({ type: "term", field, value: value.trim() });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Parses a YYYY-MM-DD day, with an optional comparison in front, into midnight UTC of that day.
+ */
+function parseDateTerm(
+  field: DateField,
+  value: string,
+): QueryNode {
+  const match = value.match(/^(<=|>=|<|>|=)?(\d{4}-\d{2}-\d{2})$/);
+  const day = match ? new Date(`${match[2]}T00:00:00Z`) : null;
+  // Round-tripping rejects days that don't exist, like 2026-02-30
+  if (
+    !match || !day || isNaN(day.getTime()) ||
+    day.toISOString().slice(0, 10) !== match[2]
+  ) {
+    throw new QuerySyntaxError(
+      `"${field}:${value}" must be a day like ${field}:>2026-09-01.`,
+    );
+  }
+  return {
+    kind: "date",
+    field,
+    comparison: (match[1] ?? "=") as Comparison,
+    day,
+  };
+}
+
+function buildTerm(field: string | null, value: string): QueryNode {
+  switch (field) {
+    case null:
+      return { kind: "text", text: value.toLowerCase() };
+    case "tag":
+      return { kind: "tag", label: value.toLowerCase() };
+    case "in":
+      return {
+        kind: "in",
+        path: value.split("/").map((title) => title.trim().toLowerCase())
+          .filter((title) => title !== ""),
+      };
+    case "modified":
+    case "created":
+      return parseDateTerm(field, value);
+    default:
+      throw new QuerySyntaxError(
+        `Unknown filter "${field}:". Use tag:, in:, modified: or created:.`,
+      );
+  }
+}
+
+/**
+ * Recursive-descent parser over the tokens, following the grammar at the top of this file.
+ */
+class Parser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): QueryNode {
+    const node = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw new QuerySyntaxError(
+        `Unexpected "${this.describe(this.tokens[this.position])}".`,
+      );
+    }
+    return node;
+  }
+
+  private parseOr(): QueryNode {
+    const terms = [this.parseAnd()];
+    while (this.peek()?.type === "OR") {
+      this.position++;
+      terms.push(this.parseAnd());
+    }
+    return terms.length === 1 ? terms[0] : { kind: "or", terms };
+  }
+
+  private parseAnd(): QueryNode {
+    const terms = [this.parseUnary()];
+    while (true) {
+      const next = this.peek();
+      if (next?.type === "AND") {
+        this.position++;
+      } else if (
+        !next || !(next.type === "term" || next.type === "(" ||
+          next.type === "NOT")
+      ) {
+        break;
+      }
+      terms.push(this.parseUnary());
+    }
+    return terms.length === 1 ? terms[0] : { kind: "and", terms };
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      throw new QuerySyntaxError("The query ends too early.");
+    }
+    if (token.type === "NOT") {
+      return { kind: "not", term: this.parseUnary() };
+    }
+    if (token.type === "(") {
+      const node = this.parseOr();
+      if (this.tokens[this.position++]?.type !== ")") {
+        throw new QuerySyntaxError("A parenthesis is never closed.");
+      }
+      return node;
+    }
+    if (token.type === "term") {
+      return buildTerm(token.field, token.value);
+    }
+    throw new QuerySyntaxError(`Unexpected "${this.describe(token)}".`);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private describe(token: Token): string {
+    return token.type === "term"
+      ? (token.field ? `${token.field}:` : "") + token.value
+      : token.type;
+  }
+}
+
+/**
+ * Parses a query string.
+ * @param query The query, at most MAX_QUERY_LENGTH characters.
+ * @returns The parsed query, or an error describing what is wrong with it.
+ */
+export function parseNoteQuery(
+  query: string,
+): { query: QueryNode } | { error: string } {
+  if (typeof query !== "string" || query.trim() === "") {
+    return { error: "Query cannot be empty." };
+  }
+  if (query.length > MAX_QUERY_LENGTH) {
+    return {
+      error: `Query is too long (at most ${MAX_QUERY_LENGTH} characters).`,
+    };
+  }
+  try {
+    const tokens = tokenizeQuery(query);
+    if (tokens.length === 0) {
+      return { error: "Query cannot be empty." };
+    }
+    return { query: new Parser(tokens).parse() };
+  } catch (e) {
+    if (e instanceof QuerySyntaxError) {
+      return { error: `Invalid query: ${e.message}` };
+    }
+    throw e;
+  }
+}
+
+function matchesDate(
+  time: Date,
+  comparison: Comparison,
+  day: Date,
+): boolean {
+  const value = new Date(time).getTime();
+  const start = day.getTime();
+  const end = start + DAY_MS;
+  switch (comparison) {
+    case "<":
+      return value < start;
+    case "<=":
+      return value < end;
+    case "=":
+      return value >= start && value < end;
+    case ">=":
+      return value >= start;
+    case ">":
+      return value >= end;
+  }
+}
+
+/**
+ * Checks whether a document satisfies a parsed query.
+ */
+export function matchesQuery(node: QueryNode, doc: QueryDocument): boolean {
+  switch (node.kind) {
+    case "and":
+      return node.terms.every((term) => matchesQuery(term, doc));
+    case "or":
+      return node.terms.some((term) => matchesQuery(term, doc));
+    case "not":
+      return !matchesQuery(node.term, doc);
+    case "tag":
+      return doc.tags.some((label) => label.toLowerCase() === node.label);
+    case "in":
+      return doc.folderPath !== null &&
+        node.path.length <= doc.folderPath.length &&
+        node.path.every((title, i) =>
+          doc.folderPath![i].toLowerCase() === title
+        );
+    case "date":
+      return matchesDate(
+        node.field === "modified" ? doc.last_modified : doc.date_created,
+        node.comparison,
+        node.day,
+      );
+    case "text":
+      return doc.title.toLowerCase().includes(node.text) ||
+        doc.content.toLowerCase().includes(node.text);
+  }
+}
+
+/**
+ * Evaluates a parsed query and returns one page of matching notes, most recently modified first.
+ * @param documents The documents to query, already restricted to what the user may see.
+ * @param query The parsed query.
+ * @param page The 1-based page number.
+ * @param pageSize The number of results per page (capped at MAX_PAGE_SIZE).
+ * @returns The page of results and the total number of matching documents.
+ */
+export function queryDocuments(
+  documents: QueryDocument[],
+  query: QueryNode,
+  page: number = 1,
+  pageSize: number = DEFAULT_PAGE_SIZE,
+): { results: QueryResult[]; total: number } {
+  const matched = documents
+    .filter((doc) => matchesQuery(query, doc))
+    .sort((a, b) =>
+      new Date(b.last_modified).getTime() - new Date(a.last_modified).getTime()
+    );
+
+  const size = Math.min(Math.max(1, Math.floor(pageSize)), MAX_PAGE_SIZE);
+  const start = (Math.max(1, Math.floor(page)) - 1) * size;
+  return {
+    results: matched.slice(start, start + size).map((doc) => ({
+      _id: doc._id,
+      title: doc.title,
+      tags: doc.tags,
+      folderId: doc.folderId,
+      last_modified: doc.last_modified,
+    })),
+    total: matched.length,
+  };
+}
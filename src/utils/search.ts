@@ -0,0 +1,213 @@
+/**
+ * Full-text search over a user's notes.
+ *
+ * Notes and summaries store their distinct terms (`indexTerms`) in an indexed field,
+ * so the search syncs only load the notes that have a word starting with every query term.
+ * Documents are then assembled from the Notes, Summaries and Tags concepts;
+ * this module only tokenizes, ranks and builds highlighted snippets.
+ */
+
+/**
+ * The searchable fields of a note, in decreasing order of weight.
+ */
+export type SearchField = "title" | "tags" | "summary" | "content";
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 4,
+  tags: 3,
+  summary: 2,
+  content: 1,
+};
+
+// Number of characters of context kept on each side of the first match in a snippet
+const SNIPPET_CONTEXT = 60;
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export interface SearchDocument {
+  _id: string;
+  title: string;
+  content: string;
+  summary: string;
+  tags: string[];
+  folderId: string | null;
+  last_modified: Date;
+}
+
+/**
+ * A part of a field that matched the query.
+ * `highlights` are [start, end) character offsets into `text`.
+ */
+export interface SearchSnippet {
+  field: SearchField;
+  text: string;
+  highlights: { start: number; end: number }[];
+}
+
+export interface SearchResult {
+  _id: string;
+  title: string;
+  folderId: string | null;
+  last_modified: Date;
+  score: number;
+  snippets: SearchSnippet[];
+}
+
+/**
+ * Splits text into lowercase alphanumeric terms.
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Lists the distinct terms of some texts, to be stored with them for finding candidates by prefix.
+ */
+export function indexTerms(...texts: string[]): string[] {
+  return [...new Set(texts.flatMap(tokenize))];
+}
+
+/**
+ * Builds a filter matching the stored terms that start with a query term.
+ * It is anchored and case-sensitive, so MongoDB can answer it from an index on the terms.
+ */
+export function termPrefix(term: string): RegExp {
+  return new RegExp("^" + term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+}
+
+/**
+ * Finds every word in `text` that starts with one of the `terms`.
+ * A word counts for every term it starts with, so "notes" matches both "note" and "notes".
+ * @returns The matched ranges with the terms they match, in order of appearance.
+ */
+function findMatches(
+  text: string,
+  terms: string[],
+): { start: number; end: number; terms: string[] }[] {
+  const matches: { start: number; end: number; terms: string[] }[] = [];
+  for (const word of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const lower = word[0].toLowerCase();
+    const matched = terms.filter((t) => lower.startsWith(t));
+    if (matched.length > 0) {
+      matches.push({
+        start: word.index!,
+        end: word.index! + word[0].length,
+        terms: matched,
+      });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Cuts a window of text around the first match and rebases the highlights onto it.
+ */
+function buildSnippet(
+  field: SearchField,
+  text: string,
+  matches: { start: number; end: number }[],
+): SearchSnippet {
+  const from = Math.max(0, matches[0].start - SNIPPET_CONTEXT);
+  const to = Math.min(text.length, matches[0].end + SNIPPET_CONTEXT);
+  const prefix = from > 0 ? "…" : "";
+  const suffix = to < text.length ? "…" : "";
+  return {
+    field,
+    text: prefix + text.slice(from, to) + suffix,
+    highlights: matches
+      .filter((m) => m.start >= from && m.end <= to)
+      .map((m) => ({
+        start: m.start - from + prefix.length,
+        end: m.end - from + prefix.length,
+      })),
+  };
+}
+
+/**
+ * Scores a single document against the query terms.
+ * Every term must match at least one field (AND semantics); otherwise the document is skipped.
+ * @returns The result with its score and snippets, or null if the document does not match.
+ */
+function scoreDocument(
+  doc: SearchDocument,
+  terms: string[],
+): SearchResult | null {
+  const fields: [SearchField, string][] = [
+    ["title", doc.title],
+    ["tags", doc.tags.join(", ")],
+    ["summary", doc.summary],
+    ["content", doc.content],
+  ];
+
+  let score = 0;
+  const matchedTerms = new Set<string>();
+  const snippets: SearchSnippet[] = [];
+
+  for (const [field, text] of fields) {
+    const matches = findMatches(text, terms);
+    if (matches.length === 0) continue;
+
+    for (const term of terms) {
+      const count = matches.filter((m) => m.terms.includes(term)).length;
+      if (count > 0) {
+        matchedTerms.add(term);
+        score += FIELD_WEIGHTS[field] * (1 + Math.log(count));
+      }
+    }
+    snippets.push(
+      field === "title" || field === "tags"
+        ? {
+          field,
+          text,
+          highlights: matches.map(({ start, end }) => ({ start, end })),
+        }
+        : buildSnippet(field, text, matches),
+    );
+  }
+
+  if (matchedTerms.size < terms.length) {
+    return null;
+  }
+  return {
+    _id: doc._id,
+    title: doc.title,
+    folderId: doc.folderId,
+    last_modified: doc.last_modified,
+    score,
+    snippets,
+  };
+}
+
+/**
+ * Ranks documents against a free-text query and returns one page of results.
+ * Results are ordered by score, then by most recently modified.
+ * @param documents The documents to search, already restricted to what the user may see.
+ * @param query The free-text query.
+ * @param page The 1-based page number.
+ * @param pageSize The number of results per page (capped at MAX_PAGE_SIZE).
+ * @returns The page of results and the total number of matching documents.
+ */
+export function searchDocuments(
+  documents: SearchDocument[],
+  query: string,
+  page: number = 1,
+  pageSize: number = DEFAULT_PAGE_SIZE,
+): { results: SearchResult[]; total: number } {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) {
+    return { results: [], total: 0 };
+  }
+
+  const ranked = documents
+    .map((doc) => scoreDocument(doc, terms))
+    .filter((result): result is SearchResult => result !== null)
+    .sort((a, b) =>
+      b.score - a.score ||
+      new Date(b.last_modified).getTime() - new Date(a.last_modified).getTime()
+    );
+
+  const size = Math.min(Math.max(1, Math.floor(pageSize)), MAX_PAGE_SIZE);
+  const start = (Math.max(1, Math.floor(page)) - 1) * size;
+  return { results: ranked.slice(start, start + size), total: ranked.length };
+}